@@ -1,10 +1,10 @@
 import { getTenantSlug } from "@/lib/utils/tenant";
 import { getTenantBySlug } from "@/server/tenants/tenants.data";
 import { createClient } from "@/server/supabase/server";
-import { ChatRoot, type AskResult } from "@/components/chat/ChatRoot";
-import { askInSessionAction, createSessionAction } from "@/server/chat/chat.actions";
+import { createSessionAction } from "@/server/chat/chat.actions";
 import { ChatPageClient } from "@/components/chat/ChatPageClient";
 import { getGoogleIntegrationStatus } from "@/server/integrations/tokenManager";
+import { hasPermission } from "@/server/permissions/permissions.data";
 
 export default async function ChatPage() {
   const slug = await getTenantSlug();
@@ -28,6 +28,7 @@ export default async function ChatPage() {
   // Check Gmail integration status
   const gmailStatus = await getGoogleIntegrationStatus(tenant.id);
   const gmailAvailable = gmailStatus.status === "connected";
+  const datasetsAvailable = await hasPermission(tenant.id, "kb.csv.read");
 
   async function createSession(): Promise<string> {
     "use server";
@@ -36,15 +37,7 @@ export default async function ChatPage() {
     return res.id;
   }
 
-  async function ask(sessionId: string, question: string, tools?: { gmail?: boolean }): Promise<AskResult> {
-    "use server";
-    // tools flag is not persisted; only influences server-side orchestration for this ask
-    const res = await askInSessionAction({ tenantId: tenant.id, sessionId, question, tools });
-    if (!res.ok) return res;
-    return { ok: true, text: res.text, citations: res.citations };
-  }
-
-  return <ChatPageClient tenantId={tenant.id} currentUser={{ displayName, avatarUrl }} ask={ask} gmailAvailable={gmailAvailable} />;
+  return <ChatPageClient tenantId={tenant.id} currentUser={{ displayName, avatarUrl }} gmailAvailable={gmailAvailable} datasetsAvailable={datasetsAvailable} />;
 }
 
 
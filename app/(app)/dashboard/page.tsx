@@ -14,7 +14,7 @@ export default async function DashboardPage() {
   const supabase = await createClient();
 
   const [{ count: docsCount }, { data: latestJob }, { count: memberCount }] = await Promise.all([
-    supabase.from("kb_docs").select("id", { count: "exact", head: true }).eq("tenant_id", tenant.id),
+    supabase.from("kb_docs").select("id", { count: "exact", head: true }).eq("tenant_id", tenant.id).neq("status", "deleted"),
     supabase
       .from("kb_ingest_jobs")
       .select("updated_at")
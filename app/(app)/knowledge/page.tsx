@@ -18,6 +18,7 @@ export default async function KnowledgePage() {
   
   // Check write permissions for documents and CSV
   const canWrite = await hasPermission(tenant.id, "kb.write");
+  const canManageSources = await hasPermission(tenant.id, "kb.sources.manage");
 
   // Pre-fetch data on the server for hydration
   const queryClient = new QueryClient();
@@ -33,7 +34,7 @@ export default async function KnowledgePage() {
   return (
     <div className="">
       <HydrationProvider dehydratedState={dehydratedState}>
-        <KnowledgePageClient tenantId={tenant.id} canWrite={canWrite} />
+        <KnowledgePageClient tenantId={tenant.id} canWrite={canWrite} canManageSources={canManageSources} />
       </HydrationProvider>
     </div>
   );
@@ -5,12 +5,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RolesTab } from "@/components/settings/RolesTab";
 import { AssistantPromptSection } from "@/components/settings/AssistantPromptSection";
 import { RagControlsSection } from "@/components/settings/RagControlsSection";
+import { RetrievalEvalSection } from "@/components/settings/RetrievalEvalSection";
+import { FieldSynonymsSection } from "@/components/settings/FieldSynonymsSection";
+import { ApiKeysSection } from "@/components/settings/ApiKeysSection";
+import { WebhooksSection } from "@/components/settings/WebhooksSection";
+import { DEFAULT_FIELD_SYNONYMS } from "@/lib/kb/fields";
 
 export default async function SettingsPage() {
   const slug = await getTenantSlug();
   if (!slug) throw new Error("Tenant not found");
   const tenant = await getTenantBySlug(slug);
   const isAdmin = await hasPermission(tenant.id, "members.manage");
+  const canManageSettings = await hasPermission(tenant.id, "settings.manage");
 
   return (
     <div className=" space-y-4">
@@ -19,17 +25,32 @@ export default async function SettingsPage() {
         <TabsList>
           <TabsTrigger className="hover:cursor-pointer" value="assistant">Assistant</TabsTrigger>
           <TabsTrigger className="hover:cursor-pointer" value="rag">RAG</TabsTrigger>
+          <TabsTrigger className="hover:cursor-pointer" value="evaluation">Evaluation</TabsTrigger>
           <TabsTrigger className="hover:cursor-pointer" value="roles">Roles</TabsTrigger>
+          <TabsTrigger className="hover:cursor-pointer" value="api">API</TabsTrigger>
+          <TabsTrigger className="hover:cursor-pointer" value="webhooks">Webhooks</TabsTrigger>
         </TabsList>
         <TabsContent value="assistant">
           <AssistantPromptSection tenantId={tenant.id} isAdmin={isAdmin} />
         </TabsContent>
         <TabsContent value="rag">
-          <RagControlsSection tenantId={tenant.id} isAdmin={isAdmin} />
+          <div className="space-y-4">
+            <RagControlsSection tenantId={tenant.id} isAdmin={isAdmin} />
+            <FieldSynonymsSection tenantId={tenant.id} isAdmin={isAdmin} builtIn={DEFAULT_FIELD_SYNONYMS} />
+          </div>
+        </TabsContent>
+        <TabsContent value="evaluation">
+          <RetrievalEvalSection tenantId={tenant.id} isAdmin={isAdmin} />
         </TabsContent>
         <TabsContent value="roles">
           <RolesTab tenantId={tenant.id} />
         </TabsContent>
+        <TabsContent value="api">
+          <ApiKeysSection tenantId={tenant.id} isAdmin={canManageSettings} />
+        </TabsContent>
+        <TabsContent value="webhooks">
+          <WebhooksSection tenantId={tenant.id} isAdmin={canManageSettings} />
+        </TabsContent>
       </Tabs>
     </div>
   );
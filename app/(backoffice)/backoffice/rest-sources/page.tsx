@@ -2,9 +2,11 @@ export const dynamic = "force-dynamic";
 import { requirePlatformAdmin } from "@/server/platform/platform-admin.data";
 import { listBackofficeRestSourcesWithCursor } from "@/server/rest/rest.data";
 import { deleteRestSourceAction } from "@/server/rest/rest.actions";
+import { scheduleOf } from "@/server/rest/scheduler";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
 import { SyncButton } from "./sync-button";
+import { ScheduleForm } from "./schedule-form";
 import { DeleteButton } from "@/components/ui/DeleteButton";
 
 export default async function RestSourcesBackofficePage() {
@@ -23,13 +25,13 @@ export default async function RestSourcesBackofficePage() {
     <div className="space-y-8 p-6">
       <div>
         <h1 className="text-2xl font-semibold mb-4">Backoffice — REST Sources</h1>
-        <p className="text-sm text-muted-foreground">Operator-only: run small resumable batches to sync REST sources and manage them.</p>
+        <p className="text-sm text-muted-foreground">Operator-only: run small resumable batches to sync REST sources, schedule them and manage them.</p>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle>REST Sources</CardTitle>
-          <CardDescription>Sources marked backoffice-only. Each batch will fetch a single page and ingest chunks.</CardDescription>
+          <CardDescription>Sources marked backoffice-only. Each batch will fetch a single page and ingest chunks. Scheduled sources are synced by <code>/api/cron/rest-sync</code> (cron times in UTC).</CardDescription>
         </CardHeader>
         <CardContent>
           <Table>
@@ -40,6 +42,7 @@ export default async function RestSourcesBackofficePage() {
                 <TableHead>Next Cursor</TableHead>
                 <TableHead>Metrics</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead>Schedule</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -47,6 +50,7 @@ export default async function RestSourcesBackofficePage() {
               {rows.map((r) => {
                 const cursor = r.cursor;
                 const done = cursor ? cursor.next_cursor == null : false;
+                const schedule = scheduleOf(r.source.config);
                 return (
                   <TableRow key={r.source.id}>
                     <TableCell>
@@ -69,6 +73,17 @@ export default async function RestSourcesBackofficePage() {
                       <div className="text-sm">{cursor?.last_status ?? "—"}{cursor?.last_http_status ? ` (${cursor.last_http_status})` : ""}</div>
                       {cursor?.last_error ? (<div className="text-xs text-destructive mt-1 max-w-[320px] truncate" title={cursor.last_error}>{cursor.last_error}</div>) : null}
                     </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {schedule ? (schedule.cron ? <code>{schedule.cron}</code> : `every ${schedule.intervalMinutes} min`) : "manual"}
+                        {schedule?.paused ? " (paused)" : ""}
+                      </div>
+                      {schedule && !schedule.paused ? (
+                        <div className="text-xs text-muted-foreground">next: {cursor?.next_run_at ? new Date(cursor.next_run_at).toLocaleString() : "now"}</div>
+                      ) : null}
+                      {cursor?.error_count ? (<div className="text-xs text-destructive">{cursor.error_count} failed in a row, backing off</div>) : null}
+                      <div className="mt-2"><ScheduleForm sourceId={r.source.id} schedule={schedule} /></div>
+                    </TableCell>
                     <TableCell className="space-x-2">
                       <SyncButton sourceId={r.source.id} done={done} />
                       <form id={`delete-${r.source.id}`} action={deleteServer} className="inline">
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { updateRestScheduleAction } from "@/server/rest/rest.actions";
+import type { RestSyncSchedule } from "@/lib/kb/rest";
+
+type Props = {
+  sourceId: string;
+  schedule: RestSyncSchedule | null;
+};
+
+export function ScheduleForm({ sourceId, schedule }: Props) {
+  const [isPending, startTransition] = useTransition();
+  const [intervalMinutes, setIntervalMinutes] = useState(schedule?.intervalMinutes ? String(schedule.intervalMinutes) : "");
+  const [cron, setCron] = useState(schedule?.cron ?? "");
+  const [paused, setPaused] = useState(Boolean(schedule?.paused));
+  const router = useRouter();
+
+  function onSave() {
+    startTransition(async () => {
+      const res = await updateRestScheduleAction({
+        sourceId,
+        intervalMinutes: intervalMinutes.trim() ? Number(intervalMinutes) : null,
+        cron,
+        paused,
+      });
+      if (!res.ok) {
+        toast.error(res.error || "Failed to save schedule");
+        return;
+      }
+      toast.success(intervalMinutes.trim() || cron.trim() ? "Schedule saved" : "Schedule removed");
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-1 w-[220px]">
+      <Input className="h-8" type="number" min={5} placeholder="Every N minutes" value={intervalMinutes} onChange={(e) => setIntervalMinutes(e.target.value)} disabled={Boolean(cron.trim())} />
+      <Input className="h-8" placeholder="or cron, e.g. 0 */6 * * *" value={cron} onChange={(e) => setCron(e.target.value)} />
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs">
+          <Checkbox className="size-3.5" checked={paused} onCheckedChange={(val) => setPaused(Boolean(val))} />
+          Paused
+        </label>
+        <Button size="sm" variant="outline" onClick={onSave} disabled={isPending}>
+          {isPending ? "Saving…" : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+export const dynamic = "force-dynamic";
+import { requirePlatformAdmin } from "@/server/platform/platform-admin.data";
+import { listBackofficeWebSourcesWithCursor } from "@/server/web/web.data";
+import { deleteWebSourceAction, restartWebCrawlAction } from "@/server/web/web.actions";
+import type { WebSourceConfig } from "@/lib/kb/crawl";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { DeleteButton } from "@/components/ui/DeleteButton";
+import { CreateWebSourceForm } from "@/components/backoffice/CreateWebSourceForm";
+import { CrawlButton } from "./crawl-button";
+
+export default async function WebSourcesBackofficePage() {
+  await requirePlatformAdmin();
+
+  const rows = await listBackofficeWebSourcesWithCursor();
+
+  async function deleteServer(formData: FormData): Promise<void> {
+    "use server";
+    await requirePlatformAdmin();
+    await deleteWebSourceAction(formData);
+  }
+
+  async function restartServer(formData: FormData): Promise<void> {
+    "use server";
+    await requirePlatformAdmin();
+    await restartWebCrawlAction(formData);
+  }
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold mb-4">Backoffice — Web Sources</h1>
+        <p className="text-sm text-muted-foreground">Operator-only: crawl websites into a tenant&apos;s knowledge in small resumable batches. Each page becomes a document.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Web Source</CardTitle>
+          <CardDescription>Start from a page, a sitemap, or both. The crawl stays on their host(s) and honours robots.txt.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CreateWebSourceForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Web Sources</CardTitle>
+          <CardDescription>Each batch fetches up to 10 pages from the queue, ingesting new and changed pages.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Tenant</TableHead>
+                <TableHead>Queue</TableHead>
+                <TableHead>Metrics</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((r) => {
+                const cursor = r.cursor;
+                const config = (r.source.config || {}) as WebSourceConfig;
+                const done = cursor?.frontier ? cursor.frontier.length === 0 : false;
+                return (
+                  <TableRow key={r.source.id}>
+                    <TableCell>
+                      <div className="font-medium">{r.source.title}</div>
+                      <div className="text-xs text-muted-foreground max-w-[280px] truncate" title={r.source.uri ?? undefined}>{config.startUrl ?? config.sitemapUrl}</div>
+                      <div className="text-xs text-muted-foreground">depth {config.maxDepth ?? "—"} · max {config.maxPages ?? "—"} pages</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{r.tenant?.name ?? "?"}</div>
+                      <div className="text-xs text-muted-foreground">{r.tenant?.slug ?? r.source.tenant_id}</div>
+                    </TableCell>
+                    <TableCell>
+                      {cursor?.frontier ? (
+                        cursor.frontier.length === 0 ? "Completed" : (
+                          <>
+                            <div className="text-sm">{cursor.frontier.length} queued</div>
+                            <div className="text-xs text-muted-foreground max-w-[280px] truncate" title={cursor.frontier[0]!.url}>{cursor.frontier[0]!.url}</div>
+                          </>
+                        )
+                      ) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">fetched: {cursor?.page_count ?? 0}</div>
+                      <div className="text-sm">ingested: {cursor?.item_count ?? 0}</div>
+                      <div className="text-sm">discovered: {cursor?.seen.length ?? 0}</div>
+                      <div className="text-xs text-muted-foreground">{cursor?.last_synced_at ? new Date(cursor.last_synced_at).toLocaleString() : "never"}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{cursor?.last_status ?? "—"}{cursor?.last_http_status ? ` (${cursor.last_http_status})` : ""}</div>
+                      {cursor?.last_error ? (<div className="text-xs text-destructive mt-1 max-w-[320px] truncate" title={cursor.last_error}>{cursor.last_error}</div>) : null}
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      <CrawlButton sourceId={r.source.id} done={done} />
+                      <form action={restartServer} className="inline">
+                        <input type="hidden" name="sourceId" value={r.source.id} />
+                        <Button size="sm" variant="outline" type="submit" disabled={!cursor}>Restart</Button>
+                      </form>
+                      <form id={`delete-${r.source.id}`} action={deleteServer} className="inline">
+                        <input type="hidden" name="sourceId" value={r.source.id} />
+                        <DeleteButton
+                          label="Delete"
+                          title="Delete source?"
+                          description="This will remove all pages and chunks crawled from this source. This action cannot be undone."
+                          formId={`delete-${r.source.id}`}
+                        />
+                      </form>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/server/supabase/server";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { getRecentMessagesForContext } from "@/server/chat/chat.data";
+import { buildDecontextualizedQuestion, isLowSignalQuestion, prepareAnswer, streamSynthesizedAnswer, type AskTools, type Citation } from "@/server/chat/answerPipeline";
+import { runAgent, type AgentToolCall } from "@/server/chat/agent";
+import { encodeSseEvent } from "@/lib/utils/sse";
+import { emitWebhookEvent } from "@/server/webhooks/webhooks";
+
+export const dynamic = "force-dynamic";
+
+type StreamBody = { tenantId?: string; sessionId?: string; question?: string; tools?: AskTools };
+
+/**
+ * Streaming counterpart of `askInSessionAction`.
+ * Emits SSE events: `retrieval` → `citation` (one per source) → `token` (content deltas) → `final`.
+ * In agent mode a `tool` event is sent after each tool call, then the citations and the whole answer as one token.
+ * The assistant message is persisted once, when the stream completes or the client cancels; never after a failure.
+ */
+export async function POST(req: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return NextResponse.json({ ok: false, error: "500" }, { status: 500 });
+  if (!user) return NextResponse.json({ ok: false, error: "401" }, { status: 401 });
+
+  let body: StreamBody | null;
+  try {
+    body = (await req.json()) as StreamBody | null;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Body must be JSON" }, { status: 400 });
+  }
+  const { tenantId, sessionId, question: rawQuestion, tools } = body ?? ({} as StreamBody);
+  const question = (rawQuestion || "").trim();
+  if (!tenantId || !sessionId || !question) return NextResponse.json({ ok: false, error: "Missing input" }, { status: 400 });
+
+  // Save user message first (RLS will enforce membership)
+  const { error: insUserErr } = await supabase.from("chat_messages").insert({
+    tenant_id: tenantId,
+    session_id: sessionId,
+    author_user_id: user.id,
+    role: "user",
+    content: question,
+  });
+  if (insUserErr) return NextResponse.json({ ok: false, error: insUserErr.message }, { status: 403 });
+
+  const upstream = new AbortController();
+  req.signal.addEventListener("abort", () => upstream.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (upstream.signal.aborted) return;
+        try { controller.enqueue(encodeSseEvent(event, data)); } catch {}
+      };
+
+      let text = "";
+      let citations: Citation[] = [];
+      let toolCalls: AgentToolCall[] | null = null;
+      let failed: string | null = null;
+
+      try {
+        // Same context-rewrite rules as askInSessionAction
+        const history = await getRecentMessagesForContext(sessionId, 6);
+        const rewritten = buildDecontextualizedQuestion(question, history.map((m) => ({ role: m.role, content: m.content })));
+        const useRewrite = !isLowSignalQuestion(question);
+        const questionToUse = tools?.gmail === true && tools?.agent !== true ? question : (useRewrite ? rewritten : question);
+
+        // Agent mode; without an OpenAI key runAgent returns null and the question takes the normal path
+        const agent = tools?.agent === true && useRewrite
+          ? await runAgent({ tenantId, userId: user.id, question: questionToUse, gmail: tools.gmail, datasets: tools.datasets, onToolCall: (call) => send("tool", call) })
+          : null;
+        if (agent) {
+          send("retrieval", { chunks: agent.citations.length, stats: null });
+          toolCalls = agent.toolCalls;
+          citations = agent.citations;
+          citations.forEach((c, index) => send("citation", { index, ...c }));
+          text = agent.text;
+          send("token", { text });
+        } else {
+          const prepared = await prepareAnswer({ tenantId, userId: user.id, question: questionToUse, tools });
+          if (prepared.kind === "reply") {
+            send("retrieval", { chunks: 0, stats: null });
+            // Dataset and exact-field replies carry their citation
+            citations = prepared.citations;
+            citations.forEach((c, index) => send("citation", { index, ...c }));
+            text = prepared.text;
+            send("token", { text });
+          } else {
+            send("retrieval", { chunks: prepared.contextChunks.length, stats: prepared.stats });
+            citations = prepared.citations;
+            citations.forEach((c, index) => send("citation", { index, ...c }));
+            for await (const delta of streamSynthesizedAnswer({
+              tenantId,
+              userRole: prepared.userRole,
+              question: questionToUse,
+              contextChunks: prepared.contextChunks,
+              chatModel: prepared.rag?.chat_model,
+              temperature: prepared.rag?.temperature,
+              signal: upstream.signal,
+            })) {
+              text += delta;
+              send("token", { text: delta });
+            }
+          }
+        }
+      } catch (e) {
+        failed = e instanceof Error ? e.message : "error";
+      }
+
+      const cancelled = upstream.signal.aborted;
+      if (isLowSignalQuestion(question)) citations = [];
+
+      // Persist only what the user actually received, and only for a finished or cancelled stream: a failed one is
+      // truncated and the client shows the error instead. Empty answers (failure before first token) are skipped too.
+      let saved = false;
+      if (text.trim() && (!failed || cancelled)) {
+        const { error: insAsstErr } = await supabase.from("chat_messages").insert({
+          tenant_id: tenantId,
+          session_id: sessionId,
+          role: "assistant",
+          content: text,
+          citations,
+          tool_calls: toolCalls,
+        });
+        saved = !insAsstErr;
+
+        try {
+          await supabase.from("audit_logs").insert({
+            tenant_id: tenantId,
+            actor_user_id: user.id,
+            action: "chat.ask_in_session",
+            resource: "chat",
+            meta: { sessionId, chars: text.length, citations: citations.length, streamed: true, cancelled, agent: Boolean(toolCalls) },
+          } as unknown as TablesInsert<"audit_logs">);
+        } catch {}
+        if (!failed && !cancelled) {
+          await emitWebhookEvent(tenantId, "chat.answered", { via: "chat", user_id: user.id, session_id: sessionId, question_chars: question.length, chars: text.length, citations: citations.length });
+        }
+      }
+
+      if (failed && !cancelled) send("error", { error: failed });
+      else send("final", { text, citations, toolCalls, saved, cancelled });
+      try { controller.close(); } catch {}
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runIngestWorker } from "@/server/kb/ingestWorker";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * Background worker for `kb_ingest_jobs` (uploads and re-embeds). Call on a schedule
+ * (e.g. Vercel Cron every minute) with `Authorization: Bearer $CRON_SECRET`; each run claims
+ * jobs under a lease and works until its time budget is spent.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    const budgetMs = Number(process.env.INGEST_WORKER_BUDGET_MS || 45000);
+    const res = await runIngestWorker({ budgetMs });
+    return NextResponse.json({ ok: true, ...res });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runScheduledRestSync } from "@/server/rest/scheduler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * Scheduled sync for REST sources with `config.schedule`. Call every minute with
+ * `Authorization: Bearer $CRON_SECRET`; due sources are synced page by page until done
+ * or the time budget is spent, and resume from their cursor on the next call.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    const budgetMs = Number(process.env.REST_SYNC_BUDGET_MS || 45000);
+    const res = await runScheduledRestSync({ budgetMs });
+    return NextResponse.json({ ok: true, ...res });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
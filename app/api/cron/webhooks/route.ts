@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runWebhookDeliveries } from "@/server/webhooks/webhooks";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * Sends queued webhook deliveries and due retries. Call every minute with `Authorization: Bearer $CRON_SECRET`;
+ * deliveries left when the time budget runs out are picked up by the next call.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    const budgetMs = Number(process.env.WEBHOOK_DELIVERY_BUDGET_MS || 45000);
+    const res = await runWebhookDeliveries({ budgetMs });
+    return NextResponse.json({ ok: true, ...res });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, auditApiCall, authenticateApiKey } from "@/server/apiKeys/apiAuth";
+import { prepareAnswer, synthesizeAnswer } from "@/server/chat/answerPipeline";
+import { emitWebhookEvent } from "@/server/webhooks/webhooks";
+
+export const dynamic = "force-dynamic";
+
+const MAX_QUESTION_CHARS = 4000;
+
+/**
+ * Public counterpart of `askTenantAction` (scope `chat.ask`): same query gate, field index, retrieval guardrails and
+ * synthesis, limited to the chunks the key's role may see. No chat session is created.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authenticateApiKey(req, "chat.ask");
+  if (!auth.ok) return auth.response;
+  const { key } = auth;
+
+  let body: { question?: unknown };
+  try {
+    body = (await req.json()) as { question?: unknown };
+  } catch {
+    return apiError(400, "Body must be JSON");
+  }
+  const question = typeof body.question === "string" ? body.question.trim() : "";
+  if (!question) return apiError(400, "Missing question");
+  if (question.length > MAX_QUESTION_CHARS) return apiError(400, `Question is longer than ${MAX_QUESTION_CHARS} characters`);
+
+  try {
+    const scope = { roleKey: key.roleKey, db: key.db };
+    const prepared = await prepareAnswer({ tenantId: key.tenantId, scope, question });
+    let text: string;
+    if (prepared.kind === "reply") {
+      text = prepared.text;
+    } else {
+      text = await synthesizeAnswer({
+        tenantId: key.tenantId,
+        userRole: prepared.userRole,
+        question,
+        contextChunks: prepared.contextChunks,
+        chatModel: prepared.rag?.chat_model,
+        temperature: prepared.rag?.temperature,
+        db: key.db,
+      });
+    }
+    await auditApiCall(key, "api.ask", { chars: text.length, citations: prepared.citations.length });
+    await emitWebhookEvent(key.tenantId, "chat.answered", { via: "api", api_key_id: key.id, question_chars: question.length, chars: text.length, citations: prepared.citations.length });
+    return NextResponse.json({ ok: true, text, citations: prepared.citations });
+  } catch (e) {
+    return apiError(500, e instanceof Error ? e.message : "error");
+  }
+}
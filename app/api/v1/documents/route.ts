@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, auditApiCall, authenticateApiKey, type ApiKeyContext } from "@/server/apiKeys/apiAuth";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+/** PostgREST's default `max-rows` */
+const VISIBILITY_BATCH = 1000;
+
+type DocRow = { id: string; title: string; uri: string | null; source_id: string | null; version: number; created_at: string };
+
+/**
+ * Docs among `ids` with at least one chunk the role can read, the same rule `getSourceFileUrl` applies. Chunk roles
+ * can differ within a doc, so no single chunk decides.
+ */
+async function visibleDocIds(key: ApiKeyContext, ids: string[]): Promise<Set<string>> {
+  const visible = new Set<string>();
+  let pending = ids;
+  while (pending.length > 0) {
+    const { data, error } = await key.db
+      .from("kb_chunks")
+      .select("doc_id")
+      .eq("tenant_id", key.tenantId)
+      .contains("allowed_roles", [key.roleKey])
+      .in("doc_id", pending)
+      .limit(VISIBILITY_BATCH);
+    if (error) throw new Error(error.message);
+    const rows = (data || []) as Array<{ doc_id: string }>;
+    for (const r of rows) visible.add(r.doc_id);
+    // A short batch saw every readable chunk left; a full one may have been filled by a few large docs
+    if (rows.length < VISIBILITY_BATCH) break;
+    pending = pending.filter((id) => !visible.has(id));
+  }
+  return visible;
+}
+
+/**
+ * Ready documents visible to the key's role (scope `kb.read`), newest first. Paged with `limit` / `offset`;
+ * `nextOffset` is null on the last page. Docs the role can't see are dropped from a page, so a page may be shorter
+ * than `limit` without being the last one.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await authenticateApiKey(req, "kb.read");
+  if (!auth.ok) return auth.response;
+  const { key } = auth;
+
+  const params = req.nextUrl.searchParams;
+  const limit = Math.max(1, Math.min(MAX_LIMIT, Math.floor(Number(params.get("limit"))) || DEFAULT_LIMIT));
+  const offset = Math.max(0, Math.floor(Number(params.get("offset"))) || 0);
+
+  try {
+    const { data, error } = await key.db
+      .from("kb_docs")
+      .select("id, title, uri, source_id, version, created_at")
+      .eq("tenant_id", key.tenantId)
+      .eq("status", "ready")
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true })
+      .range(offset, offset + limit - 1);
+    if (error) throw new Error(error.message);
+    const page = (data || []) as DocRow[];
+
+    const visibleIds = await visibleDocIds(key, page.map((d) => d.id));
+    const documents = page.filter((d) => visibleIds.has(d.id));
+    const nextOffset = page.length === limit ? offset + limit : null;
+    await auditApiCall(key, "api.documents", { offset, limit, returned: documents.length });
+    return NextResponse.json({ ok: true, documents, nextOffset });
+  } catch (e) {
+    return apiError(500, e instanceof Error ? e.message : "error");
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiError, auditApiCall, authenticateApiKey } from "@/server/apiKeys/apiAuth";
+import { retrieveForRole } from "@/server/kb/retrieveForRole";
+
+export const dynamic = "force-dynamic";
+
+const MAX_QUERY_CHARS = 1000;
+const MAX_K = 20;
+
+function truncate(s: string, max = 300): string {
+  const clean = s.replace(/\s+/g, " ").trim();
+  return clean.length > max ? clean.slice(0, max - 1) + "…" : clean;
+}
+
+/** Public counterpart of `previewSearch` (scope `kb.read`): hybrid retrieval over the chunks the key's role may see. */
+export async function POST(req: NextRequest) {
+  const auth = await authenticateApiKey(req, "kb.read");
+  if (!auth.ok) return auth.response;
+  const { key } = auth;
+
+  let body: { query?: unknown; k?: unknown };
+  try {
+    body = (await req.json()) as { query?: unknown; k?: unknown };
+  } catch {
+    return apiError(400, "Body must be JSON");
+  }
+  const query = typeof body.query === "string" ? body.query.trim() : "";
+  if (!query) return apiError(400, "Missing query");
+  if (query.length > MAX_QUERY_CHARS) return apiError(400, `Query is longer than ${MAX_QUERY_CHARS} characters`);
+  const k = Math.max(1, Math.min(MAX_K, Math.floor(Number(body.k)) || 5));
+
+  try {
+    const result = await retrieveForRole({ tenantId: key.tenantId, query, k }, { roleKey: key.roleKey, db: key.db });
+    const docIds = Array.from(new Set(result.chunks.map((c) => c.doc_id)));
+    const { data: docs, error: docsErr } = docIds.length
+      ? await key.db.from("kb_docs").select("id, title, uri").eq("tenant_id", key.tenantId).in("id", docIds)
+      : { data: [], error: null };
+    if (docsErr) throw new Error(docsErr.message);
+    const docById = new Map(((docs || []) as Array<{ id: string; title: string | null; uri: string | null }>).map((d) => [d.id, d]));
+
+    const results = result.chunks.map((c) => {
+      const doc = docById.get(c.doc_id);
+      return {
+        doc_id: c.doc_id,
+        chunk_idx: c.chunk_idx,
+        title: c.title || doc?.title || "Untitled",
+        snippet: truncate(c.content || ""),
+        uri: c.source_uri || doc?.uri || null,
+        score: c.score,
+      };
+    });
+    await auditApiCall(key, "api.search", { k, results: results.length });
+    return NextResponse.json({ ok: true, results, stats: result.stats });
+  } catch (e) {
+    return apiError(500, e instanceof Error ? e.message : "error");
+  }
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { createWebSourceAction } from "@/server/web/web.actions";
+
+function lines(value: string): string[] {
+  return value.split(/[\n,]/).map((s) => s.trim()).filter(Boolean);
+}
+
+export function CreateWebSourceForm() {
+  const router = useRouter();
+  const [tenantSlug, setTenantSlug] = useState("");
+  const [title, setTitle] = useState("");
+  const [startUrl, setStartUrl] = useState("");
+  const [sitemapUrl, setSitemapUrl] = useState("");
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+  const [maxDepth, setMaxDepth] = useState("2");
+  const [maxPages, setMaxPages] = useState("200");
+  const [delayMs, setDelayMs] = useState("1000");
+  const [roles, setRoles] = useState("admin");
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const res = await createWebSourceAction({
+        tenantSlug,
+        title,
+        startUrl,
+        sitemapUrl,
+        include: lines(include),
+        exclude: lines(exclude),
+        maxDepth: Number(maxDepth),
+        maxPages: Number(maxPages),
+        delayMs: Number(delayMs),
+        allowedRoles: lines(roles),
+      });
+      if (!res.ok) throw new Error(res.error || "Failed to create source");
+      return res;
+    },
+    onSuccess: () => {
+      toast.success("Web source created");
+      setTitle("");
+      setStartUrl("");
+      setSitemapUrl("");
+      router.refresh();
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to create source"),
+  });
+
+  return (
+    <form
+      className="grid gap-4 md:grid-cols-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        create.mutate();
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="ws-tenant">Tenant slug</Label>
+        <Input id="ws-tenant" value={tenantSlug} onChange={(e) => setTenantSlug(e.target.value)} required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-title">Title</Label>
+        <Input id="ws-title" value={title} onChange={(e) => setTitle(e.target.value)} required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-start">Start URL</Label>
+        <Input id="ws-start" type="url" placeholder="https://docs.example.com/" value={startUrl} onChange={(e) => setStartUrl(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-sitemap">Sitemap URL</Label>
+        <Input id="ws-sitemap" type="url" placeholder="https://docs.example.com/sitemap.xml" value={sitemapUrl} onChange={(e) => setSitemapUrl(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-include">Include patterns</Label>
+        <Textarea id="ws-include" rows={3} placeholder={"/docs/*"} value={include} onChange={(e) => setInclude(e.target.value)} />
+        <p className="text-xs text-muted-foreground">One per line; <code>*</code> is a wildcard. Paths match the URL path, full URLs the whole URL. Empty = the whole site.</p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-exclude">Exclude patterns</Label>
+        <Textarea id="ws-exclude" rows={3} placeholder={"/blog/*\n*?print=*"} value={exclude} onChange={(e) => setExclude(e.target.value)} />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="ws-depth">Depth</Label>
+          <Input id="ws-depth" type="number" min={0} max={10} value={maxDepth} onChange={(e) => setMaxDepth(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ws-pages">Max pages</Label>
+          <Input id="ws-pages" type="number" min={1} value={maxPages} onChange={(e) => setMaxPages(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ws-delay">Delay (ms)</Label>
+          <Input id="ws-delay" type="number" min={0} value={delayMs} onChange={(e) => setDelayMs(e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="ws-roles">Visible to roles</Label>
+        <Input id="ws-roles" value={roles} onChange={(e) => setRoles(e.target.value)} />
+        <p className="text-xs text-muted-foreground">Comma-separated role keys of the tenant.</p>
+      </div>
+      <div className="md:col-span-2">
+        <Button type="submit" disabled={create.isPending}>{create.isPending ? "Creating…" : "Create web source"}</Button>
+      </div>
+    </form>
+  );
+}
@@ -2,21 +2,25 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { ArrowUp } from "lucide-react";
+import { ArrowUp, Square } from "lucide-react";
 import { SourceSelector, type SourceConfig } from "./SourceSelector";
 
 export function ChatComposer({ 
   onSend, 
+  onStop,
   isPending, 
-  gmailAvailable = false 
+  gmailAvailable = false,
+  datasetsAvailable = false,
 }: { 
   onSend: (text: string, sources?: SourceConfig) => void; 
+  onStop?: () => void;
   isPending: boolean;
   gmailAvailable?: boolean;
+  datasetsAvailable?: boolean;
 }) {
   const ref = useRef<HTMLTextAreaElement | null>(null);
   const [value, setValue] = useState("");
-  const [sources, setSources] = useState<SourceConfig>({ knowledge: true, gmail: false });
+  const [sources, setSources] = useState<SourceConfig>({ knowledge: true, gmail: false, datasets: false, agent: false });
   const maxHeight = 200; // px
 
   const submit = useCallback(() => {
@@ -63,16 +67,28 @@ export function ChatComposer({
             value={sources}
             onChange={setSources}
             gmailAvailable={gmailAvailable}
+            datasetsAvailable={datasetsAvailable}
           />
-          <Button
-            size="sm"
-            onClick={submit}
-            disabled={isPending}
-            aria-label="Send message"
-            className="h-8 w-8 p-0 rounded-full"
-          >
-            <ArrowUp className="h-4 w-4" />
-          </Button>
+          {isPending && onStop ? (
+            <Button
+              size="sm"
+              onClick={onStop}
+              aria-label="Stop generating"
+              className="h-8 w-8 p-0 rounded-full"
+            >
+              <Square className="h-3 w-3 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={submit}
+              disabled={isPending}
+              aria-label="Send message"
+              className="h-8 w-8 p-0 rounded-full"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
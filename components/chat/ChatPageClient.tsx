@@ -4,27 +4,84 @@ import { useEffect, useMemo, useState } from "react";
 import { createClient } from "@/server/supabase/client";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { SessionTabs } from "@/components/chat/SessionTabs";
-import { ChatRoot, type AskResult } from "@/components/chat/ChatRoot";
+import { ChatRoot, type AskResult, type AskStreamHandlers } from "@/components/chat/ChatRoot";
 import type { ChatMessage } from "@/components/chat/MessageList";
+import type { ToolCallItem } from "@/components/chat/ToolCalls";
+import { readSseStream } from "@/lib/utils/sse";
 
 type MessageRow = {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
   citations: unknown;
+  tool_calls: unknown;
   created_at: string;
   author_user_id: string | null;
 };
-type Citation = { doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null };
+type Citation = { doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; kind?: "kb" | "email" | "dataset" };
 
 type Props = {
   tenantId: string;
   currentUser: { displayName: string | null; avatarUrl: string | null };
-  ask: (sessionId: string, question: string, tools?: { gmail?: boolean }) => Promise<AskResult>;
   gmailAvailable?: boolean;
+  datasetsAvailable?: boolean;
 };
 
-export function ChatPageClient({ tenantId, currentUser, ask, gmailAvailable = false }: Props) {
+/**
+ * Calls the streaming chat route and forwards SSE events to the handlers.
+ * Resolves with the final answer (partial text when cancelled via `signal`).
+ */
+async function streamAsk(
+  body: { tenantId: string; sessionId: string; question: string; tools?: { gmail?: boolean; datasets?: boolean; agent?: boolean } },
+  handlers: AskStreamHandlers,
+): Promise<AskResult> {
+  let res: Response;
+  try {
+    res = await fetch("/api/chat/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: handlers.signal,
+    });
+  } catch (e) {
+    if (handlers.signal?.aborted) return { ok: true, text: "", citations: [] };
+    throw e;
+  }
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => null) as { error?: string } | null;
+    return { ok: false, error: data?.error || `Failed (status ${res.status})` };
+  }
+
+  let text = "";
+  const citations: Extract<AskResult, { ok: true }>["citations"] = [];
+  let result: AskResult | null = null;
+  try {
+    await readSseStream(res.body, ({ event, data }) => {
+      if (event === "token") {
+        const delta = (data as { text: string }).text;
+        text += delta;
+        handlers.onToken?.(delta);
+      } else if (event === "tool") {
+        handlers.onToolCall?.(data as ToolCallItem);
+      } else if (event === "citation") {
+        const c = data as Extract<AskResult, { ok: true }>["citations"][number];
+        citations.push(c);
+        handlers.onCitation?.(c);
+      } else if (event === "final") {
+        const final = data as { text: string; citations: typeof citations };
+        result = { ok: true, text: final.text, citations: final.citations };
+      } else if (event === "error") {
+        result = { ok: false, error: (data as { error: string }).error };
+      }
+    });
+  } catch (e) {
+    // Aborted by the user: the server persists what was streamed so far
+    if (!handlers.signal?.aborted) throw e;
+  }
+  return result ?? { ok: true, text, citations };
+}
+
+export function ChatPageClient({ tenantId, currentUser, gmailAvailable = false, datasetsAvailable = false }: Props) {
   const supabase = useMemo(() => createClient(), []);
   const qc = useQueryClient();
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
@@ -66,7 +123,7 @@ export function ChatPageClient({ tenantId, currentUser, ask, gmailAvailable = fa
     queryFn: async () => {
       const { data, error } = await supabase
         .from("chat_messages")
-        .select("id, role, content, citations, created_at, author_user_id")
+        .select("id, role, content, citations, tool_calls, created_at, author_user_id")
         .eq("session_id", activeSessionId)
         .order("created_at", { ascending: true });
       if (error) throw new Error(error.message);
@@ -88,24 +145,26 @@ export function ChatPageClient({ tenantId, currentUser, ask, gmailAvailable = fa
         citations: r.role === "assistant" && Array.isArray(r.citations)
           ? (r.citations as Citation[]).map((c, i) => ({ index: i, ...c }))
           : undefined,
+        toolCalls: r.role === "assistant" && Array.isArray(r.tool_calls) ? (r.tool_calls as ToolCallItem[]) : undefined,
       }));
   }, [messageRows, currentUser.avatarUrl, currentUser.displayName]);
 
   const initialCitations = useMemo(() => {
     const rows = messageRows || [];
     const lastAssistant = [...rows].reverse().find((r) => r.role === "assistant");
-    if (!lastAssistant || !Array.isArray(lastAssistant.citations)) return [] as Array<{ index: number; doc_id: string; chunk_idx: number; title: string | null; snippet?: string | null; score?: number | null; source_uri?: string | null; used?: boolean }>;
+    if (!lastAssistant || !Array.isArray(lastAssistant.citations)) return [] as Array<{ index: number; doc_id: string; chunk_idx: number; title: string | null; snippet?: string | null; score?: number | null; source_uri?: string | null; used?: boolean; kind?: Citation["kind"] }>;
     const list = (lastAssistant.citations as Array<{
-      doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; snippet?: string | null; score?: number | null;
+      doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; snippet?: string | null; score?: number | null; kind?: Citation["kind"];
     }>);
-    return list.map((c, i) => ({ index: i, doc_id: c.doc_id, chunk_idx: c.chunk_idx, title: c.title, snippet: c.snippet ?? null, score: c.score ?? null, source_uri: c.source_uri ?? undefined, used: true }));
+    return list.map((c, i) => ({ index: i, doc_id: c.doc_id, chunk_idx: c.chunk_idx, title: c.title, snippet: c.snippet ?? null, score: c.score ?? null, source_uri: c.source_uri ?? undefined, used: true, kind: c.kind }));
   }, [messageRows]);
 
   // Prefetch full chunk contents for citations to make modal instant
   useEffect(() => {
     const run = async () => {
       if (!initialCitations || initialCitations.length === 0) return;
-      await Promise.all(initialCitations.map(async (c) => {
+      // Only knowledge citations have a chunk to prefetch
+      await Promise.all(initialCitations.filter((c) => !c.kind || c.kind === "kb").map(async (c) => {
         await qc.prefetchQuery<{ content: string; source_uri: string | null } | null>({
           queryKey: ["kb-chunk", c.doc_id, c.chunk_idx],
           queryFn: async () => {
@@ -147,15 +206,19 @@ export function ChatPageClient({ tenantId, currentUser, ask, gmailAvailable = fa
   });
 
   const askForSession = useMemo(() => (
-    async (sid: string, q: string, tools?: { gmail?: boolean }) => {
-      const result = await ask(sid, q, tools);
+    async (sid: string, q: string, tools?: { gmail?: boolean; datasets?: boolean; agent?: boolean }, handlers: AskStreamHandlers = {}) => {
+      const result = await streamAsk({ tenantId, sessionId: sid, question: q, tools }, handlers);
       await Promise.all([
         qc.invalidateQueries({ queryKey: ["chat-sessions", tenantId] }),
         qc.invalidateQueries({ queryKey: ["chat-messages", sid] }),
       ]);
+      if (handlers.signal?.aborted) {
+        // The partial answer is saved server-side after the abort is observed; refetch once more
+        setTimeout(() => { qc.invalidateQueries({ queryKey: ["chat-messages", sid] }); }, 1000);
+      }
       return result;
     }
-  ), [ask, qc, tenantId]);
+  ), [qc, tenantId]);
 
 
   return (
@@ -186,6 +249,7 @@ export function ChatPageClient({ tenantId, currentUser, ask, gmailAvailable = fa
         initialMessages={initialMessages}
         initialCitations={initialCitations}
         gmailAvailable={gmailAvailable}
+        datasetsAvailable={datasetsAvailable}
       />
     </div>
   );
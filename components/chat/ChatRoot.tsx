@@ -6,10 +6,20 @@ import { ChatComposer } from "@/components/chat/ChatComposer";
 import { SourcesPanel, type CitationItem } from "@/components/chat/SourcesPanel";
 import { toast } from "sonner";
 import { TypingDots } from "@/components/chat/TypingDots";
+import { Markdown } from "@/components/chat/Markdown";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { type SourceConfig } from "@/components/chat/SourceSelector";
+import { ToolCalls, type ToolCallItem } from "@/components/chat/ToolCalls";
 
-export type AskResult = { ok: true; text: string; citations: { doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; snippet?: string | null; score?: number | null }[] } | { ok: false; error: string };
+export type AskResult = { ok: true; text: string; citations: { doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; snippet?: string | null; score?: number | null; kind?: "kb" | "email" | "dataset" }[] } | { ok: false; error: string };
+
+export type AskStreamHandlers = {
+  signal?: AbortSignal;
+  onToken?: (delta: string) => void;
+  onCitation?: (citation: Extract<AskResult, { ok: true }>["citations"][number]) => void;
+  /** Agent mode: one call per tool run, before any token */
+  onToolCall?: (call: ToolCallItem) => void;
+};
 
 export function ChatRoot({
   currentUser,
@@ -19,19 +29,25 @@ export function ChatRoot({
   initialMessages = [],
   initialCitations = [],
   gmailAvailable = false,
+  datasetsAvailable = false,
 }: {
   currentUser: { displayName: string | null; avatarUrl: string | null };
   sessionId: string | null;
   ensureSession: () => Promise<string>;
-  askForSession: (sessionId: string, question: string, tools?: { gmail?: boolean }) => Promise<AskResult>;
+  askForSession: (sessionId: string, question: string, tools?: { gmail?: boolean; datasets?: boolean; agent?: boolean }, handlers?: AskStreamHandlers) => Promise<AskResult>;
   initialMessages?: ChatMessage[];
   initialCitations?: CitationItem[];
   gmailAvailable?: boolean;
+  datasetsAvailable?: boolean;
 }) {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [citations, setCitations] = useState<CitationItem[]>(initialCitations);
   const [lastQueryTerms, setLastQueryTerms] = useState<string[]>([]);
   const [pending, setPending] = useState(false);
+  // Partial assistant answer while tokens stream in; cleared once the persisted message is refetched
+  const [streamingText, setStreamingText] = useState("");
+  const [streamingTools, setStreamingTools] = useState<ToolCallItem[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   // Keeping local input state only; no regenerate feature
   const bottomRef = useRef<HTMLDivElement | null>(null);
 
@@ -47,6 +63,10 @@ export function ChatRoot({
 
   const onSend = useCallback(async (text: string, sources?: SourceConfig) => {
     setPending(true);
+    setStreamingText("");
+    setStreamingTools([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
       const sid = sessionId || (await ensureSession());
       // For new sessions, don't show user message until after session creation
@@ -56,8 +76,6 @@ export function ChatRoot({
           { id: crypto.randomUUID(), role: "user", text, createdAt: Date.now(), displayName: currentUser.displayName || "You", avatarUrl: currentUser.avatarUrl },
         ]);
       }
-      const json = await askForSession(sid, text, { gmail: sources?.gmail || false });
-      if (!json.ok) throw new Error(json.error);
       // derive query terms for highlighting
       const terms = text
         .toLowerCase()
@@ -65,10 +83,22 @@ export function ChatRoot({
         .filter(Boolean)
         .filter((t) => !new Set(["the","a","an","and","or","but","of","to","in","on","for","with","is","it","this","that","hey","hi","hello","thanks"]).has(t));
       setLastQueryTerms(terms);
+      const streamed: CitationItem[] = [];
+      const json = await askForSession(sid, text, { gmail: sources?.gmail || false, datasets: sources?.datasets || false, agent: sources?.agent || false }, {
+        signal: controller.signal,
+        onToken: (delta) => setStreamingText((prev) => prev + delta),
+        onToolCall: (call) => setStreamingTools((prev) => [...prev, call]),
+        onCitation: (c) => {
+          streamed.push({ index: streamed.length, doc_id: c.doc_id, chunk_idx: c.chunk_idx, title: c.title, snippet: c.snippet || null, score: c.score ?? null, source_uri: c.source_uri || undefined, used: true, kind: c.kind });
+          setCitations([...streamed]);
+        },
+      });
+      if (!json.ok) throw new Error(json.error);
+      if (controller.signal.aborted) return;
       const idxMap = new Map<string, number>();
       const items: CitationItem[] = (json.citations || []).map((c, i) => {
         idxMap.set(`${c.doc_id}_${c.chunk_idx}`, i);
-        return { index: i, doc_id: c.doc_id, chunk_idx: c.chunk_idx, title: c.title, snippet: c.snippet || null, score: c.score ?? null, source_uri: c.source_uri || undefined, used: true };
+        return { index: i, doc_id: c.doc_id, chunk_idx: c.chunk_idx, title: c.title, snippet: c.snippet || null, score: c.score ?? null, source_uri: c.source_uri || undefined, used: true, kind: c.kind };
       });
       setCitations(items);
       // Don't add messages manually here - let TanStack Query refresh handle it
@@ -76,16 +106,23 @@ export function ChatRoot({
       const msg = e instanceof Error ? e.message : "Error";
       toast.error(msg);
     } finally {
+      abortRef.current = null;
       setPending(false);
+      setStreamingText("");
+      setStreamingTools([]);
     }
   }, [askForSession, ensureSession, sessionId, currentUser.displayName, currentUser.avatarUrl]);
 
+  const onStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   const empty = useMemo(() => messages.length === 0, [messages.length]);
 
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
-  }, [messages, pending]);
+  }, [messages, pending, streamingText, streamingTools]);
 
   return (
     <div className="relative grid gap-4 h-full md:grid-cols-[1fr_320px]">
@@ -109,7 +146,14 @@ export function ChatRoot({
                         <div className="h-6 w-6 rounded-full bg-muted" />
                         <div className="truncate max-w-[200px]">Assistant</div>
                       </div>
-                      <TypingDots />
+                      <ToolCalls calls={streamingTools} open />
+                      {streamingText ? (
+                        <div className="mt-2 text-sm">
+                          <Markdown text={streamingText} />
+                        </div>
+                      ) : (
+                        <TypingDots />
+                      )}
                     </div>
                   )}
                   <div ref={bottomRef} />
@@ -121,7 +165,7 @@ export function ChatRoot({
         {/* Fixed composer at viewport bottom */}
         <div className="fixed bottom-0 left-0 right-0 md:left-[240px] z-40 border-t bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
           <div className="container mx-auto max-w-8xl px-4 sm:px-6 md:px-8 py-2">
-            <ChatComposer onSend={onSend} isPending={pending} gmailAvailable={gmailAvailable} />
+            <ChatComposer onSend={onSend} onStop={onStop} isPending={pending} gmailAvailable={gmailAvailable} datasetsAvailable={datasetsAvailable} />
           </div>
         </div>
       </div>
@@ -4,7 +4,7 @@ import { useMemo } from "react";
 import { unified } from "unified";
 import remarkParse from "remark-parse";
 
-type Node = { type: string; value?: string; children?: Node[] };
+type Node = { type: string; value?: string; children?: Node[]; position?: { start: { offset?: number }; end: { offset?: number } } };
 
 function renderNode(node: Node, key?: number): JSX.Element | null {
   switch (node.type) {
@@ -41,6 +41,51 @@ function renderNode(node: Node, key?: number): JSX.Element | null {
   }
 }
 
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((c) => c.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * GitHub-style tables (dataset answers). remark-parse without GFM reads them as a paragraph, so the paragraph's
+ * source is checked for a header row followed by a `| --- |` divider.
+ */
+function parseTable(source: string): { header: string[]; rows: string[][] } | null {
+  const lines = source.split("\n").map((l) => l.trim());
+  if (lines.length < 2 || !lines.every((l) => l.startsWith("|"))) return null;
+  if (!/^\|(\s*:?-{3,}:?\s*\|)+$/.test(lines[1]!)) return null;
+  return { header: splitRow(lines[0]!), rows: lines.slice(2).map(splitRow) };
+}
+
+function MarkdownTable({ table }: { table: { header: string[]; rows: string[][] } }) {
+  return (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">
+        <thead>
+          <tr>
+            {table.header.map((h, i) => (
+              <th key={i} className="border-b px-2 py-1 text-left font-medium">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((r, i) => (
+            <tr key={i} className="border-b last:border-0">
+              {r.map((c, j) => (
+                <td key={j} className="px-2 py-1 align-top">{c}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 export function Markdown({ text }: { text: string }) {
   const tree = useMemo(() => {
     try {
@@ -53,7 +98,14 @@ export function Markdown({ text }: { text: string }) {
 
   const children = (tree as unknown as { children?: Node[] }).children || [];
   return (
-    <div className="prose prose-sm max-w-none dark:prose-invert">{children.map((c, i) => renderNode(c, i))}</div>
+    <div className="prose prose-sm max-w-none dark:prose-invert">
+      {children.map((c, i) => {
+        const start = c.position?.start.offset;
+        const end = c.position?.end.offset;
+        const table = c.type === "paragraph" && start !== undefined && end !== undefined ? parseTable(text.slice(start, end)) : null;
+        return table ? <MarkdownTable key={i} table={table} /> : renderNode(c, i);
+      })}
+    </div>
   );
 }
 
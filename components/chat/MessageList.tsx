@@ -3,6 +3,7 @@
 import { Markdown } from "@/components/chat/Markdown";
 import { CopyButton } from "@/components/chat/MessageActions";
 import { SourceDialog } from "@/components/chat/SourceDialog";
+import { ToolCalls, type ToolCallItem } from "@/components/chat/ToolCalls";
 
 export type ChatMessage = {
   id: string;
@@ -11,7 +12,9 @@ export type ChatMessage = {
   createdAt: number;
   displayName?: string | null;
   avatarUrl?: string | null;
-  citations?: { index: number; doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; score?: number | null }[];
+  citations?: { index: number; doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; score?: number | null; kind?: "kb" | "email" | "dataset" }[];
+  /** Agent answers only */
+  toolCalls?: ToolCallItem[];
 };
 
 export function MessageList({ messages, queryTerms = [] }: { messages: ChatMessage[]; queryTerms?: string[] }) {
@@ -27,6 +30,7 @@ export function MessageList({ messages, queryTerms = [] }: { messages: ChatMessa
           <div className="text-sm">
             {m.role === "assistant" ? <Markdown text={m.text} /> : <p className="whitespace-pre-wrap">{m.text}</p>}
           </div>
+          {m.role === "assistant" && m.toolCalls && <ToolCalls calls={m.toolCalls} />}
           {m.role === "assistant" && (
             <div className="mt-2 flex items-center gap-2">
               <CopyButton text={m.text} />
@@ -34,7 +38,19 @@ export function MessageList({ messages, queryTerms = [] }: { messages: ChatMessa
           )}
           {m.role === "assistant" && (m.citations?.length || 0) > 0 && (
             <div className="mt-2 text-xs text-muted-foreground">
-              {(m.citations || []).map((c) => (
+              {(m.citations || []).map((c) => c.kind && c.kind !== "kb" ? (
+                // Emails and dataset queries have no chunk to open; link to Gmail or the dataset instead
+                <a
+                  key={`${c.kind}_${c.index}`}
+                  href={c.source_uri || undefined}
+                  target={c.kind === "email" ? "_blank" : undefined}
+                  rel="noreferrer"
+                  title={c.title || undefined}
+                  className="mr-2 align-super underline hover:text-blue-500"
+                >
+                  [{c.index + 1}]
+                </a>
+              ) : (
                 <SourceDialog
                   key={`${c.doc_id}_${c.chunk_idx}`}
                   citation={c}
@@ -6,6 +6,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { createClient } from "@/server/supabase/client";
 import { useQuery } from "@tanstack/react-query";
 import { CopyButton } from "@/components/chat/MessageActions";
+import { SourcePageView, type PageBox } from "@/components/chat/SourcePageView";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { getSourceFileUrl } from "@/server/kb/kb.actions";
 import { toast } from "sonner";
 
 type Citation = {
@@ -17,6 +20,14 @@ type Citation = {
   score?: number | null;
 };
 
+/** Layout fields of PDF/scan chunk metadata; absent on other chunks */
+type ChunkLayout = {
+  page_start?: number;
+  page_end?: number;
+  line_bboxes?: PageBox[];
+  bbox_origin?: string;
+};
+
 type Props = {
   citation: Citation;
   index: number;
@@ -27,25 +38,51 @@ type Props = {
 export function SourceDialog({ citation, index, highlightTerms = [], children }: Props) {
   const [open, setOpen] = useState(false);
   const [currentIdx, setCurrentIdx] = useState<number>(citation.chunk_idx);
+  const [view, setView] = useState<"text" | "page">("text");
+  const [page, setPage] = useState<number | null>(null);
   const lastGoodIdx = useRef<number>(citation.chunk_idx);
   const supabase = createClient();
 
-  const { data, isLoading, isError, refetch } = useQuery<{ content: string } | null, Error>({
+  const { data, isLoading, isError, refetch } = useQuery<{ content: string; metadata: ChunkLayout | null } | null, Error>({
     enabled: open,
     queryKey: ["kb-chunk", citation.doc_id, currentIdx],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("kb_chunks")
-        .select("content")
+        .select("content, metadata")
         .eq("doc_id", citation.doc_id)
         .eq("chunk_idx", currentIdx)
         .limit(1)
-        .maybeSingle<{ content: string }>();
+        .maybeSingle<{ content: string; metadata: ChunkLayout | null }>();
       if (error) throw new Error(error.message);
       return data ?? null;
     },
   });
 
+  const layout = useMemo(() => {
+    const meta = data?.metadata;
+    if (!meta || typeof meta.page_start !== "number" || !Array.isArray(meta.line_bboxes)) return null;
+    return { pageStart: meta.page_start, pageEnd: meta.page_end ?? meta.page_start, boxes: meta.line_bboxes, bottomLeftOrigin: meta.bbox_origin !== "top-left" };
+  }, [data?.metadata]);
+  const currentPage = layout ? Math.min(Math.max(page ?? layout.pageStart, layout.pageStart), layout.pageEnd) : null;
+
+  // Each chunk opens on its first page
+  useEffect(() => {
+    setPage(null);
+  }, [currentIdx]);
+
+  const file = useQuery({
+    enabled: open && view === "page" && Boolean(layout),
+    queryKey: ["kb-source-file", citation.doc_id],
+    // Signed URLs live 5 minutes
+    staleTime: 4 * 60 * 1000,
+    queryFn: async () => {
+      const res = await getSourceFileUrl(citation.doc_id);
+      if (!res.ok) throw new Error(res.error === "Original file not retained" ? "The original file isn't available for this document (ingested before originals were kept)." : res.error);
+      return res;
+    },
+  });
+
   // Track last successful chunk index
   useEffect(() => {
     if (data?.content) {
@@ -102,32 +139,71 @@ export function SourceDialog({ citation, index, highlightTerms = [], children }:
           </div>
           <CopyButton text={typeof data?.content === "string" ? data!.content : (citation.snippet || "")} />
         </div>
+        {layout && (
+          <Tabs value={view} onValueChange={(v) => setView(v as "text" | "page")}>
+            <TabsList>
+              <TabsTrigger value="text" className="cursor-pointer">Text</TabsTrigger>
+              <TabsTrigger value="page" className="cursor-pointer">Original page</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
         <ScrollArea className="max-h-[60vh] pr-4">
           <div className="space-y-4">
-            <div className="text-sm whitespace-pre-wrap">
-              {isLoading && "Loading full source..."}
-              {isError && (
-                <div>
-                  <div className="text-destructive">Failed to load source.</div>
-                  {citation.snippet && (
-                    <div className="mt-2">
-                      <div className="text-muted-foreground">Preview:</div>
-                      <div>{citation.snippet}</div>
-                    </div>
-                  )}
-                  <button className="mt-2 underline" onClick={() => refetch()}>Retry</button>
-                </div>
-              )}
-              {!isLoading && !isError && (
-                data?.content
-                  ? highlighted
-                  : (
-                    currentIdx === citation.chunk_idx
-                      ? (citation.snippet || "")
-                      : <span className="text-muted-foreground">Chunk not found.</span>
-                  )
-              )}
-            </div>
+            {layout && view === "page" && currentPage !== null ? (
+              <div className="space-y-2">
+                {file.isLoading && <div className="text-sm text-muted-foreground">Loading original document...</div>}
+                {file.isError && <div className="text-sm text-destructive">{file.error.message}</div>}
+                {file.data && (
+                  <SourcePageView url={file.data.url} fileExt={file.data.fileExt} page={currentPage} boxes={layout.boxes} bottomLeftOrigin={layout.bottomLeftOrigin} />
+                )}
+                {layout.pageEnd > layout.pageStart && (
+                  <div className="flex items-center justify-between text-xs">
+                    <button
+                      className="underline disabled:opacity-50 hover:cursor-pointer"
+                      onClick={() => setPage(currentPage - 1)}
+                      disabled={currentPage <= layout.pageStart}
+                    >
+                      Previous page
+                    </button>
+                    <span className="text-muted-foreground">
+                      Page {currentPage} (chunk spans pages {layout.pageStart}–{layout.pageEnd})
+                    </span>
+                    <button
+                      className="underline disabled:opacity-50 hover:cursor-pointer"
+                      onClick={() => setPage(currentPage + 1)}
+                      disabled={currentPage >= layout.pageEnd}
+                    >
+                      Next page
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-sm whitespace-pre-wrap">
+                {isLoading && "Loading full source..."}
+                {isError && (
+                  <div>
+                    <div className="text-destructive">Failed to load source.</div>
+                    {citation.snippet && (
+                      <div className="mt-2">
+                        <div className="text-muted-foreground">Preview:</div>
+                        <div>{citation.snippet}</div>
+                      </div>
+                    )}
+                    <button className="mt-2 underline" onClick={() => refetch()}>Retry</button>
+                  </div>
+                )}
+                {!isLoading && !isError && (
+                  data?.content
+                    ? highlighted
+                    : (
+                      currentIdx === citation.chunk_idx
+                        ? (citation.snippet || "")
+                        : <span className="text-muted-foreground">Chunk not found.</span>
+                    )
+                )}
+              </div>
+            )}
             {citation.source_uri && (
               <div className="pt-2 border-t">
                 <a
@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+
+export type PageBox = { page: number; bbox: { x: number; y: number; w: number; h: number } };
+
+type Props = {
+  url: string;
+  fileExt: string;
+  page: number;
+  /** Cited line boxes; only those on `page` are drawn */
+  boxes: PageBox[];
+  /** Chunks ingested before boxes were stored top-left carry PDF user-space boxes (origin bottom-left) */
+  bottomLeftOrigin?: boolean;
+};
+
+type Rendered = { width: number; height: number; scale: number; pageHeight: number };
+
+/** Original page of a cited PDF (or scanned image) with the cited lines highlighted. */
+export function SourcePageView({ url, fileExt, page, boxes, bottomLeftOrigin = false }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const docRef = useRef<{ url: string; promise: Promise<PDFDocumentProxy> } | null>(null);
+  const [rendered, setRendered] = useState<Rendered | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isPdf = fileExt === "pdf";
+
+  useEffect(() => {
+    if (!isPdf) return;
+    let cancelled = false;
+    let task: RenderTask | null = null;
+    setRendered(null);
+    setError(null);
+    (async () => {
+      const pdfjs = await import("pdfjs-dist");
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+      if (docRef.current?.url !== url) {
+        void docRef.current?.promise.then((d) => d.destroy()).catch(() => {});
+        docRef.current = { url, promise: pdfjs.getDocument({ url }).promise };
+      }
+      const doc = await docRef.current.promise;
+      const pdfPage = await doc.getPage(Math.min(Math.max(1, page), doc.numPages));
+      const base = pdfPage.getViewport({ scale: 1 });
+      const scale = (containerRef.current?.clientWidth || 600) / base.width;
+      const viewport = pdfPage.getViewport({ scale });
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx || cancelled) return;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * dpr);
+      canvas.height = Math.floor(viewport.height * dpr);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      task = pdfPage.render({ canvasContext: ctx, canvas, viewport, transform: dpr !== 1 ? [dpr, 0, 0, dpr, 0, 0] : undefined });
+      await task.promise;
+      if (!cancelled) setRendered({ width: viewport.width, height: viewport.height, scale, pageHeight: base.height });
+    })().catch((e: unknown) => {
+      if (cancelled || (e instanceof Error && e.name === "RenderingCancelledException")) return;
+      setError(e instanceof Error ? e.message : "Failed to render page");
+    });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [isPdf, url, page]);
+
+  useEffect(() => {
+    return () => {
+      void docRef.current?.promise.then((d) => d.destroy()).catch(() => {});
+    };
+  }, []);
+
+  const pageBoxes = boxes.filter((b) => b.page === page);
+  const highlights = rendered
+    ? pageBoxes.map(({ bbox }) => {
+        const top = bottomLeftOrigin ? rendered.pageHeight - bbox.y - bbox.h : bbox.y;
+        return { left: bbox.x * rendered.scale, top: top * rendered.scale, width: bbox.w * rendered.scale, height: bbox.h * rendered.scale };
+      })
+    : [];
+
+  if (error) return <div className="text-sm text-destructive">Failed to render the original page: {error}</div>;
+
+  return (
+    <div ref={containerRef} className={rendered ? "relative w-full" : "relative w-full min-h-40"}>
+      {isPdf ? (
+        <canvas ref={canvasRef} className="block border" />
+      ) : (
+        // Signed storage URL; next/image would need the bucket host whitelisted
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={url}
+          alt="Original document"
+          className="block w-full border"
+          onLoad={(e) => {
+            const img = e.currentTarget;
+            const scale = img.clientWidth / (img.naturalWidth || 1);
+            setRendered({ width: img.clientWidth, height: img.clientHeight, scale, pageHeight: img.naturalHeight });
+          }}
+          onError={() => setError("Image could not be loaded")}
+        />
+      )}
+      {!rendered && isPdf && <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">Rendering page…</div>}
+      {highlights.map((h, i) => (
+        <div
+          key={i}
+          className="pointer-events-none absolute rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500"
+          style={{ left: h.left - 2, top: h.top - 2, width: h.width + 4, height: h.height + 4 }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -6,15 +6,18 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { Mail, Database, ChevronDown, Settings } from "lucide-react";
+import { Mail, Database, ChevronDown, Settings, Bot, Table2 } from "lucide-react";
 
 export type SourceConfig = {
   gmail?: boolean;
   knowledge?: boolean;
+  datasets?: boolean;
+  /** Not a source: lets the model call the enabled sources as tools over several steps */
+  agent?: boolean;
 };
 
 interface Source {
-  id: keyof SourceConfig;
+  id: Exclude<keyof SourceConfig, "agent">;
   name: string;
   icon: React.ComponentType<{ className?: string }>;
   description: string;
@@ -26,9 +29,10 @@ interface SourceSelectorProps {
   value: SourceConfig;
   onChange: (config: SourceConfig) => void;
   gmailAvailable?: boolean;
+  datasetsAvailable?: boolean;
 }
 
-export function SourceSelector({ value, onChange, gmailAvailable = true }: SourceSelectorProps) {
+export function SourceSelector({ value, onChange, gmailAvailable = true, datasetsAvailable = true }: SourceSelectorProps) {
   const [open, setOpen] = useState(false);
 
   const sources: Source[] = [
@@ -40,6 +44,14 @@ export function SourceSelector({ value, onChange, gmailAvailable = true }: Sourc
       enabled: value.knowledge ?? true,
       available: true,
     },
+    {
+      id: "datasets",
+      name: "Datasets",
+      icon: Table2,
+      description: "Answer with a query over your CSV datasets (filters, totals, top N)",
+      enabled: value.datasets ?? false,
+      available: datasetsAvailable,
+    },
     {
       id: "gmail",
       name: "Gmail",
@@ -70,6 +82,7 @@ export function SourceSelector({ value, onChange, gmailAvailable = true }: Sourc
         >
           <Settings className="h-3 w-3" />
           <span>
+            {value.agent ? "Agent · " : ""}
             {enabledCount === availableCount ? "All sources" : `${enabledCount}/${availableCount} sources`}
           </span>
           <ChevronDown className="h-3 w-3" />
@@ -98,7 +111,7 @@ export function SourceSelector({ value, onChange, gmailAvailable = true }: Sourc
                       <span className="text-sm font-medium">{source.name}</span>
                       {!source.available && (
                         <Badge variant="secondary" className="text-xs">
-                          Not Connected
+                          {source.id === "gmail" ? "Not Connected" : "No Access"}
                         </Badge>
                       )}
                     </div>
@@ -119,6 +132,26 @@ export function SourceSelector({ value, onChange, gmailAvailable = true }: Sourc
             ))}
           </div>
           
+          <Separator className="my-3" />
+
+          <div className="flex items-start gap-3">
+            <div className="flex items-center justify-center h-8 w-8 rounded-lg bg-primary/10 flex-shrink-0 mt-0.5">
+              <Bot className="h-4 w-4 text-primary" />
+            </div>
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Agent mode</span>
+                <Switch
+                  checked={value.agent ?? false}
+                  onCheckedChange={(checked) => handleToggle("agent", checked)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Plans several searches across the knowledge base and the datasets and Gmail sources (when enabled) and combines them in one answer. Slower; the tool calls are shown on the answer.
+              </p>
+            </div>
+          </div>
+
           <Separator className="my-3" />
           
           <div className="text-xs text-muted-foreground">
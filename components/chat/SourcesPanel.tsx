@@ -12,6 +12,8 @@ export type CitationItem = {
   score?: number | null;
   source_uri?: string | null;
   used?: boolean;
+  /** Set on agent answers; emails and dataset queries open via `source_uri` instead of the chunk dialog */
+  kind?: "kb" | "email" | "dataset";
 };
 
 export function SourcesPanel({ items, queryTerms = [] }: { items: CitationItem[]; queryTerms?: string[] }) {
@@ -37,20 +39,27 @@ export function SourcesPanel({ items, queryTerms = [] }: { items: CitationItem[]
             {items.map((it) => (
               <div key={it.index} id={`src-${it.index + 1}`} className="rounded-md border p-2 scroll-mt-4">
                 <div className="flex items-center justify-between text-xs">
-                  <SourceDialog
-                    citation={{
-                      doc_id: it.doc_id,
-                      chunk_idx: it.chunk_idx,
-                      title: it.title,
-                      source_uri: it.source_uri,
-                      snippet: it.snippet,
-                      score: it.score ?? null,
-                    }}
-                    index={it.index}
-                    highlightTerms={queryTerms}
-                  >
-                    <button className="font-medium underline hover:cursor-pointer hover:text-blue-500">[{it.index + 1}] {it.title || "Untitled"}</button>
-                  </SourceDialog>
+                  {it.kind && it.kind !== "kb" ? (
+                    <span className="font-medium">
+                      [{it.index + 1}] <span className="mr-1 rounded bg-muted px-1 py-0.5 text-[10px] uppercase tracking-wide text-muted-foreground">{it.kind}</span>
+                      {it.title || "Untitled"}
+                    </span>
+                  ) : (
+                    <SourceDialog
+                      citation={{
+                        doc_id: it.doc_id,
+                        chunk_idx: it.chunk_idx,
+                        title: it.title,
+                        source_uri: it.source_uri,
+                        snippet: it.snippet,
+                        score: it.score ?? null,
+                      }}
+                      index={it.index}
+                      highlightTerms={queryTerms}
+                    >
+                      <button className="font-medium underline hover:cursor-pointer hover:text-blue-500">[{it.index + 1}] {it.title || "Untitled"}</button>
+                    </SourceDialog>
+                  )}
                   <div className="flex items-center gap-2">
                     {typeof it.score === "number" && (
                       <div className="text-muted-foreground" title="Relative relevance among returned sources">
@@ -67,7 +76,7 @@ export function SourcesPanel({ items, queryTerms = [] }: { items: CitationItem[]
                 {it.snippet && <ExpandableSnippet snippet={it.snippet} />}
                 {it.source_uri && (
                   <div className="mt-2">
-                    <a href={it.source_uri} target="_blank" rel="noreferrer" className="text-xs underline">Open source</a>
+                    <a href={it.source_uri} target="_blank" rel="noreferrer" className="text-xs underline">{it.kind === "email" ? "Open in Gmail" : it.kind === "dataset" ? "Open dataset" : "Open source"}</a>
                   </div>
                 )}
               </div>
@@ -0,0 +1,52 @@
+"use client";
+
+import { CheckCircle2, XCircle } from "lucide-react";
+
+export type ToolCallItem = {
+  id: string;
+  step: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  summary: string;
+  ms: number;
+};
+
+const TOOL_LABELS: Record<string, string> = {
+  search_knowledge: "Searched knowledge base",
+  list_datasets: "Listed datasets",
+  query_dataset: "Queried dataset",
+  gmail_search: "Searched Gmail",
+  gmail_get_message: "Read email",
+};
+
+/** Tool calls of an agent answer; `open` expands the arguments (used while the answer is still running) */
+export function ToolCalls({ calls, open = false }: { calls: ToolCallItem[]; open?: boolean }) {
+  if (calls.length === 0) return null;
+  const steps = Math.max(...calls.map((c) => c.step));
+  return (
+    <details className="mt-2 rounded-md border bg-muted/30 px-2 py-1 text-xs text-muted-foreground" open={open}>
+      <summary className="cursor-pointer select-none">
+        {calls.length} tool call{calls.length === 1 ? "" : "s"} in {steps} step{steps === 1 ? "" : "s"}
+      </summary>
+      <ol className="mt-1 space-y-1">
+        {calls.map((c) => (
+          <li key={c.id} className="flex items-start gap-2">
+            {c.ok ? <CheckCircle2 className="mt-0.5 h-3 w-3 flex-shrink-0 text-green-600" /> : <XCircle className="mt-0.5 h-3 w-3 flex-shrink-0 text-red-600" />}
+            <div className="min-w-0">
+              <div>
+                <span className="font-medium text-foreground">{TOOL_LABELS[c.name] || c.name}</span> — {c.summary}
+                <span className="ml-1">({(c.ms / 1000).toFixed(1)}s)</span>
+              </div>
+              {Object.keys(c.arguments || {}).length > 0 && (
+                <code className="block truncate font-mono text-[11px]" title={JSON.stringify(c.arguments)}>
+                  {c.name}({JSON.stringify(c.arguments)})
+                </code>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { History } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDateTimeLocal } from "@/lib/utils/dates";
+import { getDocVersionDiff, listDocVersions, restoreDocVersion } from "@/server/kb/docVersions.actions";
+import type { SectionDiff } from "@/lib/kb/versionDiff";
+
+interface Props {
+  docId: string;
+  docTitle: string;
+  canWrite?: boolean;
+  onRestored?: () => void;
+}
+
+const STATUS_VARIANT: Record<SectionDiff["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+};
+
+function SectionLines({ section }: { section: SectionDiff }) {
+  return (
+    <div className="rounded border bg-muted/20 font-mono text-xs">
+      {section.lines.map((line, i) =>
+        line.op === "skip" ? (
+          <div key={i} className="px-2 py-0.5 text-muted-foreground">… {line.count} unchanged line{line.count === 1 ? "" : "s"}</div>
+        ) : (
+          <div
+            key={i}
+            className={`whitespace-pre-wrap break-words px-2 py-0.5 ${line.op === "added" ? "bg-green-500/15" : line.op === "removed" ? "bg-red-500/15 line-through decoration-red-500/40" : ""}`}
+          >
+            {line.op === "added" ? "+ " : line.op === "removed" ? "− " : "  "}
+            {line.text}
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
+
+/** Version history of an uploaded document: compare any two versions section by section and restore earlier ones. */
+export function DocVersionsDialog({ docId, docTitle, canWrite = false, onRestored }: Props) {
+  const [open, setOpen] = useState(false);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  const versionsQuery = useQuery({
+    enabled: open,
+    queryKey: ["kb-doc-versions", docId],
+    queryFn: async () => {
+      const res = await listDocVersions(docId);
+      if (!res.ok) throw new Error(res.error);
+      return res;
+    },
+  });
+  const versions = useMemo(() => versionsQuery.data?.versions ?? [], [versionsQuery.data]);
+
+  // Default comparison: the version before the live one → the live one
+  useEffect(() => {
+    if (!open || versions.length < 2 || fromVersion !== null) return;
+    const liveIdx = Math.max(0, versions.findIndex((v) => v.live));
+    const previous = versions[liveIdx + 1] ?? versions[liveIdx - 1];
+    setToVersion(versions[liveIdx]!.version);
+    setFromVersion(previous ? previous.version : null);
+  }, [open, versions, fromVersion]);
+
+  const diffQuery = useQuery({
+    enabled: open && fromVersion !== null && toVersion !== null && fromVersion !== toVersion,
+    queryKey: ["kb-doc-version-diff", docId, fromVersion, toVersion, versionsQuery.data?.liveVersion],
+    queryFn: async () => {
+      const res = await getDocVersionDiff(docId, fromVersion!, toVersion!);
+      if (!res.ok) throw new Error(res.error);
+      return res;
+    },
+  });
+
+  const restore = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await restoreDocVersion(docId, version);
+      if (!res.ok) throw new Error(res.error);
+      return version;
+    },
+    onSuccess: (version) => {
+      toast.success(`Version ${version} is live again`);
+      setFromVersion(null);
+      versionsQuery.refetch();
+      onRestored?.();
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to restore version"),
+  });
+
+  const sections = diffQuery.data?.sections ?? [];
+  const changedSections = sections.filter((s) => s.status !== "unchanged");
+  const unchangedCount = sections.length - changedSections.length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setFromVersion(null);
+          setToVersion(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Version history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>&quot;{docTitle}&quot; — re-uploading a file with the same name adds a version.</DialogDescription>
+        </DialogHeader>
+
+        {versionsQuery.isLoading && <div className="text-sm text-muted-foreground">Loading versions…</div>}
+        {versionsQuery.isError && <div className="text-sm text-destructive">{versionsQuery.error.message}</div>}
+
+        {versions.length > 0 && (
+          <ScrollArea className="max-h-[70vh] pr-3">
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Uploaded</TableHead>
+                    <TableHead>Chunks</TableHead>
+                    <TableHead className="w-32" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map((v) => (
+                    <TableRow key={v.version}>
+                      <TableCell>v{v.version}</TableCell>
+                      <TableCell>{formatDateTimeLocal(v.created_at)}</TableCell>
+                      <TableCell>{v.chunk_count}</TableCell>
+                      <TableCell>
+                        {v.live ? (
+                          <Badge>Live</Badge>
+                        ) : canWrite ? (
+                          <ConfirmDialog
+                            trigger={<Button size="sm" variant="outline" disabled={restore.isPending}>Restore</Button>}
+                            title={`Restore version ${v.version}?`}
+                            description={`Version ${v.version} becomes live and answers use it right away. The current version stays in the history.`}
+                            confirmLabel="Restore"
+                            confirmVariant="default"
+                            onConfirm={() => restore.mutate(v.version)}
+                          />
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {versions.length < 2 ? (
+                <div className="text-sm text-muted-foreground">Only one version so far.</div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>Compare</span>
+                    <Select value={fromVersion !== null ? String(fromVersion) : undefined} onValueChange={(v) => setFromVersion(Number(v))}>
+                      <SelectTrigger className="w-28"><SelectValue placeholder="From" /></SelectTrigger>
+                      <SelectContent>
+                        {versions.map((v) => (
+                          <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span>→</span>
+                    <Select value={toVersion !== null ? String(toVersion) : undefined} onValueChange={(v) => setToVersion(Number(v))}>
+                      <SelectTrigger className="w-28"><SelectValue placeholder="To" /></SelectTrigger>
+                      <SelectContent>
+                        {versions.map((v) => (
+                          <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {diffQuery.isLoading && <div className="text-sm text-muted-foreground">Comparing…</div>}
+                  {diffQuery.isError && <div className="text-sm text-destructive">{diffQuery.error.message}</div>}
+                  {diffQuery.data && (
+                    <>
+                      <div className="text-sm text-muted-foreground">
+                        {changedSections.length === 0
+                          ? "No differences in extracted text."
+                          : `${changedSections.length} section${changedSections.length === 1 ? "" : "s"} differ, ${unchangedCount} unchanged.`}
+                      </div>
+                      {changedSections.map((section) => (
+                        <div key={`${section.status}-${section.key}`} className="space-y-1">
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge variant={STATUS_VARIANT[section.status]}>{section.status}</Badge>
+                            <span className="font-medium">{section.key}</span>
+                            <span className="text-xs text-muted-foreground">+{section.added} −{section.removed}</span>
+                          </div>
+                          <SectionLines section={section} />
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
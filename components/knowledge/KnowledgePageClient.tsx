@@ -6,20 +6,22 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Upload, FileText, Database, Settings } from "lucide-react";
+import { Upload, FileText, Database, Settings, Plug } from "lucide-react";
 import { toast } from "sonner";
 import { UnifiedUploadComponent } from "@/components/knowledge/UnifiedUploadComponent";
 import { KnowledgeTable } from "@/components/knowledge/KnowledgeTable";
 import { DatasetTable } from "@/components/csv/DatasetTable";
 import { createDatasetsListQueryOptions, createDeleteDatasetMutation, csvDatasetKeys, createCsvAnalysisQueryOptions } from "@/lib/queryOptions/csvQueryOptions";
 import { CsvConfigurationModal } from "@/components/csv/CsvConfigurationModal";
+import { RestConnectorsPanel } from "@/components/knowledge/RestConnectorsPanel";
 
 interface Props {
   tenantId: string;
   canWrite?: boolean;
+  canManageSources?: boolean;
 }
 
-export function KnowledgePageClient({ tenantId, canWrite = false }: Props) {
+export function KnowledgePageClient({ tenantId, canWrite = false, canManageSources = false }: Props) {
   const router = useRouter();
   const queryClient = useQueryClient();
   
@@ -78,7 +80,7 @@ export function KnowledgePageClient({ tenantId, canWrite = false }: Props) {
 
       {/* Main Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${canManageSources ? "grid-cols-5" : "grid-cols-4"}`}>
           <TabsTrigger value="upload" className="flex items-center space-x-2">
             <Upload className="h-4 w-4" />
             <span>Upload</span>
@@ -91,6 +93,12 @@ export function KnowledgePageClient({ tenantId, canWrite = false }: Props) {
             <Database className="h-4 w-4" />
             <span>Datasets</span>
           </TabsTrigger>
+          {canManageSources && (
+            <TabsTrigger value="connectors" className="flex items-center space-x-2">
+              <Plug className="h-4 w-4" />
+              <span>Connectors</span>
+            </TabsTrigger>
+          )}
           <TabsTrigger value="configure" className="flex items-center space-x-2">
             <Settings className="h-4 w-4" />
             <span>Configure</span>
@@ -118,6 +126,12 @@ export function KnowledgePageClient({ tenantId, canWrite = false }: Props) {
            />
          </TabsContent>
 
+        {canManageSources && (
+          <TabsContent value="connectors" className="space-y-6">
+            <RestConnectorsPanel tenantId={tenantId} />
+          </TabsContent>
+        )}
+
         <TabsContent value="configure" className="space-y-6">
           {pendingDatasets.length === 0 ? (
             <div className="text-center py-8">
@@ -19,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Search, ChevronDown, ChevronRight } from "lucide-react";
 import { EditRolesDialog } from "./EditRolesDialog";
+import { DocVersionsDialog } from "./DocVersionsDialog";
 
 type Props = { tenantId: string; canWrite?: boolean };
 
@@ -142,7 +143,17 @@ export function KnowledgeTable({ tenantId, canWrite = false }: Props) {
                     d.title
                   )}
                 </TableCell>
-                <TableCell>{d.version ?? 1}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {d.version ?? 1}
+                    <DocVersionsDialog
+                      docId={d.id}
+                      docTitle={d.title || 'Untitled'}
+                      canWrite={canWrite}
+                      onRestored={() => queryClient.invalidateQueries({ queryKey: kbDocsKeys.list(tenantId) })}
+                    />
+                  </div>
+                </TableCell>
                 <TableCell><StatusBadge status={d.status} /></TableCell>
                 <TableCell>{d.chunkCount}</TableCell>
                 <TableCell>
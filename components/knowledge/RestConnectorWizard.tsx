@@ -0,0 +1,514 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { createRestConnectorAction, previewRestConnectorAction } from "@/server/rest/connector.actions";
+import { DEFAULT_TEXT_FIELDS, normalizeItemsToText, selectItems, type RestConnectorDraft, type RestPagination } from "@/lib/kb/rest";
+import type { Json } from "@/lib/types/database.types";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+};
+
+type Step = "request" | "mapping" | "save";
+
+const AVAILABLE_ROLES = [
+  { id: "admin", label: "Admin" },
+  { id: "operations", label: "Operations" },
+  { id: "support", label: "Support" },
+];
+
+const SYNC_INTERVALS = [
+  { value: "manual", label: "Manually (Sync now)" },
+  { value: "15", label: "Every 15 minutes" },
+  { value: "60", label: "Every hour" },
+  { value: "360", label: "Every 6 hours" },
+  { value: "1440", label: "Every day" },
+];
+
+const PREVIEW_BLOCKS = 5;
+// Radix Select items can't have an empty value
+const NO_FIELD = "__none";
+const TREE_DEPTH = 6;
+
+/** JSONPath of `key` under `path`; keys that aren't plain names are bracketed (`['x.y']`). */
+function childPath(path: string, key: string): string {
+  const segment = /^[A-Za-z_][\w-]*$|^\d+$/.test(key) ? key : `['${key.replace(/['\\]/g, "\\$&")}']`;
+  if (path === "$") return segment;
+  return segment.startsWith("[") ? `${path}${segment}` : `${path}.${segment}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Field paths of the sample items (nested objects flattened two levels), in first-seen order. */
+function itemFieldPaths(items: unknown[]): string[] {
+  const seen = new Set<string>();
+  const walk = (value: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [k, v] of Object.entries(value)) {
+      const p = childPath(prefix, k);
+      if (isObject(v) && depth < 2) walk(v, p, depth + 1);
+      else seen.add(p);
+    }
+  };
+  for (const it of items) if (isObject(it)) walk(it, "$", 0);
+  return Array.from(seen);
+}
+
+/** Best guess for the items array: the root itself, else the first array of objects on the way down. */
+function guessItemsPath(sample: Json): string {
+  const queue: Array<{ value: unknown; path: string }> = [{ value: sample, path: "$" }];
+  while (queue.length) {
+    const { value, path } = queue.shift()!;
+    if (Array.isArray(value) && value.some(isObject)) return path;
+    if (isObject(value)) for (const [k, v] of Object.entries(value)) queue.push({ value: v, path: childPath(path, k) });
+  }
+  return "$";
+}
+
+type PickTarget = { label: string; selected?: string; onPick: (path: string) => void };
+
+function JsonNode({ name, value, path, depth, itemsPath, onPickItems, pickScalar }: {
+  name: string;
+  value: unknown;
+  path: string;
+  depth: number;
+  itemsPath: string;
+  onPickItems: (path: string) => void;
+  pickScalar: PickTarget[];
+}) {
+  const indent = { paddingLeft: depth * 14 };
+  if (Array.isArray(value)) {
+    const pickable = value.some(isObject);
+    return (
+      <div>
+        <div className="flex items-center gap-2 py-0.5" style={indent}>
+          <span className="font-mono text-xs">{name}: [{value.length}{value.length >= 20 ? "+" : ""}]</span>
+          {path === itemsPath ? <Badge variant="secondary" className="h-5 text-[10px]">items</Badge> : null}
+          {pickable && path !== itemsPath ? (
+            <Button type="button" size="sm" variant="ghost" className="h-5 px-1.5 text-[11px]" onClick={() => onPickItems(path)}>Use as items</Button>
+          ) : null}
+        </div>
+        {value.length > 0 && depth < TREE_DEPTH ? (
+          <>
+            {/* Values inside arrays differ per item, so they can't be the next cursor or total */}
+            <JsonNode name="0" value={value[0]} path={childPath(path, "0")} depth={depth + 1} itemsPath={itemsPath} onPickItems={onPickItems} pickScalar={[]} />
+            {value.length > 1 ? <div className="text-[11px] text-muted-foreground py-0.5" style={{ paddingLeft: (depth + 1) * 14 }}>… {value.length - 1} more</div> : null}
+          </>
+        ) : null}
+      </div>
+    );
+  }
+  if (isObject(value)) {
+    return (
+      <div>
+        <div className="font-mono text-xs py-0.5" style={indent}>{name}: {"{"}{depth >= TREE_DEPTH ? "…}" : ""}</div>
+        {depth < TREE_DEPTH
+          ? Object.entries(value).map(([k, v]) => (
+              <JsonNode key={k} name={k} value={v} path={childPath(path, k)} depth={depth + 1} itemsPath={itemsPath} onPickItems={onPickItems} pickScalar={pickScalar} />
+            ))
+          : null}
+      </div>
+    );
+  }
+  const text = value === null ? "null" : typeof value === "string" ? JSON.stringify(value.length > 60 ? `${value.slice(0, 60)}…` : value) : String(value);
+  return (
+    <div className="flex items-center gap-2 py-0.5" style={indent}>
+      <span className="font-mono text-xs">{name}: <span className="text-muted-foreground">{text}</span></span>
+      {pickScalar.map((target) =>
+        target.selected === path ? (
+          <Badge key={target.label} variant="secondary" className="h-5 text-[10px]">{target.label}</Badge>
+        ) : (
+          <Button key={target.label} type="button" size="sm" variant="ghost" className="h-5 px-1.5 text-[11px]" onClick={() => target.onPick(path)}>Use as {target.label}</Button>
+        ),
+      )}
+    </div>
+  );
+}
+
+/**
+ * Connector builder: request settings → fetch a sample page server-side → pick the items array and text fields
+ * from the response tree with a live preview of the text blocks → roles and sync schedule → save.
+ */
+export function RestConnectorWizard({ open, onOpenChange, onCreated }: Props) {
+  const [step, setStep] = useState<Step>("request");
+  const [title, setTitle] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [headers, setHeaders] = useState<Array<{ name: string; value: string }>>([]);
+  const [apiKey, setApiKey] = useState("");
+  const [pagination, setPagination] = useState<RestPagination>("page");
+  const [cursorParam, setCursorParam] = useState("");
+  const [pageSizeParam, setPageSizeParam] = useState("");
+  const [pageSize, setPageSize] = useState("50");
+  const [graphqlQuery, setGraphqlQuery] = useState("");
+  const [graphqlVariables, setGraphqlVariables] = useState("");
+  const [sample, setSample] = useState<Json | null>(null);
+  const [sampleUrl, setSampleUrl] = useState("");
+  const [sampleNextLink, setSampleNextLink] = useState<string | null | undefined>(undefined);
+  const [itemsPath, setItemsPath] = useState("$");
+  const [textFields, setTextFields] = useState<string[]>([]);
+  const [nextCursorPath, setNextCursorPath] = useState("");
+  const [totalPath, setTotalPath] = useState("");
+  const [hasMorePath, setHasMorePath] = useState("");
+  const [totalPagesPath, setTotalPagesPath] = useState("");
+  const [itemTemplate, setItemTemplate] = useState("");
+  const [idPath, setIdPath] = useState("");
+  const [titlePath, setTitlePath] = useState("");
+  const [roles, setRoles] = useState<string[]>(["admin"]);
+  const [syncInterval, setSyncInterval] = useState("60");
+
+  const draft: RestConnectorDraft = {
+    baseUrl,
+    headers,
+    pagination,
+    cursorParam,
+    pageSizeParam,
+    pageSize: Number(pageSize),
+    nextCursorPath,
+    hasMorePath,
+    totalPagesPath,
+    totalPath,
+    graphqlQuery,
+    graphqlVariables,
+    itemsPath,
+    textFields,
+    itemTemplate,
+    idPath,
+    titlePath,
+  };
+
+  // Paths are typed by hand too, so a bad expression shows as an error instead of breaking the step
+  const mapped = useMemo(() => {
+    try {
+      const found = sample == null ? [] : selectItems(sample, itemsPath);
+      return { items: found, blocks: normalizeItemsToText(found, textFields, itemTemplate.trim() || null), error: null };
+    } catch (e) {
+      return { items: [], blocks: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sample, itemsPath, textFields, itemTemplate]);
+  const { items, blocks } = mapped;
+  const fields = useMemo(() => itemFieldPaths(items), [items]);
+
+  function pickItems(path: string, sampleValue: Json | null = sample) {
+    setItemsPath(path);
+    let found: string[] = [];
+    try {
+      found = itemFieldPaths(sampleValue == null ? [] : selectItems(sampleValue, path));
+    } catch {
+      // Invalid path typed by hand; the mapping step shows the error
+    }
+    const defaults = DEFAULT_TEXT_FIELDS.filter((f) => found.includes(f));
+    setTextFields(defaults.length ? defaults : found.slice(0, 1));
+    setIdPath(found.find((f) => ["id", "uuid", "key", "slug"].includes(f)) ?? "");
+    setTitlePath(found.find((f) => ["title", "name"].includes(f)) ?? "");
+  }
+
+  const preview = useMutation({
+    mutationFn: async () => {
+      const res = await previewRestConnectorAction({ ...draft, apiKey });
+      if (!res.ok) throw new Error(res.error);
+      return res;
+    },
+    onSuccess: (res) => {
+      setSample(res.sample);
+      setSampleUrl(res.url);
+      setSampleNextLink(res.nextLink);
+      setNextCursorPath("");
+      setHasMorePath("");
+      setTotalPagesPath("");
+      setTotalPath("");
+      pickItems(guessItemsPath(res.sample), res.sample);
+      setStep("mapping");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to fetch a sample"),
+  });
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const res = await createRestConnectorAction({
+        ...draft,
+        title,
+        apiKey,
+        allowedRoles: roles,
+        intervalMinutes: syncInterval === "manual" ? null : Number(syncInterval),
+      });
+      if (!res.ok) throw new Error(res.error || "Failed to create connector");
+      return res;
+    },
+    onSuccess: () => {
+      toast.success("Connector created", { description: syncInterval === "manual" ? "Use Sync now to fetch the first page." : "The first sync starts within a minute." });
+      onOpenChange(false);
+      setStep("request");
+      setSample(null);
+      setTitle("");
+      setBaseUrl("");
+      setApiKey("");
+      onCreated();
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to create connector"),
+  });
+
+  const nextCursorTarget = { label: "next cursor", selected: nextCursorPath, onPick: setNextCursorPath };
+  const hasMoreTarget = { label: "has more", selected: hasMorePath, onPick: setHasMorePath };
+  const pickScalar: PickTarget[] =
+    pagination === "cursor" || pagination === "graphql"
+      ? [nextCursorTarget, hasMoreTarget]
+      : pagination === "page"
+        ? [hasMoreTarget, { label: "total pages", selected: totalPagesPath, onPick: setTotalPagesPath }]
+        : pagination === "offset"
+          ? [{ label: "total", selected: totalPath, onPick: setTotalPath }]
+          : [];
+  const needsCursor = pagination === "cursor" || pagination === "graphql";
+  const cursorLabel = pagination === "page" ? "Page parameter" : pagination === "offset" ? "Offset parameter" : pagination === "graphql" ? "Cursor variable" : "Cursor parameter";
+  const cursorPlaceholder = pagination === "page" ? "page" : pagination === "offset" ? "offset" : pagination === "graphql" ? "after" : "cursor";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New REST connector</DialogTitle>
+          <DialogDescription>
+            {step === "request" && "Step 1 of 3: how to call your API. We fetch one sample page to continue."}
+            {step === "mapping" && "Step 2 of 3: pick the list of items and the fields that make up each item's text."}
+            {step === "save" && "Step 3 of 3: who can see the synced content and how often to sync."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "request" && (
+          <div className="grid gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rc-url">Endpoint URL</Label>
+              <Input id="rc-url" type="url" placeholder="https://api.example.com/v1/articles" value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Headers</Label>
+              {headers.map((h, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input className="w-48" placeholder="Name" value={h.name} onChange={(e) => setHeaders((hs) => hs.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)))} />
+                  <Input placeholder="Value" value={h.value} onChange={(e) => setHeaders((hs) => hs.map((x, j) => (j === i ? { ...x, value: e.target.value } : x)))} />
+                  <Button type="button" size="icon" variant="ghost" onClick={() => setHeaders((hs) => hs.filter((_, j) => j !== i))}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+              ))}
+              <Button type="button" size="sm" variant="outline" onClick={() => setHeaders((hs) => [...hs, { name: "", value: "" }])}><Plus className="h-4 w-4 mr-1" />Add header</Button>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rc-key">API key</Label>
+              <Input id="rc-key" type="password" autoComplete="off" value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+              <p className="text-xs text-muted-foreground">Replaces <code>{"{{API_KEY}}"}</code> in the headers, e.g. <code>{"Authorization: Bearer {{API_KEY}}"}</code>. Stored encrypted; never shown again.</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label>Pagination</Label>
+                <Select value={pagination} onValueChange={(v) => setPagination(v as RestPagination)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Single page</SelectItem>
+                    <SelectItem value="page">Page number</SelectItem>
+                    <SelectItem value="offset">Offset</SelectItem>
+                    <SelectItem value="cursor">Cursor in response</SelectItem>
+                    <SelectItem value="link">Link header</SelectItem>
+                    <SelectItem value="graphql">GraphQL connection</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {pagination !== "none" && (
+                <>
+                  {pagination !== "link" && (
+                    <div className="space-y-1">
+                      <Label htmlFor="rc-cursor">{cursorLabel}</Label>
+                      <Input id="rc-cursor" placeholder={cursorPlaceholder} value={cursorParam} onChange={(e) => setCursorParam(e.target.value)} />
+                    </div>
+                  )}
+                  <div className="space-y-1">
+                    <Label htmlFor="rc-size-param">{pagination === "graphql" ? "Page size variable" : "Page size parameter"}</Label>
+                    <Input id="rc-size-param" placeholder={pagination === "graphql" ? "first" : "limit"} value={pageSizeParam} onChange={(e) => setPageSizeParam(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="rc-size">Page size</Label>
+                    <Input id="rc-size" type="number" min={1} max={100} value={pageSize} onChange={(e) => setPageSize(e.target.value)} />
+                  </div>
+                </>
+              )}
+            </div>
+            {pagination === "graphql" && (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="rc-gql-query">Query</Label>
+                  <Textarea
+                    id="rc-gql-query"
+                    rows={7}
+                    className="font-mono text-xs"
+                    placeholder={"query($after: String, $first: Int) {\n  articles(after: $after, first: $first) {\n    nodes { title body }\n    pageInfo { endCursor hasNextPage }\n  }\n}"}
+                    value={graphqlQuery}
+                    onChange={(e) => setGraphqlQuery(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rc-gql-vars">Variables (JSON)</Label>
+                  <Textarea id="rc-gql-vars" rows={7} className="font-mono text-xs" placeholder={'{ "locale": "en" }'} value={graphqlVariables} onChange={(e) => setGraphqlVariables(e.target.value)} />
+                  <p className="text-xs text-muted-foreground">The cursor and page size variables are added for each page.</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "mapping" && sample != null && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground truncate" title={sampleUrl}>Sample: {sampleUrl}</div>
+              <ScrollArea className="h-80 rounded-md border p-2">
+                <JsonNode name="response" value={sample} path="$" depth={0} itemsPath={itemsPath} onPickItems={(p) => pickItems(p)} pickScalar={pickScalar} />
+              </ScrollArea>
+              {needsCursor && !nextCursorPath ? <p className="text-xs text-destructive">Pick the value that holds the next cursor (or next page URL).</p> : null}
+              {needsCursor ? <p className="text-xs text-muted-foreground">Optional: pick the flag that says whether more pages follow (e.g. <code>pageInfo.hasNextPage</code>).</p> : null}
+              {pagination === "page" ? <p className="text-xs text-muted-foreground">Optional: pick <code>has_more</code> or the page count; otherwise the sync stops at the first short page.</p> : null}
+              {pagination === "offset" ? <p className="text-xs text-muted-foreground">Optional: pick the total item count so the sync knows when it is done.</p> : null}
+              {pagination === "link" ? (
+                <p className="text-xs text-muted-foreground break-all">
+                  {sampleNextLink ? <>Next page from the <code>Link</code> header: {sampleNextLink}</> : <>The sample has no <code>Link: &lt;…&gt;; rel=&quot;next&quot;</code> header, so only this page will sync.</>}
+                </p>
+              ) : null}
+            </div>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="rc-items">Items path</Label>
+                <Input id="rc-items" className="font-mono text-xs" value={itemsPath} onChange={(e) => setItemsPath(e.target.value)} />
+                <p className="text-xs text-muted-foreground">JSONPath, e.g. <code>$.data[*].items[*]</code> or <code>{"$.edges[*].node"}</code>. Matched arrays are spread into items.</p>
+                {mapped.error ? <p className="text-xs text-destructive">{mapped.error}</p> : null}
+              </div>
+              <div>
+                <Label>Text fields</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {items.length} sample item{items.length === 1 ? "" : "s"}. {itemTemplate.trim() ? "The item template below is used instead of these fields." : "Checked fields are joined into each item's text."}
+                </p>
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  {fields.length === 0 ? <div className="text-xs text-muted-foreground">Pick an array of objects in the response.</div> : null}
+                  {fields.map((f) => (
+                    <label key={f} className="flex items-center gap-2 py-0.5 text-xs">
+                      <Checkbox className="size-3.5" checked={textFields.includes(f)} onCheckedChange={(val) => setTextFields((tf) => (val ? [...tf, f] : tf.filter((x) => x !== f)))} />
+                      <span className="font-mono">{f}</span>
+                    </label>
+                  ))}
+                </ScrollArea>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Item ID</Label>
+                  <Select value={idPath || NO_FIELD} onValueChange={(v) => setIdPath(v === NO_FIELD ? "" : v)}>
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_FIELD}>None (append new text)</SelectItem>
+                      {fields.map((f) => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Document title</Label>
+                  <Select value={titlePath || NO_FIELD} onValueChange={(v) => setTitlePath(v === NO_FIELD ? "" : v)} disabled={!idPath}>
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_FIELD}>Connector name + ID</SelectItem>
+                      {fields.map((f) => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  {idPath
+                    ? "Each item becomes its own document: edited items are updated in place, and items the API no longer returns are removed after a full sync."
+                    : "Without an ID, synced text is appended to a daily document and edits or deletions upstream are not tracked."}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rc-template">Item template (optional)</Label>
+                <Textarea
+                  id="rc-template"
+                  rows={3}
+                  className="font-mono text-xs"
+                  placeholder={"# {{title}}\n{{body}}\nTags: {{tags[*]}}"}
+                  value={itemTemplate}
+                  onChange={(e) => setItemTemplate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  <code>{"{{path}}"}</code> is replaced with the item&apos;s value; lines whose placeholders are all empty are left out.
+                </p>
+              </div>
+              <div>
+                <Label>Preview</Label>
+                <p className="text-xs text-muted-foreground mb-2">{blocks.length} of {items.length} sample items produce text.</p>
+                <ScrollArea className="h-40 rounded-md border p-2">
+                  {blocks.slice(0, PREVIEW_BLOCKS).map((b, i) => (
+                    <pre key={i} className="whitespace-pre-wrap text-xs border-b last:border-b-0 py-2">{b.length > 600 ? `${b.slice(0, 600)}…` : b}</pre>
+                  ))}
+                </ScrollArea>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "save" && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="rc-title">Name</Label>
+              <Input id="rc-title" placeholder="Help center articles" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Visible to roles</Label>
+              {AVAILABLE_ROLES.map((r) => (
+                <label key={r.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={roles.includes(r.id)} onCheckedChange={(val) => setRoles((rs) => (val ? [...rs, r.id] : rs.filter((x) => x !== r.id)))} />
+                  {r.label}
+                </label>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label>Sync</Label>
+              <Select value={syncInterval} onValueChange={setSyncInterval}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SYNC_INTERVALS.map((o) => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {idPath ? "Each sync walks through all pages, updates changed items and removes deleted ones." : "Each sync walks through all pages and adds new items."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "request" && (
+            <Button type="button" variant="outline" onClick={() => setStep(step === "save" ? "mapping" : "request")}>Back</Button>
+          )}
+          {step === "request" && (
+            <Button type="button" onClick={() => preview.mutate()} disabled={!baseUrl.trim() || preview.isPending}>
+              {preview.isPending ? "Fetching sample…" : "Fetch sample"}
+            </Button>
+          )}
+          {step === "mapping" && (
+            <Button type="button" onClick={() => setStep("save")} disabled={blocks.length === 0 || (needsCursor && !nextCursorPath)}>Next</Button>
+          )}
+          {step === "save" && (
+            <Button type="button" onClick={() => create.mutate()} disabled={!title.trim() || roles.length === 0 || create.isPending}>
+              {create.isPending ? "Saving…" : "Save connector"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, RefreshCw, Trash2, Plug } from "lucide-react";
+import { createClient } from "@/server/supabase/client";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { formatDateTimeLocal } from "@/lib/utils/dates";
+import { createRestConnectorsQueryOptions, kbConnectorsKeys, kbDocsKeys, type RestConnectorRow } from "@/lib/queryOptions/kbQueryOptions";
+import { deleteRestConnectorAction, syncRestConnectorAction } from "@/server/rest/connector.actions";
+import type { RestSourceConfig } from "@/lib/kb/rest";
+import { RestConnectorWizard } from "./RestConnectorWizard";
+
+type Props = { tenantId: string };
+
+function scheduleLabel(row: RestConnectorRow): string {
+  const minutes = ((row.config || {}) as RestSourceConfig).schedule?.intervalMinutes;
+  if (!minutes) return "Manual";
+  if (minutes % 1440 === 0) return minutes === 1440 ? "Daily" : `Every ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? "Hourly" : `Every ${minutes / 60} hours`;
+  return `Every ${minutes} min`;
+}
+
+export function RestConnectorsPanel({ tenantId }: Props) {
+  const supabase = useMemo(() => createClient(), []);
+  const queryClient = useQueryClient();
+  const [wizardOpen, setWizardOpen] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [, startTransition] = useTransition();
+  const { data: rows = [], isLoading } = useQuery(createRestConnectorsQueryOptions(tenantId, supabase));
+
+  function refresh() {
+    queryClient.invalidateQueries({ queryKey: kbConnectorsKeys.list(tenantId) });
+    queryClient.invalidateQueries({ queryKey: kbDocsKeys.list(tenantId) });
+  }
+
+  function onSync(sourceId: string) {
+    setSyncingId(sourceId);
+    startTransition(async () => {
+      const res = await syncRestConnectorAction(sourceId);
+      if (res.ok) {
+        const changes = res.upserted !== undefined ? ` ${res.upserted} new or changed, ${res.removed ?? 0} removed.` : "";
+        toast.success(`Fetched ${res.items} items`, { description: `${res.done ? "All pages synced." : "More pages left; they sync on schedule or with Sync now."}${changes}` });
+      }
+      else toast.error(res.error === "fetch_failed" ? "The API request failed; see the connector's last error." : res.error);
+      setSyncingId(null);
+      refresh();
+    });
+  }
+
+  async function onDelete(sourceId: string) {
+    const res = await deleteRestConnectorAction(sourceId);
+    if (res.ok) toast.success("Connector deleted");
+    else toast.error(res.error || "Failed to delete connector");
+    refresh();
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">REST connectors</h3>
+          <p className="text-sm text-muted-foreground">Sync items from your own APIs into knowledge.</p>
+        </div>
+        <Button onClick={() => setWizardOpen(true)}><Plus className="h-4 w-4 mr-1" />New connector</Button>
+      </div>
+
+      {!isLoading && rows.length === 0 ? (
+        <div className="text-center py-8">
+          <Plug className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">No connectors yet. Create one to sync an API into knowledge.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Connector</TableHead>
+              <TableHead>Sync</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((r) => (
+              <TableRow key={r.id}>
+                <TableCell>
+                  <div className="font-medium">{r.title}</div>
+                  <div className="text-xs text-muted-foreground max-w-[320px] truncate" title={r.uri ?? undefined}>{r.uri}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm">{scheduleLabel(r)}</div>
+                  {r.cursor?.next_run_at ? <div className="text-xs text-muted-foreground">next: {formatDateTimeLocal(r.cursor.next_run_at)}</div> : null}
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm">{r.cursor?.item_count ?? 0}</div>
+                  <div className="text-xs text-muted-foreground">{r.cursor?.last_synced_at ? formatDateTimeLocal(r.cursor.last_synced_at) : "never synced"}</div>
+                </TableCell>
+                <TableCell>
+                  {r.cursor?.last_status === "error" ? (
+                    <>
+                      <Badge variant="destructive">Error</Badge>
+                      {r.cursor.last_error ? <div className="text-xs text-destructive mt-1 max-w-[280px] truncate" title={r.cursor.last_error}>{r.cursor.last_error}</div> : null}
+                    </>
+                  ) : r.cursor ? (
+                    <Badge variant="secondary">{r.cursor.next_cursor == null ? "Up to date" : "Syncing"}</Badge>
+                  ) : (
+                    <Badge variant="outline">Not synced</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => onSync(r.id)} disabled={syncingId !== null}>
+                    <RefreshCw className={`h-4 w-4 mr-1 ${syncingId === r.id ? "animate-spin" : ""}`} />Sync now
+                  </Button>
+                  <ConfirmDialog
+                    trigger={<Button size="sm" variant="ghost"><Trash2 className="h-4 w-4" /></Button>}
+                    title="Delete connector?"
+                    description="This removes the connector, its stored API key and all documents synced from it. This action cannot be undone."
+                    confirmLabel="Delete"
+                    onConfirm={() => onDelete(r.id)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <RestConnectorWizard open={wizardOpen} onOpenChange={setWizardOpen} onCreated={refresh} />
+    </div>
+  );
+}
@@ -22,6 +22,22 @@ import { CsvConfigurationModal } from "@/components/csv/CsvConfigurationModal";
 import { createCsvAnalysisQueryOptions } from "@/lib/queryOptions/csvQueryOptions";
 import { useQuery } from "@tanstack/react-query";
 
+// Poll a background ingest job until it reaches a terminal status
+async function waitForJob(
+  jobId: string,
+  onProgress: (progress: number) => void,
+): Promise<{ status: string; error?: string; reusedChunks?: number; embeddedChunks?: number }> {
+  const { getJobProgress } = await import('@/server/kb/kb.actions');
+  for (;;) {
+    const res = await getJobProgress(jobId);
+    if (!res.success || !res.data) return { status: 'error', error: res.error };
+    const { status, progress, error, reusedChunks, embeddedChunks } = res.data;
+    if (status === 'done' || status === 'error' || status === 'canceled') return { status, error, reusedChunks, embeddedChunks };
+    onProgress(progress);
+    await new Promise((r) => setTimeout(r, 2000));
+  }
+}
+
 // Enhanced types for unified upload with CSV support
 interface UploadFile {
   id: string;
@@ -165,13 +181,54 @@ export function UnifiedUploadComponent({ tenantId }: Props) {
         
         clearInterval(progressInterval);
 
-        if (result.ok) {
+        if (result.ok && result.duplicateOf) {
+          // Same bytes already in the knowledge base: nothing was queued
+          setFiles(prev => prev.map(f => 
+            f.id === uploadFile.id 
+              ? { ...f, status: 'done', step: 'done', progress: 100 }
+              : f
+          ));
+          const message = result.duplicateOf.title === uploadFile.file.name
+            ? `${uploadFile.file.name} is unchanged; nothing to process`
+            : `${uploadFile.file.name} is identical to "${result.duplicateOf.title}"; it was not added again`;
+          if (result.rolesNotApplied) {
+            // The existing document keeps its own roles; say so rather than imply the selection took effect
+            const current = result.duplicateOf.allowedRoles?.join(', ') || 'its current roles';
+            toast.warning(`${message}. The selected roles were not applied: it stays visible to ${current}. Change them from the document's roles in the Knowledge table.`);
+          } else {
+            toast.info(message);
+          }
+        } else if (result.ok && result.jobId) {
+          // File is stored and queued; follow the background job until it settles
           setFiles(prev => prev.map(f => 
             f.id === uploadFile.id 
-              ? { ...f, status: 'done', step: 'done', progress: 100, jobId: result.jobId }
+              ? { ...f, status: 'processing', step: 'ingesting', progress: 0, jobId: result.jobId }
               : f
           ));
-          toast.success(`${uploadFile.file.name} uploaded successfully! Default access: Admin only`);
+          const final = await waitForJob(result.jobId, (progress) => {
+            setFiles(prev => prev.map(f => 
+              f.id === uploadFile.id && f.status === 'processing'
+                ? { ...f, progress }
+                : f
+            ));
+          });
+          if (final.status === 'done') {
+            setFiles(prev => prev.map(f => 
+              f.id === uploadFile.id && f.status === 'processing'
+                ? { ...f, status: 'done', step: 'done', progress: 100 }
+                : f
+            ));
+            // Re-uploads only embed what changed
+            const reuseNote = final.reusedChunks ? ` ${final.reusedChunks} unchanged chunks reused, ${final.embeddedChunks ?? 0} re-embedded.` : '';
+            toast.success(`${uploadFile.file.name} uploaded successfully! Default access: Admin only.${reuseNote}`);
+          } else {
+            setFiles(prev => prev.map(f => 
+              f.id === uploadFile.id && f.status === 'processing'
+                ? { ...f, status: 'error', step: 'error', error: final.error || 'Processing failed' }
+                : f
+            ));
+            toast.error(`Failed to process ${uploadFile.file.name}: ${final.error || final.status}`);
+          }
         } else {
           setFiles(prev => prev.map(f => 
             f.id === uploadFile.id 
@@ -210,20 +267,12 @@ export function UnifiedUploadComponent({ tenantId }: Props) {
 
     setFiles(prev => [...prev, ...uploadFiles]);
     
-    // Hybrid approach: 1-5 files = immediate processing, 6+ files = future background queue
-    if (newFiles.length <= 5) {
-      console.log(`📤 Processing ${newFiles.length} files immediately (≤5 files)`);
-      // Start processing each file immediately
-      uploadFiles.forEach(uploadFile => {
-        processFile(uploadFile);
-      });
-    } else {
-      console.log(`⏳ Queued ${newFiles.length} files for background processing (>5 files) - Feature coming soon!`);
-      // For now, process immediately but show message about future background processing
-      uploadFiles.forEach(uploadFile => {
-        processFile(uploadFile);
-      });
-      toast.info(`Processing ${newFiles.length} files. Background processing for large batches coming soon!`);
+    // Uploads are queued server-side and processed in the background
+    uploadFiles.forEach(uploadFile => {
+      processFile(uploadFile);
+    });
+    if (newFiles.length > 5) {
+      toast.info(`Processing ${newFiles.length} files in the background. You can leave this page; progress is kept.`);
     }
   }, [processFile]);
 
@@ -397,7 +446,7 @@ export function UnifiedUploadComponent({ tenantId }: Props) {
               Drop files here or click to select
             </p>
             <p className="text-sm text-muted-foreground">
-              Supports documents (PDF, MD, HTML, TXT) and datasets (CSV) - max 50MB each<br/>
+              Supports documents (PDF, DOCX, PPTX, XLSX, MD, HTML, TXT), scans (PNG, JPEG) and datasets (CSV) - max 50MB each<br/>
               CSV files will be analyzed for column mapping configuration
             </p>
           </div>
@@ -407,7 +456,7 @@ export function UnifiedUploadComponent({ tenantId }: Props) {
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.md,.txt,.html,.csv"
+          accept=".pdf,.docx,.pptx,.xlsx,.md,.txt,.html,.png,.jpg,.jpeg,.csv"
           className="hidden"
           onChange={handleFileSelect}
         />
@@ -0,0 +1,220 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createClient } from "@/server/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createApiKeyAction, revokeApiKeyAction } from "@/server/apiKeys/apiKeys.actions";
+import { API_KEY_SCOPES, DEFAULT_API_KEY_RATE_LIMIT, MAX_API_KEY_RATE_LIMIT } from "@/lib/utils/apiKeys";
+import { formatDateTimeLocal } from "@/lib/utils/dates";
+
+type ApiKeyItem = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  role_key: string;
+  rate_limit_per_minute: number;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+type Props = { tenantId: string; isAdmin: boolean };
+
+export function ApiKeysSection({ tenantId, isAdmin }: Props) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const keysQuery = useQuery({
+    queryKey: ["api_keys", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("api_keys")
+        .select("id, name, prefix, scopes, role_key, rate_limit_per_minute, created_at, last_used_at, revoked_at")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: false });
+      if (error) throw new Error(error.message);
+      return (data || []) as ApiKeyItem[];
+    },
+    enabled: isAdmin,
+    staleTime: 3000,
+  });
+
+  const { data: roles } = useQuery({
+    queryKey: ["roles", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("roles")
+        .select("key, name")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+    enabled: isAdmin,
+  });
+
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["kb.read"]);
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_API_KEY_RATE_LIMIT));
+  const [created, setCreated] = useState<{ name: string; key: string } | null>(null);
+
+  const selectedRole = role || (roles as { key: string; name: string }[] | undefined)?.[0]?.key || "";
+
+  const createKey = useMutation({
+    mutationFn: async () => {
+      const res = await createApiKeyAction({ tenantId, name, roleKey: selectedRole, scopes, rateLimitPerMinute: Number(rateLimit) });
+      if (!res.ok) throw new Error(res.error);
+      return res.key;
+    },
+    onSuccess: (key) => {
+      setCreated({ name: name.trim(), key });
+      setName("");
+      keysQuery.refetch();
+      toast.success("API key created");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to create API key"),
+  });
+
+  const revokeKey = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await revokeApiKeyAction({ tenantId, id });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      keysQuery.refetch();
+      toast.success("API key revoked");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to revoke API key"),
+  });
+
+  if (!isAdmin) {
+    return (
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">API keys are managed by users with the settings.manage permission.</div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="text-lg font-medium">API Keys</div>
+      <div className="text-xs text-muted-foreground">
+        Keys let internal tools call <span className="font-mono">/api/v1/ask</span>, <span className="font-mono">/api/v1/search</span> and <span className="font-mono">/api/v1/documents</span> with <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>. A key sees the documents its role sees, and can only use scopes that role still has.
+      </div>
+
+      {created && (
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="text-sm font-medium">Key for {created.name}: copy it now, it won&apos;t be shown again</div>
+          <div className="flex items-center gap-2">
+            <Input readOnly className="font-mono text-xs" value={created.key} onFocus={(e) => e.target.select()} />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={async () => {
+                await navigator.clipboard.writeText(created.key);
+                toast.success("Copied to clipboard");
+              }}
+            >
+              Copy
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setCreated(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Key</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Scopes</TableHead>
+            <TableHead>Limit</TableHead>
+            <TableHead>Last used</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {(keysQuery.data || []).map((k) => (
+            <TableRow key={k.id}>
+              <TableCell>{k.name}</TableCell>
+              <TableCell className="font-mono text-xs">{k.prefix}…</TableCell>
+              <TableCell>{k.role_key}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {(k.scopes || []).map((s) => (
+                    <Badge key={s} variant="secondary">{s}</Badge>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>{k.rate_limit_per_minute}/min</TableCell>
+              <TableCell>{k.last_used_at ? formatDateTimeLocal(k.last_used_at) : "Never"}</TableCell>
+              <TableCell>
+                {k.revoked_at ? (
+                  <Badge variant="outline">Revoked</Badge>
+                ) : (
+                  <ConfirmDialog
+                    trigger={<Button size="sm" variant="outline" disabled={revokeKey.isPending}>Revoke</Button>}
+                    title="Revoke API key?"
+                    description="Requests with this key will be rejected immediately. This can't be undone."
+                    confirmLabel="Revoke"
+                    onConfirm={() => revokeKey.mutate(k.id)}
+                  />
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="grid gap-2 text-sm">
+        <div className="text-sm font-medium">New key</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input className="w-56" placeholder="Name, e.g. Support bot" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={selectedRole} onValueChange={setRole}>
+            <SelectTrigger className="w-40"><SelectValue placeholder="Role" /></SelectTrigger>
+            <SelectContent>
+              {((roles as { key: string; name: string }[] | undefined) || []).map((r) => (
+                <SelectItem key={r.key} value={r.key}>{r.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-28"
+            type="number"
+            min={1}
+            max={MAX_API_KEY_RATE_LIMIT}
+            value={rateLimit}
+            onChange={(e) => setRateLimit(e.target.value)}
+            aria-label="Requests per minute"
+          />
+          <span className="text-xs text-muted-foreground">requests/min</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          {API_KEY_SCOPES.map((s) => (
+            <label key={s.key} className="flex items-center gap-2">
+              <Checkbox checked={scopes.includes(s.key)} onCheckedChange={(val) => setScopes((cur) => (val ? [...cur, s.key] : cur.filter((x) => x !== s.key)))} />
+              <span>{s.label}</span>
+              <span className="font-mono text-xs text-muted-foreground">{s.key}</span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <Button disabled={!name.trim() || !selectedRole || scopes.length === 0 || createKey.isPending} onClick={() => createKey.mutate()}>
+            {createKey.isPending ? "Creating..." : "Create key"}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
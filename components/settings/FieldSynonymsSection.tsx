@@ -0,0 +1,129 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createClient } from "@/server/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createFieldSynonymAction, deleteFieldSynonymAction } from "@/server/kb/fieldSynonyms.actions";
+import type { FieldSynonymRow } from "@/server/kb/fieldIndex";
+
+type SynonymGroup = { canonical: string; aliases: string[] };
+
+type Props = { tenantId: string; isAdmin: boolean; builtIn: SynonymGroup[] };
+
+export function FieldSynonymsSection({ tenantId, isAdmin, builtIn }: Props) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const synonymsQuery = useQuery({
+    queryKey: ["kb_field_synonyms", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kb_field_synonyms")
+        .select("id, tenant_id, canonical, aliases, created_at")
+        .eq("tenant_id", tenantId)
+        .order("canonical", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data || []) as FieldSynonymRow[];
+    },
+    staleTime: 3000,
+  });
+
+  const [canonical, setCanonical] = useState("");
+  const [aliases, setAliases] = useState("");
+
+  const createGroup = useMutation({
+    mutationFn: async () => {
+      const res = await createFieldSynonymAction({ tenantId, canonical, aliases: aliases.split(",") });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      setCanonical("");
+      setAliases("");
+      synonymsQuery.refetch();
+      toast.success("Synonyms saved");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to save synonyms"),
+  });
+
+  const deleteGroup = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await deleteFieldSynonymAction({ tenantId, id });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      synonymsQuery.refetch();
+      toast.success("Synonyms deleted");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to delete synonyms"),
+  });
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="text-lg font-medium">Field Synonyms</div>
+      <div className="text-xs text-muted-foreground">
+        Label/value fields found in documents (e.g. &quot;Acct #: 12345&quot;) answer questions like &quot;what&apos;s the account number on the January statement&quot; directly. Synonyms let a question match a field labelled differently, and widen keyword search the same way.
+      </div>
+
+      <div className="grid gap-2">
+        <div className="text-sm font-medium">Built-in</div>
+        <div className="flex flex-wrap gap-2">
+          {builtIn.map((g) => (
+            <Badge key={g.canonical} variant="secondary">{g.canonical} = {g.aliases.join(", ")}</Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="text-sm font-medium">Tenant synonyms ({(synonymsQuery.data || []).length})</div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Synonyms</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(synonymsQuery.data || []).map((g) => (
+              <TableRow key={g.id}>
+                <TableCell>{g.canonical}</TableCell>
+                <TableCell className="whitespace-normal">
+                  <div className="flex flex-wrap gap-1">
+                    {(g.aliases || []).map((a) => (
+                      <Badge key={a} variant="secondary">{a}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <ConfirmDialog
+                    trigger={<Button size="sm" variant="outline" disabled={!isAdmin || deleteGroup.isPending}>Delete</Button>}
+                    title="Delete synonyms?"
+                    description="Questions using these synonyms will no longer match this field."
+                    confirmLabel="Delete"
+                    onConfirm={() => deleteGroup.mutate(g.id)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isAdmin && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Input className="w-56" placeholder="Field, e.g. invoice number" value={canonical} onChange={(e) => setCanonical(e.target.value)} />
+          <Input className="w-80" placeholder="Synonyms, comma-separated, e.g. inv no, bill #" value={aliases} onChange={(e) => setAliases(e.target.value)} />
+          <Button disabled={!canonical.trim() || !aliases.trim() || createGroup.isPending} onClick={() => createGroup.mutate()}>
+            {createGroup.isPending ? "Saving..." : "Add synonyms"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -7,7 +7,7 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { updateRagSettingsAction } from "@/server/settings/settings.actions";
+import { cancelReembedAction, updateRagSettingsAction } from "@/server/settings/settings.actions";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 type Props = { tenantId: string; isAdmin: boolean };
@@ -24,9 +24,24 @@ type RagSettings = {
   rerank_enabled: boolean;
   default_allowed_roles: string[];
   retrieval_timeout_ms: number;
+  chunk_target_tokens: number;
+  chunk_overlap_tokens: number;
+  fusion_strategy: string;
+  vector_weight: number;
+  keyword_weight: number;
   updated_at: string;
 };
 
+type ReembedJob = {
+  id: string;
+  status: string;
+  step: string | null;
+  processed_chunks: number | null;
+  total_chunks: number | null;
+  error: string | null;
+  metadata: { from_model?: string | null; to_model?: string } | null;
+};
+
 export function RagControlsSection({ tenantId, isAdmin }: Props) {
   const supabase = useMemo(() => createClient(), []);
   const { data, refetch } = useQuery({
@@ -34,7 +49,7 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("tenant_rag_settings")
-        .select("tenant_id, chat_model, temperature, max_context_tokens, embedding_model, retriever_top_k, overfetch, hybrid_enabled, rerank_enabled, default_allowed_roles, retrieval_timeout_ms, updated_at")
+        .select("tenant_id, chat_model, temperature, max_context_tokens, embedding_model, retriever_top_k, overfetch, hybrid_enabled, rerank_enabled, default_allowed_roles, retrieval_timeout_ms, chunk_target_tokens, chunk_overlap_tokens, fusion_strategy, vector_weight, keyword_weight, updated_at")
         .eq("tenant_id", tenantId)
         .maybeSingle<RagSettings>();
       if (error) throw new Error(error.message);
@@ -43,6 +58,25 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
     staleTime: 3000,
   });
 
+  const { data: reembedJob, refetch: refetchReembed } = useQuery({
+    queryKey: ["tenant_reembed_job", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kb_ingest_jobs")
+        .select("id, status, step, processed_chunks, total_chunks, error, metadata")
+        .eq("tenant_id", tenantId)
+        .eq("metadata->>kind", "reembed")
+        .in("status", ["pending", "processing"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle<ReembedJob>();
+      if (error) throw new Error(error.message);
+      return data ?? null;
+    },
+    refetchInterval: (q) => (q.state.data ? 5000 : false),
+    staleTime: 2000,
+  });
+
   const [form, setForm] = useState<RagSettings | null>(null);
 
   const updateMutation = useMutation({
@@ -60,11 +94,28 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
         rerank_enabled: form.rerank_enabled,
         default_allowed_roles: form.default_allowed_roles,
         retrieval_timeout_ms: form.retrieval_timeout_ms,
+        chunk_target_tokens: form.chunk_target_tokens,
+        chunk_overlap_tokens: form.chunk_overlap_tokens,
+        fusion_strategy: form.fusion_strategy,
+        vector_weight: form.vector_weight,
+        keyword_weight: form.keyword_weight,
       });
       if (!res.ok) throw new Error(res.error);
     },
     onSuccess: () => {
+      setForm(null);
       refetch();
+      refetchReembed();
+    },
+  });
+
+  const cancelReembedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await cancelReembedAction({ tenantId });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      refetchReembed();
     },
   });
 
@@ -95,8 +146,23 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
           <L label="Max context tokens" hint="Upper bound on tokens used when building prompts; protects from oversized context windows.">
             <Input type="number" disabled={!isAdmin} value={current.max_context_tokens} onChange={(e) => setForm({ ...(current as RagSettings), max_context_tokens: Number(e.target.value) })} />
           </L>
-          <L label="Embedding model" hint="Model used to vectorize queries and docs. Must match how your KB was embedded.">
+          <L label="Embedding model" hint="Model used to vectorize queries and docs, as provider:model (openai:, azure:, local:, hash:). Changing it re-embeds the KB in the background; the current model keeps serving until cut-over.">
             <Input disabled={!isAdmin} value={current.embedding_model} onChange={(e) => setForm({ ...(current as RagSettings), embedding_model: e.target.value })} />
+            {reembedJob && (
+              <div className="flex items-center gap-2 text-xs">
+                <span>
+                  {reembedJob.step === "finalizing"
+                    ? `Switching to ${reembedJob.metadata?.to_model}…`
+                    : `Re-embedding with ${reembedJob.metadata?.to_model}: ${reembedJob.processed_chunks ?? 0}/${reembedJob.total_chunks ?? 0} chunks`}
+                  {reembedJob.error ? ` (retrying: ${reembedJob.error})` : ""}
+                </span>
+                {isAdmin && reembedJob.step !== "finalizing" && (
+                  <Button size="sm" variant="outline" disabled={cancelReembedMutation.isPending} onClick={(e) => { e.preventDefault(); cancelReembedMutation.mutate(); }}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            )}
           </L>
           <L label="Retriever top K" hint="How many passages to return after ranking. Lower for precision, higher for recall.">
             <Input type="number" disabled={!isAdmin} value={current.retriever_top_k} onChange={(e) => setForm({ ...(current as RagSettings), retriever_top_k: Number(e.target.value) })} />
@@ -107,6 +173,26 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
           <L label="Hybrid search enabled" hint="Combine vector and keyword search for robustness to exact terms and semantics.">
             <Checkbox checked={current.hybrid_enabled} onCheckedChange={(v) => isAdmin && setForm({ ...(current as RagSettings), hybrid_enabled: Boolean(v) })} />
           </L>
+          <L label="Fusion strategy" hint="How vector and keyword results are combined. Weighted uses normalized scores; RRF uses ranks only (stable when score scales differ); Z-score dampens outliers.">
+            <Select
+              value={current.fusion_strategy}
+              onValueChange={(val) => isAdmin && setForm({ ...(current as RagSettings), fusion_strategy: val })}
+              disabled={!isAdmin}
+            >
+              <SelectTrigger className="w-full"><SelectValue placeholder="Select a strategy" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weighted">Weighted (min-max)</SelectItem>
+                <SelectItem value="rrf">Reciprocal Rank Fusion</SelectItem>
+                <SelectItem value="zscore">Z-score</SelectItem>
+              </SelectContent>
+            </Select>
+          </L>
+          <L label="Vector weight" hint="Share of the fused score from semantic (vector) search, 0–1. Weights are normalized to sum to 1.">
+            <Input type="number" step="0.05" min={0} max={1} disabled={!isAdmin} value={current.vector_weight} onChange={(e) => setForm({ ...(current as RagSettings), vector_weight: Number(e.target.value) })} />
+          </L>
+          <L label="Keyword weight" hint="Share from keyword search, 0–1. Raise it for ID-heavy content (invoice or account numbers).">
+            <Input type="number" step="0.05" min={0} max={1} disabled={!isAdmin} value={current.keyword_weight} onChange={(e) => setForm({ ...(current as RagSettings), keyword_weight: Number(e.target.value) })} />
+          </L>
           <L label="Rerank enabled" hint="Second-stage rerank with the LLM for higher precision; adds latency and cost.">
             <Checkbox checked={current.rerank_enabled} onCheckedChange={(v) => isAdmin && setForm({ ...(current as RagSettings), rerank_enabled: Boolean(v) })} />
           </L>
@@ -116,6 +202,12 @@ export function RagControlsSection({ tenantId, isAdmin }: Props) {
           <L label="Retrieval timeout (ms)" hint="Stop retrieval early if it exceeds this time; lower reduces tail latency.">
             <Input type="number" disabled={!isAdmin} value={current.retrieval_timeout_ms} onChange={(e) => setForm({ ...(current as RagSettings), retrieval_timeout_ms: Number(e.target.value) })} />
           </L>
+          <L label="Chunk size (tokens)" hint="Target tokens per knowledge chunk (128–4000). Applies to documents ingested after saving; re-upload to rechunk existing ones.">
+            <Input type="number" disabled={!isAdmin} value={current.chunk_target_tokens} onChange={(e) => setForm({ ...(current as RagSettings), chunk_target_tokens: Number(e.target.value) })} />
+          </L>
+          <L label="Chunk overlap (tokens)" hint="Tokens repeated between consecutive chunks of a section so context isn't cut mid-thought; at most half the chunk size.">
+            <Input type="number" disabled={!isAdmin} value={current.chunk_overlap_tokens} onChange={(e) => setForm({ ...(current as RagSettings), chunk_overlap_tokens: Number(e.target.value) })} />
+          </L>
         </div>
       )}
       <div className="flex gap-2">
@@ -0,0 +1,305 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createClient } from "@/server/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { createEvalQuestionAction, deleteEvalQuestionAction, runRetrievalEvalAction } from "@/server/eval/eval.actions";
+import type { EvalQuestion, EvalRun } from "@/server/eval/eval.data";
+import type { EvalTarget } from "@/server/eval/metrics";
+
+type Props = { tenantId: string; isAdmin: boolean };
+
+type DocOption = { id: string; title: string | null };
+
+function pct(n: number | undefined): string {
+  return typeof n === "number" ? `${(n * 100).toFixed(1)}%` : "—";
+}
+
+function delta(curr: number, prev: number | undefined): string {
+  if (prev === undefined) return "";
+  const d = (curr - prev) * 100;
+  if (Math.abs(d) < 0.05) return "";
+  return ` (${d > 0 ? "+" : ""}${d.toFixed(1)})`;
+}
+
+export function RetrievalEvalSection({ tenantId, isAdmin }: Props) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const docsQuery = useQuery({
+    queryKey: ["kb_docs_options", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("kb_docs").select("id, title").eq("tenant_id", tenantId).neq("status", "deleted").order("title", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data || []) as DocOption[];
+    },
+    staleTime: 10000,
+  });
+
+  const questionsQuery = useQuery({
+    queryKey: ["kb_eval_questions", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kb_eval_questions")
+        .select("id, tenant_id, question, expected, notes, created_by, created_at")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data || []) as unknown as EvalQuestion[];
+    },
+    staleTime: 3000,
+  });
+
+  const runsQuery = useQuery({
+    queryKey: ["kb_eval_runs", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kb_eval_runs")
+        .select("id, tenant_id, k, settings, summary, results, created_by, created_at")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw new Error(error.message);
+      return (data || []) as unknown as EvalRun[];
+    },
+    staleTime: 3000,
+  });
+
+  const [question, setQuestion] = useState("");
+  const [notes, setNotes] = useState("");
+  const [targets, setTargets] = useState<EvalTarget[]>([]);
+  const [targetDoc, setTargetDoc] = useState<string | undefined>(undefined);
+  const [targetChunk, setTargetChunk] = useState("");
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const docTitle = (id: string) => docsQuery.data?.find((d) => d.id === id)?.title || id.slice(0, 8);
+  const targetLabel = (t: EvalTarget) => `${docTitle(t.doc_id)}${t.chunk_idx !== null && t.chunk_idx !== undefined ? ` #${t.chunk_idx}` : ""}`;
+
+  const createQuestion = useMutation({
+    mutationFn: async () => {
+      const res = await createEvalQuestionAction({ tenantId, question, expected: targets, notes: notes || undefined });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      setQuestion("");
+      setNotes("");
+      setTargets([]);
+      questionsQuery.refetch();
+      toast.success("Golden question saved");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to save question"),
+  });
+
+  const deleteQuestion = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await deleteEvalQuestionAction({ tenantId, id });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      questionsQuery.refetch();
+      toast.success("Golden question deleted");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to delete question"),
+  });
+
+  const runEval = useMutation({
+    mutationFn: async () => {
+      const res = await runRetrievalEvalAction({ tenantId });
+      if (!res.ok) throw new Error(res.error);
+      return res.runId;
+    },
+    onSuccess: (runId) => {
+      setSelectedRunId(runId);
+      runsQuery.refetch();
+      toast.success("Evaluation finished");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Evaluation failed"),
+  });
+
+  const addTarget = () => {
+    if (!targetDoc) return;
+    const chunk = targetChunk.trim() === "" ? null : Number(targetChunk);
+    if (chunk !== null && (!Number.isInteger(chunk) || chunk < 0)) {
+      toast.error("Chunk index must be a whole number");
+      return;
+    }
+    setTargets((prev) => [...prev, { doc_id: targetDoc, chunk_idx: chunk }]);
+    setTargetChunk("");
+  };
+
+  const runs = runsQuery.data || [];
+  const selectedRun = runs.find((r) => r.id === selectedRunId) ?? runs[0] ?? null;
+
+  return (
+    <Card className="p-4 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="text-lg font-medium">Retrieval Evaluation</div>
+        <Button disabled={!isAdmin || runEval.isPending || !(questionsQuery.data || []).length} onClick={() => runEval.mutate()}>
+          {runEval.isPending ? "Running..." : "Run evaluation"}
+        </Button>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Golden questions run through the same query gate, retrieval and score gate as chat, with the current RAG settings and your role&apos;s visibility. Compare runs before and after a settings change.
+      </div>
+
+      <div className="grid gap-2">
+        <div className="text-sm font-medium">Golden questions ({(questionsQuery.data || []).length})</div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Question</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(questionsQuery.data || []).map((q) => (
+              <TableRow key={q.id}>
+                <TableCell className="max-w-md whitespace-normal">
+                  {q.question}
+                  {q.notes ? <div className="text-xs text-muted-foreground">{q.notes}</div> : null}
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  <div className="flex flex-wrap gap-1">
+                    {(q.expected || []).map((t, i) => (
+                      <Badge key={i} variant="secondary">{targetLabel(t)}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <ConfirmDialog
+                    trigger={<Button size="sm" variant="outline" disabled={!isAdmin || deleteQuestion.isPending}>Delete</Button>}
+                    title="Delete golden question?"
+                    description="Past runs keep their results for this question."
+                    confirmLabel="Delete"
+                    onConfirm={() => deleteQuestion.mutate(q.id)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isAdmin && (
+        <div className="grid gap-2 text-sm">
+          <div className="text-sm font-medium">Add golden question</div>
+          <Textarea rows={2} placeholder="e.g. What is the account number on the ACME March invoice?" value={question} onChange={(e) => setQuestion(e.target.value)} />
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={targetDoc} onValueChange={setTargetDoc}>
+              <SelectTrigger className="w-72"><SelectValue placeholder="Expected document" /></SelectTrigger>
+              <SelectContent>
+                {(docsQuery.data || []).map((d) => (
+                  <SelectItem key={d.id} value={d.id}>{d.title || d.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input className="w-40" type="number" min={0} placeholder="Chunk # (optional)" value={targetChunk} onChange={(e) => setTargetChunk(e.target.value)} />
+            <Button variant="outline" disabled={!targetDoc} onClick={addTarget}>Add target</Button>
+          </div>
+          {targets.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {targets.map((t, i) => (
+                <Badge key={i} variant="secondary" className="cursor-pointer" onClick={() => setTargets((prev) => prev.filter((_, j) => j !== i))}>
+                  {targetLabel(t)} ×
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <div>
+            <Button disabled={!question.trim() || targets.length === 0 || createQuestion.isPending} onClick={() => createQuestion.mutate()}>
+              {createQuestion.isPending ? "Saving..." : "Save question"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        <div className="text-sm font-medium">Runs</div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Settings</TableHead>
+              <TableHead>Recall@k</TableHead>
+              <TableHead>MRR</TableHead>
+              <TableHead>nDCG@k</TableHead>
+              <TableHead>Recall after gate</TableHead>
+              <TableHead>Gating false negatives</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map((r, i) => {
+              // Deltas against the run before it (runs are newest first)
+              const prev = runs[i + 1]?.summary;
+              const s = r.summary;
+              return (
+                <TableRow key={r.id} className={`cursor-pointer ${selectedRun?.id === r.id ? "bg-muted" : ""}`} onClick={() => setSelectedRunId(r.id)}>
+                  <TableCell>{new Date(r.created_at).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    k={r.k}, {String(r.settings?.fusion_strategy ?? "weighted")} {String(r.settings?.vector_weight ?? "")}/{String(r.settings?.keyword_weight ?? "")}, floor {String(r.settings?.score_floor ?? "")}
+                  </TableCell>
+                  <TableCell>{pct(s.recall_at_k)}{delta(s.recall_at_k, prev?.recall_at_k)}</TableCell>
+                  <TableCell>{pct(s.mrr)}{delta(s.mrr, prev?.mrr)}</TableCell>
+                  <TableCell>{pct(s.ndcg_at_k)}{delta(s.ndcg_at_k, prev?.ndcg_at_k)}</TableCell>
+                  <TableCell>{pct(s.gated_recall)}{delta(s.gated_recall, prev?.gated_recall)}</TableCell>
+                  <TableCell>{s.gating_false_negatives} / {s.questions}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedRun && (
+        <div className="grid gap-2">
+          <div className="text-sm font-medium">Per question — {new Date(selectedRun.created_at).toLocaleString()}</div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question</TableHead>
+                <TableHead>Recall</TableHead>
+                <TableHead>RR</TableHead>
+                <TableHead>nDCG</TableHead>
+                <TableHead>Top hits (✓ relevant, ✗ dropped by gate)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(selectedRun.results || []).map((r) => (
+                <TableRow key={r.question_id}>
+                  <TableCell className="max-w-sm whitespace-normal">
+                    {r.question}
+                    {r.low_signal && <Badge variant="outline" className="ml-2">low signal</Badge>}
+                    {r.gating_false_negative && <Badge variant="destructive" className="ml-2">gated out</Badge>}
+                    {r.error && <div className="text-xs text-destructive">{r.error}</div>}
+                  </TableCell>
+                  <TableCell>{pct(r.recall)}</TableCell>
+                  <TableCell>{r.reciprocal_rank.toFixed(2)}</TableCell>
+                  <TableCell>{r.ndcg.toFixed(2)}</TableCell>
+                  <TableCell className="whitespace-normal text-xs">
+                    {r.hits.slice(0, 5).map((h, i) => (
+                      <div key={i} className={h.relevant ? "font-medium" : "text-muted-foreground"}>
+                        {i + 1}. {h.title || docTitle(h.doc_id)} #{h.chunk_idx} — {h.score.toFixed(2)}
+                        {h.relevant ? " ✓" : ""}
+                        {h.passed_gate ? "" : " ✗"}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
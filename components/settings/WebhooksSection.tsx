@@ -0,0 +1,349 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createClient } from "@/server/supabase/client";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  createWebhookEndpointAction,
+  deleteWebhookEndpointAction,
+  redeliverWebhookAction,
+  sendTestWebhookAction,
+  updateWebhookEndpointAction,
+  type DeliveryActionResult,
+} from "@/server/webhooks/webhooks.actions";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_SIGNATURE_HEADER, type WebhookDeliveryStatus } from "@/lib/utils/webhooks";
+import { formatDateTimeLocal } from "@/lib/utils/dates";
+
+type EndpointItem = { id: string; name: string; url: string; event_types: string[]; enabled: boolean; created_at: string };
+
+type DeliveryItem = {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+type Props = { tenantId: string; isAdmin: boolean };
+
+const ALL_ENDPOINTS = "__all";
+const DELIVERY_LOG_LIMIT = 50;
+
+function statusVariant(status: WebhookDeliveryStatus): "default" | "secondary" | "destructive" {
+  return status === "delivered" ? "default" : status === "dead" ? "destructive" : "secondary";
+}
+
+function outcomeToast(res: DeliveryActionResult, label: string) {
+  if (!res.ok) throw new Error(res.error);
+  const outcome = res.outcome;
+  if (!outcome) toast.message(`${label} queued`);
+  else if (outcome.status === "delivered") toast.success(`${label} delivered (HTTP ${outcome.responseStatus})`);
+  else toast.error(`${label} failed: ${outcome.error}`);
+}
+
+export function WebhooksSection({ tenantId, isAdmin }: Props) {
+  const supabase = useMemo(() => createClient(), []);
+
+  const endpointsQuery = useQuery({
+    queryKey: ["webhook_endpoints", tenantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .select("id, name, url, event_types, enabled, created_at")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data || []) as EndpointItem[];
+    },
+    enabled: isAdmin,
+    staleTime: 3000,
+  });
+
+  const [endpointFilter, setEndpointFilter] = useState(ALL_ENDPOINTS);
+  const deliveriesQuery = useQuery({
+    queryKey: ["webhook_deliveries", tenantId, endpointFilter],
+    queryFn: async () => {
+      let q = supabase
+        .from("webhook_deliveries")
+        .select("id, endpoint_id, event_type, payload, status, attempts, max_attempts, next_attempt_at, last_attempt_at, response_status, response_body, error, created_at")
+        .eq("tenant_id", tenantId)
+        .order("created_at", { ascending: false })
+        .limit(DELIVERY_LOG_LIMIT);
+      if (endpointFilter !== ALL_ENDPOINTS) q = q.eq("endpoint_id", endpointFilter);
+      const { data, error } = await q;
+      if (error) throw new Error(error.message);
+      return (data || []) as DeliveryItem[];
+    },
+    enabled: isAdmin,
+    refetchInterval: 15000,
+  });
+
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [eventTypes, setEventTypes] = useState<string[]>(["kb.doc.failed"]);
+  const [created, setCreated] = useState<{ name: string; secret: string } | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refetchAll = () => {
+    endpointsQuery.refetch();
+    deliveriesQuery.refetch();
+  };
+
+  const createEndpoint = useMutation({
+    mutationFn: async () => {
+      const res = await createWebhookEndpointAction({ tenantId, name, url, eventTypes });
+      if (!res.ok) throw new Error(res.error);
+      return res.secret;
+    },
+    onSuccess: (secret) => {
+      setCreated({ name: name.trim(), secret });
+      setName("");
+      setUrl("");
+      endpointsQuery.refetch();
+      toast.success("Webhook endpoint added");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to add endpoint"),
+  });
+
+  const updateEndpoint = useMutation({
+    mutationFn: async (input: { id: string; enabled?: boolean; eventTypes?: string[] }) => {
+      const res = await updateWebhookEndpointAction({ tenantId, ...input });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => endpointsQuery.refetch(),
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to update endpoint"),
+  });
+
+  const deleteEndpoint = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await deleteWebhookEndpointAction({ tenantId, id });
+      if (!res.ok) throw new Error(res.error);
+    },
+    onSuccess: () => {
+      setEndpointFilter(ALL_ENDPOINTS);
+      refetchAll();
+      toast.success("Webhook endpoint deleted");
+    },
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to delete endpoint"),
+  });
+
+  const sendTest = useMutation({
+    mutationFn: async (id: string) => outcomeToast(await sendTestWebhookAction({ tenantId, id }), "Test event"),
+    onSettled: () => deliveriesQuery.refetch(),
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to send test event"),
+  });
+
+  const redeliver = useMutation({
+    mutationFn: async (deliveryId: string) => outcomeToast(await redeliverWebhookAction({ tenantId, deliveryId }), "Redelivery"),
+    onSettled: () => deliveriesQuery.refetch(),
+    onError: (e: unknown) => toast.error(e instanceof Error ? e.message : "Failed to redeliver"),
+  });
+
+  if (!isAdmin) {
+    return (
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">Webhooks are managed by users with the settings.manage permission.</div>
+      </Card>
+    );
+  }
+
+  const endpoints = endpointsQuery.data || [];
+  const endpointName = new Map(endpoints.map((e) => [e.id, e.name]));
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4">
+        <div className="text-lg font-medium">Webhooks</div>
+        <div className="text-xs text-muted-foreground">
+          Endpoints receive a signed JSON POST for each subscribed event. Verify the <span className="font-mono">{WEBHOOK_SIGNATURE_HEADER}</span> header (<span className="font-mono">t=…,v1=…</span>, HMAC-SHA256 of <span className="font-mono">t.body</span>) with the endpoint&apos;s secret. Failed deliveries are retried with backoff, then dead-lettered.
+        </div>
+
+        {created && (
+          <div className="rounded-md border p-3 space-y-2">
+            <div className="text-sm font-medium">Signing secret for {created.name}: copy it now, it won&apos;t be shown again</div>
+            <div className="flex items-center gap-2">
+              <Input readOnly className="font-mono text-xs" value={created.secret} onFocus={(e) => e.target.select()} />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={async () => {
+                  await navigator.clipboard.writeText(created.secret);
+                  toast.success("Copied to clipboard");
+                }}
+              >
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setCreated(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="w-48" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {endpoints.map((e) => (
+              <TableRow key={e.id}>
+                <TableCell>{e.name}</TableCell>
+                <TableCell className="font-mono text-xs max-w-64 truncate" title={e.url}>{e.url}</TableCell>
+                <TableCell className="whitespace-normal">
+                  <div className="flex flex-wrap gap-1">
+                    {WEBHOOK_EVENT_TYPES.map((t) => {
+                      const on = e.event_types.includes(t.key);
+                      return (
+                        <Badge
+                          key={t.key}
+                          variant={on ? "secondary" : "outline"}
+                          className={`hover:cursor-pointer ${on ? "" : "opacity-50"}`}
+                          title={on ? "Click to unsubscribe" : "Click to subscribe"}
+                          onClick={() => {
+                            const next = on ? e.event_types.filter((x) => x !== t.key) : [...e.event_types, t.key];
+                            if (next.length === 0) return toast.error("An endpoint needs at least one event");
+                            updateEndpoint.mutate({ id: e.id, eventTypes: next });
+                          }}
+                        >
+                          {t.key}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch checked={e.enabled} disabled={updateEndpoint.isPending} onCheckedChange={(val) => updateEndpoint.mutate({ id: e.id, enabled: val })} />
+                </TableCell>
+                <TableCell className="space-x-2 text-right">
+                  <Button size="sm" variant="outline" disabled={sendTest.isPending} onClick={() => sendTest.mutate(e.id)}>
+                    Send test event
+                  </Button>
+                  <ConfirmDialog
+                    trigger={<Button size="sm" variant="outline" disabled={deleteEndpoint.isPending}>Delete</Button>}
+                    title="Delete webhook endpoint?"
+                    description="Queued deliveries and the delivery log of this endpoint are removed too."
+                    confirmLabel="Delete"
+                    onConfirm={() => deleteEndpoint.mutate(e.id)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="grid gap-2 text-sm">
+          <div className="text-sm font-medium">New endpoint</div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input className="w-56" placeholder="Name, e.g. Ticketing" value={name} onChange={(e) => setName(e.target.value)} />
+            <Input className="w-96" placeholder="https://example.com/hooks/swiftmind" value={url} onChange={(e) => setUrl(e.target.value)} />
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {WEBHOOK_EVENT_TYPES.map((t) => (
+              <label key={t.key} className="flex items-center gap-2">
+                <Checkbox checked={eventTypes.includes(t.key)} onCheckedChange={(val) => setEventTypes((cur) => (val ? [...cur, t.key] : cur.filter((x) => x !== t.key)))} />
+                <span>{t.label}</span>
+                <span className="font-mono text-xs text-muted-foreground">{t.key}</span>
+              </label>
+            ))}
+          </div>
+          <div>
+            <Button disabled={!name.trim() || !url.trim() || eventTypes.length === 0 || createEndpoint.isPending} onClick={() => createEndpoint.mutate()}>
+              {createEndpoint.isPending ? "Adding..." : "Add endpoint"}
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-lg font-medium">Delivery log</div>
+          <div className="flex items-center gap-2">
+            <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ENDPOINTS}>All endpoints</SelectItem>
+                {endpoints.map((e) => <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" disabled={deliveriesQuery.isFetching} onClick={() => deliveriesQuery.refetch()}>Refresh</Button>
+          </div>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Created</TableHead>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Response</TableHead>
+              <TableHead>Next attempt</TableHead>
+              <TableHead className="w-40" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(deliveriesQuery.data || []).map((d) => (
+              <Fragment key={d.id}>
+                <TableRow>
+                  <TableCell>{formatDateTimeLocal(d.created_at)}</TableCell>
+                  <TableCell>{endpointName.get(d.endpoint_id) ?? "—"}</TableCell>
+                  <TableCell className="font-mono text-xs">{d.event_type}</TableCell>
+                  <TableCell><Badge variant={statusVariant(d.status)}>{d.status}</Badge></TableCell>
+                  <TableCell>{d.attempts}/{d.max_attempts}</TableCell>
+                  <TableCell className="max-w-64 truncate" title={d.error || undefined}>{d.response_status ?? d.error ?? "—"}</TableCell>
+                  <TableCell>{d.status === "pending" && d.next_attempt_at ? formatDateTimeLocal(d.next_attempt_at) : "—"}</TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button size="sm" variant="ghost" onClick={() => setExpanded((cur) => (cur === d.id ? null : d.id))}>
+                      {expanded === d.id ? "Hide" : "Details"}
+                    </Button>
+                    {d.status !== "pending" && (
+                      <Button size="sm" variant="outline" disabled={redeliver.isPending} onClick={() => redeliver.mutate(d.id)}>Redeliver</Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {expanded === d.id && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="whitespace-normal">
+                      <div className="grid gap-2 md:grid-cols-2 text-xs">
+                        <div>
+                          <div className="font-medium mb-1">Payload</div>
+                          <pre className="rounded bg-muted p-2 overflow-auto max-h-64">{JSON.stringify(d.payload, null, 2)}</pre>
+                        </div>
+                        <div>
+                          <div className="font-medium mb-1">Last response{d.last_attempt_at ? ` (${formatDateTimeLocal(d.last_attempt_at)})` : ""}</div>
+                          <pre className="rounded bg-muted p-2 overflow-auto max-h-64 whitespace-pre-wrap">{d.error ? `${d.error}\n\n` : ""}{d.response_body || "—"}</pre>
+                        </div>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Node.js server only; the check needs the admin client
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+  const { assertEmbeddingDimensions } = await import("@/server/kb/embeddingDimensions");
+  await assertEmbeddingDimensions();
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { chunkContent, DEFAULT_CHUNK_OPTIONS, formatBreadcrumb, resolveChunkOptions, validateChunkOptions } from "./chunk";
+import { countTokens } from "./tokens";
+
+function chunk(content: string, targetTokens = 40, overlapTokens = 0): string[] {
+  return chunkContent([{ title: null, content, sectionIndex: 0 }], { targetTokens, overlapTokens }).map((c) => c.content);
+}
+
+const table = (rows: number) => ["| Plan | Price |", "| --- | --- |", ...Array.from({ length: rows }, (_, i) => `| P${i} | $${i}0 |`)].join("\n");
+
+describe("chunkContent", () => {
+  it("keeps a section that fits in one chunk, with its heading path", () => {
+    const [c] = chunkContent([{ title: "Billing", content: "Invoices go out monthly.", sectionIndex: 2, headingPath: ["Guide", "Billing"] }], DEFAULT_CHUNK_OPTIONS);
+    expect(c).toMatchObject({ title: "Billing", content: "Invoices go out monthly.", sectionIndex: 2, headingPath: ["Guide", "Billing"] });
+    expect(c!.tokens).toBe(countTokens("Invoices go out monthly."));
+  });
+
+  it("splits an oversized table by rows and repeats the header in every part", () => {
+    const parts = chunk(table(12));
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) expect(part.startsWith("| Plan | Price |\n| --- | --- |\n| P")).toBe(true);
+    expect(parts.join("\n")).toContain("| P11 | $110 |");
+  });
+
+  it("treats pipe rows with a consistent column count as a table", () => {
+    const rows = Array.from({ length: 12 }, (_, i) => `| Item ${i} | ${i} |`).join("\n");
+    const parts = chunk(rows);
+    // Header-less: the first row is repeated as the header
+    for (const part of parts) expect(part.startsWith("| Item 0 | 0 |")).toBe(true);
+  });
+
+  it("keeps prose that only contains ' | ' as a paragraph split by sentences", () => {
+    const prose = "Plans: Basic | Pro | Enterprise are available. Choose one | or ask sales for a quote. Prices change yearly. Discounts apply to annual billing only.";
+    const parts = chunk(prose, 20);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts[0]!.startsWith("Plans: Basic | Pro | Enterprise are available.")).toBe(true);
+    // Split between sentences, not on the pipes
+    for (const part of parts) expect(part).toMatch(/[.]$/);
+  });
+
+  it("does not start a table on pipe rows with different column counts", () => {
+    const rows = "| Pricing changes every year for all of the plans that we sell. |\n| Plan | Price | Notes on each plan are kept in the appendix. |";
+    // Split as prose (lines joined, cut between sentences), not by rows under a repeated header
+    expect(chunk(rows, 20)).toEqual([
+      "| Pricing changes every year for all of the plans that we sell.",
+      "| | Plan | Price | Notes on each plan are kept in the appendix. |",
+    ]);
+  });
+
+  it("re-fences split code blocks", () => {
+    const code = ["```ts", ...Array.from({ length: 30 }, (_, i) => `const value${i} = ${i};`), "```"].join("\n");
+    const parts = chunk(code);
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.startsWith("```ts\n")).toBe(true);
+      expect(part.endsWith("\n```")).toBe(true);
+    }
+  });
+
+  it("splits lists between items", () => {
+    const list = Array.from({ length: 20 }, (_, i) => `- Step ${i}: do the thing number ${i}`).join("\n");
+    for (const part of chunk(list)) {
+      for (const line of part.split("\n")) expect(line).toMatch(/^- Step \d+: do the thing number \d+$/);
+    }
+  });
+
+  it("carries whole trailing sentences over as overlap", () => {
+    const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} is here.`);
+    const parts = chunk(sentences.join(" "), 40, 10);
+    expect(parts.length).toBeGreaterThan(1);
+    const lastOfFirst = parts[0]!.split(/(?<=\.)\s+/).at(-1)!;
+    expect(parts[1]!.startsWith(lastOfFirst)).toBe(true);
+  });
+
+  it("skips empty sections", () => {
+    expect(chunkContent([{ title: "Empty", content: "  \n\n ", sectionIndex: 0 }], DEFAULT_CHUNK_OPTIONS)).toEqual([]);
+  });
+});
+
+describe("chunk options", () => {
+  it("validates the target and the overlap", () => {
+    expect(validateChunkOptions({ targetTokens: 1000, overlapTokens: 120 })).toEqual({ ok: true });
+    expect(validateChunkOptions({ targetTokens: 64, overlapTokens: 0 }).ok).toBe(false);
+    expect(validateChunkOptions({ targetTokens: 500, overlapTokens: 251 }).ok).toBe(false);
+    expect(validateChunkOptions({ targetTokens: 500.5, overlapTokens: 0 }).ok).toBe(false);
+  });
+
+  it("falls back to the defaults for missing or invalid settings", () => {
+    expect(resolveChunkOptions(null)).toEqual(DEFAULT_CHUNK_OPTIONS);
+    expect(resolveChunkOptions({ chunk_target_tokens: 512, chunk_overlap_tokens: 64 })).toEqual({ targetTokens: 512, overlapTokens: 64 });
+    expect(resolveChunkOptions({ chunk_target_tokens: 512, chunk_overlap_tokens: 400 })).toEqual(DEFAULT_CHUNK_OPTIONS);
+  });
+
+  it("formats the heading path as a breadcrumb", () => {
+    expect(formatBreadcrumb(["Guide", "Billing", "Refunds"])).toBe("Guide > Billing > Refunds");
+  });
+});
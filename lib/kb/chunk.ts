@@ -1,46 +1,279 @@
 import "server-only";
 import type { Section } from "./extract";
+import { countTokens, splitByTokens } from "./tokens";
 
-export type Chunk = { title: string | null; content: string; sectionIndex: number };
+export type Chunk = {
+  title: string | null;
+  content: string;
+  sectionIndex: number;
+  /** Enclosing headings, outermost first */
+  headingPath: string[];
+  tokens: number;
+};
 
-type ChunkOptions = {
+export type ChunkOptions = {
   targetTokens: number;
   overlapTokens: number;
 };
 
-const AVG_CHARS_PER_TOKEN = 4; // rough heuristic
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { targetTokens: 1000, overlapTokens: 120 };
+
+/** "H1 > H2 > H3" label stored with each chunk and shown in citations. */
+export function formatBreadcrumb(headingPath: string[]): string {
+  return headingPath.join(" > ");
+}
+
+type BlockKind = "code" | "table" | "list" | "text";
+type Block = { kind: BlockKind; lines: string[] };
+
+/** Smallest piece the packer moves around; `sep` joins it to the previous unit in the same chunk. */
+type Unit = { text: string; tokens: number; sep: string };
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM_RE = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** A row with a leading or trailing pipe, as markdown tables (and the Office extractors) write them. */
+function isPipeRow(line: string): boolean {
+  return /^\s*\|/.test(line) || /\|\s*$/.test(line);
+}
+
+function columnCount(line: string): number {
+  return line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "").split(/(?<!\\)\|/).length;
+}
+
+/**
+ * A table starts at `lines[i]` when it is followed by a `|---|` separator row, or when it and the next row are pipe
+ * rows with the same number of columns. Prose that merely contains " | " never qualifies.
+ */
+function tableStartsAt(lines: string[], i: number): boolean {
+  const line = lines[i]!;
+  const next = lines[i + 1] ?? "";
+  if (!line.includes("|")) return false;
+  if (TABLE_SEPARATOR_RE.test(next) && next.includes("|")) return columnCount(line) === columnCount(next);
+  return isPipeRow(line) && isPipeRow(next) && columnCount(line) === columnCount(next);
+}
+
+/** Splits section text into markdown-ish blocks: fenced code, tables, lists and paragraphs. */
+function parseBlocks(content: string): Block[] {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n").map((l) => l.replace(/\s+$/, ""));
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const block: Block = { kind: "code", lines: [line] };
+      i++;
+      while (i < lines.length) {
+        const l = lines[i++]!;
+        block.lines.push(l);
+        if (l.trim().startsWith(fence[1]!)) break;
+      }
+      blocks.push(block);
+      continue;
+    }
+
+    if (tableStartsAt(lines, i)) {
+      // Header and separator (or first two rows), then every following row; under a separator a row needs no outer pipes
+      const hasSeparator = TABLE_SEPARATOR_RE.test(lines[i + 1]!);
+      const block: Block = { kind: "table", lines: [lines[i]!, lines[i + 1]!] };
+      i += 2;
+      while (i < lines.length && lines[i]!.trim() && (isPipeRow(lines[i]!) || (hasSeparator && lines[i]!.includes("|")))) block.lines.push(lines[i++]!);
+      blocks.push(block);
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const block: Block = { kind: "list", lines: [] };
+      while (i < lines.length) {
+        const l = lines[i]!;
+        if (LIST_ITEM_RE.test(l) || (/^\s+\S/.test(l) && block.lines.length)) {
+          block.lines.push(l);
+          i++;
+        } else if (!l.trim() && LIST_ITEM_RE.test(lines[i + 1] ?? "")) {
+          i++; // loose list: blank line between items
+        } else break;
+      }
+      blocks.push(block);
+      continue;
+    }
+
+    const block: Block = { kind: "text", lines: [] };
+    while (i < lines.length) {
+      const l = lines[i]!;
+      if (!l.trim() || FENCE_RE.test(l) || tableStartsAt(lines, i) || LIST_ITEM_RE.test(l)) break;
+      block.lines.push(l);
+      i++;
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+/** Greedily groups pieces into texts of at most `maxTokens`; a single oversized piece is split by tokens. */
+function groupPieces(pieces: string[], joiner: string, maxTokens: number, wrap: (text: string) => string = (t) => t): string[] {
+  const overhead = countTokens(wrap(""));
+  const budget = Math.max(1, maxTokens - overhead);
+  const groups: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  const flush = () => {
+    if (current.length) groups.push(wrap(current.join(joiner)));
+    current = [];
+    currentTokens = 0;
+  };
+  for (const piece of pieces) {
+    const tokens = countTokens(piece);
+    if (tokens > budget) {
+      flush();
+      for (const part of splitByTokens(piece, budget)) groups.push(wrap(part));
+      continue;
+    }
+    if (current.length && currentTokens + tokens + 1 > budget) flush();
+    current.push(piece);
+    currentTokens += tokens + (current.length > 1 ? 1 : 0);
+  }
+  flush();
+  return groups;
+}
+
+/**
+ * Turns a block into units no larger than `maxTokens`, splitting along the block's own structure.
+ * Lists and prose become one unit per item/sentence so the packer (and overlap) can cut between them;
+ * table and code pieces are pre-grouped because each piece repeats the header or fence.
+ */
+function blockToUnits(block: Block, maxTokens: number): Unit[] {
+  const text = block.lines.join("\n");
+  const tokens = countTokens(text);
+  if (tokens <= maxTokens) return [{ text, tokens, sep: "\n\n" }];
+
+  let parts: string[];
+  let sep = "\n\n";
+  switch (block.kind) {
+    case "table": {
+      // Every piece repeats the header row so columns stay labelled
+      const headerSize = TABLE_SEPARATOR_RE.test(block.lines[1] ?? "") ? 2 : 1;
+      const header = block.lines.slice(0, headerSize).join("\n");
+      parts = groupPieces(block.lines.slice(headerSize), "\n", maxTokens, (rows) => (rows ? `${header}\n${rows}` : header));
+      break;
+    }
+    case "code": {
+      const open = block.lines[0]!;
+      const close = open.match(FENCE_RE)![1]!;
+      const hasClose = block.lines.length > 1 && block.lines[block.lines.length - 1]!.trim().startsWith(close);
+      const body = block.lines.slice(1, hasClose ? -1 : undefined);
+      parts = groupPieces(body, "\n", maxTokens, (code) => `${open}\n${code}\n${close}`);
+      break;
+    }
+    case "list": {
+      const items: string[] = [];
+      for (const line of block.lines) {
+        if (LIST_ITEM_RE.test(line) || !items.length) items.push(line);
+        else items[items.length - 1] += `\n${line}`;
+      }
+      parts = items.flatMap((item) => groupPieces([item], "\n", maxTokens));
+      sep = "\n";
+      break;
+    }
+    default: {
+      const sentences = text.replace(/\s*\n\s*/g, " ").split(/(?<=[.!?。！？])\s+/).filter(Boolean);
+      parts = sentences.flatMap((sentence) => groupPieces([sentence], " ", maxTokens));
+      sep = " ";
+    }
+  }
+  return parts.map((p, idx) => ({ text: p, tokens: countTokens(p), sep: idx === 0 ? "\n\n" : sep }));
+}
+
+function joinUnits(units: Unit[]): string {
+  return units.map((u, idx) => (idx === 0 ? u.text : u.sep + u.text)).join("").trim();
+}
+
+/** Trailing whole units (at most `overlapTokens`) carried into the next chunk. */
+function overlapTail(units: Unit[], overlapTokens: number): Unit[] {
+  const tail: Unit[] = [];
+  let total = 0;
+  for (let i = units.length - 1; i >= 0; i--) {
+    const u = units[i]!;
+    if (total + u.tokens > overlapTokens) break;
+    tail.unshift(u);
+    total += u.tokens;
+  }
+  // Never carry the whole chunk over
+  return tail.length === units.length ? [] : tail;
+}
 
+/**
+ * Token-accurate, structure-aware chunking.
+ * Each section (heading scope) is parsed into blocks that are kept whole where they fit; oversized
+ * tables split by rows (header repeated), code by lines (re-fenced), lists by items and prose by sentences.
+ * Consecutive chunks share up to `overlapTokens` of trailing whole units.
+ */
 export function chunkContent(sections: Section[], opts: ChunkOptions): Chunk[] {
-  const maxChars = opts.targetTokens * AVG_CHARS_PER_TOKEN;
-  const overlapChars = opts.overlapTokens * AVG_CHARS_PER_TOKEN;
+  const target = Math.max(1, opts.targetTokens);
+  const overlap = Math.max(0, Math.min(opts.overlapTokens, Math.floor(target / 2)));
   const chunks: Chunk[] = [];
 
   for (const sec of sections) {
-    const text = sec.content.replace(/\s+/g, " ").trim();
-    if (!text) continue;
+    const headingPath = sec.headingPath ?? (sec.title ? [sec.title] : []);
+    const units = parseBlocks(sec.content).flatMap((b) => blockToUnits(b, target));
+    if (!units.length) continue;
 
-    if (text.length <= maxChars) {
-      chunks.push({ title: sec.title, content: text, sectionIndex: sec.sectionIndex });
-      continue;
-    }
+    let current: Unit[] = [];
+    let currentTokens = 0;
+    let hasNew = false;
+    const emit = () => {
+      if (!hasNew) return;
+      const content = joinUnits(current);
+      chunks.push({ title: sec.title, content, sectionIndex: sec.sectionIndex, headingPath, tokens: countTokens(content) });
+    };
 
-    let start = 0;
-    while (start < text.length) {
-      const end = Math.min(start + maxChars, text.length);
-      let slice = text.slice(start, end);
-      // try to cut at sentence boundary
-      const lastPeriod = slice.lastIndexOf(". ");
-      if (end < text.length && lastPeriod > maxChars * 0.6) {
-        slice = slice.slice(0, lastPeriod + 1);
+    for (const unit of units) {
+      if (current.length && currentTokens + unit.tokens + 1 > target) {
+        emit();
+        current = overlapTail(current, overlap);
+        currentTokens = current.reduce((a, u) => a + u.tokens + 1, 0);
+        hasNew = false;
+        if (currentTokens + unit.tokens + 1 > target) {
+          current = [];
+          currentTokens = 0;
+        }
       }
-      chunks.push({ title: sec.title, content: slice.trim(), sectionIndex: sec.sectionIndex });
-      if (end >= text.length) break;
-      start = start + slice.length - overlapChars;
-      if (start < 0) start = 0;
+      current.push(unit);
+      currentTokens += unit.tokens + 1;
+      hasNew = true;
     }
+    emit();
   }
 
   return chunks;
 }
 
+export const CHUNK_TARGET_TOKENS_MIN = 128;
+export const CHUNK_TARGET_TOKENS_MAX = 4000;
 
+/** Checks tenant chunk sizes; overlap must stay under half the target so every chunk carries new text. */
+export function validateChunkOptions(opts: ChunkOptions): { ok: true } | { ok: false; error: string } {
+  const { targetTokens, overlapTokens } = opts;
+  if (!Number.isInteger(targetTokens) || targetTokens < CHUNK_TARGET_TOKENS_MIN || targetTokens > CHUNK_TARGET_TOKENS_MAX) {
+    return { ok: false, error: `Chunk size must be between ${CHUNK_TARGET_TOKENS_MIN} and ${CHUNK_TARGET_TOKENS_MAX} tokens` };
+  }
+  if (!Number.isInteger(overlapTokens) || overlapTokens < 0 || overlapTokens > Math.floor(targetTokens / 2)) {
+    return { ok: false, error: "Chunk overlap must be between 0 and half the chunk size" };
+  }
+  return { ok: true };
+}
+
+/** Chunk options from a `tenant_rag_settings` row; missing or invalid values fall back to the defaults. */
+export function resolveChunkOptions(row: { chunk_target_tokens?: number | null; chunk_overlap_tokens?: number | null } | null | undefined): ChunkOptions {
+  const opts: ChunkOptions = {
+    targetTokens: row?.chunk_target_tokens ?? DEFAULT_CHUNK_OPTIONS.targetTokens,
+    overlapTokens: row?.chunk_overlap_tokens ?? DEFAULT_CHUNK_OPTIONS.overlapTokens,
+  };
+  return validateChunkOptions(opts).ok ? opts : DEFAULT_CHUNK_OPTIONS;
+}
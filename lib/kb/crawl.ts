@@ -0,0 +1,169 @@
+import "server-only";
+
+/**
+ * Building blocks of the web source crawler (`server/web/runCrawl.ts`): robots.txt rules, crawl scope and
+ * sitemap parsing. Network-free so the crawl loop decides how and when to fetch.
+ */
+
+export type WebSourceConfig = {
+  /** Page the crawl starts from; links are followed up to `maxDepth` */
+  startUrl?: string | null;
+  /** `sitemap.xml` or sitemap index; listed pages are crawled at depth 0 */
+  sitemapUrl?: string | null;
+  /** URL patterns (`*` wildcard) a page must match one of; empty = everything on the start host(s) */
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  maxPages?: number;
+  /** Minimum pause between requests; robots.txt `Crawl-delay` can raise it */
+  delayMs?: number;
+};
+
+export type RobotsRule = { allow: boolean; pattern: string };
+
+/** The robots.txt group that applies to our user agent; serialisable so the cursor can cache it. */
+export type RobotsPolicy = { rules: RobotsRule[]; crawlDelayMs: number | null; sitemaps: string[] };
+
+export const DEFAULT_MAX_DEPTH = 2;
+export const DEFAULT_MAX_PAGES = 200;
+export const MAX_PAGES_LIMIT = 2000;
+export const DEFAULT_DELAY_MS = 1000;
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelayMs: null, sitemaps: [] };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: "/" }], crawlDelayMs: null, sitemaps: [] };
+
+/**
+ * Parses robots.txt (RFC 9309): the groups naming our product token apply, else the `*` groups.
+ * Groups with several `User-agent` lines share their rules.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const token = userAgent.split("/")[0]!.trim().toLowerCase();
+  type Group = { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const sep = line.indexOf(":");
+    if (sep < 0) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+    if (key === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+    } else if (current && (key === "allow" || key === "disallow")) {
+      // An empty Disallow allows everything; it adds no rule
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (current && key === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelayMs = Math.round(seconds * 1000);
+    }
+  }
+  const named = groups.filter((g) => g.agents.includes(token));
+  const chosen = named.length ? named : groups.filter((g) => g.agents.includes("*"));
+  return {
+    rules: chosen.flatMap((g) => g.rules),
+    crawlDelayMs: chosen.reduce<number | null>((max, g) => (g.crawlDelayMs == null ? max : Math.max(max ?? 0, g.crawlDelayMs)), null),
+    sitemaps,
+  };
+}
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/** Longest matching rule wins; on a tie `Allow` does. No matching rule means allowed. */
+export function isAllowedByRobots(policy: RobotsPolicy, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) best = rule;
+  }
+  return best ? best.allow : true;
+}
+
+/** `*` matches any run of characters. Patterns with a scheme match the full URL, others the path and query. */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const target = /^https?:\/\//i.test(pattern) ? url : (() => {
+    const u = new URL(url);
+    return u.pathname + u.search;
+  })();
+  const re = new RegExp(`^${pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`, "i");
+  return re.test(target);
+}
+
+/** Canonical form used for de-duplication: http(s) only, no fragment, no default port. Null when not crawlable. */
+export function normalizeCrawlUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    if ((url.protocol === "http:" && url.port === "80") || (url.protocol === "https:" && url.port === "443")) url.port = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/** Hosts of the start URL and sitemap; the crawl never leaves them. */
+export function crawlHosts(config: WebSourceConfig): Set<string> {
+  const hosts = new Set<string>();
+  for (const u of [config.startUrl, config.sitemapUrl]) {
+    const normalized = u ? normalizeCrawlUrl(u) : null;
+    if (normalized) hosts.add(new URL(normalized).host);
+  }
+  return hosts;
+}
+
+export function isInCrawlScope(url: string, config: WebSourceConfig, hosts: Set<string>): boolean {
+  if (!hosts.has(new URL(url).host)) return false;
+  const include = (config.include ?? []).filter(Boolean);
+  const exclude = (config.exclude ?? []).filter(Boolean);
+  if (include.length && !include.some((p) => matchesUrlPattern(url, p))) return false;
+  return !exclude.some((p) => matchesUrlPattern(url, p));
+}
+
+/** `<loc>` entries of a `<urlset>` (pages) or `<sitemapindex>` (nested sitemaps). */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locs = (block: string) =>
+    Array.from(block.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi)).map((m) =>
+      m[1]!.trim().replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'"),
+    );
+  const sitemaps = Array.from(xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi)).flatMap((m) => locs(m[1]!));
+  const pages = Array.from(xml.matchAll(/<url>([\s\S]*?)<\/url>/gi)).flatMap((m) => locs(m[1]!));
+  return { pages, sitemaps };
+}
+
+/** Validates a config from the create form; returns the normalised config or an error message. */
+export function validateWebSourceConfig(config: WebSourceConfig): { ok: true; config: WebSourceConfig } | { ok: false; error: string } {
+  const startUrl = config.startUrl?.trim() ? normalizeCrawlUrl(config.startUrl.trim()) : null;
+  const sitemapUrl = config.sitemapUrl?.trim() ? normalizeCrawlUrl(config.sitemapUrl.trim()) : null;
+  if (config.startUrl?.trim() && !startUrl) return { ok: false, error: "Start URL must be an http(s) URL" };
+  if (config.sitemapUrl?.trim() && !sitemapUrl) return { ok: false, error: "Sitemap URL must be an http(s) URL" };
+  if (!startUrl && !sitemapUrl) return { ok: false, error: "Give a start URL or a sitemap URL" };
+  const maxDepth = Math.floor(Number(config.maxDepth ?? DEFAULT_MAX_DEPTH));
+  if (!Number.isFinite(maxDepth) || maxDepth < 0 || maxDepth > 10) return { ok: false, error: "Depth must be between 0 and 10" };
+  const maxPages = Math.floor(Number(config.maxPages ?? DEFAULT_MAX_PAGES));
+  if (!Number.isFinite(maxPages) || maxPages < 1 || maxPages > MAX_PAGES_LIMIT) return { ok: false, error: `Max pages must be between 1 and ${MAX_PAGES_LIMIT}` };
+  const delayMs = Math.floor(Number(config.delayMs ?? DEFAULT_DELAY_MS));
+  if (!Number.isFinite(delayMs) || delayMs < 0 || delayMs > 60_000) return { ok: false, error: "Delay must be between 0 and 60000 ms" };
+  const clean = (list?: string[]) => (list ?? []).map((p) => p.trim()).filter(Boolean);
+  return { ok: true, config: { startUrl, sitemapUrl, include: clean(config.include), exclude: clean(config.exclude), maxDepth, maxPages, delayMs } };
+}
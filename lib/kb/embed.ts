@@ -1,40 +1,232 @@
 import "server-only";
+import crypto from "node:crypto";
 
 const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
 
 type EmbeddingVector = number[];
 
-export async function embedChunks(texts: string[]): Promise<EmbeddingVector[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+/**
+ * Embedding backend selected per tenant from `tenant_rag_settings.embedding_model`.
+ *
+ * Model string format: `<provider>:<model>`; a bare model name means OpenAI.
+ * - `text-embedding-3-small` / `openai:text-embedding-3-large` — OpenAI
+ * - `azure:<deployment>` — Azure OpenAI (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY)
+ * - `local:<model>` — OpenAI-compatible server (LOCAL_EMBEDDINGS_BASE_URL), e.g. Ollama, vLLM, LM Studio
+ * - `hash` / `hash:<model>` — deterministic feature hashing; offline, for tests only
+ */
+export interface EmbeddingProvider {
+  /** Provider id: "openai" | "azure" | "local" | "hash" */
+  id: string;
+  /** Full model string as stored in settings */
+  model: string;
+  /** Vector size this provider produces; must match `kb_chunks.embedding` */
+  dimensions: number;
+  embed(texts: string[]): Promise<EmbeddingVector[]>;
+}
+
+/**
+ * Dimension of `kb_chunks.embedding` (pgvector column). Override only if the column was migrated; startup fails when it
+ * disagrees with the database (`server/kb/embeddingDimensions.ts`).
+ */
+export function getKbEmbeddingDimensions(): number {
+  return Number(process.env.KB_EMBEDDING_DIMENSIONS || 1536);
+}
+
+// Native output sizes of known OpenAI models; 3-series models also accept a `dimensions` request param
+const OPENAI_NATIVE_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
 
+function supportsDimensionsParam(model: string): boolean {
+  return model.startsWith("text-embedding-3");
+}
+
+async function postEmbeddings(params: {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  texts: string[];
+  label: string;
+}): Promise<EmbeddingVector[]> {
   // Avoid single huge payloads; batch by 64
   const batchSize = 64;
   const results: EmbeddingVector[] = [];
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const input = texts.slice(i, i + batchSize);
-    const res = await fetch("https://api.openai.com/v1/embeddings", {
+  for (let i = 0; i < params.texts.length; i += batchSize) {
+    const input = params.texts.slice(i, i + batchSize);
+    const res = await fetch(params.url, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input }),
+      headers: { "Content-Type": "application/json", ...params.headers },
+      body: JSON.stringify({ ...params.body, input }),
     });
     if (!res.ok) {
       const msg = await res.text();
-      throw new Error(`Embedding failed (${res.status}): ${msg.slice(0, 200)}`);
+      throw new Error(`Embedding failed (${params.label} ${res.status}): ${msg.slice(0, 200)}`);
     }
-    const json = (await res.json()) as { data: Array<{ embedding: number[] }> };
-    for (const row of json.data) results.push(row.embedding);
+    const json = (await res.json()) as { data: Array<{ embedding: number[]; index?: number }> };
+    const rows = [...json.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    for (const row of rows) results.push(row.embedding);
   }
   return results;
 }
 
+function openAiProvider(model: string, stored: string, dimensions: number): EmbeddingProvider {
+  const native = OPENAI_NATIVE_DIMENSIONS[model];
+  if (native !== undefined && native !== dimensions && !supportsDimensionsParam(model)) {
+    throw new Error(`Embedding model "${stored}" produces ${native} dimensions; the knowledge index expects ${dimensions}`);
+  }
+  return {
+    id: "openai",
+    model: stored,
+    dimensions,
+    async embed(texts) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+      return postEmbeddings({
+        url: "https://api.openai.com/v1/embeddings",
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: supportsDimensionsParam(model) ? { model, dimensions } : { model },
+        texts,
+        label: "openai",
+      });
+    },
+  };
+}
 
-export async function embedQuery(text: string): Promise<EmbeddingVector> {
-  const [embedding] = await embedChunks([text]);
-  return embedding;
+function azureProvider(deployment: string, stored: string, dimensions: number): EmbeddingProvider {
+  return {
+    id: "azure",
+    model: stored,
+    dimensions,
+    async embed(texts) {
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      if (!endpoint || !apiKey) throw new Error("Missing AZURE_OPENAI_ENDPOINT or AZURE_OPENAI_API_KEY");
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2024-02-01";
+      const base = endpoint.replace(/\/+$/, "");
+      return postEmbeddings({
+        url: `${base}/openai/deployments/${encodeURIComponent(deployment)}/embeddings?api-version=${apiVersion}`,
+        headers: { "api-key": apiKey },
+        body: process.env.AZURE_OPENAI_EMBEDDINGS_SEND_DIMENSIONS === "false" ? {} : { dimensions },
+        texts,
+        label: "azure",
+      });
+    },
+  };
+}
+
+function localProvider(model: string, stored: string, dimensions: number): EmbeddingProvider {
+  return {
+    id: "local",
+    model: stored,
+    dimensions,
+    async embed(texts) {
+      const baseUrl = process.env.LOCAL_EMBEDDINGS_BASE_URL;
+      if (!baseUrl) throw new Error("Missing LOCAL_EMBEDDINGS_BASE_URL");
+      const apiKey = process.env.LOCAL_EMBEDDINGS_API_KEY;
+      return postEmbeddings({
+        url: `${baseUrl.replace(/\/+$/, "")}/embeddings`,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: { model },
+        texts,
+        label: "local",
+      });
+    },
+  };
+}
+
+/**
+ * Deterministic bag-of-words feature hashing. No network; identical input → identical vector.
+ * Useful for tests and offline development; not meant for production retrieval quality.
+ */
+function hashingProvider(stored: string, dimensions: number): EmbeddingProvider {
+  return {
+    id: "hash",
+    model: stored,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vec = new Array<number>(dimensions).fill(0);
+        const tokens = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+        for (const tok of tokens) {
+          const digest = crypto.createHash("sha256").update(tok).digest();
+          const bucket = digest.readUInt32BE(0) % dimensions;
+          const sign = (digest[4] & 1) === 0 ? 1 : -1;
+          vec[bucket] += sign;
+        }
+        const norm = Math.sqrt(vec.reduce((a, v) => a + v * v, 0));
+        return norm > 0 ? vec.map((v) => v / norm) : vec;
+      });
+    },
+  };
+}
+
+/**
+ * Resolve the provider for a tenant's `embedding_model`.
+ * Throws when the provider is unknown or its declared dimensions don't match the knowledge index.
+ */
+export function resolveEmbeddingProvider(embeddingModel?: string | null): EmbeddingProvider {
+  const stored = (embeddingModel || "").trim() || OPENAI_EMBEDDING_MODEL;
+  const dimensions = getKbEmbeddingDimensions();
+  const sep = stored.indexOf(":");
+  const prefix = sep > 0 ? stored.slice(0, sep).toLowerCase() : "";
+  const rest = sep > 0 ? stored.slice(sep + 1).trim() : stored;
+
+  switch (prefix) {
+    case "":
+    case "openai":
+      if (!rest) throw new Error(`Invalid embedding model "${stored}"`);
+      return openAiProvider(rest, stored, dimensions);
+    case "azure":
+      if (!rest) throw new Error(`Azure embedding model needs a deployment name, e.g. "azure:my-embeddings"`);
+      return azureProvider(rest, stored, dimensions);
+    case "local": {
+      if (!rest) throw new Error(`Local embedding model needs a model name, e.g. "local:nomic-embed-text"`);
+      const declared = Number(process.env.LOCAL_EMBEDDINGS_DIMENSIONS || dimensions);
+      if (declared !== dimensions) {
+        throw new Error(`Local embedding model "${stored}" produces ${declared} dimensions; the knowledge index expects ${dimensions}`);
+      }
+      return localProvider(rest, stored, dimensions);
+    }
+    case "hash":
+      return hashingProvider(stored, dimensions);
+    default:
+      throw new Error(`Unknown embedding provider "${prefix}" in "${stored}"`);
+  }
 }
 
+/** Non-throwing variant for settings validation. */
+export function validateEmbeddingModel(embeddingModel: string): { ok: true; provider: string; dimensions: number } | { ok: false; error: string } {
+  try {
+    const p = resolveEmbeddingProvider(embeddingModel);
+    return { ok: true, provider: p.id, dimensions: p.dimensions };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Invalid embedding model" };
+  }
+}
 
+function assertDimensions(vectors: EmbeddingVector[], provider: EmbeddingProvider, expectedCount: number): void {
+  if (vectors.length !== expectedCount) {
+    throw new Error(`Embedding failed (${provider.id}): expected ${expectedCount} vectors, got ${vectors.length}`);
+  }
+  for (const v of vectors) {
+    if (!Array.isArray(v) || v.length !== provider.dimensions) {
+      throw new Error(`Embedding dimension mismatch for "${provider.model}": got ${Array.isArray(v) ? v.length : "none"}, the knowledge index expects ${provider.dimensions}`);
+    }
+  }
+}
+
+export async function embedChunks(texts: string[], embeddingModel?: string | null): Promise<EmbeddingVector[]> {
+  if (texts.length === 0) return [];
+  const provider = resolveEmbeddingProvider(embeddingModel);
+  const vectors = await provider.embed(texts);
+  assertDimensions(vectors, provider, texts.length);
+  return vectors;
+}
+
+
+export async function embedQuery(text: string, embeddingModel?: string | null): Promise<EmbeddingVector> {
+  const [embedding] = await embedChunks([text], embeddingModel);
+  return embedding;
+}
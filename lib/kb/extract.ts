@@ -1,28 +1,66 @@
 import "server-only";
 import crypto from "node:crypto";
 
-export type Section = { title: string | null; content: string; sectionIndex: number };
+/** `headingPath` is the chain of enclosing headings, outermost first (H1 > H2 > H3); `title` is its last entry. */
+export type Section = { title: string | null; content: string; sectionIndex: number; headingPath?: string[] };
 
 function extFromName(name: string): string {
   const m = name.toLowerCase().match(/\.([a-z0-9]+)$/);
   return m ? m[1] : "";
 }
 
-export async function hashContent(text: string): Promise<string> {
+export async function hashContent(text: string | Buffer): Promise<string> {
   const h = crypto.createHash("sha256");
   h.update(text);
   return h.digest("hex");
 }
 
+// Pre-2007 Office formats are OLE containers we can't parse; point users at the OOXML equivalent
+const LEGACY_OFFICE: Record<string, string> = { doc: "docx", ppt: "pptx", xls: "xlsx" };
+
+/** Scanned images, read with OCR */
+export const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg"]);
+
+const STRUCTURED_EXTENSIONS = new Set(["pdf", "md", "markdown", "html", "htm", "docx", "pptx", "xlsx", ...IMAGE_EXTENSIONS]);
+
+/** Why a file can't be ingested, or null when it can. Lets uploads fail fast instead of queueing noise. */
+export function unsupportedFileReason(buffer: Buffer, fileName: string): string | null {
+  const ext = extFromName(fileName);
+  if (STRUCTURED_EXTENSIONS.has(ext)) return null;
+  if (LEGACY_OFFICE[ext]) return `Legacy .${ext} files are not supported; save the file as .${LEGACY_OFFICE[ext]} and upload again`;
+  if (looksBinary(buffer)) {
+    return `Unsupported file type${ext ? ` ".${ext}"` : ""}: upload PDF, Word (.docx), PowerPoint (.pptx), Excel (.xlsx), Markdown, HTML, plain text or a PNG/JPEG scan`;
+  }
+  return null;
+}
+
 export async function extractTextAndSections(buffer: Buffer, fileName: string): Promise<{ text: string; sections: Section[]; fileExt: string }> {
   const ext = extFromName(fileName);
   if (ext === "pdf") return extractFromPdf(buffer, ext);
+  if (IMAGE_EXTENSIONS.has(ext)) return extractFromImage(buffer, ext);
   if (ext === "md" || ext === "markdown") return extractFromMarkdown(buffer, ext);
   if (ext === "html" || ext === "htm") return extractFromHtml(buffer, ext);
-  // default to text
+  if (ext === "docx") return extractFromDocx(buffer, ext);
+  if (ext === "pptx") return extractFromPptx(buffer, ext);
+  if (ext === "xlsx") return extractFromXlsx(buffer, ext);
+  // default to text, but never ingest binary noise
+  const reason = unsupportedFileReason(buffer, fileName);
+  if (reason) throw new Error(reason);
   return extractFromText(buffer, ext || "txt");
 }
 
+/** Heuristic on the first 8KB: NUL bytes or >10% control characters means not text. */
+function looksBinary(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.length === 0) return false;
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return true;
+    if (b < 9 || (b > 13 && b < 32)) control++;
+  }
+  return control / sample.length > 0.1;
+}
+
 async function extractFromPdf(buffer: Buffer, fileExt: string) {
   // For uniformity, use layout-aware extraction for PDFs; then split into sections by headings
   const { extractPdfLayout } = await import("./pdfLayout");
@@ -31,6 +69,13 @@ async function extractFromPdf(buffer: Buffer, fileExt: string) {
   return { text, sections, fileExt };
 }
 
+async function extractFromImage(buffer: Buffer, fileExt: string) {
+  const { extractImageLayout } = await import("./pdfLayout");
+  const { text } = await extractImageLayout(buffer);
+  const sections = splitByHeadings(text);
+  return { text, sections, fileExt };
+}
+
 async function extractFromMarkdown(buffer: Buffer, fileExt: string) {
   const { unified } = await import("unified");
   const remarkParse = (await import("remark-parse")).default;
@@ -38,7 +83,7 @@ async function extractFromMarkdown(buffer: Buffer, fileExt: string) {
   const md = buffer.toString("utf8");
   const processed = await unified().use(remarkParse).use(strip).process(md);
   const text = String(processed).trim();
-  const sections = splitByHeadings(md, true);
+  const sections = splitMarkdownSections(md);
   return { text, sections, fileExt };
 }
 
@@ -56,20 +101,350 @@ async function extractFromHtml(buffer: Buffer, fileExt: string) {
     node = walker.nextNode();
   }
   const text = parts.join(" ").replace(/\s+/g, " ").trim();
-  const outline = Array.from(doc.querySelectorAll("h1,h2,h3,h4,h5,h6,p,li"))
-    .map((el) => ({ tag: el.tagName.toLowerCase(), text: el.textContent?.trim() || "" }))
-    .filter((x) => x.text);
-  const sections = splitOutline(outline);
+  const sections = splitOutline(htmlOutline(doc));
   return { text, sections, fileExt };
 }
 
+function htmlOutline(root: ParentNode): Array<{ tag: string; text: string }> {
+  return Array.from(root.querySelectorAll("h1,h2,h3,h4,h5,h6,p,li"))
+    .map((el) => {
+      const tag = el.tagName.toLowerCase();
+      const text = el.textContent?.trim() || "";
+      return { tag, text: tag === "li" && text ? `- ${text}` : text };
+    })
+    .filter((x) => x.text);
+}
+
+/** Site chrome that repeats on every page of a crawl and would drown the page's own text in retrieval */
+const BOILERPLATE_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form",
+  "nav", "header", "footer", "aside",
+  "[role=navigation]", "[role=banner]", "[role=contentinfo]", "[role=complementary]", "[aria-hidden=true]",
+].join(",");
+
+export type WebPage = {
+  title: string | null;
+  text: string;
+  sections: Section[];
+  fileExt: string;
+  /** Absolute http(s) links in the page, fragment removed, in document order */
+  links: string[];
+  /** `<meta name="robots">` directives */
+  noindex: boolean;
+  nofollow: boolean;
+  /** `<link rel="canonical">`, when it points elsewhere */
+  canonical: string | null;
+};
+
+/**
+ * Main content of a crawled page: `<main>`/`<article>`/`[role=main]` when present, otherwise the body, with
+ * navigation, header, footer, sidebars and scripts removed. Links are collected before stripping so navigation
+ * still leads the crawler to other pages.
+ */
+export async function extractWebPage(html: string, pageUrl: string): Promise<WebPage> {
+  const { JSDOM } = await import("jsdom");
+  const dom = new JSDOM(html, { url: pageUrl });
+  const doc = dom.window.document;
+
+  const links: string[] = [];
+  for (const a of Array.from(doc.querySelectorAll("a[href]"))) {
+    if ((a.getAttribute("rel") || "").split(/\s+/).includes("nofollow")) continue;
+    try {
+      const url = new URL(a.getAttribute("href") || "", pageUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      links.push(url.toString());
+    } catch {}
+  }
+  const robots = (doc.querySelector('meta[name="robots" i]')?.getAttribute("content") || "").toLowerCase();
+  const canonicalHref = doc.querySelector('link[rel="canonical" i]')?.getAttribute("href");
+  let canonical: string | null = null;
+  if (canonicalHref) {
+    try {
+      const url = new URL(canonicalHref, pageUrl);
+      url.hash = "";
+      canonical = url.toString() === new URL(pageUrl).toString() ? null : url.toString();
+    } catch {}
+  }
+
+  const root = doc.querySelector("main, [role=main]") ?? doc.querySelector("article") ?? doc.body;
+  for (const el of Array.from(root?.querySelectorAll(BOILERPLATE_SELECTOR) ?? [])) el.remove();
+  const text = (root?.textContent || "").replace(/\s+/g, " ").trim();
+  const outline = root ? htmlOutline(root) : [];
+  // Pages built from bare divs have no outline; keep their text as one section
+  const sections = outline.length ? splitOutline(outline) : text ? [{ title: null, content: text, sectionIndex: 0 }] : [];
+  const title = doc.querySelector("title")?.textContent?.trim() || doc.querySelector("h1")?.textContent?.trim() || null;
+
+  return {
+    title,
+    text,
+    sections,
+    fileExt: "html",
+    links: Array.from(new Set(links)),
+    noindex: /\b(noindex|none)\b/.test(robots),
+    nofollow: /\b(nofollow|none)\b/.test(robots),
+    canonical,
+  };
+}
+
 async function extractFromText(buffer: Buffer, fileExt: string) {
   const text = buffer.toString("utf8").replace(/\u0000/g, "").trim();
   const sections = splitByHeadings(text);
   return { text, sections, fileExt };
 }
 
-function splitByHeadings(text: string, isMarkdown: boolean = false): Section[] {
+// ---- Office Open XML (docx / pptx / xlsx): zip archives of XML parts ----
+
+type OfficeZip = { read(path: string): Promise<Document | null> };
+
+async function openOfficeZip(buffer: Buffer, fileExt: string): Promise<OfficeZip> {
+  const JSZip = (await import("jszip")).default;
+  const { JSDOM } = await import("jsdom");
+  let zip: Awaited<ReturnType<typeof JSZip.loadAsync>>;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error(`File is not a valid .${fileExt} document`);
+  }
+  const parser = new new JSDOM("").window.DOMParser();
+  return {
+    async read(path: string) {
+      const file = zip.file(path);
+      if (!file) return null;
+      return parser.parseFromString(await file.async("string"), "application/xml");
+    },
+  };
+}
+
+/** Elements with the given qualified tag name, in document order (XML DOM keeps the prefix in tagName). */
+function byTag(root: Document | Element, tag: string): Element[] {
+  return Array.from(root.getElementsByTagName(tag));
+}
+
+function childrenByTag(el: Element, tag: string): Element[] {
+  return Array.from(el.children).filter((c) => c.tagName === tag);
+}
+
+/** Resolves `Target` of a relationship part against the folder of the part that owns it. */
+async function readRelationships(zip: OfficeZip, relsPath: string, baseDir: string): Promise<Map<string, string>> {
+  const rels = new Map<string, string>();
+  const doc = await zip.read(relsPath);
+  if (!doc) return rels;
+  for (const rel of byTag(doc, "Relationship")) {
+    const id = rel.getAttribute("Id");
+    const target = rel.getAttribute("Target");
+    if (!id || !target) continue;
+    rels.set(id, target.startsWith("/") ? target.slice(1) : `${baseDir}/${target}`.replace(/[^/]+\/\.\.\//g, ""));
+  }
+  return rels;
+}
+
+/** Keeps the open headings by level; a new heading closes every heading at its level or deeper. */
+function createHeadingStack() {
+  const stack: Array<{ level: number; text: string }> = [];
+  return {
+    push(text: string, level: number) {
+      while (stack.length && stack[stack.length - 1]!.level >= level) stack.pop();
+      stack.push({ level, text });
+    },
+    title: (): string | null => stack[stack.length - 1]?.text ?? null,
+    path: (): string[] => stack.map((h) => h.text),
+  };
+}
+
+/** Accumulates lines under the most recent heading and emits `Section`s. */
+function createSectionCollector() {
+  const sections: Section[] = [];
+  const headings = createHeadingStack();
+  let lines: string[] = [];
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    if (content) sections.push({ title: headings.title(), content, sectionIndex: sections.length, headingPath: headings.path() });
+    lines = [];
+  };
+  return {
+    heading(text: string, level: number = 1) {
+      flush();
+      headings.push(text, level);
+    },
+    line(text: string) {
+      if (text.trim()) lines.push(text);
+    },
+    finish(): Section[] {
+      flush();
+      return sections;
+    },
+  };
+}
+
+function sectionsToText(sections: Section[]): string {
+  return sections.map((s) => (s.title ? `${s.title}\n${s.content}` : s.content)).join("\n\n").trim();
+}
+
+/** Office table rows as markdown pipe rows, padded to the widest row so the chunker sees one consistent table. */
+function pipeTableRows(rows: string[][]): string[] {
+  const kept = rows.filter((cells) => cells.some(Boolean));
+  const width = kept.reduce((max, cells) => Math.max(max, cells.length), 0);
+  return kept.map((cells) => {
+    const padded = Array.from({ length: width }, (_, i) => (cells[i] ?? "").replace(/\s+/g, " ").replace(/\|/g, "\\|"));
+    return `| ${padded.join(" | ")} |`;
+  });
+}
+
+function docxParagraphText(p: Element): string {
+  let out = "";
+  for (const el of byTag(p, "*")) {
+    if (el.tagName === "w:t") out += el.textContent || "";
+    else if (el.tagName === "w:tab") out += "\t";
+    else if (el.tagName === "w:br" || el.tagName === "w:cr") out += "\n";
+  }
+  return out.trim();
+}
+
+async function extractFromDocx(buffer: Buffer, fileExt: string) {
+  const zip = await openOfficeZip(buffer, fileExt);
+  const doc = await zip.read("word/document.xml");
+  const body = doc ? byTag(doc, "w:body")[0] : undefined;
+  if (!body) throw new Error("Word document has no body");
+
+  // Heading styles: built-in "heading N"/"Title" names or any style with an outline level; value is the heading level
+  const headingStyles = new Map<string, number>();
+  const styles = await zip.read("word/styles.xml");
+  if (styles) {
+    for (const style of byTag(styles, "w:style")) {
+      const id = style.getAttribute("w:styleId");
+      const name = childrenByTag(style, "w:name")[0]?.getAttribute("w:val") || "";
+      const outline = byTag(style, "w:outlineLvl")[0]?.getAttribute("w:val");
+      const level = outline != null ? Number(outline) : NaN;
+      if (!id) continue;
+      const named = name.match(/^heading (\d)$/i);
+      if (Number.isFinite(level) && level < 9) headingStyles.set(id, level + 1);
+      else if (named) headingStyles.set(id, Number(named[1]));
+      else if (/^title$/i.test(name)) headingStyles.set(id, 1);
+    }
+  }
+  const headingLevel = (p: Element): number | null => {
+    const pPr = childrenByTag(p, "w:pPr")[0];
+    if (!pPr) return null;
+    const styleId = childrenByTag(pPr, "w:pStyle")[0]?.getAttribute("w:val") || "";
+    const outline = childrenByTag(pPr, "w:outlineLvl")[0]?.getAttribute("w:val");
+    if (outline != null && Number(outline) < 9) return Number(outline) + 1;
+    const styled = headingStyles.get(styleId);
+    if (styled !== undefined) return styled;
+    const byId = styleId.match(/^heading(\d)$/i);
+    if (byId) return Number(byId[1]);
+    return /^title$/i.test(styleId) ? 1 : null;
+  };
+  const isListItem = (p: Element): boolean => Boolean(childrenByTag(p, "w:pPr")[0] && byTag(childrenByTag(p, "w:pPr")[0]!, "w:numPr").length);
+
+  const out = createSectionCollector();
+  const visit = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      if (child.tagName === "w:p") {
+        const text = docxParagraphText(child);
+        if (!text) continue;
+        const level = headingLevel(child);
+        if (level !== null) out.heading(text, level);
+        else out.line(isListItem(child) ? `- ${text}` : text);
+      } else if (child.tagName === "w:tbl") {
+        const rows = childrenByTag(child, "w:tr").map((row) =>
+          childrenByTag(row, "w:tc").map((tc) => byTag(tc, "w:p").map(docxParagraphText).filter(Boolean).join(" "))
+        );
+        for (const line of pipeTableRows(rows)) out.line(line);
+      } else if (child.tagName === "w:sdt" || child.tagName === "w:sdtContent" || child.tagName === "w:customXml") {
+        // content controls wrap ordinary paragraphs/tables
+        visit(child);
+      }
+    }
+  };
+  visit(body);
+  const sections = out.finish();
+  return { text: sectionsToText(sections), sections, fileExt };
+}
+
+async function extractFromPptx(buffer: Buffer, fileExt: string) {
+  const zip = await openOfficeZip(buffer, fileExt);
+  const presentation = await zip.read("ppt/presentation.xml");
+  if (!presentation) throw new Error("PowerPoint file has no presentation part");
+  const rels = await readRelationships(zip, "ppt/_rels/presentation.xml.rels", "ppt");
+  const slidePaths = byTag(presentation, "p:sldId")
+    .map((s) => rels.get(s.getAttribute("r:id") || ""))
+    .filter((p): p is string => Boolean(p));
+
+  const out = createSectionCollector();
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slide = await zip.read(slidePaths[i]!);
+    if (!slide) continue;
+    const titleShapes = byTag(slide, "p:sp").filter((sp) => {
+      const type = byTag(sp, "p:ph")[0]?.getAttribute("type");
+      return type === "title" || type === "ctrTitle";
+    });
+    const paragraphText = (p: Element) => byTag(p, "a:t").map((t) => t.textContent || "").join("").trim();
+    const title = titleShapes.flatMap((sp) => byTag(sp, "a:p").map(paragraphText)).filter(Boolean).join(" ");
+    out.heading(title ? `Slide ${i + 1}: ${title}` : `Slide ${i + 1}`);
+    for (const p of byTag(slide, "a:p")) {
+      if (titleShapes.some((sp) => sp.contains(p))) continue;
+      out.line(paragraphText(p));
+    }
+  }
+  const sections = out.finish();
+  return { text: sectionsToText(sections), sections, fileExt };
+}
+
+/** "C12" → 2 */
+function columnIndex(ref: string | null): number | null {
+  const letters = ref?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return null;
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+async function extractFromXlsx(buffer: Buffer, fileExt: string) {
+  const zip = await openOfficeZip(buffer, fileExt);
+  const workbook = await zip.read("xl/workbook.xml");
+  if (!workbook) throw new Error("Excel file has no workbook part");
+  const rels = await readRelationships(zip, "xl/_rels/workbook.xml.rels", "xl");
+
+  const shared: string[] = [];
+  const sst = await zip.read("xl/sharedStrings.xml");
+  if (sst) {
+    for (const si of byTag(sst, "si")) shared.push(byTag(si, "t").map((t) => t.textContent || "").join(""));
+  }
+  const cellText = (c: Element): string => {
+    const type = c.getAttribute("t");
+    if (type === "inlineStr") return byTag(c, "t").map((t) => t.textContent || "").join("");
+    const v = childrenByTag(c, "v")[0]?.textContent ?? "";
+    if (type === "s") return shared[Number(v)] ?? "";
+    if (type === "b") return v === "1" ? "TRUE" : "FALSE";
+    return v;
+  };
+
+  const out = createSectionCollector();
+  for (const sheet of byTag(workbook, "sheet")) {
+    const name = sheet.getAttribute("name") || "Sheet";
+    const path = rels.get(sheet.getAttribute("r:id") || "");
+    const doc = path ? await zip.read(path) : null;
+    if (!doc) continue;
+    out.heading(`Sheet: ${name}`);
+    const rows: string[][] = [];
+    for (const row of byTag(doc, "row")) {
+      // Sparse rows omit empty cells; place values by their column letter so columns stay aligned
+      const cells: string[] = [];
+      for (const c of childrenByTag(row, "c")) {
+        const col = columnIndex(c.getAttribute("r")) ?? cells.length;
+        while (cells.length < col) cells.push("");
+        cells[col] = cellText(c).trim();
+      }
+      rows.push(cells);
+    }
+    for (const line of pipeTableRows(rows)) out.line(line);
+  }
+  const sections = out.finish();
+  return { text: sectionsToText(sections), sections, fileExt };
+}
+
+function splitByHeadings(text: string): Section[] {
   const lines = text.split(/\r?\n/);
   const sections: Section[] = [];
   let currentTitle: string | null = null;
@@ -79,19 +454,13 @@ function splitByHeadings(text: string, isMarkdown: boolean = false): Section[] {
     if (content) sections.push({ title: currentTitle, content, sectionIndex: sections.length });
     currentContent = [];
   };
-  const headingRe = isMarkdown ? /^(#{1,6})\s+(.*)$/ : /^(.*)$/; // naive; for plain text treat blank lines as boundaries
+  // naive; for plain text treat blank lines as boundaries
   for (const line of lines) {
-    const mdMatch = isMarkdown ? line.match(headingRe) : null;
-    if (mdMatch) {
-      if (currentContent.length) push();
-      currentTitle = mdMatch[2].trim();
+    if (!line.trim() && currentContent.length) {
+      push();
+      currentTitle = null;
     } else {
-      if (!line.trim() && currentContent.length) {
-        push();
-        currentTitle = null;
-      } else {
-        currentContent.push(line);
-      }
+      currentContent.push(line);
     }
   }
   if (currentContent.length) push();
@@ -101,20 +470,58 @@ function splitByHeadings(text: string, isMarkdown: boolean = false): Section[] {
   return sections;
 }
 
+/**
+ * Markdown sections by ATX heading, keeping blocks (lists, tables, fenced code) intact inside a section;
+ * `#` lines inside fenced code are not headings.
+ */
+function splitMarkdownSections(md: string): Section[] {
+  const sections: Section[] = [];
+  const headings = createHeadingStack();
+  let current: string[] = [];
+  let fence: string | null = null;
+  const push = () => {
+    const content = current.join("\n").trim();
+    if (content) sections.push({ title: headings.title(), content, sectionIndex: sections.length, headingPath: headings.path() });
+    current = [];
+  };
+  for (const line of md.split(/\r?\n/)) {
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1]!;
+      else if (fenceMatch[1]!.startsWith(fence)) fence = null;
+      current.push(line);
+      continue;
+    }
+    const heading = fence ? null : line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      push();
+      headings.push(heading[2]!.trim(), heading[1]!.length);
+    } else {
+      current.push(line);
+    }
+  }
+  push();
+  if (sections.length === 0 && md.trim()) {
+    sections.push({ title: null, content: md.trim(), sectionIndex: 0, headingPath: [] });
+  }
+  return sections;
+}
+
 function splitOutline(outline: Array<{ tag: string; text: string }>): Section[] {
   const sections: Section[] = [];
-  let currentTitle: string | null = null;
+  const headings = createHeadingStack();
   let current: string[] = [];
   const push = () => {
     const content = current.join("\n").trim();
-    if (content) sections.push({ title: currentTitle, content, sectionIndex: sections.length });
+    if (content) sections.push({ title: headings.title(), content, sectionIndex: sections.length, headingPath: headings.path() });
     current = [];
   };
-  const isHeading = (tag: string) => /^h[1-6]$/.test(tag);
+  const headingTag = (tag: string) => tag.match(/^h([1-6])$/);
   for (const node of outline) {
-    if (isHeading(node.tag)) {
+    const h = headingTag(node.tag);
+    if (h) {
       if (current.length) push();
-      currentTitle = node.text;
+      headings.push(node.text, Number(h[1]));
     } else {
       current.push(node.text);
     }
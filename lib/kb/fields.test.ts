@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FIELD_SYNONYMS,
+  buildFieldRows,
+  buildSynonymIndex,
+  expandKeywordQuery,
+  normalizeFieldLabel,
+  parseFieldQuestion,
+  residualTerms,
+  titleMatchScore,
+} from "./fields";
+
+const synonyms = buildSynonymIndex(DEFAULT_FIELD_SYNONYMS);
+
+describe("normalizeFieldLabel", () => {
+  it.each([
+    ["Acct #:", "acct number"],
+    ["Account No.", "account number"],
+    ["ACCOUNT NO:", "account number"],
+    ["  Invoice   Date ", "invoice date"],
+    ["Número de cuenta", "número de cuenta"],
+  ])("%s → %s", (label, normalized) => {
+    expect(normalizeFieldLabel(label)).toBe(normalized);
+  });
+
+  it("leaves words that merely start with 'no' alone", () => {
+    expect(normalizeFieldLabel("Notes")).toBe("notes");
+    expect(normalizeFieldLabel("Nominee")).toBe("nominee");
+  });
+});
+
+describe("buildSynonymIndex", () => {
+  it("maps every alias of a group to all of its labels", () => {
+    expect(synonyms.get("acct")).toEqual(new Set(["account number", "acct", "acct number"]));
+    expect(synonyms.get("account number")).toEqual(synonyms.get("acct number"));
+    expect(synonyms.get("check")).toEqual(new Set(["cheque", "check"]));
+  });
+
+  it("merges groups that share a label", () => {
+    const index = buildSynonymIndex([...DEFAULT_FIELD_SYNONYMS, { canonical: "customer id", aliases: ["account number"] }]);
+    expect(index.get("customer id")).toEqual(new Set(["customer id", "account number"]));
+    expect(index.get("account number")).toContain("customer id");
+    expect(index.get("account number")).toContain("acct");
+  });
+});
+
+describe("expandKeywordQuery", () => {
+  it("adds OR alternatives for a mentioned group, quoting phrases", () => {
+    expect(expandKeywordQuery("acct # for acme", DEFAULT_FIELD_SYNONYMS)).toBe(
+      'acct # for acme OR "account number" OR "account no" OR "account #" OR acct OR "acct #" OR "acct no"',
+    );
+  });
+
+  it("matches whole words only and leaves other queries unchanged", () => {
+    expect(expandKeywordQuery("checking the docs", DEFAULT_FIELD_SYNONYMS)).toBe("checking the docs");
+  });
+});
+
+describe("parseFieldQuestion", () => {
+  it("only considers questions asking for a value", () => {
+    expect(parseFieldQuestion("Update the account number", synonyms)).toBeNull();
+    expect(parseFieldQuestion("what", synonyms)).toBeNull();
+  });
+
+  it("collects dictionary labels with synonyms and multi-word phrases", () => {
+    const parsed = parseFieldQuestion("What's the acct # on the Jan statement?", synonyms)!;
+    expect(parsed.labels).toEqual(expect.arrayContaining(["acct number", "account number", "acct", "jan statement"]));
+    expect(parsed.labels).not.toContain("the jan");
+    expect(parsed.words).toEqual(["what", "s", "the", "acct", "number", "on", "the", "jan", "statement"]);
+  });
+});
+
+describe("residualTerms and titleMatchScore", () => {
+  const words = normalizeFieldLabel("what is the account number on the jan statement").split(" ");
+
+  it("drops the label, its synonyms and stopwords", () => {
+    expect(residualTerms(words, "account number", synonyms)).toEqual(["jan", "statement"]);
+  });
+
+  it("counts terms found in a title, prefixes included", () => {
+    expect(titleMatchScore("January Statement.pdf", ["jan", "statement"])).toBe(2);
+    expect(titleMatchScore("February Statement.pdf", ["jan", "statement"])).toBe(1);
+    expect(titleMatchScore("Refund policy", ["jan", "statement"])).toBe(0);
+    expect(titleMatchScore(null, ["jan"])).toBe(0);
+  });
+});
+
+describe("buildFieldRows", () => {
+  const kv = (label: string, value: string, page = 1) => ({ label, value, page, bboxes: [] });
+
+  it("indexes a pair repeated across chunks once, on the chunk whose text has the value", () => {
+    const rows = buildFieldRows([
+      { content: "Header only", metadata: { kv_candidates: [kv("Account No.", "12-3456")] } },
+      { content: "Account No. 12-3456", metadata: { kv_candidates: [kv("Account No.", "12-3456")] } },
+    ]);
+    expect(rows).toEqual([{ chunk_idx: 1, label: "Account No.", label_norm: "account number", value: "12-3456", page: 1, bboxes: [] }]);
+  });
+
+  it("skips empty labels and values and chunks without candidates", () => {
+    const rows = buildFieldRows([
+      { content: "x", metadata: { kv_candidates: [kv(":", "1"), kv("Total", "  ")] } },
+      { content: "y", metadata: {} },
+    ]);
+    expect(rows).toEqual([]);
+  });
+
+  it("keeps the same pair on different pages", () => {
+    const rows = buildFieldRows([{ content: "Total 10 Total 10", metadata: { kv_candidates: [kv("Total", "10", 1), kv("Total", "10", 2)] } }]);
+    expect(rows.map((r) => r.page)).toEqual([1, 2]);
+  });
+});
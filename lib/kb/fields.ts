@@ -0,0 +1,138 @@
+import "server-only";
+import type { BBox, KvCandidate } from "./pdfLayout";
+
+/**
+ * Structured field index: label/value pairs found by layout extraction (`kv_candidates`), stored per document in
+ * `kb_fields` with a normalized label, and matched against questions through a synonym dictionary.
+ *
+ * Labels are stored normalized but not canonicalized; synonyms are applied at query time, so editing the
+ * dictionary takes effect without re-ingesting.
+ */
+
+export type FieldSynonymGroup = { canonical: string; aliases: string[] };
+
+/** Built-in groups; tenant groups (`kb_field_synonyms`) are added on top */
+export const DEFAULT_FIELD_SYNONYMS: FieldSynonymGroup[] = [
+  { canonical: "account number", aliases: ["account no", "account #", "acct", "acct #", "acct no"] },
+  { canonical: "receipt number", aliases: ["receipt no", "receipt #"] },
+  { canonical: "cheque", aliases: ["check"] },
+];
+
+/** "Acct #:" → "acct number", "Account No." → "account number" */
+export function normalizeFieldLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/#/g, " number ")
+    .replace(/\bno\.?(?=\s|$|:)/g, " number ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Every normalized label of a group maps to all normalized labels of every group it belongs to. */
+export function buildSynonymIndex(groups: FieldSynonymGroup[]): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  for (const g of groups) {
+    const labels = [g.canonical, ...g.aliases].map(normalizeFieldLabel).filter(Boolean);
+    for (const label of labels) {
+      const set = index.get(label) ?? new Set<string>([label]);
+      for (const other of labels) set.add(other);
+      index.set(label, set);
+    }
+  }
+  return index;
+}
+
+function quoteTerm(term: string): string {
+  return /\s/.test(term) ? `"${term}"` : term;
+}
+
+/** websearch query with `OR` alternatives for every synonym group mentioned in `q`. */
+export function expandKeywordQuery(q: string, groups: FieldSynonymGroup[]): string {
+  const normalized = ` ${normalizeFieldLabel(q)} `;
+  const expansions: string[] = [];
+  for (const g of groups) {
+    const terms = [g.canonical, ...g.aliases];
+    const mentioned = terms.some((t) => {
+      const n = normalizeFieldLabel(t);
+      return n && normalized.includes(` ${n} `);
+    });
+    if (mentioned) expansions.push(...terms.map((t) => quoteTerm(t.trim().toLowerCase())));
+  }
+  if (expansions.length === 0) return q;
+  return `${q} OR ${Array.from(new Set(expansions)).join(" OR ")}`;
+}
+
+const QUESTION_STOPWORDS = new Set([
+  "what", "whats", "which", "is", "are", "was", "the", "a", "an", "of", "on", "in", "for", "to", "from", "my", "our", "their",
+  "me", "show", "give", "find", "tell", "lookup", "look", "up", "please", "does", "do", "it", "this", "that", "s",
+]);
+
+/** Only questions that ask for a value are answered from the index */
+const VALUE_QUESTION_RE = /\b(what|what's|whats|which|show|give|find|tell|look\s*up|lookup)\b/i;
+
+export type FieldQuery = {
+  /** Normalized labels to look up (dictionary synonyms included) */
+  labels: string[];
+  /** Normalized question words */
+  words: string[];
+};
+
+/**
+ * Field labels a question may mention: dictionary entries of up to 4 words, plus any 2–4 word phrase not
+ * starting or ending with a stopword. Single generic words ("total", "policy") only count when in the dictionary.
+ */
+export function parseFieldQuestion(question: string, synonyms: Map<string, Set<string>>): FieldQuery | null {
+  if (!VALUE_QUESTION_RE.test(question)) return null;
+  const words = normalizeFieldLabel(question).split(" ").filter(Boolean);
+  const labels = new Set<string>();
+  for (let n = 1; n <= 4; n++) {
+    for (let i = 0; i + n <= words.length; i++) {
+      const slice = words.slice(i, i + n);
+      const phrase = slice.join(" ");
+      const group = synonyms.get(phrase);
+      if (group) group.forEach((l) => labels.add(l));
+      else if (n >= 2 && !QUESTION_STOPWORDS.has(slice[0]!) && !QUESTION_STOPWORDS.has(slice[n - 1]!)) labels.add(phrase);
+    }
+  }
+  return labels.size > 0 ? { labels: Array.from(labels), words } : null;
+}
+
+/** Question words outside the matched label and its synonyms; they pick the document ("jan", "statement") */
+export function residualTerms(words: string[], label: string, synonyms: Map<string, Set<string>>): string[] {
+  const covered = new Set([label, ...(synonyms.get(label) ?? [])].flatMap((l) => l.split(" ")));
+  return words.filter((w) => !covered.has(w) && !QUESTION_STOPWORDS.has(w) && w.length >= 2);
+}
+
+/** How many question terms appear in a document title ("jan" matches "January") */
+export function titleMatchScore(title: string | null, terms: string[]): number {
+  if (!title || terms.length === 0) return 0;
+  const titleWords = normalizeFieldLabel(title).split(" ").filter(Boolean);
+  return terms.filter((t) => titleWords.some((w) => w === t || (t.length >= 3 && w.length >= 3 && (w.startsWith(t) || t.startsWith(w))))).length;
+}
+
+export type FieldRow = { chunk_idx: number; label: string; label_norm: string; value: string; page: number; bboxes: BBox[] };
+
+type ChunkWithFields = { content: string; metadata: Record<string, unknown> };
+
+/**
+ * Field rows for one document from its layout chunks. A pair repeated across chunks (chunks carry every pair of
+ * their pages) is indexed once, on the first chunk whose text contains the value.
+ */
+export function buildFieldRows(chunks: ChunkWithFields[]): FieldRow[] {
+  const rows = new Map<string, FieldRow & { inText: boolean }>();
+  chunks.forEach((chunk, chunk_idx) => {
+    const kvs = Array.isArray(chunk.metadata.kv_candidates) ? (chunk.metadata.kv_candidates as KvCandidate[]) : [];
+    for (const kv of kvs) {
+      const label_norm = normalizeFieldLabel(kv.label);
+      const value = (kv.value || "").trim();
+      if (!label_norm || !value) continue;
+      const key = `${label_norm}|${value}|${kv.page}`;
+      const inText = chunk.content.includes(value);
+      const existing = rows.get(key);
+      if (existing && (existing.inText || !inText)) continue;
+      rows.set(key, { chunk_idx, label: kv.label, label_norm, value, page: kv.page, bboxes: kv.bboxes || [], inText });
+    }
+  });
+  return Array.from(rows.values()).map((r) => ({ chunk_idx: r.chunk_idx, label: r.label, label_norm: r.label_norm, value: r.value, page: r.page, bboxes: r.bboxes }));
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FUSION_WEIGHTS, fuseRankings, isFusionStrategy, type FusionStrategy, type RankedList } from "./fusion";
+
+const list = (...entries: Array<[string, number]>): RankedList => entries.map(([key, score]) => ({ key, score }));
+
+function fuse(strategy: FusionStrategy, vector: RankedList, keyword: RankedList, weights = DEFAULT_FUSION_WEIGHTS) {
+  return fuseRankings({ vector, keyword }, strategy, weights);
+}
+
+describe("fuseRankings", () => {
+  const vector = list(["a", 0.9], ["b", 0.7], ["c", 0.5]);
+  const keyword = list(["c", 8], ["d", 4], ["a", 2]);
+
+  it.each<FusionStrategy>(["weighted", "rrf", "zscore"])("keeps %s scores in [0, 1]", (strategy) => {
+    for (const { score, v, k } of fuse(strategy, vector, keyword).values()) {
+      for (const n of [score, v, k]) {
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it("min-max normalizes each list for the weighted sum", () => {
+    const fused = fuse("weighted", vector, keyword);
+    expect(fused.get("a")).toEqual({ score: 0.65, v: 1, k: 0 });
+    expect(fused.get("c")!.score).toBeCloseTo(0.35);
+    expect(fused.get("d")).toMatchObject({ v: 0, k: 1 / 3 });
+  });
+
+  it("treats every entry of a flat list as its best match", () => {
+    const fused = fuse("weighted", list(["a", 0.5], ["b", 0.5]), list());
+    expect(fused.get("a")).toEqual({ score: 0.65, v: 1, k: 0 });
+    expect(fused.get("b")).toEqual({ score: 0.65, v: 1, k: 0 });
+  });
+
+  it("puts a flat list at the z-score midpoint instead of dividing by a zero std", () => {
+    const fused = fuse("zscore", list(["a", 0.5], ["b", 0.5]), list(["a", 3], ["b", 3]));
+    expect(fused.get("a")!.score).toBeCloseTo(0.5);
+    expect(fused.get("b")!.score).toBeCloseTo(0.5);
+    expect(Number.isNaN(fused.get("a")!.score)).toBe(false);
+  });
+
+  it("scores RRF by rank only, with the top of both lists at 1", () => {
+    const fused = fuse("rrf", list(["a", 0.9], ["b", 0.1]), list(["a", 100], ["b", 99]));
+    expect(fused.get("a")!.score).toBeCloseTo(1);
+    expect(fused.get("b")!.score).toBeCloseTo(61 / 62);
+    // Raw keyword scores a hundred times larger don't matter
+    expect(fuse("rrf", list(["a", 0.9], ["b", 0.1]), list(["a", 1], ["b", 0.99])).get("b")!.score).toBeCloseTo(61 / 62);
+  });
+
+  it("keeps the best rank of a key listed twice", () => {
+    const fused = fuse("rrf", list(["a", 0.9], ["b", 0.8], ["a", 0.1]), list());
+    expect(fused.get("a")!.score).toBeCloseTo(0.65);
+    expect(fused.get("a")!.v).toBe(1);
+  });
+
+  it("normalizes weights and falls back to the defaults when both are zero", () => {
+    const a = fuse("weighted", vector, keyword, { vector: 2, keyword: 2 }).get("a")!;
+    expect(a.score).toBeCloseTo(0.5);
+    const d = fuse("weighted", vector, keyword, { vector: 0, keyword: 0 }).get("a")!;
+    expect(d.score).toBeCloseTo(0.65);
+  });
+
+  it("returns nothing for two empty lists", () => {
+    expect(fuse("zscore", list(), list()).size).toBe(0);
+  });
+});
+
+describe("isFusionStrategy", () => {
+  it("accepts only the known strategies", () => {
+    expect(["weighted", "rrf", "zscore"].every(isFusionStrategy)).toBe(true);
+    expect(isFusionStrategy("RRF")).toBe(false);
+    expect(isFusionStrategy(undefined)).toBe(false);
+  });
+});
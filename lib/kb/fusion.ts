@@ -0,0 +1,105 @@
+import "server-only";
+
+/**
+ * Fusion of the vector and keyword result lists in hybrid retrieval.
+ *
+ * Every strategy returns a combined score in [0, 1] (answer gating and the citation UI rely on that range),
+ * plus per-list min-max normalized scores (`v`, `k`) kept for diagnostics and gating.
+ * - `weighted` — weighted sum of min-max normalized scores
+ * - `rrf` — Reciprocal Rank Fusion: Σ w / (RRF_K + rank), divided by its maximum; ignores raw score scales
+ * - `zscore` — weighted sum of logistic-squashed z-scores; robust to one outlier stretching a min-max range
+ */
+export type FusionStrategy = "weighted" | "rrf" | "zscore";
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ["weighted", "rrf", "zscore"];
+
+export type FusionWeights = { vector: number; keyword: number };
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = { vector: 0.65, keyword: 0.35 };
+
+/** Standard RRF damping constant */
+const RRF_K = 60;
+
+/** A ranked list, best first. Keys identify the same chunk across lists. */
+export type RankedList = Array<{ key: string; score: number }>;
+
+export type FusedScore = { score: number; v: number; k: number };
+
+export function isFusionStrategy(value: unknown): value is FusionStrategy {
+  return typeof value === "string" && (FUSION_STRATEGIES as string[]).includes(value);
+}
+
+function minMax(values: number[]): (score: number) => number {
+  if (values.length === 0) return () => 0;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // A flat list carries no ordering signal; treat every entry as the list's best match
+  if (max === min) return () => 1;
+  return (s: number) => (s - min) / (max - min);
+}
+
+function zScore(values: number[]): (score: number) => number {
+  if (values.length === 0) return () => 0;
+  const mean = values.reduce((a, v) => a + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+  // Squash into (0, 1); a flat list sits at the midpoint
+  if (std === 0) return () => 0.5;
+  return (s: number) => 1 / (1 + Math.exp(-(s - mean) / std));
+}
+
+function normalizeWeights(weights: FusionWeights): FusionWeights {
+  const v = Math.max(0, weights.vector);
+  const k = Math.max(0, weights.keyword);
+  const sum = v + k;
+  return sum > 0 ? { vector: v / sum, keyword: k / sum } : DEFAULT_FUSION_WEIGHTS;
+}
+
+export function fuseRankings(lists: { vector: RankedList; keyword: RankedList }, strategy: FusionStrategy, weights: FusionWeights): Map<string, FusedScore> {
+  const w = normalizeWeights(weights);
+  const nv = minMax(lists.vector.map((r) => r.score));
+  const nk = minMax(lists.keyword.map((r) => r.score));
+  const zv = zScore(lists.vector.map((r) => r.score));
+  const zk = zScore(lists.keyword.map((r) => r.score));
+
+  const fused = new Map<string, FusedScore & { zv: number; zk: number; rv: number; rk: number }>();
+  const entry = (key: string) => {
+    let e = fused.get(key);
+    if (!e) {
+      e = { score: 0, v: 0, k: 0, zv: 0, zk: 0, rv: 0, rk: 0 };
+      fused.set(key, e);
+    }
+    return e;
+  };
+  lists.vector.forEach((r, i) => {
+    const e = entry(r.key);
+    if (e.rv) return; // keep the best rank of duplicates
+    e.v = nv(r.score);
+    e.zv = zv(r.score);
+    e.rv = i + 1;
+  });
+  lists.keyword.forEach((r, i) => {
+    const e = entry(r.key);
+    if (e.rk) return;
+    e.k = nk(r.score);
+    e.zk = zk(r.score);
+    e.rk = i + 1;
+  });
+
+  const rrfMax = (w.vector + w.keyword) / (RRF_K + 1);
+  const out = new Map<string, FusedScore>();
+  for (const [key, e] of fused) {
+    let score: number;
+    switch (strategy) {
+      case "rrf":
+        score = ((e.rv ? w.vector / (RRF_K + e.rv) : 0) + (e.rk ? w.keyword / (RRF_K + e.rk) : 0)) / rrfMax;
+        break;
+      case "zscore":
+        score = w.vector * e.zv + w.keyword * e.zk;
+        break;
+      default:
+        score = w.vector * e.v + w.keyword * e.k;
+    }
+    out.set(key, { score, v: e.v, k: e.k });
+  }
+  return out;
+}
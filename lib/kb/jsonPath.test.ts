@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { parsePath, queryPath } from "./jsonPath";
+
+const store = {
+  data: {
+    items: [
+      { id: 1, title: "Router", price: 120, tags: ["network"], archived: false, meta: { author: "ana" } },
+      { id: 2, title: "Cable", price: 8, tags: [], archived: true, meta: { author: "bo" } },
+      { id: 3, title: "Switch", price: 60, archived: false, "odd key": "x", meta: { author: "ana" } },
+    ],
+    next: { cursor: "abc" },
+  },
+  total: 3,
+};
+
+describe("queryPath", () => {
+  it.each([
+    ["$.total", [3]],
+    ["data.next.cursor", ["abc"]],
+    ["items.0.title", []],
+    ["data.items.0.title", ["Router"]],
+    ["$['data']['next']['cursor']", ["abc"]],
+    ["$.data.items[-1].id", [3]],
+    ["$.data.items[0,2].id", [1, 3]],
+    ["$.data.items[1:3].id", [2, 3]],
+    ["$.data.items[::2].id", [1, 3]],
+    ["$.data.items[-2:].id", [2, 3]],
+    ["$.data.items.length", [3]],
+    ["$.data.items[2]['odd key']", ["x"]],
+  ])("%s", (path, expected) => {
+    expect(queryPath(store, path)).toEqual(expected);
+  });
+
+  it("expands wildcards over arrays and objects", () => {
+    expect(queryPath(store, "$.data.items[*].id")).toEqual([1, 2, 3]);
+    expect(queryPath(store, "$.data.items.*.title")).toEqual(["Router", "Cable", "Switch"]);
+    expect(queryPath(store, "$.data.next.*")).toEqual(["abc"]);
+    expect(queryPath(store, "$.data.items[0].*").length).toBe(6);
+  });
+
+  it("collects names at any depth with recursive descent", () => {
+    expect(queryPath(store, "$..author")).toEqual(["ana", "bo", "ana"]);
+    expect(queryPath(store, "$..cursor")).toEqual(["abc"]);
+  });
+
+  it("filters on comparisons", () => {
+    expect(queryPath(store, "$.data.items[?(@.price > 10)].title")).toEqual(["Router", "Switch"]);
+    expect(queryPath(store, "$.data.items[?(@.price <= 8)].title")).toEqual(["Cable"]);
+    expect(queryPath(store, "$.data.items[?(@.meta.author == 'ana')].id")).toEqual([1, 3]);
+    expect(queryPath(store, '$.data.items[?(@.title != "Cable")].id')).toEqual([1, 3]);
+    expect(queryPath(store, "$.data.items[?(@.archived == true)].id")).toEqual([2]);
+  });
+
+  it("filters on existence and its negation", () => {
+    expect(queryPath(store, "$.data.items[?(@.tags)].id")).toEqual([1, 2]);
+    expect(queryPath(store, "$.data.items[?(!@.archived)].id")).toEqual([1, 3]);
+  });
+
+  it("never orders values of different types", () => {
+    expect(queryPath({ xs: [{ n: "20" }, { n: 20 }] }, "$.xs[?(@.n > 10)].n")).toEqual([20]);
+  });
+
+  it("returns nothing for missing paths and non-container nodes", () => {
+    expect(queryPath(store, "$.data.missing.deeper")).toEqual([]);
+    expect(queryPath(store, "$.total[0]")).toEqual([]);
+    expect(queryPath(store, "$.total.*")).toEqual([]);
+  });
+
+  it("treats an empty or missing path as the root", () => {
+    expect(queryPath(store, "")).toEqual([store]);
+    expect(queryPath(store, null)).toEqual([store]);
+  });
+
+  it("does not read inherited properties", () => {
+    expect(queryPath({}, "$.constructor")).toEqual([]);
+  });
+});
+
+describe("parsePath", () => {
+  it.each([
+    ["$.items[", /unclosed \[/],
+    ["$.items[foo]", /unsupported selector \[foo\]/],
+    ["$.items[::0]", /slice step must be positive/],
+    ["$.items[?(@.x ~ 3)]", /unsupported filter/],
+    ["$.items[?(!@.x == 3)]", /! only applies to existence tests/],
+    ["$.items[?(@.x == maybe)]", /unsupported literal maybe/],
+    ["$.a..", /empty name/],
+  ])("rejects %s", (path, reason) => {
+    expect(() => parsePath(path)).toThrow(reason);
+  });
+
+  it("reports the path it rejects", () => {
+    expect(() => parsePath("$.items[foo]")).toThrow('Invalid path "$.items[foo]"');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * JSONPath subset for REST source configs (`itemsPath`, `textFields`, cursor paths, item templates):
+ * `$`, `.name`, `['name']`, `[0]`, `[-1]`, `[0,2]`, `[1:3]`, `[*]`, `.*`, `..name` (recursive descent) and filters
+ * `[?(@.price > 10)]`, `[?(@.tags)]`, `[?(!@.archived)]` with `==`, `!=`, `<`, `<=`, `>`, `>=` against string,
+ * number, boolean or null literals. Plain dotted paths (`data.items`, `items.0.title`) are read relative to the
+ * root as before; a numeric name on an array is an index.
+ */
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard" }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "filter"; test: (node: unknown) => boolean };
+
+type Segment = { descendant: boolean; selectors: Selector[] };
+
+const cache = new Map<string, Segment[]>();
+const MAX_CACHE = 500;
+
+function fail(path: string, reason: string): never {
+  throw new Error(`Invalid path "${path}": ${reason}`);
+}
+
+/** Splits `s` on `sep` outside quotes */
+function splitOutsideQuotes(s: string, sep: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i]!;
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+    } else if (c === "'" || c === '"') quote = c;
+    else if (c === sep) {
+      parts.push(s.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(s.slice(start));
+  return parts;
+}
+
+function unquote(token: string): string | null {
+  const t = token.trim();
+  if (t.length >= 2 && (t[0] === "'" || t[0] === '"') && t[t.length - 1] === t[0]) return t.slice(1, -1).replace(/\\(.)/g, "$1");
+  return null;
+}
+
+function parseLiteral(path: string, token: string): unknown {
+  const t = token.trim();
+  const quoted = unquote(t);
+  if (quoted !== null) return quoted;
+  if (t === "true") return true;
+  if (t === "false") return false;
+  if (t === "null") return null;
+  const n = Number(t);
+  if (t !== "" && Number.isFinite(n)) return n;
+  return fail(path, `unsupported literal ${t}`);
+}
+
+const COMPARISON = /^(!?)\s*@([^=!<>]*?)\s*(?:(==|!=|<=|>=|<|>)\s*(.+))?$/;
+
+function parseFilter(path: string, expr: string): (node: unknown) => boolean {
+  const m = COMPARISON.exec(expr.trim());
+  if (!m) return fail(path, `unsupported filter ${expr}`);
+  const [, negate, sub, op, rawLiteral] = m;
+  // Whitespace outside brackets means an operator we don't know (`@.x ~ 3`), not a name
+  if (/\s/.test((sub ?? "").replace(/\[[^\]]*\]/g, ""))) return fail(path, `unsupported filter ${expr}`);
+  const subPath = `$${sub ?? ""}`;
+  parsePath(subPath);
+  if (!op) {
+    return (node) => {
+      const found = queryPath(node, subPath).some((v) => v != null && v !== false);
+      return negate ? !found : found;
+    };
+  }
+  if (negate) return fail(path, "! only applies to existence tests");
+  const literal = parseLiteral(path, rawLiteral ?? "");
+  return (node) =>
+    queryPath(node, subPath).some((v) => {
+      switch (op) {
+        case "==": return v === literal;
+        case "!=": return v !== literal;
+        case "<": return typeof v === typeof literal && (v as number) < (literal as number);
+        case "<=": return typeof v === typeof literal && (v as number) <= (literal as number);
+        case ">": return typeof v === typeof literal && (v as number) > (literal as number);
+        default: return typeof v === typeof literal && (v as number) >= (literal as number);
+      }
+    });
+}
+
+function parseBracket(path: string, body: string): Selector[] {
+  const inner = body.trim();
+  if (inner === "*") return [{ kind: "wildcard" }];
+  if (inner.startsWith("?")) {
+    const expr = inner.slice(1).trim();
+    return [{ kind: "filter", test: parseFilter(path, expr.startsWith("(") && expr.endsWith(")") ? expr.slice(1, -1) : expr) }];
+  }
+  return splitOutsideQuotes(inner, ",").map((part): Selector => {
+    const quoted = unquote(part);
+    if (quoted !== null) return { kind: "name", name: quoted };
+    const t = part.trim();
+    if (/^-?\d+$/.test(t)) return { kind: "index", index: Number(t) };
+    const slice = /^(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(\d+))?$/.exec(t);
+    if (slice) {
+      const step = slice[3] ? Number(slice[3]) : 1;
+      if (step < 1) fail(path, "slice step must be positive");
+      return { kind: "slice", start: slice[1] ? Number(slice[1]) : undefined, end: slice[2] ? Number(slice[2]) : undefined, step };
+    }
+    return fail(path, `unsupported selector [${t}]`);
+  });
+}
+
+/** Parses (and caches) a path; throws with the reason when it is not supported. */
+export function parsePath(path: string): Segment[] {
+  const cached = cache.get(path);
+  if (cached) return cached;
+  let src = path.trim();
+  if (src === "" || src === "$") src = "$";
+  else if (!src.startsWith("$")) src = src.startsWith("[") ? `$${src}` : `$.${src}`;
+
+  const segments: Segment[] = [];
+  let i = 1;
+  while (i < src.length) {
+    let descendant = false;
+    if (src.startsWith("..", i)) {
+      descendant = true;
+      i += 2;
+    } else if (src[i] === ".") {
+      i += 1;
+    } else if (src[i] !== "[") {
+      fail(path, `unexpected "${src[i]}"`);
+    }
+    if (src[i] === "[") {
+      // Find the matching bracket, skipping quoted text and brackets nested in filters
+      let depth = 0;
+      let quote: string | null = null;
+      let j = i;
+      for (; j < src.length; j++) {
+        const c = src[j]!;
+        if (quote) {
+          if (c === "\\") j++;
+          else if (c === quote) quote = null;
+        } else if (c === "'" || c === '"') quote = c;
+        else if (c === "[") depth++;
+        else if (c === "]" && --depth === 0) break;
+      }
+      if (j >= src.length) fail(path, "unclosed [");
+      segments.push({ descendant, selectors: parseBracket(path, src.slice(i + 1, j)) });
+      i = j + 1;
+      continue;
+    }
+    const m = /^[^.[\]]+/.exec(src.slice(i));
+    if (!m) fail(path, "empty name");
+    const name = m[0];
+    segments.push({ descendant, selectors: [name === "*" ? { kind: "wildcard" } : { kind: "name", name }] });
+    i += name.length;
+  }
+  if (cache.size >= MAX_CACHE) cache.clear();
+  cache.set(path, segments);
+  return segments;
+}
+
+function children(node: unknown): unknown[] {
+  if (Array.isArray(node)) return node;
+  if (node && typeof node === "object") return Object.values(node as Record<string, unknown>);
+  return [];
+}
+
+function select(node: unknown, selector: Selector, out: unknown[]): void {
+  switch (selector.kind) {
+    case "name": {
+      if (Array.isArray(node)) {
+        if (/^-?\d+$/.test(selector.name)) select(node, { kind: "index", index: Number(selector.name) }, out);
+        else if (selector.name === "length") out.push(node.length);
+        return;
+      }
+      if (node && typeof node === "object" && Object.prototype.hasOwnProperty.call(node, selector.name)) out.push((node as Record<string, unknown>)[selector.name]);
+      return;
+    }
+    case "wildcard":
+      out.push(...children(node));
+      return;
+    case "index": {
+      if (!Array.isArray(node)) return;
+      const idx = selector.index < 0 ? node.length + selector.index : selector.index;
+      if (idx >= 0 && idx < node.length) out.push(node[idx]);
+      return;
+    }
+    case "slice": {
+      if (!Array.isArray(node)) return;
+      const norm = (v: number | undefined, dflt: number) => (v === undefined ? dflt : v < 0 ? Math.max(0, node.length + v) : Math.min(v, node.length));
+      for (let k = norm(selector.start, 0); k < norm(selector.end, node.length); k += selector.step) out.push(node[k]);
+      return;
+    }
+    case "filter":
+      for (const child of children(node)) if (selector.test(child)) out.push(child);
+      return;
+  }
+}
+
+function descendants(node: unknown, out: unknown[]): void {
+  out.push(node);
+  for (const child of children(node)) descendants(child, out);
+}
+
+/** All values the path matches, in document order. */
+export function queryPath(obj: unknown, path: string | null | undefined): unknown[] {
+  let nodes: unknown[] = [obj];
+  for (const segment of parsePath(path ?? "$")) {
+    const sources: unknown[] = [];
+    if (segment.descendant) for (const n of nodes) descendants(n, sources);
+    else sources.push(...nodes);
+    const next: unknown[] = [];
+    for (const n of sources) for (const s of segment.selectors) select(n, s, next);
+    nodes = next;
+  }
+  return nodes;
+}
@@ -0,0 +1,62 @@
+import "server-only";
+
+import type { BBox, PdfToken } from "./pdfLayout";
+
+/**
+ * OCR for scanned PDF pages and image uploads (Tesseract, WASM build via `tesseract.js`).
+ *
+ * Words come back as `PdfToken`s so line grouping, KV and table detection, and layout chunking run unchanged.
+ * - `OCR_LANGS` — `+`-separated Tesseract languages (default `eng`)
+ * - `OCR_LANG_PATH` — where `*.traineddata` is loaded from; set it to a local directory to run fully offline
+ * - `OCR_DISABLED=1` — skip OCR (scans then fail with "No extractable text content")
+ */
+
+export type OcrWord = { text: string; confidence: number; bbox: { x0: number; y0: number; x1: number; y1: number } };
+
+/** Words below this confidence (0–100) are mostly speckles, stamps and signatures */
+const MIN_WORD_CONFIDENCE = 30;
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_DISABLED !== "1";
+}
+
+/** Recognizes each image in turn with one worker; results are in image pixels, top-left origin. */
+export async function recognizeImages(images: Buffer[]): Promise<OcrWord[][]> {
+  if (images.length === 0) return [];
+  const { createWorker } = await import("tesseract.js");
+  const langs = (process.env.OCR_LANGS || "eng").split("+").filter(Boolean);
+  const worker = await createWorker(langs, undefined, {
+    ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+    // Without a handler, worker failures (e.g. traineddata download) are thrown outside any promise and crash the process
+    errorHandler: (e: unknown) => console.error("OCR worker error:", e),
+  });
+  try {
+    const results: OcrWord[][] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image, {}, { blocks: true });
+      const words: OcrWord[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            for (const word of line.words) {
+              const text = word.text.trim();
+              if (text && word.confidence >= MIN_WORD_CONFIDENCE) words.push({ text, confidence: word.confidence, bbox: word.bbox });
+            }
+          }
+        }
+      }
+      results.push(words);
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/** Converts OCR words to layout tokens; `toBBox` maps pixel boxes into the page's coordinate space. */
+export function ocrWordsToTokens(words: OcrWord[], page: number, toBBox: (b: OcrWord["bbox"]) => BBox): PdfToken[] {
+  return words.map((word) => {
+    const bbox = toBBox(word.bbox);
+    return { text: word.text, page, ...bbox, fontSize: Math.max(1, bbox.h) };
+  });
+}
@@ -1,9 +1,16 @@
 'use server'
 
+import { isOcrEnabled, ocrWordsToTokens, recognizeImages } from "./ocr";
+import { countTokens } from "./tokens";
+
 export type BBox = { x: number; y: number; w: number; h: number };
 export type PdfToken = { text: string; page: number; x: number; y: number; w: number; h: number; fontSize: number };
 export type PdfLine = { text: string; page: number; bbox: BBox; tokens: PdfToken[] };
 export type KvCandidate = { label: string; value: string; page: number; bboxes: BBox[] };
+/** A table reconstructed from token alignment; `header` is empty when the first row looks like data. */
+export type PdfTable = { page: number; bbox: BBox; header: string[]; rows: string[][] };
+/** A detected table plus the range of `PdfLine`s (inclusive) it replaces in reading order. */
+export type PdfLayoutTable = PdfTable & { line_start: number; line_end: number };
 
 export type LayoutChunk = {
   content: string;
@@ -14,6 +21,7 @@ export type LayoutChunk = {
     bbox_union: BBox;
     kv_candidates: KvCandidate[];
     line_bboxes: Array<{ page: number; bbox: BBox }>;
+    tables: PdfTable[];
   };
 };
 
@@ -209,9 +217,201 @@ function detectKvCandidates(lines: PdfLine[]): KvCandidate[] {
   return kv.slice(0, 1000); // safety cap
 }
 
+type TableCell = { text: string; x0: number; x1: number };
+type ColumnSpan = { x0: number; x1: number };
+
+const TABLE_MIN_ROWS = 3;
+const TABLE_MIN_COLUMNS = 2;
+
+function isNumericCell(text: string): boolean {
+  return /^[-+(]?[$€£¥]?\s?\d[\d,. ]*%?\)?$/.test(text.trim());
+}
+
+/** Splits a line into cells at gaps clearly wider than a word space. */
+function splitCells(tokens: PdfToken[]): TableCell[] {
+  if (tokens.length === 0) return [];
+  const avgFont = tokens.reduce((a, t) => a + t.fontSize, 0) / tokens.length;
+  const cellGap = Math.max(8, avgFont * 1.2);
+  const wordGap = Math.max(2, avgFont * 0.25);
+  const cells: TableCell[] = [];
+  let current: PdfToken[] = [];
+  const push = () => {
+    if (current.length === 0) return;
+    const text = current.map((t, i) => (i > 0 && t.x - (current[i - 1].x + current[i - 1].w) > wordGap ? " " : "") + t.text).join("");
+    const last = current[current.length - 1];
+    if (normalizeSpaces(text)) cells.push({ text: normalizeSpaces(text), x0: current[0].x, x1: last.x + last.w });
+    current = [];
+  };
+  for (const t of tokens) {
+    const prev = current.length > 0 ? current[current.length - 1] : null;
+    if (prev && t.x - (prev.x + prev.w) > cellGap) push();
+    current.push(t);
+  }
+  push();
+  return cells;
+}
+
+function overlaps(cell: TableCell, col: ColumnSpan, tolerance = 2): boolean {
+  return cell.x0 <= col.x1 + tolerance && cell.x1 >= col.x0 - tolerance;
+}
+
+/** A row continues the table when it sits right below the previous line and most of its cells fall into known columns. */
+function continuesTable(columns: ColumnSpan[], line: PdfLine, prev: PdfLine, cells: TableCell[]): boolean {
+  if (line.page !== prev.page || cells.length < TABLE_MIN_COLUMNS) return false;
+  const rowHeight = Math.max(line.bbox.h, prev.bbox.h, 1);
+  if (Math.abs(line.bbox.y - prev.bbox.y) > rowHeight * 2.5) return false;
+  const aligned = cells.filter((c) => columns.some((col) => overlaps(c, col))).length;
+  return aligned >= TABLE_MIN_COLUMNS && aligned * 2 >= cells.length;
+}
+
+function buildTable(lines: PdfLine[], start: number, rowsCells: TableCell[][], spans: ColumnSpan[]): PdfLayoutTable | null {
+  // Cells spanning several columns have widened a span; merge overlapping spans into final columns
+  const columns: ColumnSpan[] = [];
+  for (const span of [...spans].sort((a, b) => a.x0 - b.x0)) {
+    const last = columns[columns.length - 1];
+    if (last && span.x0 <= last.x1) last.x1 = Math.max(last.x1, span.x1);
+    else columns.push({ ...span });
+  }
+  if (columns.length < TABLE_MIN_COLUMNS) return null;
+
+  const grid = rowsCells.map((cells) => {
+    const row = columns.map(() => "");
+    for (const cell of cells) {
+      let best = 0;
+      let bestOverlap = -Infinity;
+      columns.forEach((col, ci) => {
+        const overlap = Math.min(cell.x1, col.x1) - Math.max(cell.x0, col.x0);
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          best = ci;
+        }
+      });
+      row[best] = row[best] ? `${row[best]} ${cell.text}` : cell.text;
+    }
+    return row;
+  });
+
+  // Label/value forms ("Name: Jane") are KV candidates, not tables
+  const firstColumn = grid.map((r) => r[0]).filter(Boolean);
+  if (firstColumn.length > 0 && firstColumn.every((c) => /[:#]$/.test(c))) return null;
+
+  const first = grid[0];
+  const hasHeader = first.every((c) => c && !isNumericCell(c));
+  const header = hasHeader ? first : [];
+  const rows = hasHeader ? grid.slice(1) : grid;
+  if (rows.length < TABLE_MIN_ROWS - 1) return null;
+
+  const end = start + rowsCells.length - 1;
+  const bbox = lines.slice(start, end + 1).reduce<BBox | null>((bb, l) => (bb ? unionBBox(bb, l.bbox) : l.bbox), null) as BBox;
+  return { page: lines[start].page, bbox, header, rows, line_start: start, line_end: end };
+}
+
+/**
+ * Detects tables from token x/y alignment: consecutive lines on a page that split into two or more cells at
+ * wide gaps, with cells lining up in shared x-ranges. Right-aligned numbers still overlap their column's range.
+ */
+function detectTables(lines: PdfLine[]): PdfLayoutTable[] {
+  const tables: PdfLayoutTable[] = [];
+  let run: { start: number; rows: TableCell[][]; columns: ColumnSpan[] } | null = null;
+
+  const close = () => {
+    if (run && run.rows.length >= TABLE_MIN_ROWS) {
+      const table = buildTable(lines, run.start, run.rows, run.columns);
+      if (table) tables.push(table);
+    }
+    run = null;
+  };
+
+  lines.forEach((line, i) => {
+    const cells = splitCells(line.tokens);
+    if (run && continuesTable(run.columns, line, lines[i - 1], cells)) {
+      for (const cell of cells) {
+        const col = run.columns.find((c) => overlaps(cell, c));
+        if (col) {
+          col.x0 = Math.min(col.x0, cell.x0);
+          col.x1 = Math.max(col.x1, cell.x1);
+        } else run.columns.push({ x0: cell.x0, x1: cell.x1 });
+      }
+      run.rows.push(cells);
+      return;
+    }
+    close();
+    if (cells.length >= TABLE_MIN_COLUMNS) run = { start: i, rows: [cells], columns: cells.map((c) => ({ x0: c.x0, x1: c.x1 })) };
+  });
+  close();
+
+  return tables;
+}
+
+/** Markdown pipe table; header-less tables get generic column names so the markup stays valid. */
+function tableToMarkdown(table: PdfTable, rows: string[][] = table.rows): string {
+  const width = table.header.length || rows[0]?.length || 0;
+  const header = table.header.length ? table.header : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  return [markdownRow(header), markdownRow(header.map(() => "---")), ...rows.map(markdownRow)].join("\n");
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map((c) => c.replace(/\|/g, "\\|")).join(" | ")} |`;
+}
+
+/** Unit of layout chunking: a single line, or a table (part) rendered as markdown in place of its lines. */
+type LayoutBlock = { text: string; lines: PdfLine[]; tables: PdfTable[] };
+
+function toLayoutBlocks(lines: PdfLine[], tables: PdfLayoutTable[], targetTokens: number): LayoutBlock[] {
+  const byStart = new Map(tables.map((t) => [t.line_start, t]));
+  const blocks: LayoutBlock[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const table = byStart.get(i);
+    if (!table) {
+      blocks.push({ text: lines[i].text, lines: [lines[i]], tables: [] });
+      continue;
+    }
+    const tableLines = lines.slice(table.line_start, table.line_end + 1);
+    const headerLines = table.header.length ? 1 : 0;
+    // Oversized tables split by rows; every part repeats the header so columns stay labelled
+    let part: number[] = [];
+    const flushPart = () => {
+      if (part.length === 0) return;
+      const rows = part.map((r) => table.rows[r]);
+      const partLines = [...tableLines.slice(0, headerLines), ...part.map((r) => tableLines[headerLines + r])];
+      const bbox = partLines.reduce<BBox | null>((bb, l) => (bb ? unionBBox(bb, l.bbox) : l.bbox), null) as BBox;
+      blocks.push({ text: `\n${tableToMarkdown(table, rows)}\n`, lines: partLines, tables: [{ page: table.page, bbox, header: table.header, rows }] });
+      part = [];
+    };
+    const headerTokens = countTokens(tableToMarkdown(table, []));
+    let partTokens = headerTokens;
+    for (let r = 0; r < table.rows.length; r++) {
+      const rowTokens = countTokens(markdownRow(table.rows[r])) + 1;
+      if (part.length > 0 && partTokens + rowTokens > targetTokens) {
+        flushPart();
+        partTokens = headerTokens;
+      }
+      part.push(r);
+      partTokens += rowTokens;
+    }
+    flushPart();
+    i = table.line_end;
+  }
+  return blocks;
+}
+
+function joinBlocks(blocks: LayoutBlock[]): string {
+  return blocks.map((b) => b.text).join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
 type PdfTextContent = { items: PdfTextItem[] };
-type PdfPage = { getTextContent: () => Promise<PdfTextContent> };
-type PdfDocument = { numPages: number; getPage: (n: number) => Promise<PdfPage> };
+type PdfViewport = { width: number; height: number; convertToViewportPoint: (x: number, y: number) => number[] };
+type PdfCanvas = { toBuffer: (mime: "image/png") => Buffer };
+type PdfPage = {
+  getTextContent: () => Promise<PdfTextContent>;
+  getViewport: (params: { scale: number }) => PdfViewport;
+  render: (params: { canvasContext: unknown; canvas: PdfCanvas; viewport: PdfViewport }) => { promise: Promise<void> };
+};
+type PdfDocument = {
+  numPages: number;
+  getPage: (n: number) => Promise<PdfPage>;
+  canvasFactory: { create: (width: number, height: number) => { canvas: PdfCanvas; context: unknown } };
+};
 type PdfGetDocumentArg =
   | Uint8Array
   | {
@@ -220,7 +420,35 @@ type PdfGetDocumentArg =
     };
 type PdfjsModule = { getDocument: (src: PdfGetDocumentArg) => { promise: Promise<PdfDocument> } };
 
-export async function extractPdfTokens(buffer: Buffer): Promise<{ tokens: PdfToken[]; pageCount: number }> {
+/** Render scale for OCR (1 = 72 dpi); 3 ≈ 216 dpi, enough for body text without huge bitmaps */
+const OCR_RENDER_SCALE = 3;
+
+/** OCR runs inside the extract step's lease; ~3–5 s per page keeps the default well within it */
+function ocrMaxPages(): number {
+  return Number(process.env.OCR_MAX_PAGES || 20);
+}
+
+/** Renders pages without a text layer and OCRs them into tokens in the same top-left page coordinates. */
+async function ocrPdfPages(doc: PdfDocument, pages: number[]): Promise<PdfToken[]> {
+  const images: Buffer[] = [];
+  for (const p of pages) {
+    const page = await doc.getPage(p);
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const { canvas, context } = doc.canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvasContext: context, canvas, viewport }).promise;
+    images.push(canvas.toBuffer("image/png"));
+  }
+  const words = await recognizeImages(images);
+  return pages.flatMap((p, i) =>
+    ocrWordsToTokens(words[i] ?? [], p, (b) => ({ x: b.x0 / OCR_RENDER_SCALE, y: b.y0 / OCR_RENDER_SCALE, w: (b.x1 - b.x0) / OCR_RENDER_SCALE, h: (b.y1 - b.y0) / OCR_RENDER_SCALE })),
+  );
+}
+
+/**
+ * Text-layer tokens of every page, in PDF points with a top-left origin (y grows down the page).
+ * Pages without a text layer (scans) are OCR'd, up to `OCR_MAX_PAGES`; their numbers are returned in `ocrPages`.
+ */
+export async function extractPdfTokens(buffer: Buffer): Promise<{ tokens: PdfToken[]; pageCount: number; ocrPages: number[] }> {
   console.log(`📄 extractPdfTokens: Starting token extraction, buffer size: ${buffer.length} bytes`);
   
   try {
@@ -250,12 +478,15 @@ export async function extractPdfTokens(buffer: Buffer): Promise<{ tokens: PdfTok
     console.log(`📄 extractPdfTokens: Document loaded with ${pageCount} pages`);
     
     const tokens: PdfToken[] = [];
+    const pagesWithoutText: number[] = [];
     console.log(`📄 extractPdfTokens: Starting page processing`);
     
     for (let p = 1; p <= pageCount; p++) {
       console.log(`📄 extractPdfTokens: Processing page ${p}/${pageCount}`);
       const page = await doc.getPage(p);
+      const viewport = page.getViewport({ scale: 1 });
       const content = await page.getTextContent();
+      let pageHasText = false;
       
       for (const item of content.items as PdfTextItem[]) {
         const str = (item.str || "").replace(/\u0000/g, "");
@@ -268,12 +499,23 @@ export async function extractPdfTokens(buffer: Buffer): Promise<{ tokens: PdfTok
         const fontSize = Math.max(1, Math.abs(d));
         const w = typeof item.width === "number" ? item.width : Math.abs(a) * str.length * (fontSize * 0.5) * 0.01;
         const h = typeof item.height === "number" ? item.height : fontSize;
-        tokens.push({ text: str, page: p, x: e, y: f, w, h, fontSize });
+        // (e, f) is the baseline origin in PDF user space (y up); store the box's top-left corner instead
+        const [x, baseline] = viewport.convertToViewportPoint(e, f);
+        tokens.push({ text: str, page: p, x, y: baseline - h, w, h, fontSize });
+        if (str.trim()) pageHasText = true;
       }
+      if (!pageHasText) pagesWithoutText.push(p);
+    }
+    
+    let ocrPages: number[] = [];
+    if (pagesWithoutText.length > 0 && isOcrEnabled()) {
+      ocrPages = pagesWithoutText.slice(0, ocrMaxPages());
+      console.log(`📄 extractPdfTokens: Running OCR on ${ocrPages.length} page(s) without a text layer`);
+      tokens.push(...(await ocrPdfPages(doc, ocrPages)));
     }
     
     console.log(`✅ extractPdfTokens: Successfully extracted ${tokens.length} tokens from ${pageCount} pages`);
-    return { tokens, pageCount };
+    return { tokens, pageCount, ocrPages };
   } catch (error) {
     console.error(`❌ extractPdfTokens: PDF token extraction failed:`, error);
     console.error(`❌ extractPdfTokens: Error details:`, {
@@ -285,26 +527,30 @@ export async function extractPdfTokens(buffer: Buffer): Promise<{ tokens: PdfTok
   }
 }
 
-export async function extractPdfLayout(buffer: Buffer): Promise<{ lines: PdfLine[]; text: string; pageCount: number; kv_candidates: KvCandidate[] }> {
+export type PdfLayout = { lines: PdfLine[]; text: string; pageCount: number; kv_candidates: KvCandidate[]; tables: PdfLayoutTable[]; ocrPages: number[] };
+
+function layoutFromTokens(tokens: PdfToken[], pageCount: number, ocrPages: number[]): PdfLayout {
+  const lines = groupTokensIntoLines(tokens);
+  const kv_candidates = detectKvCandidates(lines);
+  const tables = detectTables(lines);
+  // Tables are rendered as markdown in place of their lines
+  const text = joinBlocks(toLayoutBlocks(lines, tables, Infinity));
+  return { lines, text, pageCount, kv_candidates, tables, ocrPages };
+}
+
+export async function extractPdfLayout(buffer: Buffer): Promise<PdfLayout> {
   console.log(`📄 extractPdfLayout: Starting PDF layout extraction, buffer size: ${buffer.length} bytes`);
   
   try {
     console.log(`📄 extractPdfLayout: About to extract PDF tokens`);
-    const { tokens, pageCount } = await extractPdfTokens(buffer);
+    const { tokens, pageCount, ocrPages } = await extractPdfTokens(buffer);
     console.log(`📄 extractPdfLayout: Extracted ${tokens.length} tokens from ${pageCount} pages`);
     
-    console.log(`📄 extractPdfLayout: About to group tokens into lines`);
-    const lines = groupTokensIntoLines(tokens);
-    console.log(`📄 extractPdfLayout: Grouped into ${lines.length} lines`);
+    const layout = layoutFromTokens(tokens, pageCount, ocrPages);
+    console.log(`📄 extractPdfLayout: Grouped into ${layout.lines.length} lines, ${layout.kv_candidates.length} KV candidates, ${layout.tables.length} tables`);
+    console.log(`✅ extractPdfLayout: Successfully completed, text length: ${layout.text.length} chars`);
     
-    console.log(`📄 extractPdfLayout: About to detect KV candidates`);
-    const kv_candidates = detectKvCandidates(lines);
-    console.log(`📄 extractPdfLayout: Detected ${kv_candidates.length} KV candidates`);
-    
-    const text = lines.map((l) => l.text).join("\n");
-    console.log(`✅ extractPdfLayout: Successfully completed, text length: ${text.length} chars`);
-    
-    return { lines, text, pageCount, kv_candidates };
+    return layout;
   } catch (error) {
     console.error(`❌ extractPdfLayout: Failed to extract PDF layout:`, error);
     console.error(`❌ extractPdfLayout: Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
@@ -312,37 +558,43 @@ export async function extractPdfLayout(buffer: Buffer): Promise<{ lines: PdfLine
   }
 }
 
-export async function chunkLinesToLayoutChunks(lines: PdfLine[], kvAll: KvCandidate[], targetTokens: number): Promise<LayoutChunk[]> {
-  const chunks: LayoutChunk[] = [];
-  const AVG_CHARS_PER_TOKEN = 4;
-  const maxChars = targetTokens * AVG_CHARS_PER_TOKEN;
+/** Layout of a PNG/JPEG upload via OCR, as a one-page document in image pixels (top-left origin). */
+export async function extractImageLayout(buffer: Buffer): Promise<PdfLayout> {
+  if (!isOcrEnabled()) throw new Error("Image uploads need OCR, which is disabled on this server");
+  const [words] = await recognizeImages([buffer]);
+  const tokens = ocrWordsToTokens(words ?? [], 1, (b) => ({ x: b.x0, y: b.y0, w: b.x1 - b.x0, h: b.y1 - b.y0 }));
+  return layoutFromTokens(tokens, 1, [1]);
+}
 
-  let buf: PdfLine[] = [];
-  let chars = 0;
+/** Packs lines (and tables, kept whole where they fit) into chunks of about `targetTokens`, never splitting a line or table row. */
+export async function chunkLinesToLayoutChunks(lines: PdfLine[], kvAll: KvCandidate[], targetTokens: number, tables: PdfLayoutTable[] = []): Promise<LayoutChunk[]> {
+  const chunks: LayoutChunk[] = [];
+  let buf: LayoutBlock[] = [];
+  let tokens = 0;
   let sectionIndex = 0;
 
   const flush = () => {
     if (buf.length === 0) return;
-    const content = buf.map((l) => l.text).join("\n");
-    const pages = buf.map((l) => l.page);
+    const content = joinBlocks(buf);
+    const bufLines = buf.flatMap((b) => b.lines);
+    const pages = bufLines.map((l) => l.page);
     const page_start = Math.min(...pages);
     const page_end = Math.max(...pages);
-    const line_bboxes = buf.map((l) => ({ page: l.page, bbox: l.bbox }));
+    const line_bboxes = bufLines.map((l) => ({ page: l.page, bbox: l.bbox }));
     const bbox_union = line_bboxes.reduce<BBox | null>((bb, cur) => (bb ? unionBBox(bb, cur.bbox) : cur.bbox), null as BBox | null) as BBox;
     const kv_candidates = kvAll.filter((kv) => kv.page >= page_start && kv.page <= page_end);
-    chunks.push({ content, sectionIndex: sectionIndex++, meta: { page_start, page_end, bbox_union, kv_candidates, line_bboxes } });
+    const chunkTables = buf.flatMap((b) => b.tables);
+    chunks.push({ content, sectionIndex: sectionIndex++, meta: { page_start, page_end, bbox_union, kv_candidates, line_bboxes, tables: chunkTables } });
     buf = [];
-    chars = 0;
+    tokens = 0;
   };
 
-  for (const ln of lines) {
-    const lnChars = ln.text.length + 1; // include newline
-    if (chars + lnChars > maxChars && buf.length > 0) flush();
-    buf.push(ln);
-    chars += lnChars;
+  for (const block of toLayoutBlocks(lines, tables, targetTokens)) {
+    const blockTokens = countTokens(block.text) + 1; // include newline
+    if (tokens + blockTokens > targetTokens && buf.length > 0) flush();
+    buf.push(block);
+    tokens += blockTokens;
   }
   flush();
   return chunks;
 }
-
-
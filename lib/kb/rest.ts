@@ -0,0 +1,371 @@
+/**
+ * REST source config (`kb_sources.config` of `type = 'rest'`) and the item → text mapping. Shared by the sync
+ * (`server/rest/runBatch.ts`) and the tenant connector builder, which previews the same text blocks on a sample page.
+ * Paths (`itemsPath`, `textFields`, cursor paths, template placeholders) are JSONPath (`lib/kb/jsonPath.ts`).
+ */
+
+import { parsePath, queryPath } from "./jsonPath";
+
+export type RestSyncSchedule = {
+  /** Minutes between run starts */
+  intervalMinutes?: number | null;
+  /** Five-field cron expression in UTC; takes precedence over the interval */
+  cron?: string | null;
+  paused?: boolean;
+};
+
+export type RestSourceConfig = {
+  baseUrl: string;
+  cursorParam?: string;
+  pageSizeParam?: string;
+  defaultPageSize?: number;
+  itemsPath?: string | null;
+  nextCursorPath?: string | null;
+  currentOffsetPath?: string | null;
+  totalPath?: string | null;
+  headersTemplate?: Record<string, string>;
+  textFields?: string[];
+  allowedRolesOverride?: string[];
+  requiresAuth?: boolean;
+  ifNoneMatchHeader?: string;
+  ifModifiedSinceHeader?: string;
+  /**
+   * `offset`, `none` (a single page), `link` (RFC 5988 `Link: <…>; rel="next"`), `page` (page numbers until
+   * `hasMorePath` is false or `totalPagesPath` is reached), `graphql` (POST `graphql.query`, cursor from
+   * `nextCursorPath` while `hasMorePath` holds); otherwise page numbers or `nextCursorPath`
+   */
+  cursorStyle?: string;
+  /** Boolean in the response telling whether another page follows (`has_more`, `$.data.items.pageInfo.hasNextPage`) */
+  hasMorePath?: string | null;
+  /** `page`: total number of pages in the response */
+  totalPagesPath?: string | null;
+  /** `page`: number of the first page (default 1) */
+  startPage?: number;
+  /** `graphql`: POSTed to `baseUrl`; the cursor goes into `variables[cursorParam || "after"]`, the page size into `variables[pageSizeParam]` */
+  graphql?: { query: string; variables?: Record<string, unknown> };
+  /** Text of an item with `{{path}}` placeholders; used instead of `textFields` when set */
+  itemTemplate?: string | null;
+  /** Item mode: the upstream id of an item; each item becomes its own doc, updated in place and tombstoned when gone */
+  idPath?: string | null;
+  /** Item mode: the doc title of an item (default "<source> — <id>") */
+  titlePath?: string | null;
+  provider?: string;
+  etag?: string;
+  modifiedSince?: string;
+  schedule?: RestSyncSchedule;
+};
+
+export const DEFAULT_TEXT_FIELDS = ["title", "body", "name", "description"];
+export const MAX_PAGE_SIZE = 100;
+/** Largest response body read from a tenant-configured endpoint (preview and scheduled sync) */
+export const REST_PAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+/** First value the path matches ("$" or empty = the object itself). */
+export function getFromPath<T = unknown>(obj: unknown, path: string | null | undefined): T | undefined {
+  return queryPath(obj, path)[0] as T | undefined;
+}
+
+/** Items at `itemsPath`: a matched array is spread, so `data.items` and `$.groups[*].items[*]` both yield the items. */
+export function selectItems(json: unknown, itemsPath: string | null | undefined): Array<Record<string, unknown>> {
+  const items: unknown[] = [];
+  for (const match of queryPath(json, itemsPath)) {
+    if (Array.isArray(match)) items.push(...match);
+    else if (match != null) items.push(match);
+  }
+  return items.filter((it): it is Record<string, unknown> => Boolean(it) && typeof it === "object" && !Array.isArray(it));
+}
+
+/** Matches of `path` in `item` as text; several matches (`tags[*]`) are joined with ", ". */
+function textAt(item: unknown, path: string): string {
+  return queryPath(item, path)
+    .filter((v) => v != null && v !== "")
+    .map((v) => (typeof v === "string" ? v : typeof v === "number" || typeof v === "boolean" ? String(v) : JSON.stringify(v)))
+    .join(", ");
+}
+
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+/** Fills `{{path}}` placeholders from the item; a line whose placeholders are all empty is dropped. */
+export function renderItemTemplate(item: unknown, template: string): string {
+  const lines: string[] = [];
+  for (const line of template.split("\n")) {
+    let placeholders = 0;
+    let filled = 0;
+    const out = line.replace(PLACEHOLDER, (_, path: string) => {
+      placeholders++;
+      const value = textAt(item, path);
+      if (value) filled++;
+      return value;
+    });
+    if (placeholders === 0 || filled > 0) lines.push(out);
+  }
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+export type RestItemRecord = { externalId: string; title: string | null; text: string };
+
+/** Item mode: one record per distinct id (last one wins); items without an id or without text are left out. */
+export function keyRestItems(items: Array<Record<string, unknown>>, config: RestSourceConfig, textFields: string[]): RestItemRecord[] {
+  const byId = new Map<string, RestItemRecord>();
+  for (const it of items) {
+    const id = getFromPath(it, config.idPath);
+    if (typeof id !== "string" && typeof id !== "number") continue;
+    const externalId = String(id).trim();
+    if (!externalId || externalId.length > 500) continue;
+    const [text] = normalizeItemsToText([it], textFields, config.itemTemplate);
+    if (!text) continue;
+    const title = config.titlePath ? textAt(it, config.titlePath).slice(0, 300) || null : null;
+    byId.set(externalId, { externalId, title, text });
+  }
+  return Array.from(byId.values());
+}
+
+export function normalizeItemsToText(items: Array<Record<string, unknown>>, textFields: string[], itemTemplate?: string | null): string[] {
+  const blocks: string[] = [];
+  for (const it of items) {
+    const text = itemTemplate
+      ? renderItemTemplate(it, itemTemplate)
+      : textFields.map((f) => textAt(it, f)).filter(Boolean).join("\n\n").trim();
+    if (text) blocks.push(text);
+  }
+  return blocks;
+}
+
+export function renderHeadersTemplate(tpl: Record<string, string>, apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [k, v] of Object.entries(tpl || {})) headers[k] = v.replaceAll("{{API_KEY}}", apiKey || "");
+  return headers;
+}
+
+/** URL of the page at `cursor` (null = first page); a cursor that is itself a URL is requested as is. */
+export function restPageUrl(config: RestSourceConfig, cursor: string | null): URL {
+  const url = new URL(cursor && cursor.startsWith("http") ? cursor : config.baseUrl);
+  if (!cursor || !cursor.startsWith("http")) {
+    const cursorParam = config.cursorParam || "page";
+    const initialCursor = config.cursorStyle === "offset" ? (cursor ?? "0") : cursor;
+    if (initialCursor !== undefined && initialCursor !== null) url.searchParams.set(cursorParam, String(initialCursor));
+    if (config.pageSizeParam) url.searchParams.set(config.pageSizeParam, String(restPageSize(config)));
+  }
+  return url;
+}
+
+export function restPageSize(config: RestSourceConfig): number {
+  return Math.min(Number(config.defaultPageSize ?? MAX_PAGE_SIZE), MAX_PAGE_SIZE);
+}
+
+export type RestPageRequest = { url: string; method: "GET" | "POST"; body?: string };
+
+/** The request for the page at `cursor`: a GraphQL POST, or a GET of `restPageUrl`. */
+export function restPageRequest(config: RestSourceConfig, cursor: string | null): RestPageRequest {
+  if (config.cursorStyle === "graphql") {
+    const variables: Record<string, unknown> = { ...(config.graphql?.variables || {}) };
+    if (cursor != null) variables[config.cursorParam || "after"] = cursor;
+    if (config.pageSizeParam) variables[config.pageSizeParam] = restPageSize(config);
+    return { url: config.baseUrl, method: "POST", body: JSON.stringify({ query: config.graphql?.query ?? "", variables }) };
+  }
+  if (config.cursorStyle === "page" && cursor == null) return { url: restPageUrl(config, String(config.startPage ?? 1)).toString(), method: "GET" };
+  return { url: restPageUrl(config, cursor).toString(), method: "GET" };
+}
+
+/** `rel="next"` target of an RFC 5988 `Link` header, resolved against the request URL. */
+export function nextLinkUrl(linkHeader: string | null, requestUrl: string): string | null {
+  if (!linkHeader) return null;
+  for (const m of linkHeader.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]+)*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(m[2] ?? "")?.[1];
+    if (rel && rel.toLowerCase().split(/\s+/).includes("next")) {
+      try {
+        return new URL(m[1]!, requestUrl).toString();
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/** `false` when `hasMorePath` says this is the last page; `undefined` without the path or a boolean-ish value. */
+export function restHasMore(config: RestSourceConfig, json: unknown): boolean | undefined {
+  if (!config.hasMorePath) return undefined;
+  const v = getFromPath(json, config.hasMorePath);
+  if (typeof v === "boolean") return v;
+  if (v === "true" || v === 1) return true;
+  if (v === "false" || v === 0 || v === null) return false;
+  return undefined;
+}
+
+/** `page`: the next page number, or null when the response says this was the last page. */
+export function nextPageNumber(config: RestSourceConfig, cursor: string | null, json: unknown, itemCount: number): string | null {
+  const current = Number(cursor ?? config.startPage ?? 1);
+  if (!Number.isFinite(current) || itemCount === 0) return null;
+  const hasMore = restHasMore(config, json);
+  if (hasMore === false) return null;
+  const totalPages = config.totalPagesPath ? Number(getFromPath(json, config.totalPagesPath)) : NaN;
+  if (Number.isFinite(totalPages) && current >= totalPages) return null;
+  if (hasMore === undefined && !Number.isFinite(totalPages) && itemCount < restPageSize(config)) return null;
+  return String(current + 1);
+}
+
+/** Cursor at `nextCursorPath` (a string or number), or null when it is absent or `hasMorePath` is false. */
+export function nextCursorFromBody(config: RestSourceConfig, json: unknown): string | null {
+  if (restHasMore(config, json) === false) return null;
+  const n = getFromPath(json, config.nextCursorPath);
+  if (typeof n === "string" && n) return n;
+  if (typeof n === "number" && Number.isFinite(n)) return String(n);
+  return null;
+}
+
+export type RestPagination = "none" | "page" | "offset" | "cursor" | "link" | "graphql";
+
+/** What the connector builder collects; `buildRestSourceConfig` turns it into a `RestSourceConfig`. */
+export type RestConnectorDraft = {
+  baseUrl: string;
+  headers: Array<{ name: string; value: string }>;
+  pagination: RestPagination;
+  cursorParam?: string;
+  pageSizeParam?: string;
+  pageSize?: number;
+  /** `cursor`, `graphql`: where the next cursor (or next page URL) is in the response */
+  nextCursorPath?: string;
+  /** `page`, `cursor`, `graphql`: where the "more pages" flag is in the response */
+  hasMorePath?: string;
+  /** `page`: where the page count is in the response */
+  totalPagesPath?: string;
+  /** `offset`: where the total item count is in the response */
+  totalPath?: string;
+  /** `graphql`: the query and its variables as JSON text */
+  graphqlQuery?: string;
+  graphqlVariables?: string;
+  itemsPath: string;
+  textFields: string[];
+  /** Replaces `textFields` when not blank */
+  itemTemplate?: string;
+  /** Keeps one doc per item when set */
+  idPath?: string;
+  titlePath?: string;
+};
+
+const HEADER_NAME = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+const RESERVED_HEADERS = new Set(["host", "content-length", "connection", "cookie", "transfer-encoding"]);
+
+type ConfigResult = { ok: true; config: RestSourceConfig } | { ok: false; error: string };
+
+/** URL, headers and pagination: enough to fetch a sample page before the items and fields are picked. */
+export function buildRestRequestConfig(draft: RestConnectorDraft): ConfigResult {
+  let base: URL;
+  try {
+    base = new URL(draft.baseUrl.trim());
+  } catch {
+    return { ok: false, error: "Enter a valid URL" };
+  }
+  if (base.protocol !== "https:" && base.protocol !== "http:") return { ok: false, error: "URL must start with http:// or https://" };
+  if (base.username || base.password) return { ok: false, error: "Put credentials in a header, not in the URL" };
+
+  const headersTemplate: Record<string, string> = {};
+  for (const h of draft.headers) {
+    const name = h.name.trim();
+    if (!name && !h.value.trim()) continue;
+    if (!HEADER_NAME.test(name)) return { ok: false, error: `Invalid header name "${name}"` };
+    if (RESERVED_HEADERS.has(name.toLowerCase())) return { ok: false, error: `Header "${name}" can't be set` };
+    headersTemplate[name] = h.value.trim();
+  }
+  if (Object.keys(headersTemplate).length > 10) return { ok: false, error: "At most 10 headers" };
+
+  const pageSize = Math.floor(Number(draft.pageSize ?? 50));
+  if (!Number.isFinite(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) return { ok: false, error: `Page size must be between 1 and ${MAX_PAGE_SIZE}` };
+
+  const config: RestSourceConfig = {
+    baseUrl: base.toString(),
+    headersTemplate,
+    requiresAuth: Object.values(headersTemplate).some((v) => v.includes("{{API_KEY}}")),
+  };
+  const cursorParam = draft.cursorParam?.trim();
+  const pageSizeParam = draft.pageSizeParam?.trim();
+  if (draft.pagination === "none") {
+    config.cursorStyle = "none";
+    return { ok: true, config };
+  }
+  if (pageSizeParam) config.pageSizeParam = pageSizeParam;
+  config.defaultPageSize = pageSize;
+  if (draft.pagination === "page") {
+    config.cursorStyle = "page";
+    config.cursorParam = cursorParam || "page";
+  } else if (draft.pagination === "offset") {
+    config.cursorStyle = "offset";
+    config.cursorParam = cursorParam || "offset";
+  } else if (draft.pagination === "link") {
+    config.cursorStyle = "link";
+  } else if (draft.pagination === "graphql") {
+    const query = draft.graphqlQuery?.trim();
+    if (!query) return { ok: false, error: "Enter the GraphQL query" };
+    let variables: unknown = {};
+    if (draft.graphqlVariables?.trim()) {
+      try {
+        variables = JSON.parse(draft.graphqlVariables);
+      } catch {
+        return { ok: false, error: "GraphQL variables must be valid JSON" };
+      }
+      if (!variables || typeof variables !== "object" || Array.isArray(variables)) return { ok: false, error: "GraphQL variables must be a JSON object" };
+    }
+    config.cursorStyle = "graphql";
+    config.cursorParam = cursorParam || "after";
+    config.graphql = { query, variables: variables as Record<string, unknown> };
+  } else {
+    config.cursorParam = cursorParam || "cursor";
+  }
+  return { ok: true, config };
+}
+
+/** The path trimmed, or an error naming the field when `parsePath` rejects it. */
+function checkPath(label: string, path: string): string | { error: string } {
+  const trimmed = path.trim();
+  try {
+    parsePath(trimmed);
+    return trimmed;
+  } catch (e) {
+    return { error: `${label}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+/** The full config to save: the request plus the items path, text fields and response pagination paths. */
+export function buildRestSourceConfig(draft: RestConnectorDraft): ConfigResult {
+  const request = buildRestRequestConfig(draft);
+  if (!request.ok) return request;
+  const itemsPath = checkPath("Items path", draft.itemsPath || "$");
+  if (typeof itemsPath !== "string") return { ok: false, ...itemsPath };
+  const config: RestSourceConfig = { ...request.config, itemsPath: itemsPath || "$" };
+
+  const textFields = Array.from(new Set(draft.textFields.map((f) => f.trim()).filter(Boolean)));
+  const itemTemplate = draft.itemTemplate?.trim();
+  if (itemTemplate) {
+    if (itemTemplate.length > 4000) return { ok: false, error: "The item template is limited to 4000 characters" };
+    for (const m of itemTemplate.matchAll(PLACEHOLDER)) {
+      const checked = checkPath("Template", m[1]!);
+      if (typeof checked !== "string") return { ok: false, ...checked };
+    }
+    config.itemTemplate = itemTemplate;
+  } else if (textFields.length === 0) return { ok: false, error: "Pick at least one text field" };
+  if (textFields.length > 30) return { ok: false, error: "At most 30 text fields" };
+  for (const f of textFields) {
+    const checked = checkPath("Text field", f);
+    if (typeof checked !== "string") return { ok: false, ...checked };
+  }
+  config.textFields = textFields;
+
+  const paths: Array<["totalPath" | "nextCursorPath" | "hasMorePath" | "totalPagesPath" | "idPath" | "titlePath", string | undefined, string]> = [
+    ["idPath", draft.idPath, "Item ID"],
+    ["titlePath", draft.idPath?.trim() ? draft.titlePath : undefined, "Item title"],
+  ];
+  if (draft.pagination === "offset") paths.push(["totalPath", draft.totalPath, "Total"]);
+  if (draft.pagination === "page") paths.push(["hasMorePath", draft.hasMorePath, "Has more"], ["totalPagesPath", draft.totalPagesPath, "Total pages"]);
+  if (draft.pagination === "cursor" || draft.pagination === "graphql") {
+    if (!draft.nextCursorPath?.trim()) return { ok: false, error: "Pick where the next cursor is in the response" };
+    paths.push(["nextCursorPath", draft.nextCursorPath, "Next cursor"], ["hasMorePath", draft.hasMorePath, "Has more"]);
+  }
+  for (const [key, value, label] of paths) {
+    if (!value?.trim()) continue;
+    const checked = checkPath(label, value);
+    if (typeof checked !== "string") return { ok: false, ...checked };
+    config[key] = checked;
+  }
+  return { ok: true, config };
+}
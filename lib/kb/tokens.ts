@@ -0,0 +1,25 @@
+import "server-only";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+
+// cl100k_base is the encoding of OpenAI's embedding models; close enough for sizing chunks for other providers
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) encoder = new Tiktoken(cl100k_base);
+  return encoder;
+}
+
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  return getEncoder().encode(text).length;
+}
+
+/** Splits text into consecutive pieces of at most `maxTokens` tokens (last resort for unbreakable runs). */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const enc = getEncoder();
+  const ids = enc.encode(text);
+  const pieces: string[] = [];
+  for (let i = 0; i < ids.length; i += maxTokens) pieces.push(enc.decode(ids.slice(i, i + maxTokens)));
+  return pieces;
+}
@@ -0,0 +1,137 @@
+import "server-only";
+
+/**
+ * Section-level diff between two versions of a document, for the version history view.
+ *
+ * Chunks are grouped into sections by heading breadcrumb (text formats) or start page (PDFs and scans); sections
+ * present in only one version are added/removed, others are compared line by line.
+ */
+
+export type VersionChunk = { chunk_idx: number; title: string | null; content: string; metadata: Record<string, unknown> | null };
+
+export type DiffLine = { op: "same" | "added" | "removed"; text: string } | { op: "skip"; count: number };
+
+export type SectionDiff = {
+  key: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  added: number;
+  removed: number;
+  /** Empty for unchanged sections; unchanged runs inside changed sections are collapsed to `skip` */
+  lines: DiffLine[];
+};
+
+/** Line pairs above this use an order-insensitive comparison instead of LCS */
+const MAX_LCS_CELLS = 2_000_000;
+const CONTEXT_LINES = 2;
+
+function sectionKey(chunk: VersionChunk): string {
+  const meta = chunk.metadata || {};
+  if (typeof meta.breadcrumb === "string" && meta.breadcrumb) return meta.breadcrumb;
+  if (chunk.title) return chunk.title;
+  if (typeof meta.page_start === "number") return `Page ${meta.page_start}`;
+  if (typeof meta.sectionIndex === "number") return `Section ${meta.sectionIndex + 1}`;
+  return "Document";
+}
+
+function groupSections(chunks: VersionChunk[]): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  for (const chunk of [...chunks].sort((a, b) => a.chunk_idx - b.chunk_idx)) {
+    const key = sectionKey(chunk);
+    const lines = chunk.content.split("\n").map((l) => l.trim()).filter(Boolean);
+    const existing = sections.get(key);
+    if (existing) existing.push(...lines);
+    else sections.set(key, lines);
+  }
+  return sections;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j] ? table[(i + 1) * width + j + 1]! + 1 : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+    }
+  }
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ op: "same", text: a[i]! });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+      out.push({ op: "removed", text: a[i++]! });
+    } else {
+      out.push({ op: "added", text: b[j++]! });
+    }
+  }
+  while (i < n) out.push({ op: "removed", text: a[i++]! });
+  while (j < m) out.push({ op: "added", text: b[j++]! });
+  return out;
+}
+
+/** Fallback for very long sections: lines missing from the other side, in their own order */
+function setDiff(a: string[], b: string[]): DiffLine[] {
+  const inA = new Set(a);
+  const inB = new Set(b);
+  return [
+    ...a.filter((l) => !inB.has(l)).map((text) => ({ op: "removed" as const, text })),
+    ...b.filter((l) => !inA.has(l)).map((text) => ({ op: "added" as const, text })),
+  ];
+}
+
+function collapseUnchanged(lines: DiffLine[]): DiffLine[] {
+  const out: DiffLine[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i]!.op !== "same") {
+      out.push(lines[i++]!);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end]!.op === "same") end++;
+    const run = lines.slice(i, end);
+    const keepHead = i === 0 ? 0 : CONTEXT_LINES;
+    const keepTail = end === lines.length ? 0 : CONTEXT_LINES;
+    if (run.length > keepHead + keepTail + 1) {
+      out.push(...run.slice(0, keepHead), { op: "skip", count: run.length - keepHead - keepTail }, ...run.slice(run.length - keepTail));
+    } else {
+      out.push(...run);
+    }
+    i = end;
+  }
+  return out;
+}
+
+/** Sections in the newer version's order, followed by sections that only exist in the older one. */
+export function diffVersions(from: VersionChunk[], to: VersionChunk[]): SectionDiff[] {
+  const before = groupSections(from);
+  const after = groupSections(to);
+  const out: SectionDiff[] = [];
+  for (const [key, lines] of after) {
+    const old = before.get(key);
+    if (!old) {
+      out.push({ key, status: "added", added: lines.length, removed: 0, lines: lines.map((text) => ({ op: "added", text })) });
+      continue;
+    }
+    if (old.join("\n") === lines.join("\n")) {
+      out.push({ key, status: "unchanged", added: 0, removed: 0, lines: [] });
+      continue;
+    }
+    const diff = old.length * lines.length > MAX_LCS_CELLS ? setDiff(old, lines) : lcsDiff(old, lines);
+    const added = diff.filter((l) => l.op === "added").length;
+    const removed = diff.filter((l) => l.op === "removed").length;
+    // Reordered duplicates can leave nothing to show under the set fallback
+    if (added === 0 && removed === 0) out.push({ key, status: "unchanged", added: 0, removed: 0, lines: [] });
+    else out.push({ key, status: "changed", added, removed, lines: collapseUnchanged(diff) });
+  }
+  for (const [key, lines] of before) {
+    if (after.has(key)) continue;
+    out.push({ key, status: "removed", added: 0, removed: lines.length, lines: lines.map((text) => ({ op: "removed", text })) });
+  }
+  return out;
+}
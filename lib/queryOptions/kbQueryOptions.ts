@@ -10,6 +10,10 @@ export const kbSourcesKeys = {
   list: (tenantId: string) => ["kb-sources", tenantId] as const,
 } as const;
 
+export const kbConnectorsKeys = {
+  list: (tenantId: string) => ["kb-connectors", tenantId] as const,
+} as const;
+
 export const kbJobsKeys = {
   recent: (tenantId: string) => ["kb-jobs", tenantId, "recent"] as const,
   single: (jobId: string) => ["kb-job", jobId] as const,
@@ -255,6 +259,46 @@ export function createKbSourcesPageQueryOptions(
   };
 }
 
+type ConnectorCursorItem = Pick<
+  Tables<"kb_rest_cursors">,
+  "source_id" | "next_cursor" | "page_count" | "item_count" | "last_synced_at" | "last_status" | "last_error" | "next_run_at" | "error_count"
+>;
+
+export type RestConnectorRow = Pick<Tables<"kb_sources">, "id" | "title" | "uri" | "config" | "created_at"> & {
+  cursor: ConnectorCursorItem | null;
+};
+
+/** Tenant-built REST connectors (not the operators' backoffice sources) with their sync state. */
+export function createRestConnectorsQueryOptions(
+  tenantId: string,
+  supabase: SupabaseClient,
+): UseQueryOptions<RestConnectorRow[], Error, RestConnectorRow[], ReturnType<typeof kbConnectorsKeys.list>> {
+  return {
+    queryKey: kbConnectorsKeys.list(tenantId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kb_sources")
+        .select("id, title, uri, config, created_at")
+        .eq("tenant_id", tenantId)
+        .eq("type", "rest")
+        .eq("backoffice_only", false)
+        .order("created_at", { ascending: false });
+      if (error) throw new Error(error.message);
+      const sources = (data || []) as Array<Omit<RestConnectorRow, "cursor">>;
+      if (sources.length === 0) return [];
+      const cursorRes = await supabase
+        .from("kb_rest_cursors")
+        .select("source_id, next_cursor, page_count, item_count, last_synced_at, last_status, last_error, next_run_at, error_count")
+        .eq("tenant_id", tenantId)
+        .in("source_id", sources.map((s) => s.id));
+      if (cursorRes.error) throw new Error(cursorRes.error.message);
+      const cursorBySource = new Map(((cursorRes.data || []) as ConnectorCursorItem[]).map((c) => [c.source_id, c]));
+      return sources.map((s) => ({ ...s, cursor: cursorBySource.get(s.id) || null }));
+    },
+    staleTime: 2000,
+  };
+}
+
 export type KbJobRecentItem = Pick<
   Tables<"kb_ingest_jobs">,
   "id" | "status" | "error" | "created_at" | "updated_at" | "doc_id" | "source_id"
@@ -344,6 +388,8 @@ export type JobProgressData = {
   totalBytes?: number;
   processedChunks?: number;
   totalChunks?: number;
+  reusedChunks?: number;
+  embeddedChunks?: number;
   error?: string;
   notes?: string;
 };
@@ -14,6 +14,59 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          key_hash: string
+          last_used_at: string | null
+          name: string
+          prefix: string
+          rate_limit_per_minute: number
+          revoked_at: string | null
+          role_key: string
+          scopes: string[]
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash: string
+          last_used_at?: string | null
+          name: string
+          prefix: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          role_key: string
+          scopes?: string[]
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          key_hash?: string
+          last_used_at?: string | null
+          name?: string
+          prefix?: string
+          rate_limit_per_minute?: number
+          revoked_at?: string | null
+          role_key?: string
+          scopes?: string[]
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assistant_prompt_versions: {
         Row: {
           created_at: string
@@ -132,6 +185,7 @@ export type Database = {
           role: string
           session_id: string
           tenant_id: string
+          tool_calls: Json | null
         }
         Insert: {
           author_user_id?: string | null
@@ -142,6 +196,7 @@ export type Database = {
           role: string
           session_id: string
           tenant_id: string
+          tool_calls?: Json | null
         }
         Update: {
           author_user_id?: string | null
@@ -152,6 +207,7 @@ export type Database = {
           role?: string
           session_id?: string
           tenant_id?: string
+          tool_calls?: Json | null
         }
         Relationships: [
           {
@@ -295,6 +351,51 @@ export type Database = {
           },
         ]
       }
+      kb_chunk_staging: {
+        Row: {
+          allowed_roles: string[] | null
+          chunk_idx: number
+          content: string | null
+          created_at: string
+          doc_id: string
+          embedding: string | null
+          id: string
+          job_id: string
+          metadata: Json | null
+          reuse_id: string | null
+          tenant_id: string
+          title: string | null
+        }
+        Insert: {
+          allowed_roles?: string[] | null
+          chunk_idx: number
+          content?: string | null
+          created_at?: string
+          doc_id: string
+          embedding?: string | null
+          id?: string
+          job_id: string
+          metadata?: Json | null
+          reuse_id?: string | null
+          tenant_id: string
+          title?: string | null
+        }
+        Update: {
+          allowed_roles?: string[] | null
+          chunk_idx?: number
+          content?: string | null
+          created_at?: string
+          doc_id?: string
+          embedding?: string | null
+          id?: string
+          job_id?: string
+          metadata?: Json | null
+          reuse_id?: string | null
+          tenant_id?: string
+          title?: string | null
+        }
+        Relationships: []
+      }
       kb_chunks: {
         Row: {
           allowed_roles: string[] | null
@@ -303,6 +404,7 @@ export type Database = {
           created_at: string
           doc_id: string
           embedding: string
+          embedding_next: string | null
           id: string
           metadata: Json | null
           tenant_id: string
@@ -316,6 +418,7 @@ export type Database = {
           created_at?: string
           doc_id: string
           embedding: string
+          embedding_next?: string | null
           id?: string
           metadata?: Json | null
           tenant_id: string
@@ -329,6 +432,7 @@ export type Database = {
           created_at?: string
           doc_id?: string
           embedding?: string
+          embedding_next?: string | null
           id?: string
           metadata?: Json | null
           tenant_id?: string
@@ -352,12 +456,128 @@ export type Database = {
           },
         ]
       }
+      kb_doc_version_chunks: {
+        Row: {
+          allowed_roles: string[] | null
+          chunk_idx: number
+          content: string
+          created_at: string
+          doc_id: string
+          embedding: string
+          id: string
+          metadata: Json | null
+          tenant_id: string
+          title: string | null
+          version: number
+        }
+        Insert: {
+          allowed_roles?: string[] | null
+          chunk_idx: number
+          content: string
+          created_at?: string
+          doc_id: string
+          embedding: string
+          id?: string
+          metadata?: Json | null
+          tenant_id: string
+          title?: string | null
+          version: number
+        }
+        Update: {
+          allowed_roles?: string[] | null
+          chunk_idx?: number
+          content?: string
+          created_at?: string
+          doc_id?: string
+          embedding?: string
+          id?: string
+          metadata?: Json | null
+          tenant_id?: string
+          title?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_doc_version_chunks_doc_id_fkey"
+            columns: ["doc_id"]
+            isOneToOne: false
+            referencedRelation: "kb_docs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_doc_version_chunks_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_doc_versions: {
+        Row: {
+          chunk_count: number
+          content_hash: string | null
+          created_at: string
+          created_by: string | null
+          doc_id: string
+          file_hash: string | null
+          id: string
+          original_path: string | null
+          tenant_id: string
+          version: number
+        }
+        Insert: {
+          chunk_count?: number
+          content_hash?: string | null
+          created_at?: string
+          created_by?: string | null
+          doc_id: string
+          file_hash?: string | null
+          id?: string
+          original_path?: string | null
+          tenant_id: string
+          version: number
+        }
+        Update: {
+          chunk_count?: number
+          content_hash?: string | null
+          created_at?: string
+          created_by?: string | null
+          doc_id?: string
+          file_hash?: string | null
+          id?: string
+          original_path?: string | null
+          tenant_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_doc_versions_doc_id_fkey"
+            columns: ["doc_id"]
+            isOneToOne: false
+            referencedRelation: "kb_docs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_doc_versions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kb_docs: {
         Row: {
           content_hash: string | null
           created_at: string
+          deleted_at: string | null
           error: string | null
+          external_id: string | null
+          file_hash: string | null
           id: string
+          last_seen_at: string | null
+          original_path: string | null
           source_id: string | null
           status: string
           tenant_id: string
@@ -368,8 +588,13 @@ export type Database = {
         Insert: {
           content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           error?: string | null
+          external_id?: string | null
+          file_hash?: string | null
           id?: string
+          last_seen_at?: string | null
+          original_path?: string | null
           source_id?: string | null
           status?: string
           tenant_id: string
@@ -380,8 +605,13 @@ export type Database = {
         Update: {
           content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           error?: string | null
+          external_id?: string | null
+          file_hash?: string | null
           id?: string
+          last_seen_at?: string | null
+          original_path?: string | null
           source_id?: string | null
           status?: string
           tenant_id?: string
@@ -406,21 +636,200 @@ export type Database = {
           },
         ]
       }
+      kb_eval_questions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected: Json
+          id: string
+          notes: string | null
+          question: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected: Json
+          id?: string
+          notes?: string | null
+          question: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected?: Json
+          id?: string
+          notes?: string | null
+          question?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_eval_questions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_eval_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          k: number
+          results: Json
+          settings: Json
+          summary: Json
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          k: number
+          results: Json
+          settings: Json
+          summary: Json
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          k?: number
+          results?: Json
+          settings?: Json
+          summary?: Json
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_eval_runs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_field_synonyms: {
+        Row: {
+          aliases: string[]
+          canonical: string
+          created_at: string
+          created_by: string | null
+          id: string
+          tenant_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          canonical: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          tenant_id: string
+        }
+        Update: {
+          aliases?: string[]
+          canonical?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_field_synonyms_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_fields: {
+        Row: {
+          allowed_roles: string[]
+          bboxes: Json | null
+          chunk_idx: number
+          created_at: string
+          doc_id: string
+          id: string
+          label: string
+          label_norm: string
+          page: number | null
+          tenant_id: string
+          value: string
+        }
+        Insert: {
+          allowed_roles?: string[]
+          bboxes?: Json | null
+          chunk_idx: number
+          created_at?: string
+          doc_id: string
+          id?: string
+          label: string
+          label_norm: string
+          page?: number | null
+          tenant_id: string
+          value: string
+        }
+        Update: {
+          allowed_roles?: string[]
+          bboxes?: Json | null
+          chunk_idx?: number
+          created_at?: string
+          doc_id?: string
+          id?: string
+          label?: string
+          label_norm?: string
+          page?: number | null
+          tenant_id?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_fields_doc_id_fkey"
+            columns: ["doc_id"]
+            isOneToOne: false
+            referencedRelation: "kb_docs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_fields_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kb_ingest_jobs: {
         Row: {
           allowed_roles: string[] | null
           cancel_requested: boolean
+          completed_at: string | null
           created_at: string
           doc_id: string | null
+          embedded_chunks: number | null
           error: string | null
           filename: string | null
           id: string
+          lease_expires_at: string | null
+          max_retries: number
           metadata: Json | null
           mime_type: string | null
           notes: string | null
           processed_bytes: number | null
           processed_chunks: number | null
+          retry_count: number
+          reused_chunks: number | null
+          scheduled_at: string
           source_id: string | null
+          started_at: string | null
           status: string
           step: string | null
           storage_path: string | null
@@ -428,21 +837,30 @@ export type Database = {
           total_bytes: number | null
           total_chunks: number | null
           updated_at: string
+          worker_id: string | null
         }
         Insert: {
           allowed_roles?: string[] | null
           cancel_requested?: boolean
+          completed_at?: string | null
           created_at?: string
           doc_id?: string | null
+          embedded_chunks?: number | null
           error?: string | null
           filename?: string | null
           id?: string
+          lease_expires_at?: string | null
+          max_retries?: number
           metadata?: Json | null
           mime_type?: string | null
           notes?: string | null
           processed_bytes?: number | null
           processed_chunks?: number | null
+          retry_count?: number
+          reused_chunks?: number | null
+          scheduled_at?: string
           source_id?: string | null
+          started_at?: string | null
           status?: string
           step?: string | null
           storage_path?: string | null
@@ -450,21 +868,30 @@ export type Database = {
           total_bytes?: number | null
           total_chunks?: number | null
           updated_at?: string
+          worker_id?: string | null
         }
         Update: {
           allowed_roles?: string[] | null
           cancel_requested?: boolean
+          completed_at?: string | null
           created_at?: string
           doc_id?: string | null
+          embedded_chunks?: number | null
           error?: string | null
           filename?: string | null
           id?: string
+          lease_expires_at?: string | null
+          max_retries?: number
           metadata?: Json | null
           mime_type?: string | null
           notes?: string | null
           processed_bytes?: number | null
           processed_chunks?: number | null
+          retry_count?: number
+          reused_chunks?: number | null
+          scheduled_at?: string
           source_id?: string | null
+          started_at?: string | null
           status?: string
           step?: string | null
           storage_path?: string | null
@@ -472,6 +899,7 @@ export type Database = {
           total_bytes?: number | null
           total_chunks?: number | null
           updated_at?: string
+          worker_id?: string | null
         }
         Relationships: [
           {
@@ -497,43 +925,87 @@ export type Database = {
           },
         ]
       }
+      kb_knowledge_generations: {
+        Row: {
+          generation: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          generation?: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          generation?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_knowledge_generations_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: true
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kb_rest_cursors: {
         Row: {
           created_at: string
+          error_count: number
           id: string
           item_count: number
           last_error: string | null
           last_http_status: number | null
           last_status: string | null
           last_synced_at: string | null
+          lease_expires_at: string | null
           next_cursor: string | null
+          next_run_at: string | null
           page_count: number
+          pass_started_at: string | null
+          run_completed_at: string | null
+          run_started_at: string | null
           source_id: string
           tenant_id: string
         }
         Insert: {
           created_at?: string
+          error_count?: number
           id?: string
           item_count?: number
           last_error?: string | null
           last_http_status?: number | null
           last_status?: string | null
           last_synced_at?: string | null
+          lease_expires_at?: string | null
           next_cursor?: string | null
+          next_run_at?: string | null
           page_count?: number
+          pass_started_at?: string | null
+          run_completed_at?: string | null
+          run_started_at?: string | null
           source_id: string
           tenant_id: string
         }
         Update: {
           created_at?: string
+          error_count?: number
           id?: string
           item_count?: number
           last_error?: string | null
           last_http_status?: number | null
           last_status?: string | null
           last_synced_at?: string | null
+          lease_expires_at?: string | null
           next_cursor?: string | null
+          next_run_at?: string | null
           page_count?: number
+          pass_started_at?: string | null
+          run_completed_at?: string | null
+          run_started_at?: string | null
           source_id?: string
           tenant_id?: string
         }
@@ -554,6 +1026,41 @@ export type Database = {
           },
         ]
       }
+      kb_retrieval_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          generation: number
+          key_hash: string
+          tenant_id: string
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          generation: number
+          key_hash: string
+          tenant_id: string
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          generation?: number
+          key_hash?: string
+          tenant_id?: string
+          value?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_retrieval_cache_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kb_sources: {
         Row: {
           backoffice_only: boolean
@@ -611,6 +1118,69 @@ export type Database = {
           },
         ]
       }
+      kb_web_cursors: {
+        Row: {
+          created_at: string
+          frontier: Json | null
+          id: string
+          item_count: number
+          last_error: string | null
+          last_http_status: number | null
+          last_status: string | null
+          last_synced_at: string | null
+          page_count: number
+          robots: Json | null
+          seen: string[]
+          source_id: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          frontier?: Json | null
+          id?: string
+          item_count?: number
+          last_error?: string | null
+          last_http_status?: number | null
+          last_status?: string | null
+          last_synced_at?: string | null
+          page_count?: number
+          robots?: Json | null
+          seen?: string[]
+          source_id: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          frontier?: Json | null
+          id?: string
+          item_count?: number
+          last_error?: string | null
+          last_http_status?: number | null
+          last_status?: string | null
+          last_synced_at?: string | null
+          page_count?: number
+          robots?: Json | null
+          seen?: string[]
+          source_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kb_web_cursors_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: true
+            referencedRelation: "kb_sources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_web_cursors_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       memberships: {
         Row: {
           created_at: string
@@ -955,10 +1525,14 @@ export type Database = {
       tenant_rag_settings: {
         Row: {
           chat_model: string
+          chunk_overlap_tokens: number
+          chunk_target_tokens: number
           created_at: string
           default_allowed_roles: string[]
           embedding_model: string
+          fusion_strategy: string
           hybrid_enabled: boolean
+          keyword_weight: number
           max_context_tokens: number
           overfetch: number
           rerank_enabled: boolean
@@ -967,13 +1541,18 @@ export type Database = {
           temperature: number
           tenant_id: string
           updated_at: string
+          vector_weight: number
         }
         Insert: {
           chat_model?: string
+          chunk_overlap_tokens?: number
+          chunk_target_tokens?: number
           created_at?: string
           default_allowed_roles?: string[]
           embedding_model?: string
+          fusion_strategy?: string
           hybrid_enabled?: boolean
+          keyword_weight?: number
           max_context_tokens?: number
           overfetch?: number
           rerank_enabled?: boolean
@@ -982,13 +1561,18 @@ export type Database = {
           temperature?: number
           tenant_id: string
           updated_at?: string
+          vector_weight?: number
         }
         Update: {
           chat_model?: string
+          chunk_overlap_tokens?: number
+          chunk_target_tokens?: number
           created_at?: string
           default_allowed_roles?: string[]
           embedding_model?: string
+          fusion_strategy?: string
           hybrid_enabled?: boolean
+          keyword_weight?: number
           max_context_tokens?: number
           overfetch?: number
           rerank_enabled?: boolean
@@ -997,6 +1581,7 @@ export type Database = {
           temperature?: number
           tenant_id?: string
           updated_at?: string
+          vector_weight?: number
         }
         Relationships: [
           {
@@ -1056,6 +1641,125 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          tenant_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          tenant_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          event_types: string[]
+          id: string
+          name: string
+          tenant_id: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          event_types?: string[]
+          id?: string
+          name: string
+          tenant_id: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          event_types?: string[]
+          id?: string
+          name?: string
+          tenant_id?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       v_active_assistant_prompt: {
@@ -1114,6 +1818,10 @@ export type Database = {
         Args: { p_display_name: string; p_token: string }
         Returns: Json
       }
+      api_rate_limit_hit: {
+        Args: { k: string; max_hits: number; window_ms: number }
+        Returns: { allowed: boolean; reset_in_ms: number }[]
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
@@ -1194,8 +1902,23 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      kb_bump_knowledge_generation: {
+        Args: { t: string }
+        Returns: number
+      }
+      kb_claim_ingest_jobs: {
+        Args: { job_limit?: number; lease_seconds?: number; only_job?: string | null; worker: string }
+        Returns: Database["public"]["Tables"]["kb_ingest_jobs"]["Row"][]
+      }
+      kb_embedding_dimensions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          column_name: string
+          dimensions: number | null
+        }[]
+      }
       kb_keyword_search: {
-        Args: { limit_k?: number; q: string; t: string }
+        Args: { limit_k?: number; q: string; r: string; t: string }
         Returns: {
           chunk_idx: number
           content: string
@@ -1205,8 +1928,16 @@ export type Database = {
           title: string
         }[]
       }
+      kb_reembed_cutover: {
+        Args: { model: string; t: string }
+        Returns: number
+      }
+      kb_swap_in_staged_chunks: {
+        Args: { d: string; j: string; t: string }
+        Returns: number
+      }
       kb_vector_search: {
-        Args: { limit_k?: number; q: string; t: string }
+        Args: { limit_k?: number; q: string; r: string; t: string }
         Returns: {
           chunk_idx: number
           content: string
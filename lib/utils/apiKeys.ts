@@ -0,0 +1,21 @@
+/**
+ * Tenant API keys (`api_keys`, public routes under `app/api/v1`). A key carries a subset of these scopes; each is
+ * also a permission key, and the key's role must still hold it when the key is used.
+ */
+export const API_KEY_SCOPES = [
+  { key: "kb.read", label: "Search and list documents", routes: ["POST /api/v1/search", "GET /api/v1/documents"] },
+  { key: "chat.ask", label: "Ask questions", routes: ["POST /api/v1/ask"] },
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]["key"];
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((s) => s.key === value);
+}
+
+/** Plaintext keys look like `sm_<43 chars>`; the first 11 chars are kept as `prefix` to tell keys apart in the UI */
+export const API_KEY_PREFIX = "sm_";
+export const API_KEY_DISPLAY_LENGTH = 11;
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 600;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron } from "./cron";
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+const next = (expression: string, after: string) => nextCronRun(expression, new Date(after)).toISOString();
+
+describe("parseCron", () => {
+  it("expands steps, ranges and lists", () => {
+    const s = parseCron("*/15 9-17/4 1,15 * *");
+    expect(sorted(s.minutes)).toEqual([0, 15, 30, 45]);
+    expect(sorted(s.hours)).toEqual([9, 13, 17]);
+    expect(sorted(s.days)).toEqual([1, 15]);
+    expect(s.months.size).toBe(12);
+  });
+
+  it("runs a step from a single start value to the end of the field", () => {
+    expect(sorted(parseCron("5/20 * * * *").minutes)).toEqual([5, 25, 45]);
+  });
+
+  it("accepts month and day names in any case", () => {
+    const s = parseCron("0 0 * Jan,JUL mon-fri");
+    expect(sorted(s.months)).toEqual([1, 7]);
+    expect(sorted(s.weekdays)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect(sorted(parseCron("0 0 * * 5-7").weekdays)).toEqual([0, 5, 6]);
+  });
+
+  it("expands macros", () => {
+    expect(parseCron("@weekly")).toEqual(parseCron("0 0 * * 0"));
+    expect(parseCron(" @Daily ")).toEqual(parseCron("0 0 * * *"));
+  });
+
+  it.each([
+    ["* * * *", /needs 5 fields/],
+    ["60 * * * *", /Invalid minute "60" \(allowed 0-59\)/],
+    ["* * 0 * *", /Invalid day of month "0"/],
+    ["* * * foo *", /Invalid month "foo"/],
+    ["*/0 * * * *", /Invalid step in minute/],
+    ["* 5-1 * * *", /Invalid hour range "5-1"/],
+  ])("rejects %s", (expression, reason) => {
+    expect(() => parseCron(expression)).toThrow(reason);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(next("*/15 * * * *", "2024-01-01T10:15:00Z")).toBe("2024-01-01T10:30:00.000Z");
+    expect(next("*/15 * * * *", "2024-01-01T10:14:59Z")).toBe("2024-01-01T10:15:00.000Z");
+  });
+
+  it("rolls over hours, days and years", () => {
+    expect(next("30 2 * * *", "2024-01-01T03:00:00Z")).toBe("2024-01-02T02:30:00.000Z");
+    expect(next("0 0 1 1 *", "2024-06-15T12:00:00Z")).toBe("2025-01-01T00:00:00.000Z");
+  });
+
+  it("matches day names", () => {
+    // 2024-01-01 is a Monday
+    expect(next("0 9 * * fri", "2024-01-01T00:00:00Z")).toBe("2024-01-05T09:00:00.000Z");
+    expect(next("0 9 * * sun", "2024-01-01T00:00:00Z")).toBe("2024-01-07T09:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    expect(next("0 0 15 * mon", "2024-01-02T00:00:00Z")).toBe("2024-01-08T00:00:00.000Z");
+    expect(next("0 0 3 * mon", "2024-01-02T00:00:00Z")).toBe("2024-01-03T00:00:00.000Z");
+  });
+
+  it("finds leap days", () => {
+    expect(next("0 0 29 2 *", "2024-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("gives up on expressions that never match", () => {
+    expect(() => next("0 0 30 2 *", "2024-01-01T00:00:00Z")).toThrow("Cron expression never matches");
+  });
+
+  it("accepts a parsed schedule", () => {
+    expect(nextCronRun(parseCron("@hourly"), new Date("2024-01-01T10:00:00Z")).toISOString()).toBe(
+      "2024-01-01T11:00:00.000Z",
+    );
+  });
+});
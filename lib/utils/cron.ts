@@ -0,0 +1,119 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`, evaluated in UTC) for sync schedules.
+ * Supports `*`, lists, ranges, steps (`*\/15`, `1-5/2`), month/day names and the `@hourly`, `@daily`, `@weekly`,
+ * `@monthly` macros. When both day fields are restricted a day matches either, as in Vixie cron.
+ */
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Search horizon for `nextCronRun`; expressions like `0 0 30 2 *` never match */
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[]): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string): number => {
+    const named = names?.indexOf(token.toLowerCase()) ?? -1;
+    const n = named >= 0 ? named + min : Number(token);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`Invalid ${label} "${token}" (allowed ${min}-${max})`);
+    return n;
+  };
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${label} "${part}"`);
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range!.includes("-")) {
+      const [a, b] = range!.split("-");
+      start = toNumber(a!);
+      end = toNumber(b!);
+      if (start > end) throw new Error(`Invalid ${label} range "${range}"`);
+    } else {
+      start = toNumber(range!);
+      end = stepText === undefined ? start : max;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const expr = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = expr.split(/\s+/);
+  if (fields.length !== 5) throw new Error("Cron expression needs 5 fields: minute hour day-of-month month day-of-week");
+  const [minute, hour, day, month, weekday] = fields as [string, string, string, string, string];
+  const weekdays = parseField(weekday, 0, 7, "day of week", DAY_NAMES);
+  // 7 is Sunday too
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes: parseField(minute, 0, 59, "minute"),
+    hours: parseField(hour, 0, 23, "hour"),
+    days: parseField(day, 1, 31, "day of month"),
+    months: parseField(month, 1, 12, "month", MONTH_NAMES),
+    weekdays,
+    anyDay: day === "*",
+    anyWeekday: weekday === "*",
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const dom = s.days.has(d.getUTCDate());
+  const dow = s.weekdays.has(d.getUTCDay());
+  if (s.anyDay && s.anyWeekday) return true;
+  if (s.anyDay) return dow;
+  if (s.anyWeekday) return dom;
+  return dom || dow;
+}
+
+/** First matching minute strictly after `after`. Throws when nothing matches within five years. */
+export function nextCronRun(schedule: string | CronSchedule, after: Date): Date {
+  const s = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const d = new Date(after.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!s.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1);
+      continue;
+    }
+    return d;
+  }
+  throw new Error("Cron expression never matches");
+}
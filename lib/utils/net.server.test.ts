@@ -0,0 +1,107 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// The early check sees a public address; the socket's own lookup gets loopback, as after a DNS rebind
+vi.mock("node:dns/promises", () => ({ lookup: vi.fn(async () => [{ address: "93.184.216.34", family: 4 }]) }));
+
+import { assertPublicHost, fetchPublic, isPrivateAddress, readBodyWithLimit } from "@/lib/utils/net.server";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "198.18.0.1",
+    "198.19.255.255",
+    "240.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "0:0:0:0:0:ffff:7f00:1",
+    "64:ff9b::7f00:1",
+    "64:ff9b::8.8.8.8",
+    "fd00::1",
+    "fe80::1",
+    "not-an-ip",
+  ])("blocks %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "8.8.8.8", "::ffff:8.8.8.8", "2606:4700::6810:84e5"])("allows %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("assertPublicHost", () => {
+  it.each(["http://127.0.0.1/", "http://[::ffff:127.0.0.1]/", "http://[::ffff:7f00:1]/", "http://[::]/", "http://[64:ff9b::a9fe:a9fe]/"])("rejects %s", async (url) => {
+    await expect(assertPublicHost(url)).rejects.toThrow(/private address/);
+  });
+});
+
+describe("fetchPublic", () => {
+  let server: Server;
+  let port: number;
+  const hits: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits.push(req.url || "");
+      res.end("internal");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("rejects IPv4-mapped loopback literals", async () => {
+    await expect(fetchPublic(`http://[::ffff:127.0.0.1]:${port}/mapped`)).rejects.toThrow(/private address/);
+    expect(hits).not.toContain("/mapped");
+  });
+
+  it("re-checks the address the connection resolves to", async () => {
+    const err = await fetchPublic(`http://localhost:${port}/rebind`).catch((e: Error) => e);
+    expect((err as Error).cause).toMatchObject({ message: "localhost resolves to a private address" });
+    expect(hits).not.toContain("/rebind");
+  });
+});
+
+describe("readBodyWithLimit", () => {
+  function streamed(chunks: number, chunkBytes: number): { res: Response; pulled: () => number } {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (pulled === chunks) return controller.close();
+        pulled++;
+        controller.enqueue(new Uint8Array(chunkBytes));
+      },
+    });
+    return { res: new Response(body), pulled: () => pulled };
+  }
+
+  it("returns the body when it fits", async () => {
+    const buffer = await readBodyWithLimit(new Response("hello"), 10);
+    expect(buffer?.toString("utf8")).toBe("hello");
+  });
+
+  it("rejects on Content-Length without reading", async () => {
+    const res = new Response("x".repeat(20), { headers: { "content-length": "20" } });
+    expect(await readBodyWithLimit(res, 10)).toBeNull();
+  });
+
+  it("stops reading once the limit is passed", async () => {
+    const { res, pulled } = streamed(100, 1024);
+    expect(await readBodyWithLimit(res, 4096)).toBeNull();
+    expect(pulled()).toBeLessThan(10);
+  });
+});
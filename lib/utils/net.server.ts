@@ -0,0 +1,119 @@
+import "server-only";
+
+import { lookup } from "node:dns";
+import { lookup as lookupAsync } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Agent, buildConnector, fetch as undiciFetch, type RequestInit as UndiciRequestInit } from "undici";
+
+// BlockList also matches IPv4-mapped IPv6 (`::ffff:7f00:1`, `::ffff:127.0.0.1`) against the IPv4 rules
+const blocked = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) blocked.addSubnet(net, prefix, "ipv4");
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64, embeds any IPv4 address
+  ["64:ff9b:1::", 48],
+  ["100::", 64],
+  ["2001::", 32], // Teredo
+  ["2001:db8::", 32],
+  ["2002::", 16], // 6to4, embeds any IPv4 address
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) blocked.addSubnet(net, prefix, "ipv6");
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blocked.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function allowPrivateHosts(): boolean {
+  return process.env.WEB_CRAWL_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+function privateHostError(hostname: string): Error {
+  return new Error(`${hostname} resolves to a private address`);
+}
+
+/**
+ * Outbound requests to user-configured URLs (web crawls, tenant REST connectors, webhooks) must not reach into our own
+ * network. `WEB_CRAWL_ALLOW_PRIVATE_HOSTS=true` allows loopback/private addresses for local fixture servers.
+ * This is the early check for a readable error; `fetchPublic` re-checks the address it actually connects to.
+ */
+export async function assertPublicHost(url: string): Promise<void> {
+  if (allowPrivateHosts()) return;
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname) ? [{ address: hostname }] : await lookupAsync(hostname, { all: true });
+  if (addresses.some((a) => isPrivateAddress(a.address))) throw privateHostError(hostname);
+}
+
+/** DNS lookup for the socket itself, so a record that changes after `assertPublicHost` (DNS rebinding) is still caught. */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) return callback(privateHostError(hostname), "", 0);
+    if (options.all) return (callback as unknown as (e: null, a: typeof addresses) => void)(null, addresses);
+    callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+const connectPinned = buildConnector({ lookup: publicLookup });
+
+// IP literals never reach `lookup`, so the connector checks them too; this also covers redirects to a literal
+const publicAgent = new Agent({
+  connect: (opts, callback) => {
+    const hostname = opts.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(hostname) && isPrivateAddress(hostname)) return callback(privateHostError(hostname), null);
+    connectPinned(opts, callback);
+  },
+});
+
+/** `fetch` for user-configured URLs: every connection, including redirect hops, goes to a public address. */
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<Response> {
+  if (allowPrivateHosts()) return fetch(url, init);
+  await assertPublicHost(url);
+  const res = await undiciFetch(url, { ...(init as UndiciRequestInit), dispatcher: publicAgent });
+  return res as unknown as Response;
+}
+
+/**
+ * Reads the body up to `maxBytes`. Returns null once it is larger (by `Content-Length` or while streaming) and cancels
+ * the rest, so an endpoint can't make us hold an arbitrarily large response.
+ */
+export async function readBodyWithLimit(res: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(res.headers.get("content-length") || 0) > maxBytes) {
+    await res.body?.cancel().catch(() => {});
+    return null;
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal Server-Sent Events helpers shared by route handlers (encode) and client components (parse).
+ * Frames follow the standard `event: <name>\ndata: <json>\n\n` format.
+ */
+
+export type SseEvent<T = unknown> = { event: string; data: T };
+
+const encoder = new TextEncoder();
+
+export function encodeSseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads an SSE response body and invokes `onEvent` for each complete frame.
+ * Resolves when the stream ends; rejects on network errors (including aborts).
+ */
+export async function readSseStream(body: ReadableStream<Uint8Array>, onEvent: (evt: SseEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let sep = buffer.indexOf("\n\n");
+      while (sep >= 0) {
+        const frame = buffer.slice(0, sep);
+        buffer = buffer.slice(sep + 2);
+        sep = buffer.indexOf("\n\n");
+        const parsed = parseFrame(frame);
+        if (parsed) onEvent(parsed);
+      }
+    }
+  } finally {
+    try { reader.releaseLock(); } catch {}
+  }
+}
+
+function parseFrame(frame: string): SseEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  if (dataLines.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return null;
+  }
+}
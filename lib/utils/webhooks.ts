@@ -0,0 +1,24 @@
+/**
+ * Outbound webhook events (`webhook_endpoints`, `server/webhooks/webhooks.ts`). Endpoints subscribe to any of these;
+ * `webhook.test` is only sent by "Send test event".
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  { key: "kb.doc.ready", label: "Document indexed" },
+  { key: "kb.doc.failed", label: "Document failed ingestion" },
+  { key: "chat.answered", label: "Question answered" },
+  { key: "member.joined", label: "Member joined" },
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]["key"];
+
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.some((e) => e.key === value);
+}
+
+/** Delivery states: `pending` (queued or waiting for a retry), `delivered`, `dead` (out of attempts) */
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+/** Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">` */
+export const WEBHOOK_SIGNATURE_HEADER = "X-SwiftMind-Signature";
@@ -8,6 +8,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Loads its WASM core and worker script from node_modules at runtime
+  serverExternalPackages: ["tesseract.js"],
   experimental: {
     serverActions: {
       bodySizeLimit: "50mb", // Match Supabase global upload limit
@@ -0,0 +1,125 @@
+import "server-only";
+
+import crypto from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/server/supabase/admin";
+import { hashContent } from "@/lib/utils/crypto.server";
+import { checkRateLimit, limiterKey } from "@/lib/utils/rateLimit";
+import { API_KEY_DISPLAY_LENGTH, API_KEY_PREFIX, type ApiKeyScope } from "@/lib/utils/apiKeys";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Bearer-key authentication for the public API (`app/api/v1`). Keys are stored as sha256 hashes only and looked up
+ * with the service role; the key's tenant and role then bound everything the request can read, exactly as a member
+ * of that role would see it.
+ */
+
+export type ApiKeyContext = {
+  id: string;
+  tenantId: string;
+  name: string;
+  roleKey: string;
+  scopes: string[];
+  /** Service-role client; every query made with it must filter by `tenantId` (and role where chunks are read) */
+  db: SupabaseClient;
+};
+
+type ApiKeyRow = {
+  id: string;
+  tenant_id: string;
+  name: string;
+  role_key: string;
+  scopes: string[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+const RATE_WINDOW_MS = 60 * 1000;
+/** `last_used_at` is written at most this often per key */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** A new plaintext key and what is stored for it. The plaintext is shown once and never persisted. */
+export function generateApiKey(): { plaintext: string; prefix: string; keyHash: string } {
+  const plaintext = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { plaintext, prefix: plaintext.slice(0, API_KEY_DISPLAY_LENGTH), keyHash: hashContent(plaintext) };
+}
+
+export function apiError(status: number, error: string, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({ ok: false, error }, { status, headers });
+}
+
+/**
+ * Counts one request against the key's fixed one-minute window in Postgres (`api_rate_limit_hit`), so the limit holds
+ * across instances and restarts. If the counter can't be reached, this instance's in-memory counter is used instead
+ * of failing the request.
+ */
+async function hitRateLimit(admin: SupabaseClient, keyId: string, limit: number): Promise<{ ok: true } | { ok: false; resetInMs: number }> {
+  const key = limiterKey(["api", keyId]);
+  const { data, error } = await admin.rpc("api_rate_limit_hit", { k: key, max_hits: limit, window_ms: RATE_WINDOW_MS });
+  const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; reset_in_ms: number } | null;
+  if (error || !row) {
+    if (error) console.error("api_rate_limit_hit failed:", error.message);
+    return checkRateLimit(key, limit, RATE_WINDOW_MS);
+  }
+  return row.allowed ? { ok: true } : { ok: false, resetInMs: row.reset_in_ms };
+}
+
+/**
+ * Resolves the key in `Authorization: Bearer <key>` and checks that it may use `scope`:
+ * - 401: missing, unknown or revoked key
+ * - 403: the key lacks the scope, or its role no longer has that permission
+ * - 429: the key's per-minute limit is used up (`Retry-After` in seconds)
+ */
+export async function authenticateApiKey(req: NextRequest, scope: ApiKeyScope): Promise<{ ok: true; key: ApiKeyContext } | { ok: false; response: NextResponse }> {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.get("authorization") || "");
+  if (!match || !match[1]!.startsWith(API_KEY_PREFIX)) return { ok: false, response: apiError(401, "Missing API key") };
+
+  const admin = await createAdminClient();
+  const { data, error } = await admin
+    .from("api_keys")
+    .select("id, tenant_id, name, role_key, scopes, rate_limit_per_minute, last_used_at, revoked_at")
+    .eq("key_hash", hashContent(match[1]!))
+    .maybeSingle<ApiKeyRow>();
+  if (error) return { ok: false, response: apiError(500, "500") };
+  if (!data || data.revoked_at) return { ok: false, response: apiError(401, "Invalid API key") };
+
+  if (!(data.scopes || []).includes(scope)) return { ok: false, response: apiError(403, `API key lacks the ${scope} scope`) };
+  // Scopes are permissions: taking one away from the role takes it away from the role's keys too
+  const { data: grant, error: grantErr } = await admin
+    .from("role_permissions")
+    .select("permission_key")
+    .eq("tenant_id", data.tenant_id)
+    .eq("role_key", data.role_key)
+    .eq("permission_key", scope)
+    .maybeSingle();
+  if (grantErr) return { ok: false, response: apiError(500, "500") };
+  if (!grant) return { ok: false, response: apiError(403, `Role ${data.role_key} no longer has ${scope}`) };
+
+  const limited = await hitRateLimit(admin, data.id, data.rate_limit_per_minute);
+  if (!limited.ok) {
+    return { ok: false, response: apiError(429, "Rate limit exceeded", { "Retry-After": String(Math.ceil(limited.resetInMs / 1000)) }) };
+  }
+
+  const now = Date.now();
+  if (!data.last_used_at || now - new Date(data.last_used_at).getTime() >= LAST_USED_RESOLUTION_MS) {
+    try {
+      await admin.from("api_keys").update({ last_used_at: new Date(now).toISOString() }).eq("id", data.id);
+    } catch {}
+  }
+
+  return { ok: true, key: { id: data.id, tenantId: data.tenant_id, name: data.name, roleKey: data.role_key, scopes: data.scopes, db: admin } };
+}
+
+export async function auditApiCall(key: ApiKeyContext, action: string, meta: Record<string, Json>): Promise<void> {
+  try {
+    await key.db.from("audit_logs").insert({
+      tenant_id: key.tenantId,
+      actor_user_id: null,
+      action,
+      resource: "api",
+      meta: { apiKeyId: key.id, apiKeyName: key.name, ...meta },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+}
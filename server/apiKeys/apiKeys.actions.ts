@@ -0,0 +1,107 @@
+"use server";
+
+import "server-only";
+import { createClient } from "@/server/supabase/server";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { hasPermission } from "@/server/permissions/permissions.data";
+import { generateApiKey } from "@/server/apiKeys/apiAuth";
+import { DEFAULT_API_KEY_RATE_LIMIT, MAX_API_KEY_RATE_LIMIT, isApiKeyScope } from "@/lib/utils/apiKeys";
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+const MAX_NAME_CHARS = 100;
+
+export type CreateApiKeyInput = { tenantId: string; name: string; roleKey: string; scopes: string[]; rateLimitPerMinute?: number };
+
+/** Returns the plaintext key; only its hash is stored, so this is the one time it can be shown. */
+export async function createApiKeyAction(input: CreateApiKeyInput): Promise<{ ok: true; id: string; key: string } | { ok: false; error: string }> {
+  const { tenantId, roleKey } = input;
+  const name = (input.name || "").trim();
+  if (!tenantId || !name || !roleKey) return { ok: false, error: "Missing input" };
+  if (name.length > MAX_NAME_CHARS) return { ok: false, error: `Name is longer than ${MAX_NAME_CHARS} characters` };
+  const scopes = Array.from(new Set(input.scopes || []));
+  if (scopes.length === 0) return { ok: false, error: "Pick at least one scope" };
+  const unknown = scopes.find((s) => !isApiKeyScope(s));
+  if (unknown) return { ok: false, error: `Unknown scope ${unknown}` };
+  const rateLimit = input.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT;
+  if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_API_KEY_RATE_LIMIT) {
+    return { ok: false, error: `Rate limit must be between 1 and ${MAX_API_KEY_RATE_LIMIT} requests per minute` };
+  }
+  await requirePermission(tenantId, "settings.manage");
+
+  // A key can't do more than its creator: every scope must be one the caller holds
+  for (const scope of scopes) {
+    if (!(await hasPermission(tenantId, scope))) return { ok: false, error: `You don't have ${scope}` };
+  }
+
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const { data: role } = await supabase.from("roles").select("key").eq("tenant_id", tenantId).eq("key", roleKey).maybeSingle();
+  if (!role) return { ok: false, error: `Unknown role ${roleKey}` };
+
+  const generated = generateApiKey();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      tenant_id: tenantId,
+      name,
+      prefix: generated.prefix,
+      key_hash: generated.keyHash,
+      scopes,
+      role_key: roleKey,
+      rate_limit_per_minute: rateLimit,
+      created_by: user.id,
+    } as TablesInsert<"api_keys">)
+    .select("id")
+    .single<{ id: string }>();
+  if (error) return { ok: false, error: error.message };
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "api_key.create",
+      resource: "settings",
+      meta: { id: data.id, name, prefix: generated.prefix, roleKey, scopes, rateLimit },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true, id: data.id, key: generated.plaintext };
+}
+
+/** Revoked keys are kept (with `revoked_at`) so the audit trail can still name them. */
+export async function revokeApiKeyAction(input: { tenantId: string; id: string }): Promise<ActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("tenant_id", tenantId)
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data || data.length === 0) return { ok: false, error: "Key not found or already revoked" };
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "api_key.revoke",
+      resource: "settings",
+      meta: { id },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
@@ -0,0 +1,361 @@
+import "server-only";
+
+import { invoke } from "@/server/tools/toolRouter";
+import type { GmailMessage, GmailSearchItem } from "@/server/tools/gmail.provider";
+import { hasPermission } from "@/server/permissions/permissions.data";
+import { getRetrievalRole, retrieve } from "@/server/kb/retrieve";
+import { AGGREGATE_FNS, FILTER_OPS, formatResultTable, getDatasetColumns, listDatasetsForRole } from "@/server/csv/datasetQuery";
+import { datasetCitation, runDatasetQuery } from "@/server/chat/datasetOrchestrator";
+import { getTenantRagSettings, type TenantRagSettings } from "@/server/settings/settings.data";
+import { applyRetrievalGate, resolveAssistantPrompt, type Citation } from "@/server/chat/answerPipeline";
+
+/**
+ * Agent mode: the model gets a registry of tools (knowledge search, datasets, Gmail) through OpenAI function calling
+ * and may call several of them across up to `AGENT_MAX_STEPS` rounds (default 4) before answering. Every source a
+ * tool returns is numbered once for the whole answer, so `[n]` in the text is `citations[n - 1]` whatever tool found it.
+ *
+ * Tools run with the user's session: retrieval and dataset reads go through RLS, datasets are further limited to the
+ * user's role (`allowed_roles`). The dataset tools are offered with `kb.csv.read` when the Datasets source is on, the
+ * Gmail tools with `email.read` when the Gmail source is on.
+ */
+
+export type AgentToolCall = {
+  id: string;
+  step: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  /** One line for the UI: what the tool found, or why it failed */
+  summary: string;
+  ms: number;
+};
+
+export type AgentResult = { text: string; citations: Citation[]; toolCalls: AgentToolCall[] };
+
+type AgentContext = { tenantId: string; userId: string; roleKey: string | null; rag: TenantRagSettings | null };
+
+type ToolSource = { citation: Citation; text: string };
+
+/** `note` is shown to the model before the numbered sources (counts, dataset columns, hints) */
+type ToolOutput = { ok: boolean; summary: string; note?: string; sources?: ToolSource[] };
+
+type AgentTool = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  run: (args: Record<string, unknown>, ctx: AgentContext) => Promise<ToolOutput>;
+};
+
+type OpenAiToolCall = { id: string; type: "function"; function: { name: string; arguments: string } };
+
+type OpenAiMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+const DEFAULT_MAX_STEPS = 4;
+const MAX_CALLS_PER_STEP = 4;
+const SOURCE_CHARS = 1500;
+const EMAIL_BODY_CHARS = 4000;
+const MAX_DATASET_ROWS = 25;
+
+const AGENT_PROMPT = [
+  "You are a helpful assistant with tools for the tenant's knowledge base and, when offered, CSV datasets and email.",
+  "Call tools to gather the facts you need; you may call several, and refine a search if the first results are weak.",
+  "Answer only from tool results. Cite every fact with the source numbers shown in the results, e.g. [1] or [2][5].",
+  "If the tools don't return enough to answer, say so.",
+].join(" ");
+
+function maxSteps(): number {
+  return Math.min(8, Math.max(1, Number(process.env.AGENT_MAX_STEPS || DEFAULT_MAX_STEPS)));
+}
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function int(v: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.floor(n))) : fallback;
+}
+
+function gmailLink(id: string): string {
+  return `https://mail.google.com/mail/u/0/#inbox/${id}`;
+}
+
+function gmailError(code: string): string {
+  if (code === "forbidden") return "No access to tenant email (needs email.read)";
+  if (code === "unauthorized") return "Not signed in";
+  if (code === "needs_reconnect") return "Gmail isn't connected for this tenant";
+  if (code === "rate_limited") return "Too many email requests; try a narrower search later";
+  return "Email request failed";
+}
+
+const searchKnowledge: AgentTool = {
+  name: "search_knowledge",
+  description: "Search the tenant's uploaded documents, crawled pages and synced sources. Returns the most relevant passages.",
+  parameters: {
+    type: "object",
+    properties: { query: { type: "string", description: "A self-contained search query" } },
+    required: ["query"],
+  },
+  run: async (args, ctx) => {
+    const query = str(args.query);
+    if (!query) return { ok: false, summary: "Missing query" };
+    const result = await retrieve({ tenantId: ctx.tenantId, query, k: ctx.rag?.retriever_top_k ?? 8, useRerank: Boolean(ctx.rag?.rerank_enabled) });
+    const chunks = applyRetrievalGate(result.chunks || [], result.fusion);
+    if (chunks.length === 0) return { ok: true, summary: "No relevant passages", note: "No relevant passages found." };
+    return {
+      ok: true,
+      summary: `${chunks.length} passage${chunks.length === 1 ? "" : "s"}`,
+      sources: chunks.map((c) => ({
+        citation: {
+          kind: "kb",
+          doc_id: c.doc_id,
+          chunk_idx: c.chunk_idx,
+          title: c.title,
+          source_uri: c.source_uri,
+          snippet: (c.content || "").slice(0, 300),
+          score: (c as unknown as { score?: number }).score ?? null,
+        },
+        text: (c.content || "").slice(0, SOURCE_CHARS),
+      })),
+    };
+  },
+};
+
+const listDatasetsTool: AgentTool = {
+  name: "list_datasets",
+  description: "List the CSV datasets the user can query, with their ids, row counts and typed columns.",
+  parameters: { type: "object", properties: {} },
+  run: async (_args, ctx) => {
+    const datasets = (await listDatasetsForRole(ctx.tenantId, ctx.roleKey)).slice(0, 10);
+    if (datasets.length === 0) return { ok: true, summary: "No datasets", note: "The user has no datasets to query." };
+    const lines: string[] = [];
+    for (const d of datasets) {
+      const columns = (await getDatasetColumns(ctx.tenantId, d.id)).map((c) => `${c.name} (${c.data_type})`).join(", ");
+      lines.push(`- id=${d.id} "${d.title}" — ${d.rows_count ?? "?"} rows${d.description ? ` — ${d.description}` : ""}\n  columns: ${columns || "unknown"}`);
+    }
+    return { ok: true, summary: `${datasets.length} dataset${datasets.length === 1 ? "" : "s"}`, note: lines.join("\n") };
+  },
+};
+
+const queryDataset: AgentTool = {
+  name: "query_dataset",
+  description:
+    "Run a query plan over one CSV dataset (see list_datasets): filters, optional group_by with aggregates, sort and limit. " +
+    "gt/gte/lt/lte need number or date columns, contains needs a text column, sum/avg need number columns. " +
+    "With aggregates, sort by group_by columns or aggregate names.",
+  parameters: {
+    type: "object",
+    properties: {
+      dataset_id: { type: "string" },
+      select: { type: "array", items: { type: "string" }, description: "Columns to return when there are no aggregates" },
+      filters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { column: { type: "string" }, op: { type: "string", enum: FILTER_OPS }, value: {} },
+          required: ["column", "op"],
+        },
+      },
+      group_by: { type: "array", items: { type: "string" } },
+      aggregates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { fn: { type: "string", enum: AGGREGATE_FNS }, column: { type: "string" }, as: { type: "string" } },
+          required: ["fn"],
+        },
+      },
+      sort: {
+        type: "array",
+        items: { type: "object", properties: { by: { type: "string" }, dir: { type: "string", enum: ["asc", "desc"] } }, required: ["by"] },
+      },
+      limit: { type: "integer", minimum: 1, maximum: MAX_DATASET_ROWS },
+    },
+    required: ["dataset_id"],
+  },
+  run: async (args, ctx) => {
+    const outcome = await runDatasetQuery(ctx.tenantId, ctx.roleKey, str(args.dataset_id), { ...args, limit: int(args.limit, 10, 1, MAX_DATASET_ROWS) });
+    if (!outcome.ok) return { ok: false, summary: outcome.error, note: `Error: ${outcome.error}. Check the ids and columns from list_datasets.` };
+    const { dataset, plan, result } = outcome;
+    return {
+      ok: true,
+      summary: `${result.rows.length} result row${result.rows.length === 1 ? "" : "s"} from ${dataset.title}`,
+      sources: [
+        {
+          citation: datasetCitation(dataset, plan, result),
+          text: `${result.matched} matching rows${result.truncated ? ` (only the first ${result.scanned} rows were read)` : ""}:\n${result.rows.length > 0 ? formatResultTable(result) : "(none)"}`,
+        },
+      ],
+    };
+  },
+};
+
+const gmailSearch: AgentTool = {
+  name: "gmail_search",
+  description: "Search the tenant's Gmail with Gmail search syntax (from:, subject:, newer_than:7d, ...). Returns subjects, senders and snippets.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Gmail search query" },
+      max: { type: "integer", minimum: 1, maximum: 10 },
+    },
+    required: ["query"],
+  },
+  run: async (args, ctx) => {
+    const query = str(args.query);
+    if (!query) return { ok: false, summary: "Missing query" };
+    const ttlSec = Number(process.env.EMAIL_TOOL_CACHE_TTL_SEC ?? 180);
+    const res = (await invoke("gmail", "search", { tenantId: ctx.tenantId, query, max: int(args.max, 5, 1, 10), ttlSec })) as
+      | { ok: true; items: GmailSearchItem[] }
+      | { ok: false; error: { code: string } };
+    if (!res.ok) return { ok: false, summary: gmailError(res.error.code), note: gmailError(res.error.code) };
+    if (res.items.length === 0) return { ok: true, summary: "No emails", note: "No matching emails." };
+    return {
+      ok: true,
+      summary: `${res.items.length} email${res.items.length === 1 ? "" : "s"}`,
+      note: "Use gmail_get_message with an id to read a full email.",
+      sources: res.items.map((m) => ({
+        citation: { kind: "email", doc_id: m.id, chunk_idx: 0, title: m.subject || "(no subject)", source_uri: gmailLink(m.id), snippet: m.snippet },
+        text: `id=${m.id} | From: ${m.from} | Date: ${new Date(m.internalDate).toISOString().slice(0, 10)} | Subject: ${m.subject}\n${m.snippet}`,
+      })),
+    };
+  },
+};
+
+const gmailGetMessage: AgentTool = {
+  name: "gmail_get_message",
+  description: "Read the full text of one email by the id returned from gmail_search.",
+  parameters: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+  run: async (args, ctx) => {
+    const id = str(args.id);
+    if (!id) return { ok: false, summary: "Missing id" };
+    const res = (await invoke("gmail", "getMessage", { tenantId: ctx.tenantId, id })) as
+      | { ok: true; message: GmailMessage }
+      | { ok: false; error: { code: string } };
+    if (!res.ok) return { ok: false, summary: gmailError(res.error.code), note: gmailError(res.error.code) };
+    const { headers, text } = res.message;
+    return {
+      ok: true,
+      summary: headers.subject || "(no subject)",
+      sources: [
+        {
+          citation: { kind: "email", doc_id: id, chunk_idx: 0, title: headers.subject || "(no subject)", source_uri: gmailLink(id), snippet: text.slice(0, 300) },
+          text: `From: ${headers.from} | To: ${headers.to} | Date: ${headers.date} | Subject: ${headers.subject}\n${text.slice(0, EMAIL_BODY_CHARS)}`,
+        },
+      ],
+    };
+  },
+};
+
+async function buildRegistry(tenantId: string, opts: { gmail: boolean; datasets: boolean }): Promise<AgentTool[]> {
+  const tools = [searchKnowledge];
+  if (opts.datasets && (await hasPermission(tenantId, "kb.csv.read"))) tools.push(listDatasetsTool, queryDataset);
+  if (opts.gmail && (await hasPermission(tenantId, "email.read"))) tools.push(gmailSearch, gmailGetMessage);
+  return tools;
+}
+
+/** Citation key; a source found twice keeps its first number */
+function sourceKey(c: Citation): string {
+  return `${c.kind}:${c.doc_id}:${c.chunk_idx}:${c.kind === "dataset" ? c.title : ""}`;
+}
+
+async function chatCompletion(params: { messages: OpenAiMessage[]; tools: AgentTool[]; toolChoice: "auto" | "none"; rag: TenantRagSettings | null }) {
+  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+    body: JSON.stringify({
+      model: params.rag?.chat_model || "gpt-4o-mini",
+      temperature: typeof params.rag?.temperature === "number" ? params.rag.temperature : 0.2,
+      messages: params.messages,
+      tools: params.tools.map((t) => ({ type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } })),
+      tool_choice: params.toolChoice,
+    }),
+  });
+  if (!res.ok) throw new Error(`openai_http_${res.status}`);
+  const json = (await res.json()) as { choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAiToolCall[] } }> };
+  return json.choices?.[0]?.message ?? { content: "" };
+}
+
+/**
+ * Answers `question` with the tool loop. Returns null without `OPENAI_API_KEY` (callers fall back to the normal
+ * pipeline). `onToolCall` fires after each tool call, for the streaming route.
+ */
+export async function runAgent(params: {
+  tenantId: string;
+  userId: string;
+  question: string;
+  gmail?: boolean;
+  datasets?: boolean;
+  onToolCall?: (call: AgentToolCall) => void;
+}): Promise<AgentResult | null> {
+  if (!process.env.OPENAI_API_KEY) return null;
+  const { tenantId, userId, question } = params;
+
+  let roleKey: string | null = null;
+  try {
+    roleKey = await getRetrievalRole(tenantId, userId);
+  } catch {}
+  const ctx: AgentContext = { tenantId, userId, roleKey, rag: await getTenantRagSettings(tenantId) };
+  const tools = await buildRegistry(tenantId, { gmail: params.gmail === true, datasets: params.datasets === true });
+  const system = await resolveAssistantPrompt(tenantId, roleKey, "You are a helpful assistant.");
+
+  const messages: OpenAiMessage[] = [
+    { role: "system", content: `${system}\n\n${AGENT_PROMPT}` },
+    { role: "user", content: question },
+  ];
+  const citations: Citation[] = [];
+  const numbers = new Map<string, number>();
+  const toolCalls: AgentToolCall[] = [];
+  const steps = maxSteps();
+
+  // One extra round after the last tool step forces a plain answer
+  for (let step = 1; step <= steps + 1; step++) {
+    const message = await chatCompletion({ messages, tools, toolChoice: step > steps ? "none" : "auto", rag: ctx.rag });
+    const calls = step > steps ? [] : message.tool_calls || [];
+    if (calls.length === 0) {
+      return { text: (message.content || "").trim() || "I couldn't find enough in the available sources to answer that.", citations, toolCalls };
+    }
+    messages.push({ role: "assistant", content: message.content ?? null, tool_calls: calls });
+
+    for (const [i, call] of calls.entries()) {
+      // Every tool_call_id needs a reply, including the ones over the per-step cap
+      if (i >= MAX_CALLS_PER_STEP) {
+        messages.push({ role: "tool", tool_call_id: call.id, content: "Skipped: too many tool calls in one step." });
+        continue;
+      }
+      const started = Date.now();
+      let args: Record<string, unknown> = {};
+      let output: ToolOutput;
+      try {
+        args = JSON.parse(call.function.arguments || "{}") as Record<string, unknown>;
+        const tool = tools.find((t) => t.name === call.function.name);
+        output = tool ? await tool.run(args, ctx) : { ok: false, summary: `Unknown tool ${call.function.name}` };
+      } catch (e) {
+        output = { ok: false, summary: e instanceof Error ? e.message : "Tool failed" };
+      }
+
+      const parts: string[] = [];
+      if (output.note) parts.push(output.note);
+      else if (!output.ok) parts.push(`Error: ${output.summary}`);
+      for (const source of output.sources || []) {
+        const key = sourceKey(source.citation);
+        let n = numbers.get(key);
+        if (!n) {
+          citations.push(source.citation);
+          n = citations.length;
+          numbers.set(key, n);
+        }
+        parts.push(`[${n}] ${source.citation.title ? source.citation.title + " — " : ""}${source.text}`);
+      }
+      messages.push({ role: "tool", tool_call_id: call.id, content: parts.join("\n\n") || "No results." });
+
+      const record: AgentToolCall = { id: call.id, step, name: call.function.name, arguments: args, ok: output.ok, summary: output.summary, ms: Date.now() - started };
+      toolCalls.push(record);
+      params.onToolCall?.(record);
+    }
+  }
+  return { text: "I couldn't find enough in the available sources to answer that.", citations, toolCalls };
+}
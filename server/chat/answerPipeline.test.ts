@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FUSION_WEIGHTS, fuseRankings, type FusionStrategy } from "@/lib/kb/fusion";
+import { applyRetrievalGate } from "./answerPipeline";
+
+/** Fuses the two lists like `retrieveForRole` and gates the result like `prepareAnswer`. */
+function gated(strategy: FusionStrategy, vector: Array<[string, number]>, keyword: Array<[string, number]>): string[] {
+  const fused = fuseRankings(
+    { vector: vector.map(([key, score]) => ({ key, score })), keyword: keyword.map(([key, score]) => ({ key, score })) },
+    strategy,
+    DEFAULT_FUSION_WEIGHTS,
+  );
+  const chunks = Array.from(fused.entries())
+    .map(([key, f]) => ({ doc_id: key, chunk_idx: 0, title: null, content: key, score: f.score, v_norm: f.v, k_norm: f.k }))
+    .sort((a, b) => b.score - a.score);
+  return applyRetrievalGate(chunks, strategy).map((c) => c.doc_id);
+}
+
+describe("applyRetrievalGate", () => {
+  const vector: Array<[string, number]> = [
+    ["policy", 0.82],
+    ["handbook", 0.78],
+    ["faq", 0.4],
+  ];
+
+  it("keeps keyword-only exact matches under RRF", () => {
+    // Invoice numbers only match by keyword; RRF scores such a hit below 0.35 on its own
+    const keyword: Array<[string, number]> = [
+      ["invoice-49302", 12.5],
+      ["invoice-49301", 12.3],
+      ["faq", 2],
+    ];
+    expect(gated("rrf", vector, keyword)).toEqual(expect.arrayContaining(["invoice-49302", "invoice-49301", "policy"]));
+  });
+
+  it("still drops weak chunks under RRF", () => {
+    const keyword: Array<[string, number]> = [
+      ["invoice-49302", 12.5],
+      ["footer", 0.2],
+    ];
+    expect(gated("rrf", vector, keyword)).not.toContain("footer");
+    expect(gated("rrf", vector, keyword)).not.toContain("faq");
+  });
+
+  it("leaves the weighted gate unchanged", () => {
+    const keyword: Array<[string, number]> = [["invoice-49302", 12.5]];
+    expect(gated("weighted", vector, keyword)).toEqual(["policy", "handbook", "invoice-49302"]);
+  });
+});
@@ -0,0 +1,293 @@
+import "server-only";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getRetrievalRole, retrieve, type RetrievalResult } from "@/server/kb/retrieve";
+import { retrieveForRole, type RetrievalScope } from "@/server/kb/retrieveForRole";
+import { answerWithEmail } from "@/server/chat/emailOrchestrator";
+import { answerWithDatasets } from "@/server/chat/datasetOrchestrator";
+import { answerFromFieldIndex } from "@/server/kb/fieldIndex";
+import { getActiveAssistantPrompt, getTenantRagSettings, type TenantRagSettings } from "@/server/settings/settings.data";
+import type { FusionStrategy } from "@/lib/kb/fusion";
+
+/** `kind` is set on agent answers, whose citations mix knowledge chunks, emails (`doc_id` = message id) and dataset queries (`doc_id` = dataset id) */
+export type Citation = { doc_id: string; chunk_idx: number; title: string | null; source_uri?: string | null; snippet?: string | null; score?: number | null; kind?: CitationKind };
+
+export type CitationKind = "kb" | "email" | "dataset";
+
+export type ContextChunk = { title: string | null; content: string; source_uri?: string | null; doc_id: string; chunk_idx: number };
+
+/**
+ * Outcome of the pre-synthesis stage shared by the server action and the streaming route.
+ * - `reply`: a final text is already known (query gate, Gmail tool, dataset query, exact-field answer, no relevant docs)
+ * - `synthesize`: retrieval passed the guardrails; the caller composes the answer from `contextChunks`
+ */
+export type PreparedAnswer =
+  | { kind: "reply"; text: string; citations: Citation[] }
+  | {
+      kind: "synthesize";
+      question: string;
+      userRole: string | null;
+      contextChunks: ContextChunk[];
+      citations: Citation[];
+      rag: TenantRagSettings | null;
+      stats: { vectorMs: number; keywordMs: number; rerankMs: number };
+    };
+
+const STOPWORDS = new Set(["the","a","an","and","or","but","of","to","in","on","for","with","is","it","this","that","hey","hi","hello","thanks"]);
+
+/** Query-quality gate: true when the question has too few content tokens to warrant retrieval. */
+export function isLowSignalQuestion(question: string): boolean {
+  const minTokens = Number(process.env.RETRIEVAL_MIN_CONTENT_TOKENS || 3);
+  const tokens = question.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const contentTokens = tokens.filter((t) => !STOPWORDS.has(t));
+  return contentTokens.length < minTokens;
+}
+
+export function buildDecontextualizedQuestion(question: string, history: { role: string; content: string }[]): string {
+  const q = question.trim();
+  if (history.length === 0) return q;
+  const context = history
+    .slice(-6)
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n");
+  // Simple heuristic: prefix with brief context window; retrieval is robust to extra tokens
+  return `${q}\n\nContext (recent turns):\n${context}`;
+}
+
+type RetrievedChunks = RetrievalResult["chunks"];
+
+/**
+ * Score guardrails applied to retrieval results before synthesis (also used by the retrieval evaluation runner).
+ * Keeps chunks above the combined/vector floors, then adds the strongest keyword hit if it is reasonably strong.
+ * RRF scores are rank-based: a top hit found by one list only scores that list's weight (0.35 for keyword by
+ * default), so with `fusion: "rrf"` the floor also accepts a chunk whose normalized score in either list clears it.
+ */
+export function applyRetrievalGate(chunks: RetrievedChunks, fusion?: FusionStrategy): RetrievedChunks {
+  // Thresholds
+  const SCORE_FLOOR = Number(process.env.RETRIEVAL_SCORE_FLOOR || 0.45);
+  const VECTOR_FLOOR = Number(process.env.RETRIEVAL_VECTOR_FLOOR || 0.15);
+  const ALLOW_KW_TOP1 = (process.env.RETRIEVAL_ALLOW_KEYWORD_TOP1_OVERRIDE || "true") === "true";
+  const rrf = fusion === "rrf";
+
+  let filtered = chunks.filter((c, i) => {
+    const combined = rrf ? Math.max(c.score ?? 0, c.v_norm ?? 0, c.k_norm ?? 0) : c.score ?? 0;
+    const passCombined = combined >= SCORE_FLOOR;
+    const passVector = (c.v_norm ?? 0) >= VECTOR_FLOOR;
+    // Under RRF a keyword-only top hit ranks below the vector hits, so it needn't be first
+    const kwTop1 = (rrf || i === 0) && (c.k_norm ?? 0) >= 0.9;
+    return passCombined && (passVector || (ALLOW_KW_TOP1 && kwTop1));
+  });
+
+  // Inclusion: ensure the single strongest keyword candidate is present if reasonably strong
+  let bestIdx = -1;
+  let bestKw = -1;
+  for (let i = 0; i < chunks.length; i++) {
+    const kw = chunks[i]!.k_norm ?? 0;
+    if (kw > bestKw) {
+      bestKw = kw;
+      bestIdx = i;
+    }
+  }
+  const KW_INCLUDE_FLOOR = 0.5;
+  if (bestIdx >= 0 && bestKw >= KW_INCLUDE_FLOOR) {
+    const candidate = chunks[bestIdx]!;
+    const already = filtered.some((c) => c.doc_id === candidate.doc_id && c.chunk_idx === candidate.chunk_idx);
+    if (!already) {
+      filtered = [...filtered, candidate];
+    }
+  }
+  return filtered;
+}
+
+/**
+ * Composer toggles: `gmail` answers from the inbox instead of the knowledge base; `datasets` answers questions that
+ * map to a CSV dataset with a query result; `agent` runs `runAgent` (server/chat/agent.ts) over the enabled sources
+ */
+export type AskTools = { gmail?: boolean; datasets?: boolean; agent?: boolean };
+
+/**
+ * Runs the query gate, optional Gmail tool, optional dataset query, retrieval and score guardrails.
+ * Caller must already have verified the user session (`userId`), or pass the role and client of an API key (`scope`).
+ */
+export async function prepareAnswer(params: { tenantId: string; userId?: string; scope?: RetrievalScope; question: string; tools?: AskTools }): Promise<PreparedAnswer> {
+  const { tenantId, userId, scope, question: q, tools } = params;
+
+  // Query-quality gate: skip retrieval for low-signal chitchat
+  if (isLowSignalQuestion(q)) {
+    return { kind: "reply", text: "Ask a tenant-specific question (topic, doc, ID…) to get grounded answers with citations.", citations: [] };
+  }
+
+  // Optional Gmail tool (explicitly toggled)
+  if (tools?.gmail === true) {
+    const emailRes = await answerWithEmail(tenantId, q, false);
+    if (emailRes.ok) {
+      return { kind: "reply", text: emailRes.text, citations: [] };
+    }
+    // Return explicit errors to the user when tool is requested
+    if (emailRes.error) {
+      return { kind: "reply", text: emailRes.error, citations: [] };
+    }
+  }
+
+  // Resolve user's role within tenant (via memberships)
+  let roleKey: string | null = scope?.roleKey ?? null;
+  if (!scope && userId) {
+    try {
+      roleKey = await getRetrievalRole(tenantId, userId);
+    } catch {}
+  }
+
+  // RAG controls per-tenant; the dataset planner uses the same chat model
+  const rag = await getTenantRagSettings(tenantId, scope?.db);
+
+  // Optional Datasets source; questions no dataset can answer fall through to retrieval
+  if (tools?.datasets === true && !scope) {
+    const datasetRes = await answerWithDatasets(tenantId, roleKey, q, rag?.chat_model);
+    if (datasetRes.ok) return { kind: "reply", text: datasetRes.text, citations: datasetRes.citations };
+    if (datasetRes.error) return { kind: "reply", text: datasetRes.error, citations: [] };
+  }
+
+  // Exact-field questions ("what's the account number on the Jan statement") are answered from the field index
+  if (roleKey) {
+    const field = await answerFromFieldIndex({ tenantId, roleKey, question: q, db: scope?.db });
+    if (field) return { kind: "reply", text: field.text, citations: field.citations };
+  }
+
+  const k = rag?.retriever_top_k ?? 8;
+  const useRerank = Boolean(rag?.rerank_enabled);
+
+  const retrievalParams = { tenantId, query: q, k, useRerank };
+  const result = scope ? await retrieveForRole(retrievalParams, scope) : await retrieve(retrievalParams);
+  const filtered = applyRetrievalGate(result.chunks || [], result.fusion);
+  if (filtered.length === 0) {
+    return { kind: "reply", text: "I couldn't find relevant documents to answer that. Try refining your question or uploading docs.", citations: [] };
+  }
+  const citations: Citation[] = filtered.map((c) => ({
+    doc_id: c.doc_id,
+    chunk_idx: c.chunk_idx,
+    title: c.title,
+    source_uri: c.source_uri,
+    snippet: (c.content || "").slice(0, 300),
+    score: (c as unknown as { score?: number }).score ?? null,
+  }));
+
+  return { kind: "synthesize", question: q, userRole: roleKey, contextChunks: filtered, citations, rag, stats: result.stats };
+}
+
+/** The tenant's active assistant prompt plus the role override for `userRole`; `fallback` when none is active. */
+export async function resolveAssistantPrompt(tenantId: string, userRole: string | null, fallback: string, db?: SupabaseClient): Promise<string> {
+  try {
+    const active = await getActiveAssistantPrompt(tenantId, db);
+    if (active) {
+      const base = active.prompt || "";
+      const overrides = (active.role_overrides || {}) as Record<string, string>;
+      const extra = userRole && overrides[userRole] ? `\n\nRole-specific guidance (${userRole}): ${overrides[userRole]}` : "";
+      return `${base}${extra}`.trim();
+    }
+  } catch {}
+  return fallback;
+}
+
+async function buildSynthesisMessages(params: { tenantId: string; userRole: string | null; question: string; contextChunks: ContextChunk[]; db?: SupabaseClient }) {
+  const { tenantId, userRole, question, contextChunks, db } = params;
+  const sys = await resolveAssistantPrompt(tenantId, userRole, "You are a helpful assistant. Answer concisely using only the provided context. Cite sources as [1], [2], ... where relevant. If unsure, say you don't know.", db);
+  const ctx = contextChunks.map((c, i) => `[#${i + 1}] ${c.title ? c.title + " — " : ""}${(c.content || "").slice(0, 2000)}`).join("\n\n");
+  const user = `Question: ${question}\n\nContext:\n${ctx}`;
+  return [
+    { role: "system", content: sys },
+    { role: "user", content: user },
+  ];
+}
+
+function fallbackAnswer(contextChunks: ContextChunk[]): string {
+  // Fallback: simple concatenation
+  const joined = contextChunks.map((c, i) => `(${i + 1}) ${c.content}`).join("\n\n");
+  return `Based on the following sources, here is an answer:\n\n${joined}`;
+}
+
+// `db` reads the assistant prompt; API key callers pass the admin client, the session client is used otherwise
+type SynthesisParams = { tenantId: string; userRole: string | null; question: string; contextChunks: ContextChunk[]; chatModel?: string; temperature?: number; db?: SupabaseClient };
+
+export async function synthesizeAnswer(params: SynthesisParams): Promise<string> {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) return fallbackAnswer(params.contextChunks);
+  const messages = await buildSynthesisMessages(params);
+
+  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+    body: JSON.stringify({
+      model: params.chatModel || "gpt-4o-mini",
+      temperature: typeof params.temperature === "number" ? params.temperature : 0.2,
+      messages,
+    }),
+  });
+  if (!res.ok) throw new Error(`openai_http_${res.status}`);
+  const json = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
+  return json.choices?.[0]?.message?.content || "";
+}
+
+/**
+ * Token-by-token variant of `synthesizeAnswer`. Yields content deltas as they arrive from OpenAI.
+ * Aborting `signal` stops the upstream request; the generator then returns without throwing.
+ */
+export async function* streamSynthesizedAnswer(params: SynthesisParams & { signal?: AbortSignal }): AsyncGenerator<string> {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) {
+    yield fallbackAnswer(params.contextChunks);
+    return;
+  }
+  const messages = await buildSynthesisMessages(params);
+
+  let res: Response;
+  try {
+    res = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+      body: JSON.stringify({
+        model: params.chatModel || "gpt-4o-mini",
+        temperature: typeof params.temperature === "number" ? params.temperature : 0.2,
+        stream: true,
+        messages,
+      }),
+      signal: params.signal,
+    });
+  } catch (e) {
+    if (params.signal?.aborted) return;
+    throw e;
+  }
+  if (!res.ok || !res.body) throw new Error(`openai_http_${res.status}`);
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // OpenAI streams SSE lines: `data: {...}` separated by blank lines, terminated by `data: [DONE]`
+      let nl = buffer.indexOf("\n");
+      while (nl >= 0) {
+        const line = buffer.slice(0, nl).trim();
+        buffer = buffer.slice(nl + 1);
+        nl = buffer.indexOf("\n");
+        if (!line.startsWith("data:")) continue;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+        try {
+          const json = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: string } }> };
+          const delta = json.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // ignore malformed keep-alive lines
+        }
+      }
+    }
+  } catch (e) {
+    if (params.signal?.aborted) return;
+    throw e;
+  } finally {
+    try { reader.releaseLock(); } catch {}
+  }
+}
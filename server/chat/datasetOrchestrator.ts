@@ -0,0 +1,188 @@
+import "server-only";
+
+import { createClient } from "@/server/supabase/server";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { hasPermission } from "@/server/permissions/permissions.data";
+import type { DatasetListItem } from "@/server/csv/csv.data";
+import {
+  AGGREGATE_FNS,
+  FILTER_OPS,
+  MAX_RESULT_ROWS,
+  describeQueryPlan,
+  executeQueryPlan,
+  formatResultTable,
+  getDatasetColumns,
+  listDatasetsForRole,
+  parseQueryPlan,
+  type DatasetColumn,
+  type QueryPlan,
+  type QueryResult,
+} from "@/server/csv/datasetQuery";
+import type { Citation } from "@/server/chat/answerPipeline";
+
+/**
+ * "Datasets" chat source: the model picks one of the user's datasets and writes a query plan for the question,
+ * which is validated against the typed columns (`parseQueryPlan`) and run over `tabular_rows`. The answer is the
+ * result table with one citation for the dataset and the query.
+ */
+
+/** `error: null` means no dataset fits the question and the caller should answer from the other sources */
+export type DatasetOrchestratorResult = { ok: true; text: string; citations: Citation[] } | { ok: false; error: string | null };
+
+export type DatasetQueryOutcome =
+  | { ok: true; dataset: DatasetListItem; plan: QueryPlan; result: QueryResult }
+  | { ok: false; error: string };
+
+const MAX_CATALOG_DATASETS = 8;
+const SAMPLE_ROWS = 2;
+
+type CatalogEntry = { dataset: DatasetListItem; columns: DatasetColumn[]; samples: Record<string, unknown>[] };
+
+const PLANNER_PROMPT = `You translate questions about the user's CSV datasets into a JSON query plan over one dataset.
+
+Return only a JSON object:
+{"dataset_id": "<id>" | null, "select": ["col"], "filters": [{"column": "col", "op": "<op>", "value": <value>}], "group_by": ["col"], "aggregates": [{"fn": "<fn>", "column": "col", "as": "name"}], "sort": [{"by": "col or aggregate name", "dir": "asc" | "desc"}], "limit": <1-${MAX_RESULT_ROWS}>}
+
+Rules:
+- "dataset_id": null when no dataset can answer the question.
+- Use only the listed column names, exactly as written.
+- op is one of ${FILTER_OPS.join(", ")}. gt/gte/lt/lte need number or date columns, contains needs a text column, "in" takes an array. Dates are YYYY-MM-DD.
+- fn is one of ${AGGREGATE_FNS.join(", ")}. sum/avg need number columns; count may omit "column".
+- With aggregates, sort only by group_by columns or aggregate names. Without aggregates, "select" lists the columns to show.
+- Questions like "top 5 ..." or "which ... has the most ..." sort descending and set limit.
+- If the question includes recent turns, use them only to resolve references.`;
+
+function catalogText(catalog: CatalogEntry[]): string {
+  return catalog
+    .map(({ dataset, columns, samples }) => {
+      const cols = columns.map((c) => `${c.name} (${c.data_type})`).join(", ");
+      const sample = samples.map((s) => JSON.stringify(s).slice(0, 400)).join("\n    ");
+      return `- id: ${dataset.id}\n  title: ${dataset.title}${dataset.description ? `\n  description: ${dataset.description}` : ""}\n  rows: ${dataset.rows_count ?? "?"}\n  columns: ${cols}${sample ? `\n  sample rows:\n    ${sample}` : ""}`;
+    })
+    .join("\n");
+}
+
+async function loadCatalog(tenantId: string, roleKey: string, datasets: DatasetListItem[]): Promise<CatalogEntry[]> {
+  const supabase = await createClient();
+  const catalog: CatalogEntry[] = [];
+  for (const dataset of datasets.slice(0, MAX_CATALOG_DATASETS)) {
+    const columns = await getDatasetColumns(tenantId, dataset.id);
+    const { data } = await supabase
+      .from("tabular_rows")
+      .select("data")
+      .eq("dataset_id", dataset.id)
+      .eq("tenant_id", tenantId)
+      .contains("allowed_roles", [roleKey])
+      .order("id", { ascending: true })
+      .limit(SAMPLE_ROWS);
+    catalog.push({ dataset, columns, samples: ((data || []) as Array<{ data: Record<string, unknown> }>).map((r) => r.data) });
+  }
+  return catalog;
+}
+
+async function requestPlan(messages: Array<{ role: string; content: string }>, model: string): Promise<Record<string, unknown>> {
+  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages,
+    }),
+  });
+  if (!res.ok) throw new Error(`openai_http_${res.status}`);
+  const json = (await res.json()) as { choices?: Array<{ message?: { content?: string } }> };
+  return JSON.parse(json.choices?.[0]?.message?.content || "{}") as Record<string, unknown>;
+}
+
+async function audit(tenantId: string, meta: Record<string, unknown>): Promise<void> {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "kb.csv.query",
+      resource: "dataset",
+      meta,
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+}
+
+/**
+ * Validates `rawPlan` for one of the role's datasets and runs it. Shared by the Datasets source and the agent's
+ * `query_dataset` tool; the caller has checked `kb.csv.read`.
+ */
+export async function runDatasetQuery(tenantId: string, roleKey: string | null, datasetId: string, rawPlan: unknown): Promise<DatasetQueryOutcome> {
+  const dataset = (await listDatasetsForRole(tenantId, roleKey)).find((d) => d.id === datasetId);
+  if (!dataset || !roleKey) return { ok: false, error: "Dataset not found" };
+  const columns = await getDatasetColumns(tenantId, dataset.id);
+  const parsed = parseQueryPlan(rawPlan, dataset.id, columns);
+  if (!parsed.ok) return parsed;
+  const result = await executeQueryPlan(tenantId, roleKey, parsed.plan);
+  await audit(tenantId, { datasetId: dataset.id, plan: parsed.plan, matched: result.matched, scanned: result.scanned, truncated: result.truncated });
+  return { ok: true, dataset, plan: parsed.plan, result };
+}
+
+/** Citation for a query result; `doc_id` is the dataset and the snippet carries the plan. */
+export function datasetCitation(dataset: DatasetListItem, plan: QueryPlan, result: QueryResult): Citation {
+  const description = describeQueryPlan(plan);
+  return {
+    kind: "dataset",
+    doc_id: dataset.id,
+    chunk_idx: 0,
+    title: `${dataset.title} — ${description}`,
+    source_uri: `/knowledge/datasets/${dataset.id}`,
+    snippet: `Query: ${description}\nMatched ${result.matched} of ${result.scanned} rows${result.truncated ? " (scan limit reached)" : ""}\nPlan: ${JSON.stringify(plan)}`,
+  };
+}
+
+function resultSummary(result: QueryResult): string {
+  const matched = `${result.matched.toLocaleString("en-US")} matching row${result.matched === 1 ? "" : "s"}`;
+  return result.truncated ? `${matched} in the first ${result.scanned.toLocaleString("en-US")} rows read` : matched;
+}
+
+/** `chatModel` is the tenant's `rag_settings.chat_model`; the planner falls back to `gpt-4o-mini` without one. */
+export async function answerWithDatasets(tenantId: string, roleKey: string | null, question: string, chatModel?: string): Promise<DatasetOrchestratorResult> {
+  if (!(await hasPermission(tenantId, "kb.csv.read"))) {
+    return { ok: false, error: "You don’t have access to datasets (need kb.csv.read)." };
+  }
+  const datasets = await listDatasetsForRole(tenantId, roleKey);
+  if (!roleKey || datasets.length === 0) return { ok: false, error: null };
+  // Plans are written by the model; without a key the question goes to the knowledge base as usual
+  if (!process.env.OPENAI_API_KEY) return { ok: false, error: null };
+
+  const catalog = await loadCatalog(tenantId, roleKey, datasets);
+  const messages = [
+    { role: "system", content: `${PLANNER_PROMPT}\n\nDatasets:\n${catalogText(catalog)}` },
+    { role: "user", content: question },
+  ];
+
+  // One retry with the validation error; the model usually fixes a misspelled column or a wrong operator
+  let outcome: DatasetQueryOutcome | null = null;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    // A planner failure shouldn't cost the user an answer; the knowledge base still gets the question
+    let raw: Record<string, unknown>;
+    try {
+      raw = await requestPlan(messages, chatModel || "gpt-4o-mini");
+    } catch {
+      return { ok: false, error: null };
+    }
+    const datasetId = typeof raw.dataset_id === "string" ? raw.dataset_id : null;
+    if (!datasetId) return { ok: false, error: null };
+    outcome = await runDatasetQuery(tenantId, roleKey, datasetId, raw);
+    if (outcome.ok) break;
+    messages.push({ role: "assistant", content: JSON.stringify(raw) }, { role: "user", content: `That plan is invalid: ${outcome.error}. Return a corrected plan.` });
+  }
+  if (!outcome || !outcome.ok) {
+    return { ok: false, error: `I couldn't turn that into a valid query${outcome ? `: ${outcome.error}` : ""}.` };
+  }
+
+  const { dataset, plan, result } = outcome;
+  const header = `From **${dataset.title}** — ${describeQueryPlan(plan)}: ${resultSummary(result)}. [1]`;
+  const body = result.rows.length > 0 ? formatResultTable(result) : "No rows match.";
+  const more = plan.aggregates.length === 0 && result.matched > result.rows.length ? `\n\nShowing ${result.rows.length} of ${result.matched} rows.` : "";
+  return { ok: true, text: `${header}\n\n${body}${more}`, citations: [datasetCitation(dataset, plan, result)] };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { MAX_RESULT_ROWS, parseQueryPlan, type DatasetColumn } from "./datasetQuery";
+
+const columns: DatasetColumn[] = [
+  { name: "region", data_type: "string" },
+  { name: "revenue", data_type: "currency" },
+  { name: "units", data_type: "integer" },
+  { name: "active", data_type: "boolean" },
+  { name: "signed_on", data_type: "date" },
+];
+
+const parse = (raw: unknown) => parseQueryPlan(raw, "ds-1", columns);
+
+function plan(raw: unknown) {
+  const result = parse(raw);
+  if (!result.ok) throw new Error(result.error);
+  return result.plan;
+}
+
+function error(raw: unknown): string {
+  const result = parse(raw);
+  if (result.ok) throw new Error("expected the plan to be rejected");
+  return result.error;
+}
+
+describe("parseQueryPlan", () => {
+  it("fills defaults for an empty plan", () => {
+    expect(plan({})).toEqual({
+      datasetId: "ds-1",
+      select: ["region", "revenue", "units", "active", "signed_on"],
+      filters: [],
+      groupBy: [],
+      aggregates: [],
+      sort: [],
+      limit: 20,
+    });
+  });
+
+  it("rejects a plan that is not an object", () => {
+    expect(error(null)).toBe("Plan must be an object");
+    expect(error("select *")).toBe("Plan must be an object");
+  });
+
+  it("coerces filter values to the column type", () => {
+    const { filters } = plan({
+      filters: [
+        { column: "revenue", op: "gte", value: "$1,200.50" },
+        { column: "units", op: "lt", value: "7.9" },
+        { column: "active", op: "eq", value: "yes" },
+        { column: "signed_on", op: "gt", value: "2024-03-05T18:00:00Z" },
+        { column: "region", op: "contains", value: "North" },
+        { column: "region", op: "in", value: ["EU", "US"] },
+        { column: "revenue", op: "is_null", value: "ignored" },
+      ],
+    });
+    expect(filters).toEqual([
+      { column: "revenue", op: "gte", value: 1200.5 },
+      { column: "units", op: "lt", value: 7 },
+      { column: "active", op: "eq", value: true },
+      { column: "signed_on", op: "gt", value: "2024-03-05" },
+      { column: "region", op: "contains", value: "north" },
+      { column: "region", op: "in", value: ["EU", "US"] },
+      { column: "revenue", op: "is_null" },
+    ]);
+  });
+
+  it.each([
+    [{ filters: [{ column: "country", op: "eq", value: "EU" }] }, "Unknown column country"],
+    [{ filters: [{ column: "region", op: "like", value: "EU" }] }, "Unknown operator like"],
+    [{ filters: [{ column: "region", op: "gt", value: "EU" }] }, "region is string; gt needs a number or date column"],
+    [{ filters: [{ column: "units", op: "contains", value: "3" }] }, "units is integer; contains needs a text column"],
+    [{ filters: [{ column: "revenue", op: "eq", value: "lots" }] }, '"lots" is not a valid currency for revenue'],
+    [{ filters: [{ column: "active", op: "eq", value: "maybe" }] }, '"maybe" is not a valid boolean for active'],
+    [{ filters: [{ column: "units", op: "in", value: [] }] }, "units in needs 1–50 integer values"],
+    [{ filters: [{ column: "units", op: "in", value: [1, "x"] }] }, "units in needs 1–50 integer values"],
+    [{ filters: Array.from({ length: 11 }, () => ({ column: "region", op: "not_null" })) }, "At most 10 filters"],
+  ])("rejects filter %#", (raw, message) => {
+    expect(error(raw)).toBe(message);
+  });
+
+  it("groups, names aggregates and dedupes group columns", () => {
+    const p = plan({
+      group_by: ["region", "region"],
+      aggregates: [
+        { fn: "sum", column: "revenue", as: "total" },
+        { fn: "count" },
+        { fn: "max", column: "signed_on", as: "bad alias!" },
+      ],
+      sort: [{ by: "total", dir: "desc" }, { by: "region" }],
+      select: ["units"],
+    });
+    expect(p.groupBy).toEqual(["region"]);
+    expect(p.aggregates).toEqual([
+      { fn: "sum", column: "revenue", as: "total" },
+      { fn: "count", column: undefined, as: "count" },
+      { fn: "max", column: "signed_on", as: "max_signed_on" },
+    ]);
+    expect(p.sort).toEqual([
+      { by: "total", dir: "desc" },
+      { by: "region", dir: "asc" },
+    ]);
+    // Grouped plans return group columns and aggregates, not a selection
+    expect(p.select).toEqual([]);
+  });
+
+  it("counts per group when no aggregate is given", () => {
+    expect(plan({ group_by: ["region"] }).aggregates).toEqual([{ fn: "count", as: "count" }]);
+  });
+
+  it.each([
+    [{ group_by: ["country"] }, "Unknown column country"],
+    [{ aggregates: [{ fn: "median", column: "revenue" }] }, "Unknown aggregate median"],
+    [{ aggregates: [{ fn: "sum" }] }, "sum needs a column"],
+    [{ aggregates: [{ fn: "avg", column: "region" }] }, "region is string; avg needs a number column"],
+    [{ aggregates: [{ fn: "min", column: "active" }] }, "active is boolean; min needs a number or date column"],
+    [{ aggregates: [{ fn: "count", column: "country" }] }, "Unknown column country"],
+    [{ aggregates: [{ fn: "count" }, { fn: "count" }] }, "Duplicate output name count"],
+    [{ group_by: ["region"], aggregates: [{ fn: "count", as: "region" }] }, "Duplicate output name region"],
+    [{ group_by: ["region"], sort: [{ by: "units" }] }, "Sort by a group column or aggregate, not units"],
+    [{ select: ["country"] }, "Unknown column country"],
+    [{ sort: [{ by: "country" }] }, "Unknown column country"],
+  ])("rejects plan %#", (raw, message) => {
+    expect(error(raw)).toBe(message);
+  });
+
+  it("sorts ungrouped plans by any column, selected or not", () => {
+    expect(plan({ select: ["region"], sort: [{ by: "units", dir: "desc" }] }).sort).toEqual([{ by: "units", dir: "desc" }]);
+  });
+
+  it("clamps the limit", () => {
+    expect(plan({ limit: 5.7 }).limit).toBe(5);
+    expect(plan({ limit: 0 }).limit).toBe(1);
+    expect(plan({ limit: 10_000 }).limit).toBe(MAX_RESULT_ROWS);
+    expect(plan({ limit: "many" }).limit).toBe(20);
+  });
+});
@@ -0,0 +1,374 @@
+import "server-only";
+
+import { createClient } from "@/server/supabase/server";
+import type { DatasetListItem } from "@/server/csv/csv.data";
+
+/**
+ * Structured queries over one CSV dataset, for the chat "Datasets" source and the agent's `query_dataset` tool.
+ *
+ * A plan comes from the model as JSON and is never turned into SQL: `parseQueryPlan` checks every column, operator,
+ * aggregate and value against the dataset's typed columns, and `executeQueryPlan` reads the matching `tabular_rows`
+ * (number and boolean equality pushed down as JSONB containment) and filters, groups, aggregates and sorts them in memory.
+ * - `DATASET_QUERY_MAX_SCAN_ROWS` (default 50000): rows read per query; results over more rows are marked truncated
+ */
+
+export type DatasetColumn = { name: string; data_type: string };
+
+export type FilterOp = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains" | "in" | "is_null" | "not_null";
+export type AggregateFn = "count" | "count_distinct" | "sum" | "avg" | "min" | "max";
+
+type Scalar = string | number | boolean;
+
+export type QueryFilter = { column: string; op: FilterOp; value?: Scalar | Scalar[] };
+export type QueryAggregate = { fn: AggregateFn; column?: string; as: string };
+export type QuerySort = { by: string; dir: "asc" | "desc" };
+
+export type QueryPlan = {
+  datasetId: string;
+  /** Columns returned by a plan without aggregates */
+  select: string[];
+  filters: QueryFilter[];
+  groupBy: string[];
+  aggregates: QueryAggregate[];
+  sort: QuerySort[];
+  limit: number;
+};
+
+export type QueryResult = {
+  columns: string[];
+  rows: unknown[][];
+  /** Rows that passed the filters */
+  matched: number;
+  scanned: number;
+  /** The scan stopped at `DATASET_QUERY_MAX_SCAN_ROWS`; aggregates only cover the rows read */
+  truncated: boolean;
+};
+
+export const FILTER_OPS: FilterOp[] = ["eq", "neq", "gt", "gte", "lt", "lte", "contains", "in", "is_null", "not_null"];
+export const AGGREGATE_FNS: AggregateFn[] = ["count", "count_distinct", "sum", "avg", "min", "max"];
+
+const NUMERIC_TYPES = new Set(["number", "integer", "currency"]);
+const TEMPORAL_TYPES = new Set(["date", "datetime"]);
+
+const DEFAULT_LIMIT = 20;
+export const MAX_RESULT_ROWS = 100;
+const MAX_FILTERS = 10;
+const MAX_IN_VALUES = 50;
+const MAX_SELECT = 12;
+const SCAN_PAGE = 1000;
+const ALIAS_RE = /^[a-z_][a-z0-9_]{0,39}$/i;
+
+const OP_LABELS: Record<FilterOp, string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  contains: "contains",
+  in: "in",
+  is_null: "is empty",
+  not_null: "is not empty",
+};
+
+function maxScanRows(): number {
+  return Math.max(SCAN_PAGE, Number(process.env.DATASET_QUERY_MAX_SCAN_ROWS || 50_000));
+}
+
+/** Ready datasets whose `allowed_roles` include `roleKey`; RLS already limits them to the tenant. */
+export async function listDatasetsForRole(tenantId: string, roleKey: string | null): Promise<DatasetListItem[]> {
+  if (!roleKey) return [];
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("tabular_datasets")
+    .select("id, title, status, rows_count, columns_count, size_bytes, allowed_roles, created_at, created_by, description, version")
+    .eq("tenant_id", tenantId)
+    .eq("status", "ready")
+    .contains("allowed_roles", [roleKey])
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data || []) as DatasetListItem[];
+}
+
+export async function getDatasetColumns(tenantId: string, datasetId: string): Promise<DatasetColumn[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("tabular_columns")
+    .select("name, data_type")
+    .eq("dataset_id", datasetId)
+    .eq("tenant_id", tenantId)
+    .order("ordinal");
+  if (error) throw new Error(error.message);
+  return (data || []) as DatasetColumn[];
+}
+
+function coerce(value: unknown, dataType: string): Scalar | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (NUMERIC_TYPES.has(dataType)) {
+    const n = typeof value === "number" ? value : Number(String(value).replace(/[$€£¥,\s]/g, ""));
+    if (!Number.isFinite(n)) return null;
+    return dataType === "integer" ? Math.trunc(n) : n;
+  }
+  if (dataType === "boolean") {
+    if (typeof value === "boolean") return value;
+    const s = String(value).toLowerCase();
+    return s === "true" || s === "yes" || s === "1" ? true : s === "false" || s === "no" || s === "0" ? false : null;
+  }
+  if (TEMPORAL_TYPES.has(dataType)) {
+    const d = new Date(String(value));
+    if (isNaN(d.getTime())) return null;
+    // Same formats as ingestion (csv.actions convertValue), so ISO strings compare in date order
+    return dataType === "date" ? d.toISOString().split("T")[0]! : d.toISOString();
+  }
+  return String(value);
+}
+
+function arr(v: unknown): unknown[] {
+  return Array.isArray(v) ? v : [];
+}
+
+/**
+ * Validates a model-written plan (snake_case JSON) against the dataset's columns and normalizes it.
+ * Unknown columns, operators that don't fit the column type and values that don't parse are errors, not dropped.
+ */
+export function parseQueryPlan(raw: unknown, datasetId: string, columns: DatasetColumn[]): { ok: true; plan: QueryPlan } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "Plan must be an object" };
+  const input = raw as Record<string, unknown>;
+  const types = new Map(columns.map((c) => [c.name, c.data_type]));
+  const column = (name: unknown): string | null => (typeof name === "string" && types.has(name) ? name : null);
+
+  const filters: QueryFilter[] = [];
+  const rawFilters = arr(input.filters);
+  if (rawFilters.length > MAX_FILTERS) return { ok: false, error: `At most ${MAX_FILTERS} filters` };
+  for (const f of rawFilters) {
+    const { column: name, op, value } = (f || {}) as { column?: unknown; op?: unknown; value?: unknown };
+    const col = column(name);
+    if (!col) return { ok: false, error: `Unknown column ${String(name)}` };
+    if (!FILTER_OPS.includes(op as FilterOp)) return { ok: false, error: `Unknown operator ${String(op)}` };
+    const type = types.get(col)!;
+    const filterOp = op as FilterOp;
+    if (["gt", "gte", "lt", "lte"].includes(filterOp) && !NUMERIC_TYPES.has(type) && !TEMPORAL_TYPES.has(type)) {
+      return { ok: false, error: `${col} is ${type}; ${filterOp} needs a number or date column` };
+    }
+    if (filterOp === "contains" && type !== "string") return { ok: false, error: `${col} is ${type}; contains needs a text column` };
+    if (filterOp === "is_null" || filterOp === "not_null") {
+      filters.push({ column: col, op: filterOp });
+      continue;
+    }
+    if (filterOp === "in") {
+      const values = arr(value).map((v) => coerce(v, type));
+      if (values.length === 0 || values.length > MAX_IN_VALUES || values.some((v) => v === null)) {
+        return { ok: false, error: `${col} in needs 1–${MAX_IN_VALUES} ${type} values` };
+      }
+      filters.push({ column: col, op: filterOp, value: values as Scalar[] });
+      continue;
+    }
+    const v = coerce(value, type);
+    if (v === null) return { ok: false, error: `${JSON.stringify(value)} is not a valid ${type} for ${col}` };
+    filters.push({ column: col, op: filterOp, value: filterOp === "contains" ? String(v).toLowerCase() : v });
+  }
+
+  const groupBy: string[] = [];
+  for (const g of arr(input.group_by)) {
+    const col = column(g);
+    if (!col) return { ok: false, error: `Unknown column ${String(g)}` };
+    if (!groupBy.includes(col)) groupBy.push(col);
+  }
+
+  const aggregates: QueryAggregate[] = [];
+  for (const a of arr(input.aggregates)) {
+    const { fn, column: name, as } = (a || {}) as { fn?: unknown; column?: unknown; as?: unknown };
+    if (!AGGREGATE_FNS.includes(fn as AggregateFn)) return { ok: false, error: `Unknown aggregate ${String(fn)}` };
+    const aggFn = fn as AggregateFn;
+    const col = name === undefined || name === null || name === "" ? null : column(name);
+    if (name && !col) return { ok: false, error: `Unknown column ${String(name)}` };
+    if (!col && aggFn !== "count") return { ok: false, error: `${aggFn} needs a column` };
+    const type = col ? types.get(col)! : "";
+    if ((aggFn === "sum" || aggFn === "avg") && !NUMERIC_TYPES.has(type)) return { ok: false, error: `${col} is ${type}; ${aggFn} needs a number column` };
+    if ((aggFn === "min" || aggFn === "max") && !NUMERIC_TYPES.has(type) && !TEMPORAL_TYPES.has(type)) {
+      return { ok: false, error: `${col} is ${type}; ${aggFn} needs a number or date column` };
+    }
+    const alias = typeof as === "string" && ALIAS_RE.test(as) ? as : col ? `${aggFn}_${col}` : aggFn;
+    if (groupBy.includes(alias) || aggregates.some((x) => x.as === alias)) return { ok: false, error: `Duplicate output name ${alias}` };
+    aggregates.push({ fn: aggFn, column: col ?? undefined, as: alias });
+  }
+  // Grouping without an aggregate still answers "how many per ..."
+  if (groupBy.length > 0 && aggregates.length === 0) aggregates.push({ fn: "count", as: "count" });
+
+  const grouped = aggregates.length > 0;
+  const select: string[] = [];
+  if (!grouped) {
+    for (const s of arr(input.select)) {
+      const col = column(s);
+      if (!col) return { ok: false, error: `Unknown column ${String(s)}` };
+      if (!select.includes(col)) select.push(col);
+    }
+    if (select.length === 0) select.push(...columns.slice(0, 8).map((c) => c.name));
+    select.splice(MAX_SELECT);
+  }
+
+  const outputs = grouped ? [...groupBy, ...aggregates.map((a) => a.as)] : columns.map((c) => c.name);
+  const sort: QuerySort[] = [];
+  for (const s of arr(input.sort)) {
+    const { by, dir } = (s || {}) as { by?: unknown; dir?: unknown };
+    if (typeof by !== "string" || !outputs.includes(by)) {
+      return { ok: false, error: grouped ? `Sort by a group column or aggregate, not ${String(by)}` : `Unknown column ${String(by)}` };
+    }
+    sort.push({ by, dir: dir === "desc" ? "desc" : "asc" });
+  }
+
+  const n = Number(input.limit);
+  const limit = Number.isFinite(n) ? Math.min(MAX_RESULT_ROWS, Math.max(1, Math.floor(n))) : DEFAULT_LIMIT;
+  return { ok: true, plan: { datasetId, select, filters, groupBy, aggregates, sort, limit } };
+}
+
+function compare(a: unknown, b: unknown): number {
+  const aNull = a === null || a === undefined || a === "";
+  const bNull = b === null || b === undefined || b === "";
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+function matches(data: Record<string, unknown>, f: QueryFilter): boolean {
+  const v = data[f.column];
+  const empty = v === null || v === undefined || v === "";
+  switch (f.op) {
+    case "is_null":
+      return empty;
+    case "not_null":
+      return !empty;
+    case "eq":
+      return !empty && compare(v, f.value) === 0;
+    case "neq":
+      return empty || compare(v, f.value) !== 0;
+    case "gt":
+      return !empty && compare(v, f.value) > 0;
+    case "gte":
+      return !empty && compare(v, f.value) >= 0;
+    case "lt":
+      return !empty && compare(v, f.value) < 0;
+    case "lte":
+      return !empty && compare(v, f.value) <= 0;
+    case "contains":
+      return !empty && String(v).toLowerCase().includes(String(f.value));
+    case "in":
+      return !empty && (f.value as Scalar[]).some((x) => compare(v, x) === 0);
+  }
+}
+
+function aggregate(rows: Record<string, unknown>[], a: QueryAggregate): unknown {
+  if (a.fn === "count") return a.column ? rows.filter((r) => r[a.column!] !== null && r[a.column!] !== undefined && r[a.column!] !== "").length : rows.length;
+  const values = rows.map((r) => r[a.column!]).filter((v) => v !== null && v !== undefined && v !== "");
+  if (a.fn === "count_distinct") return new Set(values.map((v) => JSON.stringify(v))).size;
+  if (values.length === 0) return null;
+  if (a.fn === "min") return values.reduce((m, v) => (compare(v, m) < 0 ? v : m));
+  if (a.fn === "max") return values.reduce((m, v) => (compare(v, m) > 0 ? v : m));
+  const sum = values.reduce<number>((s, v) => s + Number(v), 0);
+  return a.fn === "sum" ? sum : sum / values.length;
+}
+
+/** Runs a validated plan with the user's session; rows are limited to `roleKey` like the dataset itself. */
+export async function executeQueryPlan(tenantId: string, roleKey: string, plan: QueryPlan): Promise<QueryResult> {
+  const supabase = await createClient();
+  const maxScan = maxScanRows();
+  // Text equality is case-insensitive (see compare), so only number and boolean equality can use containment
+  const pushDown = plan.filters.filter((f) => f.op === "eq" && typeof f.value !== "string");
+  const rest = plan.filters.filter((f) => !pushDown.includes(f));
+
+  const matched: Record<string, unknown>[] = [];
+  let scanned = 0;
+  let truncated = false;
+  for (let offset = 0; ; offset += SCAN_PAGE) {
+    let query = supabase
+      .from("tabular_rows")
+      .select("data")
+      .eq("dataset_id", plan.datasetId)
+      .eq("tenant_id", tenantId)
+      .contains("allowed_roles", [roleKey]);
+    // Values are stored typed (csv.actions convertValue), so containment matches numbers and booleans exactly
+    for (const f of pushDown) query = query.contains("data", { [f.column]: f.value });
+    const { data, error } = await query.order("id", { ascending: true }).range(offset, offset + SCAN_PAGE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data || []) as Array<{ data: Record<string, unknown> }>;
+    scanned += page.length;
+    for (const r of page) {
+      if (rest.every((f) => matches(r.data || {}, f))) matched.push(r.data || {});
+    }
+    if (page.length < SCAN_PAGE) break;
+    if (scanned >= maxScan) {
+      truncated = true;
+      break;
+    }
+  }
+
+  const order = <T,>(list: T[], get: (item: T, by: string) => unknown): T[] =>
+    list.sort((a, b) => {
+      for (const s of plan.sort) {
+        const c = compare(get(a, s.by), get(b, s.by));
+        if (c !== 0) return s.dir === "desc" ? -c : c;
+      }
+      return 0;
+    });
+
+  let columns: string[];
+  let rows: unknown[][];
+  if (plan.aggregates.length > 0) {
+    const groups = new Map<string, Record<string, unknown>[]>();
+    for (const r of matched) {
+      const key = JSON.stringify(plan.groupBy.map((g) => r[g] ?? null));
+      const list = groups.get(key);
+      if (list) list.push(r);
+      else groups.set(key, [r]);
+    }
+    // An ungrouped aggregate over no rows still returns its one row (count 0)
+    if (plan.groupBy.length === 0 && groups.size === 0) groups.set("[]", []);
+    columns = [...plan.groupBy, ...plan.aggregates.map((a) => a.as)];
+    rows = Array.from(groups.entries()).map(([key, list]) => [...(JSON.parse(key) as unknown[]), ...plan.aggregates.map((a) => aggregate(list, a))]);
+    order(rows, (row, by) => row[columns.indexOf(by)]);
+  } else {
+    // Row plans may sort by a column that isn't selected, so sort before projecting
+    columns = plan.select;
+    rows = order(matched, (row, by) => row[by]).map((r) => columns.map((c) => r[c] ?? null));
+  }
+
+  return { columns, rows: rows.slice(0, plan.limit), matched: matched.length, scanned, truncated };
+}
+
+function formatValue(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "number") return Number.isInteger(v) ? v.toLocaleString("en-US") : v.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  return String(v);
+}
+
+/** One line, e.g. `sum(amount) by region where status = "paid", sorted by sum_amount desc, top 5` */
+export function describeQueryPlan(plan: QueryPlan): string {
+  const parts: string[] = [];
+  if (plan.aggregates.length > 0) {
+    parts.push(plan.aggregates.map((a) => (a.column ? `${a.fn}(${a.column})` : a.fn)).join(", "));
+    if (plan.groupBy.length > 0) parts.push(`by ${plan.groupBy.join(", ")}`);
+  } else {
+    parts.push(`rows (${plan.select.join(", ")})`);
+  }
+  if (plan.filters.length > 0) {
+    const where = plan.filters.map((f) => {
+      if (f.op === "is_null" || f.op === "not_null") return `${f.column} ${OP_LABELS[f.op]}`;
+      const value = Array.isArray(f.value) ? `(${f.value.map((v) => JSON.stringify(v)).join(", ")})` : JSON.stringify(f.value);
+      return `${f.column} ${OP_LABELS[f.op]} ${value}`;
+    });
+    parts.push(`where ${where.join(" and ")}`);
+  }
+  let text = parts.join(" ");
+  if (plan.sort.length > 0) text += `, sorted by ${plan.sort.map((s) => `${s.by} ${s.dir}`).join(", ")}`;
+  return `${text}, top ${plan.limit}`;
+}
+
+/** GitHub-style markdown table (rendered by components/chat/Markdown) */
+export function formatResultTable(result: QueryResult): string {
+  const cell = (v: unknown) => formatValue(v).replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+  const header = `| ${result.columns.map(cell).join(" | ")} |`;
+  const divider = `| ${result.columns.map(() => "---").join(" | ")} |`;
+  const body = result.rows.map((r) => `| ${r.map(cell).join(" | ")} |`);
+  return [header, divider, ...body].join("\n");
+}
@@ -0,0 +1,196 @@
+"use server";
+
+import "server-only";
+import { createClient } from "@/server/supabase/server";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { retrieve } from "@/server/kb/retrieve";
+import { applyRetrievalGate, isLowSignalQuestion } from "@/server/chat/answerPipeline";
+import { getTenantRagSettings } from "@/server/settings/settings.data";
+import { listEvalQuestions, type EvalQuestionResult, type EvalRunSummary } from "@/server/eval/eval.data";
+import { isRelevant, mean, scoreRanking, type EvalTarget } from "@/server/eval/metrics";
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+const MAX_EVAL_QUESTIONS = 200;
+
+export type CreateEvalQuestionInput = { tenantId: string; question: string; expected: EvalTarget[]; notes?: string };
+
+export async function createEvalQuestionAction(input: CreateEvalQuestionInput): Promise<ActionResult> {
+  const { tenantId } = input;
+  const question = (input.question || "").trim();
+  if (!tenantId || !question) return { ok: false, error: "Missing input" };
+  const expected = (input.expected || [])
+    .filter((t) => t && typeof t.doc_id === "string" && t.doc_id)
+    .map((t) => ({ doc_id: t.doc_id, chunk_idx: Number.isInteger(t.chunk_idx) && (t.chunk_idx as number) >= 0 ? (t.chunk_idx as number) : null }));
+  if (expected.length === 0) return { ok: false, error: "Add at least one expected document" };
+  await requirePermission(tenantId, "settings.manage");
+
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const docIds = Array.from(new Set(expected.map((t) => t.doc_id)));
+  const { data: docs, error: docsErr } = await supabase.from("kb_docs").select("id").eq("tenant_id", tenantId).in("id", docIds);
+  if (docsErr) return { ok: false, error: docsErr.message };
+  if ((docs || []).length !== docIds.length) return { ok: false, error: "Expected document not found" };
+
+  const { error } = await supabase.from("kb_eval_questions").insert({
+    tenant_id: tenantId,
+    question,
+    expected: expected as unknown as Json,
+    notes: input.notes?.trim() || null,
+    created_by: user.id,
+  } as TablesInsert<"kb_eval_questions">);
+  if (error) return { ok: false, error: error.message };
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.eval.question_create",
+      resource: "settings",
+      meta: { targets: expected.length },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
+
+export async function deleteEvalQuestionAction(input: { tenantId: string; id: string }): Promise<ActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const { error } = await supabase.from("kb_eval_questions").delete().eq("tenant_id", tenantId).eq("id", id);
+  if (error) return { ok: false, error: error.message };
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.eval.question_delete",
+      resource: "settings",
+      meta: { id },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
+
+/**
+ * Runs every golden question through the production path (query gate → `retrieve()` → score gate)
+ * with the tenant's current settings, and stores per-question results plus a summary in `kb_eval_runs`.
+ * Retrieval runs as the calling admin, so visibility follows their role.
+ */
+export async function runRetrievalEvalAction(input: { tenantId: string }): Promise<{ ok: true; runId: string; summary: EvalRunSummary } | { ok: false; error: string }> {
+  const { tenantId } = input;
+  if (!tenantId) return { ok: false, error: "Missing tenant" };
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const questions = (await listEvalQuestions(tenantId)).slice(0, MAX_EVAL_QUESTIONS);
+  if (questions.length === 0) return { ok: false, error: "No golden questions yet" };
+
+  const rag = await getTenantRagSettings(tenantId);
+  // Same k and rerank flag as chat, so the numbers describe what users get
+  const k = rag?.retriever_top_k ?? 8;
+  const useRerank = Boolean(rag?.rerank_enabled);
+
+  const results: EvalQuestionResult[] = [];
+  for (const q of questions) {
+    const targets = Array.isArray(q.expected) ? q.expected : [];
+    const base = { question_id: q.id, question: q.question, recall: 0, reciprocal_rank: 0, ndcg: 0, gated_recall: 0, gating_false_negative: false, error: null, hits: [] };
+    if (isLowSignalQuestion(q.question)) {
+      results.push({ ...base, low_signal: true });
+      continue;
+    }
+    try {
+      // Fresh results: a cached entry could predate the settings being evaluated
+      const { chunks, fusion } = await retrieve({ tenantId, query: q.question, k, useRerank, bypassCache: true });
+      const gated = applyRetrievalGate(chunks, fusion);
+      const passed = new Set(gated.map((c) => `${c.doc_id}#${c.chunk_idx}`));
+      const scores = scoreRanking(targets, chunks, k);
+      // The gate may append one keyword candidate beyond k
+      const gatedScores = scoreRanking(targets, gated, gated.length);
+      results.push({
+        ...base,
+        low_signal: false,
+        recall: scores.recall,
+        reciprocal_rank: scores.reciprocalRank,
+        ndcg: scores.ndcg,
+        gated_recall: gatedScores.recall,
+        gating_false_negative: chunks.some((c) => isRelevant(c, targets)) && !gated.some((c) => isRelevant(c, targets)),
+        hits: chunks.map((c) => ({
+          doc_id: c.doc_id,
+          chunk_idx: c.chunk_idx,
+          title: c.title,
+          score: c.score,
+          v_norm: c.v_norm ?? 0,
+          k_norm: c.k_norm ?? 0,
+          relevant: isRelevant(c, targets),
+          passed_gate: passed.has(`${c.doc_id}#${c.chunk_idx}`),
+        })),
+      });
+    } catch (e) {
+      results.push({ ...base, low_signal: false, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  const summary: EvalRunSummary = {
+    questions: results.length,
+    low_signal: results.filter((r) => r.low_signal).length,
+    recall_at_k: mean(results.map((r) => r.recall)),
+    mrr: mean(results.map((r) => r.reciprocal_rank)),
+    ndcg_at_k: mean(results.map((r) => r.ndcg)),
+    gated_recall: mean(results.map((r) => r.gated_recall)),
+    gating_false_negatives: results.filter((r) => r.gating_false_negative).length,
+  };
+  const settings = {
+    retriever_top_k: k,
+    overfetch: rag?.overfetch ?? null,
+    hybrid_enabled: rag?.hybrid_enabled ?? null,
+    rerank_enabled: useRerank,
+    embedding_model: rag?.embedding_model ?? null,
+    fusion_strategy: rag?.fusion_strategy ?? null,
+    vector_weight: rag?.vector_weight ?? null,
+    keyword_weight: rag?.keyword_weight ?? null,
+    score_floor: Number(process.env.RETRIEVAL_SCORE_FLOOR || 0.45),
+    vector_floor: Number(process.env.RETRIEVAL_VECTOR_FLOOR || 0.15),
+    rerank_window: Number(process.env.RETRIEVAL_RERANK_WINDOW || 20),
+  };
+
+  const { data: run, error } = await supabase
+    .from("kb_eval_runs")
+    .insert({
+      tenant_id: tenantId,
+      k,
+      settings: settings as unknown as Json,
+      summary: summary as unknown as Json,
+      results: results as unknown as Json,
+      created_by: user.id,
+    } as TablesInsert<"kb_eval_runs">)
+    .select("id")
+    .single<{ id: string }>();
+  if (error || !run) return { ok: false, error: error?.message || "Failed to store run" };
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.eval.run",
+      resource: "settings",
+      meta: { runId: run.id, questions: summary.questions },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true, runId: run.id, summary };
+}
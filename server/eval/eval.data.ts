@@ -0,0 +1,61 @@
+import "server-only";
+import { createClient } from "@/server/supabase/server";
+import type { EvalTarget } from "@/server/eval/metrics";
+
+export type EvalQuestion = {
+  id: string;
+  tenant_id: string;
+  question: string;
+  expected: EvalTarget[];
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+export type EvalRunSummary = {
+  questions: number;
+  /** Questions skipped by the low-signal query gate (counted as misses) */
+  low_signal: number;
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+  /** Recall over what survives the score gate, i.e. what synthesis actually sees */
+  gated_recall: number;
+  /** Questions where a relevant chunk was retrieved but the gate dropped every relevant one */
+  gating_false_negatives: number;
+};
+
+export type EvalQuestionResult = {
+  question_id: string;
+  question: string;
+  low_signal: boolean;
+  recall: number;
+  reciprocal_rank: number;
+  ndcg: number;
+  gated_recall: number;
+  gating_false_negative: boolean;
+  error: string | null;
+  hits: Array<{ doc_id: string; chunk_idx: number; title: string | null; score: number; v_norm: number; k_norm: number; relevant: boolean; passed_gate: boolean }>;
+};
+
+export type EvalRun = {
+  id: string;
+  tenant_id: string;
+  k: number;
+  settings: Record<string, unknown>;
+  summary: EvalRunSummary;
+  results: EvalQuestionResult[];
+  created_by: string | null;
+  created_at: string;
+};
+
+export async function listEvalQuestions(tenantId: string): Promise<EvalQuestion[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("kb_eval_questions")
+    .select("id, tenant_id, question, expected, notes, created_by, created_at")
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: true });
+  if (error) return [];
+  return (data || []) as unknown as EvalQuestion[];
+}
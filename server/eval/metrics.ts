@@ -0,0 +1,49 @@
+import "server-only";
+
+/** A golden answer location: a whole document, or one chunk of it when `chunk_idx` is set. */
+export type EvalTarget = { doc_id: string; chunk_idx?: number | null };
+
+export type RankedHit = { doc_id: string; chunk_idx: number };
+
+export type QuestionScores = {
+  /** Share of targets found in the top k */
+  recall: number;
+  /** 1 / rank of the first relevant hit, 0 if none */
+  reciprocalRank: number;
+  ndcg: number;
+};
+
+export function matchesTarget(hit: RankedHit, target: EvalTarget): boolean {
+  if (hit.doc_id !== target.doc_id) return false;
+  return target.chunk_idx === null || target.chunk_idx === undefined || target.chunk_idx === hit.chunk_idx;
+}
+
+export function isRelevant(hit: RankedHit, targets: EvalTarget[]): boolean {
+  return targets.some((t) => matchesTarget(hit, t));
+}
+
+/**
+ * Binary-relevance metrics over the top `k` hits.
+ * Each target is credited once, so several chunks of one expected document don't inflate nDCG past 1.
+ */
+export function scoreRanking(targets: EvalTarget[], hits: RankedHit[], k: number): QuestionScores {
+  if (targets.length === 0) return { recall: 0, reciprocalRank: 0, ndcg: 0 };
+  const top = hits.slice(0, k);
+  const credited = new Set<number>();
+  let dcg = 0;
+  let reciprocalRank = 0;
+  top.forEach((hit, i) => {
+    const t = targets.findIndex((target, ti) => !credited.has(ti) && matchesTarget(hit, target));
+    if (t < 0) return;
+    credited.add(t);
+    dcg += 1 / Math.log2(i + 2);
+    if (!reciprocalRank) reciprocalRank = 1 / (i + 1);
+  });
+  let idcg = 0;
+  for (let i = 0; i < Math.min(targets.length, k); i++) idcg += 1 / Math.log2(i + 2);
+  return { recall: credited.size / targets.length, reciprocalRank, ndcg: idcg > 0 ? dcg / idcg : 0 };
+}
+
+export function mean(values: number[]): number {
+  return values.length ? values.reduce((a, v) => a + v, 0) / values.length : 0;
+}
@@ -0,0 +1,165 @@
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { hashContent } from "@/lib/kb/extract";
+
+/**
+ * Incremental re-ingest: chunks of a new version whose text (`metadata.contentHash`) matches a live chunk embedded
+ * with the same model take over that row — id and embedding included — instead of being embedded again.
+ *
+ * The plan is made once per job before embedding and stored as a job artifact; indexing then deletes the live
+ * rows nobody took over, renumbers and relabels the kept ones, and inserts the rest.
+ */
+
+/** Per incoming chunk, the id of the live row it keeps, or null when it needs an embedding */
+export type ReusePlan = { reuse: Array<string | null> };
+
+type LiveRow = { id: string; chunk_idx: number; content: string; metadata: Record<string, unknown> | null };
+
+const PAGE = 1000;
+const UPDATE_CONCURRENCY = 8;
+const DELETE_BATCH = 200;
+const STAGE_BATCH = 100;
+
+async function loadLiveRows(tenantId: string, docId: string): Promise<LiveRow[]> {
+  const admin = await createAdminClient();
+  const out: LiveRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin
+      .from("kb_chunks")
+      .select("id, chunk_idx, content, metadata")
+      .eq("tenant_id", tenantId)
+      .eq("doc_id", docId)
+      .order("chunk_idx", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data || []) as LiveRow[]));
+    if (!data || data.length < PAGE) return out;
+  }
+}
+
+/** Hash of a chunk's embedded text; chunks indexed before hashing get theirs computed from content. */
+export async function chunkContentHash(content: string, metadata: Record<string, unknown> | null): Promise<string> {
+  const stored = metadata?.contentHash;
+  return typeof stored === "string" && stored ? stored : hashContent(content);
+}
+
+export async function planChunkReuse(params: {
+  tenantId: string;
+  docId: string;
+  chunks: Array<{ content: string; metadata: Record<string, unknown> }>;
+  embeddingModel: string | null;
+}): Promise<ReusePlan> {
+  const { tenantId, docId, chunks, embeddingModel } = params;
+  const live = await loadLiveRows(tenantId, docId);
+  // Live rows by hash, in document order so repeated text is taken over front to back
+  const byHash = new Map<string, string[]>();
+  for (const row of live) {
+    if ((row.metadata?.embedding_model ?? null) !== embeddingModel) continue;
+    const hash = await chunkContentHash(row.content, row.metadata);
+    const ids = byHash.get(hash);
+    if (ids) ids.push(row.id);
+    else byHash.set(hash, [row.id]);
+  }
+  const reuse: Array<string | null> = [];
+  for (const chunk of chunks) {
+    const ids = byHash.get(await chunkContentHash(chunk.content, chunk.metadata));
+    reuse.push(ids?.shift() ?? null);
+  }
+  return { reuse };
+}
+
+async function updateConcurrently(tenantId: string, patches: Array<{ id: string; patch: Record<string, unknown> }>): Promise<void> {
+  const admin = await createAdminClient();
+  // PostgREST has no bulk update by key; keep a few updates in flight
+  for (let i = 0; i < patches.length; i += UPDATE_CONCURRENCY) {
+    const results = await Promise.all(
+      patches.slice(i, i + UPDATE_CONCURRENCY).map(({ id, patch }) => admin.from("kb_chunks").update(patch).eq("id", id).eq("tenant_id", tenantId)),
+    );
+    const failed = results.find((res) => res.error);
+    if (failed?.error) throw new Error(failed.error.message);
+  }
+}
+
+/**
+ * Applies a plan to the live rows: deletes rows not taken over (removed/changed chunks, and rows left by an
+ * interrupted run), then moves kept rows to their new `chunk_idx` with the new metadata.
+ * Returns false when a planned row no longer exists (the document changed since planning).
+ *
+ * `(tenant_id, doc_id, chunk_idx)` is unique, so moved rows first park at `-(idx + 1)` and then take their slot;
+ * both passes are idempotent, so an interrupted run can simply be repeated.
+ */
+export async function applyChunkReuse(params: {
+  tenantId: string;
+  docId: string;
+  plan: ReusePlan;
+  kept: (idx: number) => Record<string, unknown>;
+}): Promise<boolean> {
+  const { tenantId, docId, plan, kept } = params;
+  const admin = await createAdminClient();
+  const { data, error } = await admin.from("kb_chunks").select("id, chunk_idx").eq("tenant_id", tenantId).eq("doc_id", docId);
+  if (error) throw new Error(error.message);
+  const currentIdx = new Map(((data || []) as Array<{ id: string; chunk_idx: number }>).map((r) => [r.id, r.chunk_idx]));
+  const keptIds = new Set(plan.reuse.filter((id): id is string => Boolean(id)));
+  for (const id of keptIds) if (!currentIdx.has(id)) return false;
+
+  const stale = Array.from(currentIdx.keys()).filter((id) => !keptIds.has(id));
+  for (let i = 0; i < stale.length; i += DELETE_BATCH) {
+    const { error: delErr } = await admin.from("kb_chunks").delete().eq("tenant_id", tenantId).in("id", stale.slice(i, i + DELETE_BATCH));
+    if (delErr) throw new Error(delErr.message);
+  }
+
+  const park: Array<{ id: string; patch: Record<string, unknown> }> = [];
+  const settle: Array<{ id: string; patch: Record<string, unknown> }> = [];
+  plan.reuse.forEach((id, idx) => {
+    if (!id) return;
+    const moves = currentIdx.get(id) !== idx;
+    park.push({ id, patch: { ...kept(idx), chunk_idx: moves ? -(idx + 1) : idx } });
+    if (moves) settle.push({ id, patch: { chunk_idx: idx } });
+  });
+  await updateConcurrently(tenantId, park);
+  await updateConcurrently(tenantId, settle);
+  return true;
+}
+
+/**
+ * Applies a plan like `applyChunkReuse`, but without touching the live rows until the whole version is ready: every
+ * position is staged in `kb_chunk_staging` (new rows with their embedding, kept rows with their new labels), then
+ * `kb_swap_in_staged_chunks` deletes, relabels and inserts in one transaction. A failed staging batch leaves the
+ * previous version serving. Returns false when a planned row no longer exists.
+ */
+export async function swapInChunks(params: {
+  tenantId: string;
+  docId: string;
+  jobId: string;
+  plan: ReusePlan;
+  kept: (idx: number) => Record<string, unknown>;
+  fresh: (idx: number) => Record<string, unknown>;
+}): Promise<boolean> {
+  const { tenantId, docId, jobId, plan, kept, fresh } = params;
+  const admin = await createAdminClient();
+  // Rows staged by an interrupted attempt are replaced, not added to
+  const { error: clearErr } = await admin.from("kb_chunk_staging").delete().eq("job_id", jobId);
+  if (clearErr) throw new Error(clearErr.message);
+
+  const staged = plan.reuse.map((id, idx) => ({
+    job_id: jobId,
+    tenant_id: tenantId,
+    doc_id: docId,
+    chunk_idx: idx,
+    reuse_id: id,
+    ...(id ? kept(idx) : fresh(idx)),
+  }));
+  for (let i = 0; i < staged.length; i += STAGE_BATCH) {
+    const { error } = await admin.from("kb_chunk_staging").insert(staged.slice(i, i + STAGE_BATCH));
+    if (error) throw new Error(error.message);
+  }
+
+  const { data, error } = await admin.rpc("kb_swap_in_staged_chunks", { j: jobId, t: tenantId, d: docId });
+  if (error) throw new Error(error.message);
+  if ((data as number) < 0) {
+    await admin.from("kb_chunk_staging").delete().eq("job_id", jobId);
+    return false;
+  }
+  return true;
+}
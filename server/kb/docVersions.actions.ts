@@ -0,0 +1,197 @@
+"use server";
+
+import "server-only";
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/server/supabase/server";
+import { createAdminClient } from "@/server/supabase/admin";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { getTenantSlug } from "@/lib/utils/tenant";
+import { getTenantBySlug } from "@/server/tenants/tenants.data";
+import { diffVersions, type SectionDiff, type VersionChunk } from "@/lib/kb/versionDiff";
+import { archiveLiveChunks, loadArchivedChunks, reinstateArchivedChunks, type DocVersionRow } from "@/server/kb/docVersions";
+import { replaceDocFields } from "@/server/kb/fieldIndex";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+
+export type DocVersionItem = Pick<DocVersionRow, "version" | "chunk_count" | "created_at" | "created_by" | "file_hash"> & { live: boolean };
+
+export type DocVersionsState = { ok: true; title: string; liveVersion: number; versions: DocVersionItem[] } | { ok: false; error: string };
+
+export type DocVersionDiffState =
+  | { ok: true; fromVersion: number; toVersion: number; sections: SectionDiff[] }
+  | { ok: false; error: string };
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+type DocRecord = { id: string; title: string; version: number; content_hash: string | null; original_path: string | null; created_at: string };
+
+const CHUNK_PAGE = 1000;
+
+async function resolveTenantId(): Promise<string | null> {
+  const slug = await getTenantSlug();
+  if (!slug) return null;
+  try {
+    return (await getTenantBySlug(slug)).id;
+  } catch {
+    return null;
+  }
+}
+
+async function loadDoc(supabase: SupabaseClient, tenantId: string, docId: string): Promise<DocRecord | null> {
+  const { data } = await supabase
+    .from("kb_docs")
+    .select("id, title, version, content_hash, original_path, created_at")
+    .eq("tenant_id", tenantId)
+    .eq("id", docId)
+    .maybeSingle<DocRecord>();
+  return data ?? null;
+}
+
+/** Chunk text of one version as the caller may see it (RLS on role visibility applies to both tables). */
+async function loadVersionChunks(supabase: SupabaseClient, tenantId: string, doc: DocRecord, version: number): Promise<VersionChunk[]> {
+  const out: VersionChunk[] = [];
+  for (let from = 0; ; from += CHUNK_PAGE) {
+    const query =
+      version === doc.version
+        ? supabase.from("kb_chunks").select("chunk_idx, title, content, metadata").eq("tenant_id", tenantId).eq("doc_id", doc.id)
+        : supabase.from("kb_doc_version_chunks").select("chunk_idx, title, content, metadata").eq("tenant_id", tenantId).eq("doc_id", doc.id).eq("version", version);
+    const { data, error } = await query.order("chunk_idx", { ascending: true }).range(from, from + CHUNK_PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data || []) as VersionChunk[]));
+    if (!data || data.length < CHUNK_PAGE) return out;
+  }
+}
+
+/** Version history of a document, newest first. Documents indexed before versioning show their live version only. */
+export async function listDocVersions(docId: string): Promise<DocVersionsState> {
+  const supabase = await createClient();
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!userData.user) return { ok: false, error: "401" };
+  const tenantId = await resolveTenantId();
+  if (!tenantId) return { ok: false, error: "404" };
+
+  const doc = await loadDoc(supabase, tenantId, docId);
+  if (!doc) return { ok: false, error: "Document not found" };
+  const { data, error } = await supabase
+    .from("kb_doc_versions")
+    .select("version, chunk_count, created_at, created_by, file_hash")
+    .eq("tenant_id", tenantId)
+    .eq("doc_id", docId)
+    .order("version", { ascending: false });
+  if (error) return { ok: false, error: error.message };
+
+  const versions = ((data || []) as Omit<DocVersionItem, "live">[]).map((v) => ({ ...v, live: v.version === doc.version }));
+  if (!versions.some((v) => v.live)) {
+    const { count } = await supabase.from("kb_chunks").select("id", { count: "exact", head: true }).eq("tenant_id", tenantId).eq("doc_id", docId);
+    versions.push({ version: doc.version, chunk_count: count ?? 0, created_at: doc.created_at, created_by: null, file_hash: null, live: true });
+    versions.sort((a, b) => b.version - a.version);
+  }
+  return { ok: true, title: doc.title, liveVersion: doc.version, versions };
+}
+
+/** Which sections changed from `fromVersion` to `toVersion`, with line-level changes. */
+export async function getDocVersionDiff(docId: string, fromVersion: number, toVersion: number): Promise<DocVersionDiffState> {
+  const supabase = await createClient();
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!userData.user) return { ok: false, error: "401" };
+  const tenantId = await resolveTenantId();
+  if (!tenantId) return { ok: false, error: "404" };
+  if (fromVersion === toVersion) return { ok: false, error: "Pick two different versions" };
+
+  const doc = await loadDoc(supabase, tenantId, docId);
+  if (!doc) return { ok: false, error: "Document not found" };
+  try {
+    const [from, to] = await Promise.all([loadVersionChunks(supabase, tenantId, doc, fromVersion), loadVersionChunks(supabase, tenantId, doc, toVersion)]);
+    if (from.length === 0 || to.length === 0) return { ok: false, error: `Version ${from.length === 0 ? fromVersion : toVersion} is not available` };
+    return { ok: true, fromVersion, toVersion, sections: diffVersions(from, to) };
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e.message : "Failed to compare versions" };
+  }
+}
+
+/**
+ * Makes an earlier version live again. Its chunks come back with their embeddings, so nothing is re-embedded;
+ * the version being replaced moves to the history. Refused while a new version is being processed, and for
+ * versions embedded with a model other than the tenant's current one.
+ */
+export async function restoreDocVersion(docId: string, version: number): Promise<ActionResult> {
+  const supabase = await createClient();
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!userData.user) return { ok: false, error: "401" };
+  const tenantId = await resolveTenantId();
+  if (!tenantId) return { ok: false, error: "404" };
+  try {
+    await requirePermission(tenantId, "kb.write");
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e.message : "403" };
+  }
+
+  const doc = await loadDoc(supabase, tenantId, docId);
+  if (!doc) return { ok: false, error: "Document not found" };
+  if (doc.version === version) return { ok: false, error: `Version ${version} is already live` };
+
+  const { data: activeJob } = await supabase
+    .from("kb_ingest_jobs")
+    .select("id")
+    .eq("tenant_id", tenantId)
+    .eq("doc_id", docId)
+    .in("status", ["pending", "processing"])
+    .limit(1)
+    .maybeSingle<{ id: string }>();
+  if (activeJob) return { ok: false, error: "A new version of this document is being processed" };
+
+  const admin = await createAdminClient();
+  const { data: target } = await admin
+    .from("kb_doc_versions")
+    .select("version, content_hash, file_hash, original_path")
+    .eq("tenant_id", tenantId)
+    .eq("doc_id", docId)
+    .eq("version", version)
+    .maybeSingle<Pick<DocVersionRow, "version" | "content_hash" | "file_hash" | "original_path">>();
+  if (!target) return { ok: false, error: "Version not found" };
+
+  try {
+    const chunks = await loadArchivedChunks(tenantId, docId, version);
+    if (chunks.length === 0) return { ok: false, error: "Version has no stored chunks" };
+    const { data: ragRow } = await admin.from("tenant_rag_settings").select("embedding_model").eq("tenant_id", tenantId).maybeSingle<{ embedding_model: string | null }>();
+    const currentModel = ragRow?.embedding_model ?? null;
+    const versionModel = ((chunks[0]!.metadata || {}) as Record<string, unknown>).embedding_model ?? null;
+    if (versionModel !== currentModel) return { ok: false, error: "This version was embedded with a different model; upload the file again instead" };
+
+    await archiveLiveChunks({ tenantId, docId, liveVersion: doc.version, incomingVersion: version, contentHash: doc.content_hash, originalPath: doc.original_path });
+    const { error: delErr } = await admin.from("kb_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId);
+    if (delErr) throw new Error(delErr.message);
+    await reinstateArchivedChunks({ tenantId, docId, version, chunks });
+    await admin
+      .from("kb_docs")
+      .update({ version, content_hash: target.content_hash, file_hash: target.file_hash, original_path: target.original_path, status: "ready", error: null })
+      .eq("tenant_id", tenantId)
+      .eq("id", docId);
+    await replaceDocFields({
+      tenantId,
+      docId,
+      allowedRoles: chunks[0]!.allowed_roles ?? ["admin"],
+      chunks: chunks.map((c) => ({ content: c.content, metadata: (c.metadata || {}) as Record<string, unknown> })),
+    });
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e.message : "Failed to restore version" };
+  }
+  await bumpKnowledgeGeneration(tenantId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: userData.user.id,
+      action: "kb.version_restore",
+      resource: "doc",
+      meta: { doc_id: docId, from_version: doc.version, to_version: version },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  try { revalidatePath("/knowledge"); } catch {}
+  return { ok: true };
+}
@@ -0,0 +1,191 @@
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Version history of uploaded documents.
+ *
+ * `kb_chunks` only ever holds the live version (`kb_docs.version`), so retrieval, citations and re-embedding are
+ * unaware of history. When another version goes live, the previous chunks are copied — embeddings included — to
+ * `kb_doc_version_chunks` (unchanged chunks then stay live, see `chunkReuse.ts`), and restoring moves them back
+ * without re-embedding. `kb_doc_versions` has one row per indexed version with its hashes, chunk count and
+ * retained original.
+ * - `KB_DOC_VERSIONS_KEEP` — archived versions kept per document (default 10); older ones are pruned
+ */
+
+const BUCKET = "knowledge-files";
+const PAGE = 500;
+const INSERT_BATCH = 100;
+
+export type DocVersionRow = {
+  id: string;
+  doc_id: string;
+  version: number;
+  content_hash: string | null;
+  file_hash: string | null;
+  original_path: string | null;
+  chunk_count: number;
+  created_by: string | null;
+  created_at: string;
+};
+
+type StoredChunk = {
+  chunk_idx: number;
+  title: string | null;
+  content: string;
+  embedding: string;
+  allowed_roles: string[] | null;
+  metadata: Json | null;
+};
+
+function keepVersions(): number {
+  return Math.max(1, Number(process.env.KB_DOC_VERSIONS_KEEP || 10));
+}
+
+/** Version number stamped on a chunk's metadata at indexing time; chunks indexed before versioning carry none. */
+export function chunkVersion(metadata: unknown): number | null {
+  const v = metadata && typeof metadata === "object" ? (metadata as Record<string, unknown>).version : undefined;
+  return typeof v === "number" ? v : null;
+}
+
+/** Next free version number; versions of failed uploads are never recorded, so numbers may be reused. */
+export async function nextDocVersion(tenantId: string, docId: string): Promise<number> {
+  const admin = await createAdminClient();
+  const [{ data: doc }, { data: latest }] = await Promise.all([
+    admin.from("kb_docs").select("version").eq("tenant_id", tenantId).eq("id", docId).maybeSingle<{ version: number }>(),
+    admin
+      .from("kb_doc_versions")
+      .select("version")
+      .eq("tenant_id", tenantId)
+      .eq("doc_id", docId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ version: number }>(),
+  ]);
+  return Math.max(doc?.version ?? 0, latest?.version ?? 0) + 1;
+}
+
+async function loadChunks(table: "kb_chunks" | "kb_doc_version_chunks", tenantId: string, docId: string, version?: number): Promise<StoredChunk[]> {
+  const admin = await createAdminClient();
+  const out: StoredChunk[] = [];
+  for (let from = 0; ; from += PAGE) {
+    let query = admin
+      .from(table)
+      .select("chunk_idx, title, content, embedding, allowed_roles, metadata")
+      .eq("tenant_id", tenantId)
+      .eq("doc_id", docId);
+    if (version !== undefined) query = query.eq("version", version);
+    const { data, error } = await query.order("chunk_idx", { ascending: true }).range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data || []) as StoredChunk[]));
+    if (!data || data.length < PAGE) return out;
+  }
+}
+
+async function insertBatched(table: "kb_chunks" | "kb_doc_version_chunks", rows: Record<string, unknown>[]): Promise<void> {
+  const admin = await createAdminClient();
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await admin.from(table).insert(rows.slice(i, i + INSERT_BATCH) as unknown as TablesInsert<"kb_chunks">[]);
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Copies the live chunks of `liveVersion` into the archive; `kb_chunks` is left as is.
+ * Safe to repeat: rows already stamped with `incomingVersion` are not archived, and an archive is only replaced
+ * when there is something to put in its place.
+ */
+export async function archiveLiveChunks(params: { tenantId: string; docId: string; liveVersion: number; incomingVersion: number; contentHash?: string | null; originalPath?: string | null }): Promise<number> {
+  const { tenantId, docId, liveVersion, incomingVersion } = params;
+  const admin = await createAdminClient();
+  const live = (await loadChunks("kb_chunks", tenantId, docId)).filter((c) => chunkVersion(c.metadata) !== incomingVersion);
+  if (live.length > 0) {
+    const { error: clearErr } = await admin.from("kb_doc_version_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId).eq("version", liveVersion);
+    if (clearErr) throw new Error(clearErr.message);
+    await insertBatched(
+      "kb_doc_version_chunks",
+      live.map((c) => ({ ...c, tenant_id: tenantId, doc_id: docId, version: liveVersion })),
+    );
+    // Documents indexed before versioning have no history row for their live version yet
+    await admin.from("kb_doc_versions").upsert(
+      {
+        tenant_id: tenantId,
+        doc_id: docId,
+        version: liveVersion,
+        chunk_count: live.length,
+        content_hash: params.contentHash ?? null,
+        original_path: params.originalPath ?? null,
+      } as TablesInsert<"kb_doc_versions">,
+      { onConflict: "doc_id,version", ignoreDuplicates: true },
+    );
+  }
+  return live.length;
+}
+
+/** Archived chunks of a version, ready to go live again (embeddings included). */
+export async function loadArchivedChunks(tenantId: string, docId: string, version: number): Promise<StoredChunk[]> {
+  return loadChunks("kb_doc_version_chunks", tenantId, docId, version);
+}
+
+/** Puts archived chunks back into `kb_chunks`, then drops them from the archive. Role changes are applied to the archive too. */
+export async function reinstateArchivedChunks(params: { tenantId: string; docId: string; version: number; chunks: StoredChunk[] }): Promise<void> {
+  const { tenantId, docId, version, chunks } = params;
+  const admin = await createAdminClient();
+  await insertBatched(
+    "kb_chunks",
+    chunks.map((c) => ({ ...c, tenant_id: tenantId, doc_id: docId })),
+  );
+  const { error } = await admin.from("kb_doc_version_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId).eq("version", version);
+  if (error) throw new Error(error.message);
+}
+
+export async function recordDocVersion(row: {
+  tenantId: string;
+  docId: string;
+  version: number;
+  contentHash: string | null;
+  fileHash: string | null;
+  originalPath: string | null;
+  chunkCount: number;
+  createdBy: string | null;
+}): Promise<void> {
+  const admin = await createAdminClient();
+  const { error } = await admin.from("kb_doc_versions").upsert(
+    {
+      tenant_id: row.tenantId,
+      doc_id: row.docId,
+      version: row.version,
+      content_hash: row.contentHash,
+      file_hash: row.fileHash,
+      original_path: row.originalPath,
+      chunk_count: row.chunkCount,
+      created_by: row.createdBy,
+    } as TablesInsert<"kb_doc_versions">,
+    { onConflict: "doc_id,version" },
+  );
+  if (error) throw new Error(error.message);
+}
+
+/** Drops archived versions beyond the retention limit, with their chunks and retained originals. */
+export async function pruneDocVersions(tenantId: string, docId: string, liveVersion: number): Promise<void> {
+  const admin = await createAdminClient();
+  const { data } = await admin
+    .from("kb_doc_versions")
+    .select("version, original_path")
+    .eq("tenant_id", tenantId)
+    .eq("doc_id", docId)
+    .neq("version", liveVersion)
+    .order("version", { ascending: false });
+  const stale = ((data || []) as Array<{ version: number; original_path: string | null }>).slice(keepVersions());
+  if (stale.length === 0) return;
+  const versions = stale.map((v) => v.version);
+  await admin.from("kb_doc_version_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId).in("version", versions);
+  await admin.from("kb_doc_versions").delete().eq("tenant_id", tenantId).eq("doc_id", docId).in("version", versions);
+  const paths = stale.map((v) => v.original_path).filter((p): p is string => Boolean(p));
+  if (paths.length > 0) {
+    try {
+      await admin.storage.from(BUCKET).remove(paths);
+    } catch {}
+  }
+}
@@ -0,0 +1,26 @@
+import "server-only";
+
+import { getKbEmbeddingDimensions } from "@/lib/kb/embed";
+import { createAdminClient } from "@/server/supabase/admin";
+
+/**
+ * Startup check that `KB_EMBEDDING_DIMENSIONS` matches the pgvector columns it describes (`kb_chunks.embedding` and
+ * `kb_chunks.embedding_next`). Every provider is validated against the env var, so a mismatch would otherwise only
+ * show up as failed inserts or queries. Called once from `instrumentation.ts`.
+ */
+export async function assertEmbeddingDimensions(): Promise<void> {
+  const expected = getKbEmbeddingDimensions();
+  const admin = await createAdminClient();
+  const { data, error } = await admin.rpc("kb_embedding_dimensions");
+  if (error) {
+    // Not provisioned (or the database is unreachable): nothing to compare against, so don't block startup
+    console.warn(`Could not read the knowledge index dimensions: ${error.message}`);
+    return;
+  }
+  const columns = (data ?? []) as Array<{ column_name: string; dimensions: number | null }>;
+  const mismatched = columns.filter((c) => c.dimensions !== null && c.dimensions !== expected);
+  if (mismatched.length) {
+    const found = mismatched.map((c) => `kb_chunks.${c.column_name} is vector(${c.dimensions})`).join(", ");
+    throw new Error(`KB_EMBEDDING_DIMENSIONS is ${expected} but ${found}; set it to the column's dimension`);
+  }
+}
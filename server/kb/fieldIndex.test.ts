@@ -0,0 +1,60 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { answerFromFieldIndex } from "./fieldIndex";
+
+type Field = { doc_id: string; chunk_idx: number; label: string; label_norm: string; value: string; page: number | null };
+
+/** Serves `kb_fields` filtered on `label_norm`, `kb_docs` titles and an empty synonym dictionary. */
+function fakeDb(fields: Field[], titles: Record<string, string>): SupabaseClient {
+  return {
+    from(table: string) {
+      let labels: string[] | null = null;
+      const rows = () => {
+        if (table === "kb_fields") return fields.filter((f) => !labels || labels.includes(f.label_norm));
+        if (table === "kb_docs") return Object.entries(titles).map(([id, title]) => ({ id, title }));
+        return [];
+      };
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        contains: () => chain,
+        order: () => chain,
+        limit: () => chain,
+        in: (column: string, values: string[]) => {
+          if (column === "label_norm") labels = values;
+          return chain;
+        },
+        then: (resolve: (v: { data: unknown; error: null }) => unknown) => Promise.resolve({ data: rows(), error: null }).then(resolve),
+      };
+      return chain;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const ACCOUNT: Field = { doc_id: "jan", chunk_idx: 0, label: "Account Number", label_norm: "account number", value: "12-3456-78", page: 1 };
+
+function ask(question: string, fields: Field[] = [ACCOUNT], titles: Record<string, string> = { jan: "January statement" }) {
+  return answerFromFieldIndex({ tenantId: "t1", roleKey: "member", question, db: fakeDb(fields, titles) });
+}
+
+describe("answerFromFieldIndex", () => {
+  it("answers a bare field question from the only document with the label", async () => {
+    const res = await ask("What is the account number?");
+    expect(res?.text).toBe("Account Number (January statement, page 1): 12-3456-78 [1]");
+    expect(res?.citations).toMatchObject([{ doc_id: "jan", snippet: "Account Number: 12-3456-78" }]);
+  });
+
+  it("answers when the other words match the document title", async () => {
+    const res = await ask("What's the account number on the Jan statement?");
+    expect(res?.text).toContain("12-3456-78");
+  });
+
+  it("leaves a question about something else to retrieval, even with a single labelled document", async () => {
+    expect(await ask("What does the policy say about the account number format?")).toBeNull();
+  });
+
+  it("leaves it to retrieval when the documents disagree and nothing picks one", async () => {
+    const feb = { ...ACCOUNT, doc_id: "feb", value: "99-0000-11" };
+    expect(await ask("What is the account number?", [ACCOUNT, feb], { jan: "January statement", feb: "February statement" })).toBeNull();
+  });
+});
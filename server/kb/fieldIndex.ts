@@ -0,0 +1,138 @@
+import "server-only";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/server/supabase/server";
+import { createAdminClient } from "@/server/supabase/admin";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+import {
+  DEFAULT_FIELD_SYNONYMS,
+  buildFieldRows,
+  buildSynonymIndex,
+  parseFieldQuestion,
+  residualTerms,
+  titleMatchScore,
+  type FieldSynonymGroup,
+} from "@/lib/kb/fields";
+import type { Citation } from "@/server/chat/answerPipeline";
+
+export type FieldSynonymRow = { id: string; tenant_id: string; canonical: string; aliases: string[]; created_at: string };
+
+const MAX_FIELDS_PER_DOC = 1000;
+const INSERT_BATCH = 500;
+/** Values listed in one field answer; more means the question needs narrowing */
+const MAX_ANSWER_VALUES = 3;
+
+export async function listFieldSynonyms(tenantId: string, db?: SupabaseClient): Promise<FieldSynonymRow[]> {
+  const supabase = db ?? (await createClient());
+  const { data, error } = await supabase
+    .from("kb_field_synonyms")
+    .select("id, tenant_id, canonical, aliases, created_at")
+    .eq("tenant_id", tenantId)
+    .order("canonical", { ascending: true });
+  if (error) return [];
+  return (data || []) as FieldSynonymRow[];
+}
+
+/** Built-in synonym groups plus the tenant's dictionary */
+export async function getFieldSynonymGroups(tenantId: string, db?: SupabaseClient): Promise<FieldSynonymGroup[]> {
+  const rows = await listFieldSynonyms(tenantId, db);
+  return [...DEFAULT_FIELD_SYNONYMS, ...rows.map((r) => ({ canonical: r.canonical, aliases: r.aliases || [] }))];
+}
+
+/** Replaces a document's field rows after (re-)indexing; rows carry the chunks' role visibility. */
+export async function replaceDocFields(params: {
+  tenantId: string;
+  docId: string;
+  allowedRoles: string[];
+  chunks: Array<{ content: string; metadata: Record<string, unknown> }>;
+}): Promise<number> {
+  const { tenantId, docId, allowedRoles, chunks } = params;
+  const admin = await createAdminClient();
+  const { error: delErr } = await admin.from("kb_fields").delete().eq("tenant_id", tenantId).eq("doc_id", docId);
+  if (delErr) throw new Error(delErr.message);
+  const rows = buildFieldRows(chunks)
+    .slice(0, MAX_FIELDS_PER_DOC)
+    .map((r) => ({
+      tenant_id: tenantId,
+      doc_id: docId,
+      chunk_idx: r.chunk_idx,
+      label: r.label,
+      label_norm: r.label_norm,
+      value: r.value,
+      page: r.page,
+      bboxes: r.bboxes as unknown as Json,
+      allowed_roles: allowedRoles,
+    })) as TablesInsert<"kb_fields">[];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await admin.from("kb_fields").insert(rows.slice(i, i + INSERT_BATCH));
+    if (error) throw new Error(error.message);
+  }
+  return rows.length;
+}
+
+type FieldHit = { doc_id: string; chunk_idx: number; label: string; label_norm: string; value: string; page: number | null };
+
+/**
+ * Answers an exact-field question ("what's the account number on the Jan statement") from `kb_fields`.
+ * The most specific mentioned label wins; leftover question words must match a document title and pick one
+ * (or every candidate must agree on the value). Returns null when nothing matches or the match is
+ * ambiguous, and the caller falls back to hybrid retrieval.
+ */
+export async function answerFromFieldIndex(params: { tenantId: string; roleKey: string; question: string; db?: SupabaseClient }): Promise<{ text: string; citations: Citation[] } | null> {
+  const { tenantId, roleKey, question, db } = params;
+  try {
+    const synonyms = buildSynonymIndex(await getFieldSynonymGroups(tenantId, db));
+    const parsed = parseFieldQuestion(question, synonyms);
+    if (!parsed) return null;
+
+    const supabase = db ?? (await createClient());
+    const { data, error } = await supabase
+      .from("kb_fields")
+      .select("doc_id, chunk_idx, label, label_norm, value, page")
+      .eq("tenant_id", tenantId)
+      .contains("allowed_roles", [roleKey])
+      .in("label_norm", parsed.labels)
+      .limit(200);
+    if (error || !data || data.length === 0) return null;
+
+    const hits = data as FieldHit[];
+    const specificity = (h: FieldHit) => h.label_norm.split(" ").length;
+    const maxSpecificity = Math.max(...hits.map(specificity));
+    const labelHits = hits.filter((h) => specificity(h) === maxSpecificity);
+
+    const docIds = Array.from(new Set(labelHits.map((h) => h.doc_id)));
+    const { data: docs } = await supabase.from("kb_docs").select("id, title").eq("tenant_id", tenantId).in("id", docIds);
+    const titles = new Map((docs || []).map((d: { id: string; title: string }) => [d.id, d.title]));
+
+    const terms = residualTerms(parsed.words, labelHits[0]!.label_norm, synonyms);
+    const scored = labelHits.map((h) => ({ ...h, title: titles.get(h.doc_id) ?? null, docScore: titleMatchScore(titles.get(h.doc_id) ?? null, terms) }));
+    const best = Math.max(...scored.map((h) => h.docScore));
+    // The question says more than the label ("feb statement", "what the policy says about its format") and no
+    // document title matches it: let retrieval handle it, even when only one document has the label
+    if (terms.length > 0 && best === 0) return null;
+    const candidates = scored.filter((h) => h.docScore === best).sort((a, b) => (a.doc_id === b.doc_id ? (a.page ?? 0) - (b.page ?? 0) : (a.title || "").localeCompare(b.title || "")));
+
+    const distinctValues = new Set(candidates.map((h) => h.value));
+    const distinctDocs = new Set(candidates.map((h) => h.doc_id));
+    if (distinctDocs.size > 1 && distinctValues.size > 1) return null;
+    if (distinctValues.size > MAX_ANSWER_VALUES) return null;
+
+    const picked: typeof candidates = [];
+    for (const h of candidates) if (!picked.some((p) => p.value === h.value)) picked.push(h);
+
+    const citations: Citation[] = picked.map((h) => ({
+      doc_id: h.doc_id,
+      chunk_idx: h.chunk_idx,
+      title: h.title,
+      source_uri: null,
+      snippet: `${h.label}: ${h.value}`,
+      score: 1,
+    }));
+    const describe = (h: (typeof picked)[number], i: number) =>
+      `${h.label.replace(/[:#]\s*$/, "").trim()} (${h.title || "Untitled"}${h.page ? `, page ${h.page}` : ""}): ${h.value} [${i + 1}]`;
+    const text = picked.length === 1 ? describe(picked[0]!, 0) : picked.map((h, i) => `- ${describe(h, i)}`).join("\n");
+    return { text, citations };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,76 @@
+"use server";
+
+import "server-only";
+import { createClient } from "@/server/supabase/server";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { normalizeFieldLabel } from "@/lib/kb/fields";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+const MAX_ALIASES = 20;
+
+export type CreateFieldSynonymInput = { tenantId: string; canonical: string; aliases: string[] };
+
+/** Keyword expansion reads the dictionary too, so cached retrievals are invalidated on every change. */
+export async function createFieldSynonymAction(input: CreateFieldSynonymInput): Promise<ActionResult> {
+  const { tenantId } = input;
+  const canonical = (input.canonical || "").trim();
+  if (!tenantId || !canonical) return { ok: false, error: "Missing input" };
+  const canonicalNorm = normalizeFieldLabel(canonical);
+  if (!canonicalNorm) return { ok: false, error: "Field name must contain letters or digits" };
+  const aliases = Array.from(new Set((input.aliases || []).map((a) => a.trim()).filter((a) => a && normalizeFieldLabel(a) && normalizeFieldLabel(a) !== canonicalNorm)));
+  if (aliases.length === 0) return { ok: false, error: "Add at least one synonym" };
+  if (aliases.length > MAX_ALIASES) return { ok: false, error: `At most ${MAX_ALIASES} synonyms per field` };
+  await requirePermission(tenantId, "settings.manage");
+
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const { error } = await supabase
+    .from("kb_field_synonyms")
+    .insert({ tenant_id: tenantId, canonical, aliases, created_by: user.id } as TablesInsert<"kb_field_synonyms">);
+  if (error) return { ok: false, error: error.code === "23505" ? "A synonym group for this field already exists" : error.message };
+  await bumpKnowledgeGeneration(tenantId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.field_synonyms.create",
+      resource: "settings",
+      meta: { canonical, aliases: aliases.length },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
+
+export async function deleteFieldSynonymAction(input: { tenantId: string; id: string }): Promise<ActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const { error } = await supabase.from("kb_field_synonyms").delete().eq("tenant_id", tenantId).eq("id", id);
+  if (error) return { ok: false, error: error.message };
+  await bumpKnowledgeGeneration(tenantId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.field_synonyms.delete",
+      resource: "settings",
+      meta: { id },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
@@ -0,0 +1,508 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import { createAdminClient } from "@/server/supabase/admin";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+import { extractTextAndSections, hashContent, IMAGE_EXTENSIONS, type Section } from "@/lib/kb/extract";
+import { chunkContent, formatBreadcrumb, resolveChunkOptions, type ChunkOptions } from "@/lib/kb/chunk";
+import { embedChunks } from "@/lib/kb/embed";
+import { extractImageLayout, extractPdfLayout, chunkLinesToLayoutChunks, type KvCandidate, type PdfLayoutTable, type PdfLine } from "@/lib/kb/pdfLayout";
+import { isReembedJob, runReembedBatch } from "@/server/kb/reembed";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { replaceDocFields } from "@/server/kb/fieldIndex";
+import { archiveLiveChunks, pruneDocVersions, recordDocVersion } from "@/server/kb/docVersions";
+import { planChunkReuse, swapInChunks, type ReusePlan } from "@/server/kb/chunkReuse";
+import { emitWebhookEvent } from "@/server/webhooks/webhooks";
+
+/**
+ * Durable worker for `kb_ingest_jobs`.
+ *
+ * Jobs are claimed with `kb_claim_ingest_jobs`, which hands out a lease (`worker_id`, `lease_expires_at`);
+ * a job whose lease expired (crashed or timed-out worker) becomes claimable again.
+ * Upload jobs advance `queued → extracting → chunking → embedding → indexing → done`. Each step writes its
+ * output under `jobs/<jobId>/` in the `knowledge-files` bucket, so a retried job resumes at its current step.
+ * A re-upload only embeds chunks whose text changed; unchanged chunks keep their live rows (`chunkReuse.ts`).
+ * Re-embed jobs (`metadata.kind = "reembed"`) are driven through `runReembedBatch` under the same lease.
+ */
+
+const BUCKET = "knowledge-files";
+const EMBED_BATCH = 64;
+
+type IngestJob = {
+  id: string;
+  tenant_id: string;
+  doc_id: string | null;
+  source_id: string | null;
+  status: string;
+  step: string | null;
+  filename: string | null;
+  storage_path: string | null;
+  total_bytes: number | null;
+  allowed_roles: string[] | null;
+  metadata: Json | null;
+  retry_count: number;
+  max_retries: number;
+};
+
+type ExtractArtifact =
+  | { kind: "pdf"; text: string; pageCount: number; lines: PdfLine[]; kv_candidates: KvCandidate[]; tables?: PdfLayoutTable[]; fileExt?: string; ocrPages?: number[] }
+  | { kind: "text"; text: string; fileExt: string; sections: Section[] };
+
+type ChunkArtifact = {
+  contentHash: string;
+  chunks: Array<{ title: string | null; content: string; metadata: Record<string, unknown> }>;
+};
+
+export type WorkerRunResult = { claimed: number; done: number; retried: number; failed: number; yielded: number };
+
+class LeaseLostError extends Error {}
+class CanceledError extends Error {}
+class YieldError extends Error {}
+
+function leaseSeconds(): number {
+  return Number(process.env.INGEST_LEASE_SECONDS || 300);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Embedding provider throttling/outages and network resets are retried; everything else fails the job. */
+export function isTransientError(e: unknown): boolean {
+  const msg = e instanceof Error ? e.message : String(e);
+  if (/\((?:openai|azure|local) (?:408|409|425|429|5\d\d)\)/.test(msg)) return true;
+  return /fetch failed|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up|network/i.test(msg);
+}
+
+/** 2^n minutes, capped at one hour. */
+function backoffMs(retryCount: number): number {
+  return Math.min(60, Math.pow(2, retryCount)) * 60_000;
+}
+
+function artifactPath(jobId: string, name: string): string {
+  return `jobs/${jobId}/${name}.json`;
+}
+
+async function writeArtifact(jobId: string, name: string, value: unknown): Promise<void> {
+  const admin = await createAdminClient();
+  const { error } = await admin.storage
+    .from(BUCKET)
+    .upload(artifactPath(jobId, name), Buffer.from(JSON.stringify(value)), { contentType: "application/json", upsert: true });
+  if (error) throw new Error(`Failed to store ${name}: ${error.message}`);
+}
+
+async function readArtifact<T>(jobId: string, name: string): Promise<T | null> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin.storage.from(BUCKET).download(artifactPath(jobId, name));
+  if (error || !data) return null;
+  return JSON.parse(await data.text()) as T;
+}
+
+async function removeArtifacts(jobId: string, names: string[]): Promise<void> {
+  const admin = await createAdminClient();
+  const { error } = await admin.storage.from(BUCKET).remove(names.map((n) => artifactPath(jobId, n)));
+  if (error) throw new Error(`Failed to reset ${names.join(", ")}: ${error.message}`);
+}
+
+/** `keepUpload` leaves the uploaded file in place when the document now owns it (`kb_docs.original_path`). */
+async function removeJobFiles(job: IngestJob, keepUpload = false): Promise<void> {
+  const admin = await createAdminClient();
+  const paths = ["extract", "chunks", "reuse", "embeddings", "archived"].map((n) => artifactPath(job.id, n));
+  if (job.storage_path && !keepUpload) paths.push(job.storage_path);
+  try {
+    await admin.storage.from(BUCKET).remove(paths);
+  } catch {}
+  // Chunks staged for a cut-over that never happened
+  await admin.from("kb_chunk_staging").delete().eq("job_id", job.id);
+}
+
+export async function claimIngestJobs(workerId: string, limit: number, onlyJobId?: string): Promise<IngestJob[]> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin.rpc("kb_claim_ingest_jobs", {
+    worker: workerId,
+    job_limit: limit,
+    lease_seconds: leaseSeconds(),
+    only_job: onlyJobId ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return (data || []) as IngestJob[];
+}
+
+/**
+ * Persists progress and extends the lease. Throws when another worker took the job over
+ * (our lease expired) or a cancel was requested.
+ */
+async function heartbeat(job: IngestJob, workerId: string, patch: Record<string, unknown> = {}): Promise<void> {
+  const admin = await createAdminClient();
+  const leaseUntil = new Date(Date.now() + leaseSeconds() * 1000).toISOString();
+  const { data, error } = await admin
+    .from("kb_ingest_jobs")
+    .update({ ...patch, lease_expires_at: leaseUntil, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("worker_id", workerId)
+    .eq("status", "processing")
+    .select("cancel_requested")
+    .maybeSingle<{ cancel_requested: boolean }>();
+  if (error) throw new Error(error.message);
+  if (!data) throw new LeaseLostError("lease lost");
+  if (data.cancel_requested) throw new CanceledError("Canceled");
+  if (typeof patch.step === "string") job.step = patch.step;
+}
+
+async function finishJob(job: IngestJob, workerId: string, patch: Record<string, unknown>): Promise<void> {
+  const admin = await createAdminClient();
+  const now = new Date().toISOString();
+  await admin
+    .from("kb_ingest_jobs")
+    .update({ ...patch, worker_id: null, lease_expires_at: null, updated_at: now })
+    .eq("id", job.id)
+    .eq("worker_id", workerId);
+}
+
+/** A re-upload of a document that is serving a version: the document stays `ready` until cut-over, whatever the job does. */
+function keepsServing(job: IngestJob): boolean {
+  return (job.metadata as Record<string, unknown> | null)?.keepsServing === true;
+}
+
+async function setDocStatus(job: IngestJob, patch: Record<string, unknown>): Promise<void> {
+  if (!job.doc_id) return;
+  const admin = await createAdminClient();
+  await admin.from("kb_docs").update(patch).eq("id", job.doc_id).eq("tenant_id", job.tenant_id);
+}
+
+async function embedWithRetry(texts: string[], model: string | null): Promise<number[][]> {
+  const attempts = 3;
+  for (let i = 0; ; i++) {
+    try {
+      return await embedChunks(texts, model);
+    } catch (e) {
+      if (i + 1 >= attempts || !isTransientError(e)) throw e;
+      await sleep(1000 * Math.pow(2, i));
+    }
+  }
+}
+
+function jobFileExt(job: IngestJob): string {
+  const fileName = job.filename || job.storage_path || "";
+  return (fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || "").toLowerCase();
+}
+
+/** PDFs and scans keep their original so citations can show the page with the cited lines highlighted */
+function keepsOriginal(job: IngestJob): boolean {
+  const ext = jobFileExt(job);
+  return Boolean(job.storage_path) && (ext === "pdf" || IMAGE_EXTENSIONS.has(ext));
+}
+
+async function stepExtract(job: IngestJob, workerId: string): Promise<void> {
+  await heartbeat(job, workerId, { step: "extracting" });
+  if (!job.storage_path) throw new Error("Uploaded file is missing from storage");
+  const admin = await createAdminClient();
+  const { data: blob, error } = await admin.storage.from(BUCKET).download(job.storage_path);
+  if (error || !blob) throw new Error(`Failed to download upload: ${error?.message || "not found"}`);
+  const buffer = Buffer.from(await blob.arrayBuffer());
+  const fileName = job.filename || job.storage_path;
+  const ext = jobFileExt(job);
+
+  let artifact: ExtractArtifact;
+  if (ext === "pdf") {
+    try {
+      const { lines, text, pageCount, kv_candidates, tables, ocrPages } = await extractPdfLayout(buffer);
+      artifact = { kind: "pdf", text, pageCount, lines, kv_candidates, tables, fileExt: ext, ocrPages };
+    } catch (pdfError) {
+      throw new Error(`PDF processing failed: ${pdfError instanceof Error ? pdfError.message : "Unknown PDF error"}`);
+    }
+  } else if (IMAGE_EXTENSIONS.has(ext)) {
+    // Scans go through the same layout pipeline as PDFs, with OCR tokens
+    try {
+      const { lines, text, pageCount, kv_candidates, tables, ocrPages } = await extractImageLayout(buffer);
+      artifact = { kind: "pdf", text, pageCount, lines, kv_candidates, tables, fileExt: ext, ocrPages };
+    } catch (ocrError) {
+      throw new Error(`Image OCR failed: ${ocrError instanceof Error ? ocrError.message : "Unknown OCR error"}`);
+    }
+  } else {
+    const { text, sections, fileExt } = await extractTextAndSections(buffer, fileName);
+    artifact = { kind: "text", text, fileExt, sections };
+  }
+  if (!artifact.text.trim()) throw new Error("No extractable text content");
+  await writeArtifact(job.id, "extract", artifact);
+  await heartbeat(job, workerId, { step: "chunking", processed_bytes: job.total_bytes });
+}
+
+async function stepChunk(job: IngestJob, workerId: string, embeddingModel: string | null, chunkOptions: ChunkOptions): Promise<void> {
+  await heartbeat(job, workerId, { step: "chunking" });
+  const extracted = await readArtifact<ExtractArtifact>(job.id, "extract");
+  if (!extracted) {
+    // Artifact lost (bucket cleanup); redo extraction
+    await heartbeat(job, workerId, { step: "extracting" });
+    return;
+  }
+  const contentHash = await hashContent(extracted.text);
+  let chunks: ChunkArtifact["chunks"];
+  if (extracted.kind === "pdf") {
+    const layoutChunks = await chunkLinesToLayoutChunks(extracted.lines, extracted.kv_candidates, chunkOptions.targetTokens, extracted.tables ?? []);
+    chunks = layoutChunks.map((c) => ({
+      title: null,
+      content: c.content,
+      metadata: { sectionIndex: c.sectionIndex, fileExt: extracted.fileExt ?? "pdf", ocr: (extracted.ocrPages ?? []).some((p) => p >= c.meta.page_start && p <= c.meta.page_end), page_start: c.meta.page_start, page_end: c.meta.page_end, bbox_union: c.meta.bbox_union, kv_candidates: c.meta.kv_candidates, line_bboxes: c.meta.line_bboxes, bbox_origin: "top-left", tables: c.meta.tables, embedding_model: embeddingModel },
+    }));
+  } else {
+    chunks = chunkContent(extracted.sections, chunkOptions).map((c) => ({
+      title: c.title ?? null,
+      content: c.content,
+      metadata: { sectionIndex: c.sectionIndex, fileExt: extracted.fileExt, heading_path: c.headingPath, breadcrumb: formatBreadcrumb(c.headingPath) || null, token_count: c.tokens, embedding_model: embeddingModel },
+    }));
+  }
+  // Per-chunk hashes let a later re-upload keep the embeddings of unchanged chunks
+  for (const c of chunks) c.metadata.contentHash = await hashContent(c.content);
+  await writeArtifact(job.id, "chunks", { contentHash, chunks } satisfies ChunkArtifact);
+  await heartbeat(job, workerId, { step: "embedding", total_chunks: chunks.length, processed_chunks: 0 });
+}
+
+async function stepEmbed(job: IngestJob, workerId: string, embeddingModel: string | null, deadline: number): Promise<void> {
+  const chunked = await readArtifact<ChunkArtifact>(job.id, "chunks");
+  if (!chunked) {
+    await heartbeat(job, workerId, { step: "chunking" });
+    return;
+  }
+  let plan = await readArtifact<ReusePlan>(job.id, "reuse");
+  if (!plan) {
+    plan = job.doc_id ? await planChunkReuse({ tenantId: job.tenant_id, docId: job.doc_id, chunks: chunked.chunks, embeddingModel }) : { reuse: chunked.chunks.map(() => null) };
+    await writeArtifact(job.id, "reuse", plan);
+  }
+  const reused = plan.reuse.filter(Boolean).length;
+  // Resume from previously stored vectors; `null` marks a chunk that keeps its live row and embedding
+  const embeddings = (await readArtifact<Array<number[] | null>>(job.id, "embeddings")) ?? [];
+  const texts = chunked.chunks.map((c) => c.content);
+  while (embeddings.length < texts.length) {
+    if (Date.now() > deadline) throw new YieldError("budget exhausted");
+    const pending: number[] = [];
+    for (let i = embeddings.length; i < texts.length && pending.length < EMBED_BATCH; i++) if (!plan.reuse[i]) pending.push(i);
+    const vectors = pending.length > 0 ? await embedWithRetry(pending.map((i) => texts[i]!), embeddingModel) : [];
+    const end = pending.length > 0 ? pending[pending.length - 1]! + 1 : texts.length;
+    let next = 0;
+    for (let i = embeddings.length; i < end; i++) embeddings.push(plan.reuse[i] ? null : vectors[next++]!);
+    await writeArtifact(job.id, "embeddings", embeddings);
+    await heartbeat(job, workerId, {
+      step: "embedding",
+      processed_chunks: embeddings.length,
+      total_chunks: texts.length,
+      reused_chunks: reused,
+      embedded_chunks: embeddings.filter(Boolean).length,
+    });
+  }
+  await heartbeat(job, workerId, { step: "indexing", reused_chunks: reused, embedded_chunks: texts.length - reused });
+}
+
+/** Returns the indexed chunk count and how many of them kept their previous embedding, or null to go back a step. */
+async function stepIndex(job: IngestJob, workerId: string): Promise<{ count: number; reused: number } | null> {
+  const [chunked, embeddings, storedPlan] = await Promise.all([
+    readArtifact<ChunkArtifact>(job.id, "chunks"),
+    readArtifact<Array<number[] | null>>(job.id, "embeddings"),
+    readArtifact<ReusePlan>(job.id, "reuse"),
+  ]);
+  if (!chunked || !embeddings || embeddings.length !== chunked.chunks.length) {
+    await heartbeat(job, workerId, { step: "embedding", processed_chunks: embeddings?.length ?? 0 });
+    return null;
+  }
+  if (!job.doc_id) throw new Error("Job has no document");
+  const admin = await createAdminClient();
+  const meta = (job.metadata || {}) as Record<string, unknown>;
+  const { data: doc } = await admin
+    .from("kb_docs")
+    .select("version, content_hash, original_path")
+    .eq("id", job.doc_id)
+    .maybeSingle<{ version: number; content_hash: string | null; original_path: string | null }>();
+  if (!doc) throw new Error("Document no longer exists");
+  // Jobs queued before versioning carry no target version; their document was bumped at upload time
+  const version = typeof meta.version === "number" ? meta.version : doc.version;
+  const allowedRoles = Array.isArray(job.allowed_roles) ? job.allowed_roles : ["admin"];
+  const plan = storedPlan ?? { reuse: chunked.chunks.map(() => null) };
+  const reused = plan.reuse.filter(Boolean).length;
+
+  // The previous version kept serving until now; a copy goes to the version history before the live rows change.
+  // The marker keeps a retry from archiving the already swapped-in rows over that copy.
+  if (doc.version !== version && !(await readArtifact<boolean>(job.id, "archived"))) {
+    await archiveLiveChunks({ tenantId: job.tenant_id, docId: job.doc_id, liveVersion: doc.version, incomingVersion: version, contentHash: doc.content_hash, originalPath: doc.original_path });
+    await writeArtifact(job.id, "archived", true);
+  }
+  // Staged, then swapped in by one RPC: a failure before cut-over leaves the previous version's rows serving
+  const applied = await swapInChunks({
+    tenantId: job.tenant_id,
+    docId: job.doc_id,
+    jobId: job.id,
+    plan,
+    kept: (idx) => ({ title: chunked.chunks[idx]!.title, allowed_roles: allowedRoles, metadata: { ...chunked.chunks[idx]!.metadata, version } }),
+    fresh: (idx) => ({
+      title: chunked.chunks[idx]!.title,
+      content: chunked.chunks[idx]!.content,
+      embedding: JSON.stringify(embeddings[idx]),
+      allowed_roles: allowedRoles,
+      metadata: { ...chunked.chunks[idx]!.metadata, version },
+    }),
+  });
+  if (!applied) {
+    // A planned row disappeared (e.g. a restore ran in between); plan again and embed what is missing
+    await removeArtifacts(job.id, ["reuse", "embeddings"]);
+    await heartbeat(job, workerId, { step: "embedding", processed_chunks: 0, reused_chunks: 0, embedded_chunks: 0 });
+    return null;
+  }
+  // Label/value pairs of layout chunks feed the exact-field answer path
+  await replaceDocFields({ tenantId: job.tenant_id, docId: job.doc_id, allowedRoles, chunks: chunked.chunks });
+  // Originals of earlier versions stay with their history rows until pruned
+  const originalPath = keepsOriginal(job) ? job.storage_path : null;
+  const fileHash = typeof meta.fileHash === "string" ? meta.fileHash : null;
+  await recordDocVersion({
+    tenantId: job.tenant_id,
+    docId: job.doc_id,
+    version,
+    contentHash: chunked.contentHash,
+    fileHash,
+    originalPath,
+    chunkCount: chunked.chunks.length,
+    createdBy: typeof meta.uploadedBy === "string" ? meta.uploadedBy : null,
+  });
+  await setDocStatus(job, { status: "ready", version, content_hash: chunked.contentHash, file_hash: fileHash, error: null, original_path: originalPath });
+  await pruneDocVersions(job.tenant_id, job.doc_id, version);
+  await bumpKnowledgeGeneration(job.tenant_id);
+  return { count: chunked.chunks.length, reused };
+}
+
+async function processUploadJob(job: IngestJob, workerId: string, deadline: number): Promise<"done" | "yield"> {
+  const startedAt = Date.now();
+  const admin = await createAdminClient();
+  const { data: ragRow } = await admin
+    .from("tenant_rag_settings")
+    .select("embedding_model, chunk_target_tokens, chunk_overlap_tokens")
+    .eq("tenant_id", job.tenant_id)
+    .maybeSingle<{ embedding_model: string | null; chunk_target_tokens: number | null; chunk_overlap_tokens: number | null }>();
+  const embeddingModel = ragRow?.embedding_model ?? null;
+  const chunkOptions = resolveChunkOptions(ragRow);
+
+  if (!keepsServing(job)) await setDocStatus(job, { status: "processing", error: null });
+  for (;;) {
+    if (Date.now() > deadline) return "yield";
+    switch (job.step) {
+      case null:
+      case "queued":
+      case "uploading":
+      case "extracting":
+        await stepExtract(job, workerId);
+        break;
+      case "chunking":
+        await stepChunk(job, workerId, embeddingModel, chunkOptions);
+        break;
+      case "embedding":
+        await stepEmbed(job, workerId, embeddingModel, deadline);
+        break;
+      case "indexing": {
+        const indexed = await stepIndex(job, workerId);
+        if (!indexed) break;
+        const { count, reused } = indexed;
+        await finishJob(job, workerId, {
+          status: "done",
+          step: "done",
+          error: null,
+          processed_bytes: job.total_bytes,
+          processed_chunks: count,
+          total_chunks: count,
+          reused_chunks: reused,
+          embedded_chunks: count - reused,
+          completed_at: new Date().toISOString(),
+          storage_path: null,
+          notes: keepsOriginal(job) ? "Original retained for citation page view" : "Storage file cleaned up after successful processing",
+        });
+        await removeJobFiles(job, keepsOriginal(job));
+        const meta = (job.metadata || {}) as Record<string, unknown>;
+        try {
+          await admin.from("audit_logs").insert({
+            tenant_id: job.tenant_id,
+            actor_user_id: typeof meta.uploadedBy === "string" ? meta.uploadedBy : null,
+            action: "kb.ingest",
+            resource: "doc",
+            meta: { doc_id: job.doc_id, source_id: job.source_id, chunk_count: count, reused_chunks: reused, elapsed_ms: Date.now() - startedAt, attempts: job.retry_count + 1 },
+          } as unknown as TablesInsert<"audit_logs">);
+        } catch {}
+        await emitWebhookEvent(job.tenant_id, "kb.doc.ready", { doc_id: job.doc_id, source_id: job.source_id, filename: job.filename, chunk_count: count });
+        return "done";
+      }
+      default:
+        throw new Error(`Unknown job step "${job.step}"`);
+    }
+  }
+}
+
+async function processReembedJob(job: IngestJob, workerId: string, deadline: number): Promise<"done" | "yield"> {
+  while (Date.now() < deadline) {
+    const res = await runReembedBatch(job.id);
+    if (!res.ok) throw new Error(res.error);
+    if (res.done) {
+      await finishJob(job, workerId, { completed_at: new Date().toISOString() });
+      return "done";
+    }
+    await heartbeat(job, workerId);
+  }
+  return "yield";
+}
+
+/** Runs one claimed job until it finishes, fails, or the time budget runs out. */
+async function processClaimedJob(job: IngestJob, workerId: string, deadline: number): Promise<"done" | "retried" | "failed" | "yielded"> {
+  try {
+    const outcome = isReembedJob(job.metadata)
+      ? await processReembedJob(job, workerId, deadline)
+      : await processUploadJob(job, workerId, deadline);
+    if (outcome === "yield") {
+      // Hand the lease back; next run continues at the stored step
+      await finishJob(job, workerId, { status: "pending", scheduled_at: new Date().toISOString() });
+      return "yielded";
+    }
+    return "done";
+  } catch (e) {
+    if (e instanceof LeaseLostError) return "yielded";
+    if (e instanceof YieldError) {
+      await finishJob(job, workerId, { status: "pending", scheduled_at: new Date().toISOString() });
+      return "yielded";
+    }
+    const message = e instanceof Error ? e.message : "Ingest failed";
+    if (e instanceof CanceledError) {
+      await finishJob(job, workerId, { status: "canceled", step: "canceled", error: null });
+      if (!isReembedJob(job.metadata)) {
+        if (!keepsServing(job)) await setDocStatus(job, { status: "error", error: "Canceled" });
+        await removeJobFiles(job);
+      }
+      return "failed";
+    }
+    if (isTransientError(e) && job.retry_count < job.max_retries) {
+      await finishJob(job, workerId, {
+        status: "pending",
+        retry_count: job.retry_count + 1,
+        scheduled_at: new Date(Date.now() + backoffMs(job.retry_count)).toISOString(),
+        error: message,
+      });
+      return "retried";
+    }
+    await finishJob(job, workerId, { status: "error", step: "error", error: message, completed_at: new Date().toISOString() });
+    if (!isReembedJob(job.metadata)) {
+      if (!keepsServing(job)) await setDocStatus(job, { status: "error", error: message });
+      await removeJobFiles(job);
+      await emitWebhookEvent(job.tenant_id, "kb.doc.failed", { doc_id: job.doc_id, source_id: job.source_id, filename: job.filename, error: message, attempts: job.retry_count + 1 });
+    }
+    return "failed";
+  }
+}
+
+/**
+ * Claims and processes jobs one at a time until `budgetMs` elapses or the queue is empty.
+ * With `jobId`, only that job is considered (used to start an upload right after enqueueing).
+ */
+export async function runIngestWorker(opts: { budgetMs: number; jobId?: string }): Promise<WorkerRunResult> {
+  const workerId = `worker-${randomUUID()}`;
+  const deadline = Date.now() + opts.budgetMs;
+  const result: WorkerRunResult = { claimed: 0, done: 0, retried: 0, failed: 0, yielded: 0 };
+  while (Date.now() < deadline) {
+    const [job] = await claimIngestJobs(workerId, 1, opts.jobId);
+    if (!job) break;
+    result.claimed++;
+    const outcome = await processClaimedJob(job, workerId, deadline);
+    result[outcome]++;
+    if (opts.jobId) break;
+  }
+  return result;
+}
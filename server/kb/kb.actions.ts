@@ -1,20 +1,41 @@
 "use server";
 import { createClient } from "@/server/supabase/server";
+import { createAdminClient } from "@/server/supabase/admin";
 import { requirePermission } from "@/lib/utils/requirePermission";
 import { getTenantSlug } from "@/lib/utils/tenant";
 import { getTenantBySlug } from "@/server/tenants/tenants.data";
 import type { TablesInsert } from "@/lib/types/database.types";
-import { extractTextAndSections, hashContent } from "@/lib/kb/extract";
-import { chunkContent } from "@/lib/kb/chunk";
-import { embedChunks } from "@/lib/kb/embed";
-import { extractPdfLayout, chunkLinesToLayoutChunks } from "@/lib/kb/pdfLayout";
+import { hashContent, unsupportedFileReason } from "@/lib/kb/extract";
+import { runIngestWorker } from "@/server/kb/ingestWorker";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { nextDocVersion } from "@/server/kb/docVersions";
 import { revalidatePath } from "next/cache";
+import { after } from "next/server";
 
 
-export type UploadState = { ok: boolean; error?: string; jobId?: string; docId?: string };
+/**
+ * `duplicateOf` is set instead of `jobId` when the tenant already has the exact same file; nothing is re-processed.
+ * Its `allowedRoles` are the document's own: the roles chosen for the upload are not applied, and `rolesNotApplied` says
+ * when they differ (change them with `updateDocumentRoles`).
+ */
+export type UploadState = {
+  ok: boolean;
+  error?: string;
+  jobId?: string;
+  docId?: string;
+  duplicateOf?: { docId: string; title: string; allowedRoles: string[] | null };
+  rolesNotApplied?: boolean;
+};
 
 const MAX_FILE_BYTES = 50 * 1024 * 1024; // 50MB (Supabase global limit)
 
+/** Role lists compare as sets; an unknown list (no live chunks yet) never matches. */
+function sameRoles(a: string[] | null, b: string[]): boolean {
+  if (!a) return false;
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((r) => set.has(r));
+}
+
 export async function uploadAndIngest(prev: UploadState | undefined, formData: FormData): Promise<UploadState> {
   console.log("🚀 uploadAndIngest: Starting upload and ingest process");
   const supabase = await createClient();
@@ -48,12 +69,63 @@ export async function uploadAndIngest(prev: UploadState | undefined, formData: F
   if (file.size === 0) return { ok: false, error: "File is empty" };
   if (file.size > MAX_FILE_BYTES) return { ok: false, error: "File too large (max 50MB)" };
 
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const unsupported = unsupportedFileReason(buffer, file.name);
+  if (unsupported) return { ok: false, error: unsupported };
+
   console.log(`📁 uploadAndIngest: Processing file "${file.name}" (${file.size} bytes, type: ${file.type})`);
 
   const startedAt = Date.now();
 
-  // Re-ingest detection: if a prior upload with the same title exists, reuse doc and replace chunks
+  // Identical bytes anywhere in the tenant (any name, live or being processed) would only be embedded again
+  const fileHash = await hashContent(buffer);
+  const { data: sameFileDoc } = await supabase
+    .from("kb_docs")
+    .select("id, title")
+    .eq("tenant_id", tenantId)
+    .eq("file_hash", fileHash)
+    .neq("status", "error")
+    .limit(1)
+    .maybeSingle<{ id: string; title: string }>();
+  if (sameFileDoc) {
+    console.log(`♻️ uploadAndIngest: "${file.name}" is identical to "${sameFileDoc.title}", skipping`);
+    const { data: liveChunk } = await supabase
+      .from("kb_chunks")
+      .select("allowed_roles")
+      .eq("tenant_id", tenantId)
+      .eq("doc_id", sameFileDoc.id)
+      .limit(1)
+      .maybeSingle<{ allowed_roles: string[] | null }>();
+    const docRoles = liveChunk?.allowed_roles ?? null;
+    return {
+      ok: true,
+      docId: sameFileDoc.id,
+      duplicateOf: { docId: sameFileDoc.id, title: sameFileDoc.title, allowedRoles: docRoles },
+      rolesNotApplied: !sameRoles(docRoles, allowedRoles),
+    };
+  }
+  const { data: sameFileJob } = await supabase
+    .from("kb_ingest_jobs")
+    .select("doc_id, filename, allowed_roles")
+    .eq("tenant_id", tenantId)
+    .in("status", ["pending", "processing"])
+    .contains("metadata", { fileHash })
+    .limit(1)
+    .maybeSingle<{ doc_id: string | null; filename: string | null; allowed_roles: string[] | null }>();
+  if (sameFileJob?.doc_id) {
+    return {
+      ok: true,
+      docId: sameFileJob.doc_id,
+      duplicateOf: { docId: sameFileJob.doc_id, title: sameFileJob.filename || file.name, allowedRoles: sameFileJob.allowed_roles },
+      rolesNotApplied: !sameRoles(sameFileJob.allowed_roles, allowedRoles),
+    };
+  }
+
+  // Re-ingest detection: a prior upload with the same title gets a new version; the current one keeps serving until it is indexed
   let usingExistingDoc = false;
+  // A document that is serving a version stays `ready` through the re-upload; its progress and errors live on the job
+  let keepsServing = false;
+  let version = 1;
   let sourceId: string | null = null;
   let docId: string | null = null;
 
@@ -69,22 +141,36 @@ export async function uploadAndIngest(prev: UploadState | undefined, formData: F
     sourceId = existingSource.id;
     const { data: existingDoc } = await supabase
       .from("kb_docs")
-      .select("id, version")
+      .select("id, version, status")
       .eq("tenant_id", tenantId)
       .eq("source_id", sourceId)
       .eq("title", file.name)
       .order("created_at", { ascending: false })
       .limit(1)
-      .maybeSingle<{ id: string; version: number }>();
+      .maybeSingle<{ id: string; version: number; status: string }>();
     if (existingDoc?.id) {
+      const { data: sameFileVersion } = await supabase
+        .from("kb_doc_versions")
+        .select("version")
+        .eq("tenant_id", tenantId)
+        .eq("doc_id", existingDoc.id)
+        .eq("file_hash", fileHash)
+        .limit(1)
+        .maybeSingle<{ version: number }>();
+      if (sameFileVersion) {
+        return { ok: false, error: `Identical to version ${sameFileVersion.version} of this document; restore it from the version history instead` };
+      }
       usingExistingDoc = true;
       docId = existingDoc.id;
-      // mark as pending and bump version
-      await supabase
-        .from("kb_docs")
-        .update({ status: "pending", error: null, version: (existingDoc.version || 1) + 1 })
-        .eq("id", docId)
-        .eq("tenant_id", tenantId);
+      version = await nextDocVersion(tenantId, docId);
+      keepsServing = existingDoc.status === "ready";
+      if (!keepsServing) {
+        await supabase
+          .from("kb_docs")
+          .update({ status: "pending", error: null })
+          .eq("id", docId)
+          .eq("tenant_id", tenantId);
+      }
     }
   }
 
@@ -131,247 +217,66 @@ export async function uploadAndIngest(prev: UploadState | undefined, formData: F
     docId = docRow.id;
   }
 
+  // Store the upload; the worker reads it back from the bucket
+  const sanitizedFilename = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const storagePath = `uploads/${tenantId}/${Date.now()}-${sanitizedFilename}`;
+  const { error: storageError } = await supabase.storage
+    .from('knowledge-files')
+    .upload(storagePath, buffer, {
+      contentType: file.type,
+      duplex: 'half'
+    });
+  if (storageError) {
+    console.error('Storage upload failed:', storageError);
+    if (!keepsServing) await supabase.from("kb_docs").update({ status: "error", error: "Failed to store file" }).eq("id", docId!).eq("tenant_id", tenantId);
+    return { ok: false, error: "Failed to store file" };
+  }
+
   const { data: jobRow, error: jobErr } = await supabase
     .from("kb_ingest_jobs")
     .insert({ 
       tenant_id: tenantId, 
       source_id: sourceId!, 
       doc_id: docId!, 
-      status: "processing",
-      step: "uploading",
+      status: "pending",
+      step: "queued",
       filename: file.name,
       mime_type: file.type,
       total_bytes: file.size,
       processed_bytes: 0,
+      storage_path: storagePath,
       allowed_roles: Array.isArray(allowedRoles) ? allowedRoles : ['admin'],
       metadata: {
         originalFilename: file.name,
         uploadStartedAt: new Date().toISOString(),
+        uploadedBy: userData.user.id,
+        reingest: usingExistingDoc,
+        keepsServing,
+        version,
+        fileHash,
       }
     } as TablesInsert<"kb_ingest_jobs">)
     .select("id")
     .single<{ id: string }>();
   if (jobErr) {
     console.error(jobErr);
+    await supabase.storage.from('knowledge-files').remove([storagePath]);
     return { ok: false, error: "Failed to create job" };
   }
 
   const jobId = jobRow.id;
 
-  // Mark doc as processing
-  await supabase.from("kb_docs").update({ status: "processing", error: null }).eq("id", docId!).eq("tenant_id", tenantId);
-
-  let storagePath: string | null = null; // Declare at function scope
-
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Save file to Supabase Storage for future background processing support
-    const timestamp = Date.now();
-    const sanitizedFilename = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-    storagePath = `uploads/${tenantId}/${timestamp}-${sanitizedFilename}`;
-    
-    console.log(`💾 uploadAndIngest: Saving file to storage: ${storagePath}`);
-    const { error: storageError } = await supabase.storage
-      .from('knowledge-files')
-      .upload(storagePath, buffer, {
-        contentType: file.type,
-        duplex: 'half'
-      });
-    
-    if (storageError) {
-      console.error('Storage upload failed:', storageError);
-      // Continue processing - storage is for future features, not required now
-    }
-
-    // Update job with storage path
-    await supabase.from("kb_ingest_jobs").update({ 
-      storage_path: storageError ? null : storagePath 
-    }).eq("id", jobId).eq("tenant_id", tenantId);
-
-
-
-    // Branch: PDF layout-aware path vs legacy text extraction
-    const lower = file.name.toLowerCase();
-    const ext = (lower.match(/\.([a-z0-9]+)$/)?.[1] || "").toLowerCase();
-    console.log(`🔍 uploadAndIngest: File extension detected: "${ext}"`);
-    
-    let rows: TablesInsert<"kb_chunks">[] = [] as unknown as TablesInsert<"kb_chunks">[];
-    let contentHash = "";
-    if (ext === "pdf") {
-      console.log(`📄 uploadAndIngest: Processing PDF file "${file.name}", buffer size: ${buffer.byteLength} bytes`);
-      try {
-        console.log(`📄 uploadAndIngest: About to call extractPdfLayout for "${file.name}"`);
-        const { lines, text, pageCount, kv_candidates } = await extractPdfLayout(buffer);
-        console.log(`✅ uploadAndIngest: PDF extraction successful - ${text.length} chars, ${lines.length} lines, ${pageCount} pages, ${kv_candidates.length} KV candidates`);
-        
-        if (!text.trim()) throw new Error("No extractable text content");
-        contentHash = await hashContent(text);
-        console.log(`🔐 uploadAndIngest: Content hash generated: ${contentHash.substring(0, 16)}...`);
-        
-        console.log(`⚙️ uploadAndIngest: About to chunk PDF lines into layout chunks`);
-        const layoutChunks = await chunkLinesToLayoutChunks(lines, kv_candidates, 1000);
-        console.log(`📦 uploadAndIngest: Created ${layoutChunks.length} layout chunks`);
-
-        // Optional compact debug logging for first N PDFs
-        const DEBUG_FIRST_N = Number(process.env.PDF_INGEST_DEBUG_FIRST_N || 0);
-        if (DEBUG_FIRST_N > 0) {
-          const { data: countRow } = await supabase
-            .from("kb_docs")
-            .select("id", { count: "exact", head: true })
-            .eq("tenant_id", tenantId)
-            .eq("source_id", sourceId!)
-            .eq("title", file.name);
-          const idx = (countRow as unknown as { count?: number } | null)?.count ?? 0;
-          if (idx <= DEBUG_FIRST_N) {
-            const sample = kv_candidates.slice(0, 3).map((kv) => ({
-              label: kv.label,
-              value_preview: kv.value.length > 6 ? "…" + kv.value.slice(-6) : kv.value,
-              page: kv.page,
-            }));
-            console.log(
-              JSON.stringify({
-                pdf_ingest_debug: true,
-                file: file.name,
-                pages: pageCount,
-                line_count: lines.length,
-                chunk_count: layoutChunks.length,
-                kv_sample: sample,
-              }),
-            );
-          }
-        }
-
-        // If re-ingest, wipe old chunks first
-        if (usingExistingDoc) {
-          await supabase.from("kb_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId!);
-        }
-
-        const embeddings = await embedChunks(layoutChunks.map((c) => c.content));
-        rows = layoutChunks.map((c, idx) => ({
-          tenant_id: tenantId,
-          doc_id: docId!,
-          chunk_idx: idx,
-          title: null,
-          content: c.content,
-          embedding: JSON.stringify(embeddings[idx]),
-          allowed_roles: allowedRoles,
-          metadata: { sectionIndex: c.sectionIndex, fileExt: "pdf", page_start: c.meta.page_start, page_end: c.meta.page_end, bbox_union: c.meta.bbox_union, kv_candidates: c.meta.kv_candidates, line_bboxes: c.meta.line_bboxes } as unknown,
-        })) as unknown as TablesInsert<"kb_chunks">[];
-      } catch (pdfError) {
-        console.error(`❌ uploadAndIngest: PDF processing failed for "${file.name}":`, pdfError);
-        console.error(`❌ uploadAndIngest: Error stack:`, pdfError instanceof Error ? pdfError.stack : 'No stack trace');
-        throw new Error(`PDF processing failed: ${pdfError instanceof Error ? pdfError.message : 'Unknown PDF error'}`);
-      }
-    } else {
-      const { text, sections, fileExt } = await extractTextAndSections(buffer, file.name);
-      if (!text.trim()) throw new Error("No extractable text content");
-      contentHash = await hashContent(text);
-      
-      const chunks = chunkContent(sections, { targetTokens: 1000, overlapTokens: 120 });
-      if (usingExistingDoc) {
-        await supabase.from("kb_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId!);
-      }
-      
-      const embeddings = await embedChunks(chunks.map((c) => c.content));
-      rows = chunks.map((c, idx) => ({
-        tenant_id: tenantId,
-        doc_id: docId!,
-        chunk_idx: idx,
-        title: c.title ?? null,
-        content: c.content,
-        embedding: JSON.stringify(embeddings[idx]),
-        allowed_roles: allowedRoles,
-        metadata: { sectionIndex: c.sectionIndex, fileExt } as unknown,
-      })) as unknown as TablesInsert<"kb_chunks">[];
-    }
-
-    // Batch insert to avoid payload limits
-    const batchSize = 100;
-    for (let i = 0; i < rows.length; i += batchSize) {
-      const slice = rows.slice(i, i + batchSize);
-      const { error: chunkErr } = await supabase.from("kb_chunks").insert(slice as TablesInsert<"kb_chunks">[]);
-      if (chunkErr) throw new Error(chunkErr.message);
-    }
-
-    // Update doc + job
-    await supabase
-      .from("kb_docs")
-      .update({ status: "ready", content_hash: contentHash, error: null })
-      .eq("id", docId!)
-      .eq("tenant_id", tenantId);
-
-    await supabase
-      .from("kb_ingest_jobs")
-      .update({ 
-        status: "done", 
-        step: "done",
-        error: null,
-        processed_bytes: file.size,
-        processed_chunks: rows.length,
-        total_chunks: rows.length
-      })
-      .eq("id", jobId)
-      .eq("tenant_id", tenantId);
-
-    // Audit
-    try {
-      await supabase.from("audit_logs").insert({
-        tenant_id: tenantId,
-        actor_user_id: userData.user.id,
-        action: "kb.ingest",
-        resource: "doc",
-        meta: { doc_id: docId!, source_id: sourceId!, chunk_count: rows.length, elapsed_ms: Date.now() - startedAt },
-      } as unknown as TablesInsert<"audit_logs">);
-    } catch {}
-
-    // Clean up storage file after successful processing (free tier optimization)
+  // Start on it right away; if this invocation dies, the cron worker picks the job up once the lease expires
+  after(async () => {
     try {
-      if (storagePath) {
-        console.log(`🗑️ uploadAndIngest: Cleaning up storage file: ${storagePath}`);
-        const { error: deleteError } = await supabase.storage
-          .from('knowledge-files')
-          .remove([storagePath]);
-        
-        if (deleteError) {
-          console.error('Storage cleanup failed:', deleteError);
-          // Don't fail the upload for cleanup errors
-        } else {
-          console.log(`✅ uploadAndIngest: Storage file cleaned up successfully`);
-          
-          // Update job record to remove storage path since file is deleted
-          await supabase.from("kb_ingest_jobs").update({ 
-            storage_path: null,
-            notes: 'Storage file cleaned up after successful processing'
-          }).eq("id", jobId).eq("tenant_id", tenantId);
-        }
-      }
-      console.log(`✅ uploadAndIngest: Successfully processed file, storage cleaned up`);
-    } catch (cleanupError) {
-      console.error('Error during cleanup:', cleanupError);
-      // Don't fail the upload for cleanup errors
+      await runIngestWorker({ jobId, budgetMs: Number(process.env.INGEST_INLINE_BUDGET_MS || 45000) });
+    } catch (e) {
+      console.error("Inline ingest failed:", e);
     }
+  });
 
-    return { ok: true, jobId, docId };
-  } catch (e: unknown) {
-    const message: string = e instanceof Error ? e.message : "Ingest failed";
-    await supabase
-      .from("kb_docs")
-      .update({ status: "error", error: message })
-      .eq("id", docId!)
-      .eq("tenant_id", tenantId);
-    await supabase
-      .from("kb_ingest_jobs")
-      .update({ 
-        status: "error", 
-        step: "error",
-        error: message 
-      })
-      .eq("id", jobId)
-      .eq("tenant_id", tenantId);
-    return { ok: false, error: message, jobId };
-  }
+  console.log(`📥 uploadAndIngest: Queued job ${jobId} for "${file.name}" (${Date.now() - startedAt}ms)`);
+  return { ok: true, jobId, docId: docId! };
 }
 
 export type DeleteState = { ok: boolean; error?: string };
@@ -413,40 +318,60 @@ export async function deleteKbDoc(prev: DeleteState | undefined, formData: FormD
   if (docErr) return { ok: false, error: "500" };
   if (!docRecord) return { ok: false, error: "Not found" };
 
-  // Fetch source_id and any associated job with storage path
-  const { data: srcRow } = await supabase.from("kb_docs").select("source_id").eq("id", docId).eq("tenant_id", tenantId).maybeSingle<{ source_id: string | null }>();
+  // Fetch source_id and the live original
+  const { data: srcRow } = await supabase
+    .from("kb_docs")
+    .select("source_id, original_path")
+    .eq("id", docId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle<{ source_id: string | null; original_path: string | null }>();
   
-  // Check for associated job with storage path for cleanup
-  const { data: jobRecord } = await supabase
+  // Every upload of the document has its own job (re-uploads add one per version), so clean up all their files
+  const { data: jobRows } = await supabase
     .from("kb_ingest_jobs")
     .select("storage_path")
     .eq("doc_id", docId)
     .eq("tenant_id", tenantId)
-    .maybeSingle<{ storage_path: string | null }>();
-  
-  // Clean up storage file if it exists
-  if (jobRecord?.storage_path) {
-    console.log(`🗑️ deleteKbDoc: Cleaning up storage file: ${jobRecord.storage_path}`);
+    .returns<Array<{ storage_path: string | null }>>();
+  const uploads = Array.from(new Set((jobRows || []).map((j) => j.storage_path).filter((p): p is string => Boolean(p))));
+  if (uploads.length > 0) {
+    console.log(`🗑️ deleteKbDoc: Cleaning up ${uploads.length} storage file(s)`);
     const { error: deleteError } = await supabase.storage
       .from('knowledge-files')
-      .remove([jobRecord.storage_path]);
+      .remove(uploads);
     
     if (deleteError) {
       console.error('Storage cleanup failed during document deletion:', deleteError);
       // Continue with deletion even if storage cleanup fails
     } else {
-      console.log(`✅ deleteKbDoc: Storage file cleaned up successfully`);
+      console.log(`✅ deleteKbDoc: Storage files cleaned up successfully`);
     }
   }
 
+  // Retained originals (PDFs and scans) of the live and earlier versions, used by the citation page view
+  const { data: versionRows } = await supabase
+    .from("kb_doc_versions")
+    .select("original_path")
+    .eq("tenant_id", tenantId)
+    .eq("doc_id", docId)
+    .returns<Array<{ original_path: string | null }>>();
+  const originals = Array.from(new Set([srcRow?.original_path, ...(versionRows || []).map((v) => v.original_path)].filter((p): p is string => Boolean(p))));
+  if (originals.length > 0) {
+    const { error: originalErr } = await supabase.storage.from("knowledge-files").remove(originals);
+    if (originalErr) console.error("Original file cleanup failed during document deletion:", originalErr);
+  }
+
   // Delete chunks first for clarity if cascade isn't present
   const { error: chunksErr } = await supabase.from("kb_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId);
   if (chunksErr) return { ok: false, error: "Failed to delete chunks" };
+  const { error: archivedErr } = await supabase.from("kb_doc_version_chunks").delete().eq("tenant_id", tenantId).eq("doc_id", docId);
+  if (archivedErr) return { ok: false, error: "Failed to delete chunks" };
 
   const { error: docDelErr } = await supabase.from("kb_docs").delete().eq("tenant_id", tenantId).eq("id", docId);
   if (docDelErr) return { ok: false, error: "Failed to delete document" };
+  await bumpKnowledgeGeneration(tenantId);
 
-  // Optionally delete kb_sources if no other docs reference it
+  // Optionally delete an upload's kb_sources row if no other docs reference it; crawled sources outlive their pages
   if (srcRow?.source_id) {
     const { data: remaining } = await supabase
       .from("kb_docs")
@@ -454,7 +379,7 @@ export async function deleteKbDoc(prev: DeleteState | undefined, formData: FormD
       .eq("tenant_id", tenantId)
       .eq("source_id", srcRow.source_id);
     if (!remaining || remaining.length === 0) {
-      await supabase.from("kb_sources").delete().eq("tenant_id", tenantId).eq("id", srcRow.source_id);
+      await supabase.from("kb_sources").delete().eq("tenant_id", tenantId).eq("id", srcRow.source_id).eq("type", "upload");
     }
   }
 
@@ -590,6 +515,27 @@ export async function updateDocumentRoles(
       console.error("Update roles error:", updateErr);
       return { ok: false, error: "Failed to update document roles" };
     }
+    // Indexed fields answer questions directly, so they follow the same visibility
+    const { error: fieldsErr } = await supabase
+      .from("kb_fields")
+      .update({ allowed_roles: allowedRoles })
+      .eq("tenant_id", tenant.id)
+      .eq("doc_id", docId);
+    if (fieldsErr) {
+      console.error("Update field roles error:", fieldsErr);
+      return { ok: false, error: "Failed to update document roles" };
+    }
+    // Earlier versions are readable in the version diff and may be restored
+    const { error: archivedErr } = await supabase
+      .from("kb_doc_version_chunks")
+      .update({ allowed_roles: allowedRoles })
+      .eq("tenant_id", tenant.id)
+      .eq("doc_id", docId);
+    if (archivedErr) {
+      console.error("Update archived chunk roles error:", archivedErr);
+      return { ok: false, error: "Failed to update document roles" };
+    }
+    await bumpKnowledgeGeneration(tenant.id);
 
     // Audit log
     try {
@@ -618,6 +564,36 @@ export async function updateDocumentRoles(
   }
 }
 
+export type SourceFileState = { ok: true; url: string; fileExt: string } | { ok: false; error: string };
+
+/**
+ * Short-lived signed URL of a document's retained original (PDF or scan) for the citation page view.
+ * Access follows the caller's chunk visibility: a user who can't read any chunk of the document gets "404".
+ */
+export async function getSourceFileUrl(docId: string): Promise<SourceFileState> {
+  const supabase = await createClient();
+  const { data: userData, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!userData.user) return { ok: false, error: "401" };
+
+  const { data: visible } = await supabase.from("kb_chunks").select("doc_id").eq("doc_id", docId).limit(1).maybeSingle<{ doc_id: string }>();
+  if (!visible) return { ok: false, error: "404" };
+
+  const { data: doc } = await supabase
+    .from("kb_docs")
+    .select("original_path")
+    .eq("id", docId)
+    .maybeSingle<{ original_path: string | null }>();
+  if (!doc?.original_path) return { ok: false, error: "Original file not retained" };
+
+  // The bucket is private; sign with the service role once visibility is established
+  const admin = await createAdminClient();
+  const { data: signed, error: signErr } = await admin.storage.from("knowledge-files").createSignedUrl(doc.original_path, 300);
+  if (signErr || !signed) return { ok: false, error: "Failed to open original file" };
+  const fileExt = (doc.original_path.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || "").toLowerCase();
+  return { ok: true, url: signed.signedUrl, fileExt };
+}
+
 // ============================================================================
 // BULK UPLOAD FUNCTIONS (SIMPLIFIED)
 // ============================================================================
@@ -637,6 +613,9 @@ export async function getJobProgress(jobId: string): Promise<{
     totalBytes?: number;
     processedChunks?: number;
     totalChunks?: number;
+    /** Upload jobs: chunks that kept their previous embedding vs. chunks embedded anew */
+    reusedChunks?: number;
+    embeddedChunks?: number;
     error?: string;
     notes?: string;
   };
@@ -669,6 +648,29 @@ export async function getJobProgress(jobId: string): Promise<{
     // Calculate progress based on step
     let progress = 0;
     switch (job.step) {
+      case 'reembedding':
+        // Re-embed jobs report chunk counts; hold below 100 until cut-over completes
+        progress = Math.min(99, Math.round((job.processed_chunks || 0) / (job.total_chunks || 1) * 100));
+        break;
+      case 'finalizing':
+        progress = 99;
+        break;
+      case 'queued':
+        progress = 5;
+        break;
+      case 'extracting':
+        progress = 15;
+        break;
+      case 'chunking':
+        progress = 30;
+        break;
+      case 'embedding':
+        // Worker updates processed_chunks after every embedding batch
+        progress = 30 + Math.round((job.processed_chunks || 0) / (job.total_chunks || 1) * 60);
+        break;
+      case 'indexing':
+        progress = 95;
+        break;
       case 'uploading':
         if (job.status === 'processing') {
           progress = 50; // Processing
@@ -698,6 +700,8 @@ export async function getJobProgress(jobId: string): Promise<{
         totalBytes: job.total_bytes,
         processedChunks: job.processed_chunks,
         totalChunks: job.total_chunks,
+        reusedChunks: job.reused_chunks ?? undefined,
+        embeddedChunks: job.embedded_chunks ?? undefined,
         error: job.error,
         notes: job.notes,
       },
@@ -28,6 +28,7 @@ export async function listDocsWithMeta(tenantId: string): Promise<KbDocListItem[
     .from("kb_docs")
     .select("id, title, status, error, created_at, content_hash, version, source_id")
     .eq("tenant_id", tenantId)
+    .neq("status", "deleted") // REST item tombstones, see server/rest/itemSync.ts
     .order("created_at", { ascending: false })
     .returns<Pick<
       Tables<"kb_docs">,
@@ -0,0 +1,221 @@
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { embedChunks } from "@/lib/kb/embed";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Background re-embedding of a tenant's knowledge after `embedding_model` changes.
+ *
+ * Jobs live in `kb_ingest_jobs` with `metadata.kind = "reembed"` and no doc/source.
+ * Steps:
+ * - `reembedding`: new vectors are written to `kb_chunks.embedding_next` in batches; retrieval keeps
+ *   using `embedding` (and the old model for queries) the whole time. Resumable: a batch only picks
+ *   chunks whose `embedding_next` is still null.
+ * - `finalizing`: `kb_reembed_cutover` swaps the columns and switches `tenant_rag_settings.embedding_model`
+ *   in one transaction, then chunks ingested during the run (still tagged with another model) are re-embedded in place.
+ */
+
+export type ReembedJobMeta = { kind: "reembed"; from_model: string | null; to_model: string };
+
+export type ReembedBatchResult =
+  | { ok: true; done: boolean; step: string; processed: number }
+  | { ok: false; error: string };
+
+const BATCH_SIZE = 64;
+
+export function isReembedJob(metadata: unknown): metadata is ReembedJobMeta {
+  return Boolean(metadata && typeof metadata === "object" && (metadata as Record<string, unknown>).kind === "reembed");
+}
+
+/** Drops any staged vectors so a new (or no) target model starts from a clean slate. */
+async function clearStagedEmbeddings(tenantId: string): Promise<void> {
+  const admin = await createAdminClient();
+  await admin
+    .from("kb_chunks")
+    .update({ embedding_next: null })
+    .eq("tenant_id", tenantId)
+    .not("embedding_next", "is", null);
+}
+
+export async function getActiveReembedJob(tenantId: string): Promise<{ id: string; metadata: ReembedJobMeta } | null> {
+  const admin = await createAdminClient();
+  const { data } = await admin
+    .from("kb_ingest_jobs")
+    .select("id, metadata")
+    .eq("tenant_id", tenantId)
+    .eq("metadata->>kind", "reembed")
+    .in("status", ["pending", "processing"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<{ id: string; metadata: ReembedJobMeta }>();
+  return data ?? null;
+}
+
+/** Cancels the tenant's running re-embed (if any) and discards its staged vectors. */
+export async function cancelReembedJobs(tenantId: string): Promise<void> {
+  const admin = await createAdminClient();
+  await admin
+    .from("kb_ingest_jobs")
+    .update({ status: "canceled", step: "canceled", cancel_requested: true, updated_at: new Date().toISOString() })
+    .eq("tenant_id", tenantId)
+    .eq("metadata->>kind", "reembed")
+    .in("status", ["pending", "processing"])
+    .neq("step", "finalizing"); // already cut over; let it finish its sweep
+  await clearStagedEmbeddings(tenantId);
+}
+
+/**
+ * Queues a re-embed of every chunk of the tenant with `toModel`.
+ * A running job for the same target is kept; one for a different target is replaced.
+ */
+export async function enqueueReembedJob(params: { tenantId: string; fromModel: string | null; toModel: string }): Promise<{ ok: true; jobId: string } | { ok: false; error: string }> {
+  const { tenantId, fromModel, toModel } = params;
+  const active = await getActiveReembedJob(tenantId);
+  if (active && active.metadata.to_model === toModel) return { ok: true, jobId: active.id };
+  // Replaces a job for another target and drops vectors staged by any failed run
+  await cancelReembedJobs(tenantId);
+
+  const admin = await createAdminClient();
+  const { count } = await admin
+    .from("kb_chunks")
+    .select("id", { count: "exact", head: true })
+    .eq("tenant_id", tenantId);
+
+  const meta: ReembedJobMeta = { kind: "reembed", from_model: fromModel, to_model: toModel };
+  const { data, error } = await admin
+    .from("kb_ingest_jobs")
+    .insert({
+      tenant_id: tenantId,
+      status: "pending",
+      step: "reembedding",
+      processed_chunks: 0,
+      total_chunks: count ?? 0,
+      notes: `Re-embedding with ${toModel}`,
+      metadata: meta as unknown as Json,
+    } as TablesInsert<"kb_ingest_jobs">)
+    .select("id")
+    .single<{ id: string }>();
+  if (error || !data) return { ok: false, error: error?.message || "Failed to create job" };
+  return { ok: true, jobId: data.id };
+}
+
+async function embedAndWrite(
+  tenantId: string,
+  rows: Array<{ id: string; content: string; metadata: Json | null }>,
+  model: string,
+  target: "embedding" | "embedding_next",
+): Promise<void> {
+  const admin = await createAdminClient();
+  const embeddings = await embedChunks(rows.map((r) => r.content), model);
+  // PostgREST has no bulk update by key; keep a few updates in flight
+  const concurrency = 8;
+  for (let i = 0; i < rows.length; i += concurrency) {
+    const slice = rows.slice(i, i + concurrency);
+    const results = await Promise.all(
+      slice.map((r, j) => {
+        const patch: Record<string, unknown> = { [target]: JSON.stringify(embeddings[i + j]) };
+        if (target === "embedding") {
+          const meta = r.metadata && typeof r.metadata === "object" && !Array.isArray(r.metadata) ? r.metadata : {};
+          patch.metadata = { ...meta, embedding_model: model };
+        }
+        return admin.from("kb_chunks").update(patch).eq("id", r.id).eq("tenant_id", tenantId);
+      }),
+    );
+    const failed = results.find((res) => res.error);
+    if (failed?.error) throw new Error(failed.error.message);
+  }
+}
+
+/** Processes one batch of a re-embed job. Safe to call repeatedly (and concurrently) until `done`. */
+export async function runReembedBatch(jobId: string): Promise<ReembedBatchResult> {
+  const admin = await createAdminClient();
+  const { data: job, error: jobErr } = await admin
+    .from("kb_ingest_jobs")
+    .select("id, tenant_id, status, step, cancel_requested, processed_chunks, metadata")
+    .eq("id", jobId)
+    .maybeSingle<{ id: string; tenant_id: string; status: string; step: string | null; cancel_requested: boolean; processed_chunks: number | null; metadata: unknown }>();
+  if (jobErr) return { ok: false, error: jobErr.message };
+  if (!job || !isReembedJob(job.metadata)) return { ok: false, error: "not found" };
+  if (job.status === "done" || job.status === "canceled") return { ok: true, done: true, step: job.step || job.status, processed: 0 };
+  if (job.cancel_requested && job.step !== "finalizing") {
+    await cancelReembedJobs(job.tenant_id);
+    return { ok: true, done: true, step: "canceled", processed: 0 };
+  }
+
+  const tenantId = job.tenant_id;
+  const toModel = job.metadata.to_model;
+  const now = () => new Date().toISOString();
+
+  try {
+    if (job.step !== "finalizing") {
+      const { data: rows, error: selErr } = await admin
+        .from("kb_chunks")
+        .select("id, content, metadata")
+        .eq("tenant_id", tenantId)
+        .is("embedding_next", null)
+        .order("id", { ascending: true })
+        .limit(BATCH_SIZE);
+      if (selErr) throw new Error(selErr.message);
+      const batch = (rows || []) as Array<{ id: string; content: string; metadata: Json | null }>;
+
+      if (batch.length > 0) {
+        await embedAndWrite(tenantId, batch, toModel, "embedding_next");
+        // Total can grow while uploads continue during the run
+        const { count } = await admin.from("kb_chunks").select("id", { count: "exact", head: true }).eq("tenant_id", tenantId);
+        await admin
+          .from("kb_ingest_jobs")
+          .update({ status: "processing", step: "reembedding", processed_chunks: (job.processed_chunks || 0) + batch.length, total_chunks: count ?? null, updated_at: now() })
+          .eq("id", jobId);
+        return { ok: true, done: false, step: "reembedding", processed: batch.length };
+      }
+
+      // Everything staged: switch the live index and the tenant's query model atomically
+      const { error: cutErr } = await admin.rpc("kb_reembed_cutover", { t: tenantId, model: toModel });
+      if (cutErr) throw new Error(cutErr.message);
+      await bumpKnowledgeGeneration(tenantId);
+      await admin.from("kb_ingest_jobs").update({ status: "processing", step: "finalizing", updated_at: now() }).eq("id", jobId);
+      return { ok: true, done: false, step: "finalizing", processed: 0 };
+    }
+
+    // A later job already cut over to another model; sweeping to ours would undo it
+    const { data: ragRow } = await admin
+      .from("tenant_rag_settings")
+      .select("embedding_model")
+      .eq("tenant_id", tenantId)
+      .maybeSingle<{ embedding_model: string | null }>();
+    if (ragRow && ragRow.embedding_model !== toModel) {
+      await admin.from("kb_ingest_jobs").update({ status: "done", step: "done", notes: "Superseded by a newer embedding model", updated_at: now() }).eq("id", jobId);
+      return { ok: true, done: true, step: "done", processed: 0 };
+    }
+
+    // Sweep chunks written by uploads that raced the cut-over (still embedded with another model)
+    const { data: stale, error: staleErr } = await admin
+      .from("kb_chunks")
+      .select("id, content, metadata")
+      .eq("tenant_id", tenantId)
+      .or(`metadata->>embedding_model.is.null,metadata->>embedding_model.neq."${toModel}"`)
+      .limit(BATCH_SIZE);
+    if (staleErr) throw new Error(staleErr.message);
+    const staleRows = (stale || []) as Array<{ id: string; content: string; metadata: Json | null }>;
+    if (staleRows.length > 0) {
+      await embedAndWrite(tenantId, staleRows, toModel, "embedding");
+      await bumpKnowledgeGeneration(tenantId);
+      await admin.from("kb_ingest_jobs").update({ updated_at: now() }).eq("id", jobId);
+      return { ok: true, done: false, step: "finalizing", processed: staleRows.length };
+    }
+
+    const { count } = await admin.from("kb_chunks").select("id", { count: "exact", head: true }).eq("tenant_id", tenantId);
+    await admin
+      .from("kb_ingest_jobs")
+      .update({ status: "done", step: "done", processed_chunks: count ?? null, total_chunks: count ?? null, error: null, updated_at: now() })
+      .eq("id", jobId);
+    return { ok: true, done: true, step: "done", processed: 0 };
+  } catch (e) {
+    // Leave the job resumable; the next run retries from the staged state
+    const message = e instanceof Error ? e.message : String(e);
+    await admin.from("kb_ingest_jobs").update({ error: message, updated_at: now() }).eq("id", jobId);
+    return { ok: false, error: message };
+  }
+}
@@ -0,0 +1,140 @@
+import "server-only";
+
+import crypto from "node:crypto";
+import { createAdminClient } from "@/server/supabase/admin";
+import type { Json } from "@/lib/types/database.types";
+
+/**
+ * Retrieval result cache shared by `retrieve()`.
+ *
+ * Keys embed the tenant's knowledge generation (`kb_knowledge_generations.generation`), which is bumped by every
+ * write that can change results (ingest, delete, role change, re-embed cut-over, RAG settings). A bump makes all
+ * older entries unreachable, so the TTL only bounds memory/storage, not staleness.
+ *
+ * Backends (`RETRIEVAL_CACHE`):
+ * - `memory` (default) — per-instance `Map`
+ * - `postgres` — `kb_retrieval_cache` table shared by all instances, fronted by the in-memory cache
+ */
+export interface RetrievalCache<T> {
+  get(tenantId: string, key: string): Promise<T | null>;
+  set(tenantId: string, generation: number, key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+const MEMORY_MAX_ENTRIES = 500;
+
+export function createMemoryRetrievalCache<T>(): RetrievalCache<T> {
+  const entries = new Map<string, { expiresAt: number; value: T }>();
+  return {
+    async get(_tenantId, key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (Date.now() > entry.expiresAt) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(_tenantId, _generation, key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { expiresAt: Date.now() + ttlMs, value });
+      // Map keeps insertion order: drop the oldest entries first
+      while (entries.size > MEMORY_MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** Cache rows are only reachable with the service role; keys include the caller's role, so no RLS is needed for reads. */
+export function createPostgresRetrievalCache<T>(): RetrievalCache<T> {
+  return {
+    async get(tenantId, key) {
+      try {
+        const admin = await createAdminClient();
+        const { data } = await admin
+          .from("kb_retrieval_cache")
+          .select("value, expires_at")
+          .eq("tenant_id", tenantId)
+          .eq("key_hash", hashKey(key))
+          .maybeSingle<{ value: T; expires_at: string }>();
+        if (!data || Date.parse(data.expires_at) < Date.now()) return null;
+        return data.value;
+      } catch {
+        return null; // a cache miss must never fail retrieval
+      }
+    },
+    async set(tenantId, generation, key, value, ttlMs) {
+      try {
+        const admin = await createAdminClient();
+        await admin.from("kb_retrieval_cache").upsert(
+          {
+            tenant_id: tenantId,
+            key_hash: hashKey(key),
+            generation,
+            value: value as unknown as Json,
+            expires_at: new Date(Date.now() + ttlMs).toISOString(),
+          },
+          { onConflict: "tenant_id,key_hash" },
+        );
+        // Entries of older generations can never be hit again
+        await admin
+          .from("kb_retrieval_cache")
+          .delete()
+          .eq("tenant_id", tenantId)
+          .or(`generation.lt.${generation},expires_at.lt.${new Date().toISOString()}`);
+      } catch {}
+    },
+  };
+}
+
+function createTieredRetrievalCache<T>(l1: RetrievalCache<T>, l2: RetrievalCache<T>): RetrievalCache<T> {
+  return {
+    async get(tenantId, key) {
+      const hit = await l1.get(tenantId, key);
+      if (hit) return hit;
+      // Shared hits are not copied into L1: the key already pins the generation, so a later miss only costs a lookup
+      return l2.get(tenantId, key);
+    },
+    async set(tenantId, generation, key, value, ttlMs) {
+      await Promise.all([l1.set(tenantId, generation, key, value, ttlMs), l2.set(tenantId, generation, key, value, ttlMs)]);
+    },
+  };
+}
+
+export function createRetrievalCache<T>(): RetrievalCache<T> {
+  const memory = createMemoryRetrievalCache<T>();
+  return process.env.RETRIEVAL_CACHE === "postgres" ? createTieredRetrievalCache(memory, createPostgresRetrievalCache<T>()) : memory;
+}
+
+/** Current knowledge generation, or null when it can't be read (callers should then skip the cache). */
+export async function getKnowledgeGeneration(tenantId: string): Promise<number | null> {
+  try {
+    const admin = await createAdminClient();
+    const { data, error } = await admin
+      .from("kb_knowledge_generations")
+      .select("generation")
+      .eq("tenant_id", tenantId)
+      .maybeSingle<{ generation: number }>();
+    if (error) return null;
+    return Number(data?.generation ?? 0);
+  } catch {
+    return null;
+  }
+}
+
+/** Invalidates every cached retrieval of the tenant. Never throws: the write it follows has already happened. */
+export async function bumpKnowledgeGeneration(tenantId: string): Promise<void> {
+  try {
+    const admin = await createAdminClient();
+    const { error } = await admin.rpc("kb_bump_knowledge_generation", { t: tenantId });
+    if (error) console.error("bumpKnowledgeGeneration failed:", error.message);
+  } catch (e) {
+    console.error("bumpKnowledgeGeneration failed:", e);
+  }
+}
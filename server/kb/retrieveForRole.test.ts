@@ -0,0 +1,138 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * Role isolation of hybrid retrieval. The fake database filters on `allowed_roles` only when the query asks it to
+ * (the RPCs' `r` argument, `.contains("allowed_roles", [role])` on the fallback), like the SQL in
+ * docs/features/retrieval-hybrid.md, so a dropped role filter shows up as a leaked chunk.
+ */
+
+type Chunk = { tenant_id: string; doc_id: string; chunk_idx: number; title: string; content: string; allowed_roles: string[] };
+
+const CHUNKS: Chunk[] = [
+  { tenant_id: "t1", doc_id: "handbook", chunk_idx: 0, title: "Handbook", content: "Vacation policy: 25 days per year.", allowed_roles: ["admin", "support"] },
+  { tenant_id: "t1", doc_id: "comp", chunk_idx: 0, title: "Compensation", content: "Vacation payout and salary bands for 2025.", allowed_roles: ["admin"] },
+  { tenant_id: "t1", doc_id: "comp", chunk_idx: 1, title: "Compensation", content: "Vacation accrual for executives.", allowed_roles: ["admin"] },
+  { tenant_id: "t2", doc_id: "other", chunk_idx: 0, title: "Other tenant", content: "Vacation at another company.", allowed_roles: ["support"] },
+];
+
+const ADMIN_ONLY = new Set(["comp"]);
+
+const state = vi.hoisted(() => ({ generation: 1 as number | null, rpcCalls: [] as Array<{ name: string; r: unknown }>, keywordRpcFails: false }));
+
+vi.mock("@/server/settings/settings.data", () => ({
+  getTenantRagSettings: async () => ({ retriever_top_k: 8, overfetch: 50, hybrid_enabled: true, rerank_enabled: false, fusion_strategy: "weighted" }),
+}));
+vi.mock("@/lib/kb/embed", () => ({ embedQuery: async () => [0.1, 0.2] }));
+vi.mock("@/server/kb/fieldIndex", () => ({ getFieldSynonymGroups: async () => [] }));
+vi.mock("@/server/kb/retrievalCache", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/kb/retrievalCache")>()),
+  getKnowledgeGeneration: async () => state.generation,
+}));
+
+import { retrieveForRole } from "./retrieveForRole";
+
+function matches(chunk: Chunk, query: string): boolean {
+  return query
+    .toLowerCase()
+    .split(/\W+/)
+    .filter(Boolean)
+    .some((w) => chunk.content.toLowerCase().includes(w));
+}
+
+function fakeDb(): SupabaseClient {
+  const visible = (tenantId: unknown, role: unknown) =>
+    CHUNKS.filter((c) => c.tenant_id === tenantId && (role === undefined || c.allowed_roles.includes(String(role))));
+  const result = (data: unknown, error: { message: string } | null = null) => {
+    const res = { data, error };
+    const chain = { select: () => chain, returns: () => chain, then: (resolve: (v: typeof res) => unknown) => Promise.resolve(res).then(resolve) };
+    return chain;
+  };
+  return {
+    rpc(name: string, args: { t: string; q: unknown; r?: string }) {
+      state.rpcCalls.push({ name, r: args.r });
+      const rows = visible(args.t, args.r);
+      if (name === "kb_vector_search") return result(rows.map((c, i) => ({ ...c, score: 0.9 - i * 0.01 })));
+      if (name === "kb_keyword_search") {
+        if (state.keywordRpcFails) return result(null, { message: "function kb_keyword_search does not exist" });
+        return result(rows.filter((c) => matches(c, String(args.q))).map((c) => ({ ...c, score: 0.8 })));
+      }
+      throw new Error(`unexpected rpc ${name}`);
+    },
+    from(table: string) {
+      expect(table).toBe("kb_chunks");
+      let tenantId: unknown;
+      let role: unknown;
+      let query = "";
+      const chain = {
+        select: () => chain,
+        eq: (column: string, value: unknown) => {
+          if (column === "tenant_id") tenantId = value;
+          return chain;
+        },
+        contains: (column: string, value: string[]) => {
+          if (column === "allowed_roles") role = value[0];
+          return chain;
+        },
+        textSearch: (_column: string, q: string) => {
+          query = q;
+          return chain;
+        },
+        limit: () => chain,
+        then: (resolve: (v: { data: unknown; error: null }) => unknown) =>
+          Promise.resolve({ data: visible(tenantId, role).filter((c) => matches(c, query)), error: null }).then(resolve),
+      };
+      return chain;
+    },
+  } as unknown as SupabaseClient;
+}
+
+function docIds(res: { chunks: Array<{ doc_id: string }> }): string[] {
+  return res.chunks.map((c) => c.doc_id);
+}
+
+beforeEach(() => {
+  state.generation = (state.generation ?? 0) + 1; // fresh cache generation per test
+  state.rpcCalls = [];
+  state.keywordRpcFails = false;
+});
+
+describe("retrieveForRole", () => {
+  it("never returns admin-only chunks to support through the hybrid RPCs", async () => {
+    const support = await retrieveForRole({ tenantId: "t1", query: "vacation salary" }, { roleKey: "support", db: fakeDb() });
+    const admin = await retrieveForRole({ tenantId: "t1", query: "vacation salary" }, { roleKey: "admin", db: fakeDb() });
+
+    expect(docIds(support)).toEqual(["handbook"]);
+    expect(docIds(admin)).toEqual(expect.arrayContaining(["handbook", "comp"]));
+    expect(state.rpcCalls.filter((c) => c.r === undefined)).toEqual([]);
+  });
+
+  it("keeps the role filter on the textSearch fallback", async () => {
+    state.keywordRpcFails = true;
+    const support = await retrieveForRole({ tenantId: "t1", query: "salary bands" }, { roleKey: "support", db: fakeDb() });
+
+    expect(support.chunks.some((c) => ADMIN_ONLY.has(c.doc_id))).toBe(false);
+    expect(docIds(support)).toEqual(["handbook"]);
+  });
+
+  it("caches per role", async () => {
+    const admin = await retrieveForRole({ tenantId: "t1", query: "Vacation" }, { roleKey: "admin", db: fakeDb() });
+    expect(admin.chunks.some((c) => ADMIN_ONLY.has(c.doc_id))).toBe(true);
+
+    // Same tenant, query and generation: must not be served the admin's cached result
+    const support = await retrieveForRole({ tenantId: "t1", query: "  vacation " }, { roleKey: "support", db: fakeDb() });
+    expect(docIds(support)).toEqual(["handbook"]);
+
+    const callsBefore = state.rpcCalls.length;
+    const again = await retrieveForRole({ tenantId: "t1", query: "vacation" }, { roleKey: "support", db: fakeDb() });
+    expect(state.rpcCalls.length).toBe(callsBefore);
+    expect(docIds(again)).toEqual(["handbook"]);
+  });
+
+  it("does not cache when the knowledge generation is unknown", async () => {
+    state.generation = null;
+    await retrieveForRole({ tenantId: "t1", query: "vacation" }, { roleKey: "admin", db: fakeDb() });
+    await retrieveForRole({ tenantId: "t1", query: "vacation" }, { roleKey: "admin", db: fakeDb() });
+    expect(state.rpcCalls.filter((c) => c.name === "kb_vector_search")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,281 @@
+import "server-only";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getTenantRagSettings } from "@/server/settings/settings.data";
+import { embedQuery } from "@/lib/kb/embed";
+import { createRetrievalCache, getKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { DEFAULT_FUSION_WEIGHTS, fuseRankings, isFusionStrategy, type FusionStrategy } from "@/lib/kb/fusion";
+import { expandKeywordQuery } from "@/lib/kb/fields";
+import { getFieldSynonymGroups } from "@/server/kb/fieldIndex";
+
+/**
+ * Hybrid retrieval for one chunk-visibility role. `retrieve()` runs it with the session client and the user's
+ * membership role, the public API (`app/api/v1`) with the admin client and the API key's role. Not a server action:
+ * the role is trusted as given.
+ */
+
+export type RetrievalParams = {
+  tenantId: string;
+  query: string;
+  k?: number;
+  useRerank?: boolean;
+  bypassCache?: boolean;
+};
+
+type RetrievedChunk = {
+  doc_id: string;
+  chunk_idx: number;
+  title: string | null;
+  content: string;
+  source_uri?: string | null;
+  score: number;
+  v_norm?: number;
+  k_norm?: number;
+};
+
+type RetrievalStats = {
+  vectorMs: number;
+  keywordMs: number;
+  rerankMs: number;
+};
+
+export type RetrievalResult = {
+  chunks: RetrievedChunk[];
+  stats: RetrievalStats;
+  /** How `score` was fused; the answer gate reads `rrf` scores differently (unset on results cached before it existed) */
+  fusion?: FusionStrategy;
+};
+
+// Shared cache (see retrievalCache.ts); entries are keyed by knowledge generation so writes invalidate exactly
+const cache = createRetrievalCache<RetrievalResult>();
+const DEFAULT_TTL_MS = Number(process.env.RETRIEVAL_CACHE_TTL_MS || 10 * 60 * 1000);
+
+function normalizeQuery(q: string): string {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Results are only valid for the role they were filtered for and the knowledge generation they were computed on
+function cacheKey(p: RetrievalParams, roleKey: string, generation: number): string {
+  const k = p.k ?? 8;
+  const rr = Boolean(p.useRerank);
+  return [p.tenantId, generation, roleKey, normalizeQuery(p.query), k, rr].join("|");
+}
+
+function stableSort<T>(arr: T[], cmp: (a: T, b: T) => number): T[] {
+  return arr
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const d = cmp(a.item, b.item);
+      return d !== 0 ? d : a.index - b.index;
+    })
+    .map((x) => x.item);
+}
+
+async function rerankCandidates(
+  query: string,
+  candidates: RetrievedChunk[],
+  count: number,
+): Promise<RetrievedChunk[]> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) return candidates.slice(0, count); // no rerank without key
+
+  // Compact prompt with deterministic scoring
+  const sys =
+    "You are a ranking model. Score each passage for relevance to the query from 0 to 1 with 0.01 precision. Respond as a JSON array of numbers only.";
+  const user = {
+    query,
+    passages: candidates.map((c) => ({ id: `${c.doc_id}#${c.chunk_idx}`, text: c.content.slice(0, 1200) })),
+  };
+
+  try {
+    const res = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: sys },
+          { role: "user", content: JSON.stringify(user) },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`rerank http ${res.status}`);
+    type MinimalChatResponse = { choices?: Array<{ message?: { content?: string } }> };
+    const json: MinimalChatResponse = (await res.json()) as MinimalChatResponse;
+    const content: string = json.choices?.[0]?.message?.content || "{}";
+    let scores: number[] | undefined;
+    try {
+      const parsed = JSON.parse(content);
+      scores = Array.isArray(parsed) ? parsed : parsed.scores;
+    } catch {
+      // ignore
+    }
+    if (!Array.isArray(scores) || scores.length !== candidates.length) return candidates.slice(0, count);
+
+    const withRerank = candidates.map((c, i) => ({ ...c, score: scores![i] }));
+    return stableSort(withRerank, (a, b) => b.score - a.score).slice(0, count);
+  } finally {
+    // attach rerankMs via outer scope; we return timing from retrieve
+  }
+}
+
+/** The role chunks must allow (`kb_chunks.allowed_roles`) and the client that reads them */
+export type RetrievalScope = { roleKey: string; db: SupabaseClient };
+
+export async function retrieveForRole(params: RetrievalParams, scope: RetrievalScope): Promise<RetrievalResult> {
+  const { tenantId, query, k = 8, useRerank = false, bypassCache = false } = params;
+  const { roleKey, db: supabase } = scope;
+
+  // Unknown generation → no exact invalidation possible, so don't cache at all
+  const generation = await getKnowledgeGeneration(tenantId);
+  const key = generation === null ? null : cacheKey(params, roleKey, generation);
+  if (key && !bypassCache) {
+    const cached = await cache.get(tenantId, key);
+    if (cached) return cached;
+  }
+
+  const rag = await getTenantRagSettings(tenantId, supabase);
+  const effectiveK = rag?.retriever_top_k ?? k;
+  const qEmbed = await embedQuery(query, rag?.embedding_model);
+
+  const overfetch = rag?.overfetch ?? 50;
+  const vectorLimit = Math.max(effectiveK, Math.min(100, overfetch));
+  const keywordLimit = Math.max(effectiveK, Math.min(100, overfetch));
+  const keywordQuery = expandKeywordQuery(query, await getFieldSynonymGroups(tenantId, supabase));
+
+  type Row = { doc_id: string; chunk_idx: number; title: string | null; content: string; score: number; source_uri?: string | null };
+
+  async function vectorSearch(): Promise<{ rows: Row[]; ms: number }> {
+    const t0 = Date.now();
+    const { data, error } = await supabase
+      .rpc("kb_vector_search", { t: tenantId, q: qEmbed, limit_k: vectorLimit, r: roleKey })
+      .select()
+      .returns<Row[]>();
+    if (error) throw error;
+    return { rows: data || [], ms: Date.now() - t0 };
+  }
+
+  async function keywordSearch(): Promise<{ rows: Row[]; ms: number }> {
+    const t0 = Date.now();
+    try {
+      const { data, error } = await supabase
+        .rpc("kb_keyword_search", { t: tenantId, q: keywordQuery, limit_k: keywordLimit, r: roleKey })
+        .select()
+        .returns<Row[]>();
+      if (error) throw error;
+      return { rows: data || [], ms: Date.now() - t0 };
+    } catch {
+      const { data, error } = await supabase
+        .from("kb_chunks")
+        .select("doc_id, chunk_idx, title, content")
+        .eq("tenant_id", tenantId)
+        .contains("allowed_roles", [roleKey])
+        .textSearch("tsv", keywordQuery, { type: "websearch" })
+        .limit(keywordLimit);
+      if (error) throw error;
+      const rows: Row[] = (data || []).map((r) => ({ ...r, score: 0.5 }));
+      return { rows, ms: Date.now() - t0 };
+    }
+  }
+
+  // Hybrid toggle: optionally skip keyword search
+  let vectorRows: Row[] = [];
+  let keywordRows: Row[] = [];
+  let vectorMs = 0;
+  let keywordMs = 0;
+  if (rag?.hybrid_enabled ?? true) {
+    const both = await Promise.all([vectorSearch(), keywordSearch()]);
+    vectorRows = both[0].rows;
+    vectorMs = both[0].ms;
+    keywordRows = both[1].rows;
+    keywordMs = both[1].ms;
+  } else {
+    const only = await vectorSearch();
+    vectorRows = only.rows;
+    vectorMs = only.ms;
+    keywordRows = [];
+    keywordMs = 0;
+  }
+
+  // Fuse both lists with the tenant's strategy; chunks are identified by (doc_id, chunk_idx)
+  const rowKey = (r: Row) => `${r.doc_id}#${r.chunk_idx}`;
+  const strategySetting = rag?.fusion_strategy;
+  const fusionStrategy: FusionStrategy = isFusionStrategy(strategySetting) ? strategySetting : "weighted";
+  const fused = fuseRankings(
+    {
+      vector: vectorRows.map((r) => ({ key: rowKey(r), score: r.score })),
+      keyword: keywordRows.map((r) => ({ key: rowKey(r), score: r.score })),
+    },
+    fusionStrategy,
+    { vector: rag?.vector_weight ?? DEFAULT_FUSION_WEIGHTS.vector, keyword: rag?.keyword_weight ?? DEFAULT_FUSION_WEIGHTS.keyword },
+  );
+
+  const byKey = new Map<string, Row>();
+  for (const r of [...vectorRows, ...keywordRows]) if (!byKey.has(rowKey(r))) byKey.set(rowKey(r), r);
+  let merged: RetrievedChunk[] = Array.from(byKey.entries()).map(([key, r]) => {
+    const f = fused.get(key) ?? { score: 0, v: 0, k: 0 };
+    return {
+      doc_id: r.doc_id,
+      chunk_idx: r.chunk_idx,
+      title: r.title,
+      content: r.content,
+      source_uri: r.source_uri ?? null,
+      score: f.score,
+      v_norm: f.v,
+      k_norm: f.k,
+    };
+  });
+
+  // Deterministic sorting & tie-breakers
+  merged = stableSort(merged, (a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    if (a.doc_id !== b.doc_id) return a.doc_id < b.doc_id ? -1 : 1;
+    return a.chunk_idx - b.chunk_idx;
+  });
+
+  // Optional rerank on top candidates (feature-flag + opportunistic trigger)
+  const RERANK_ENABLE = (rag?.rerank_enabled ?? false) || process.env.RETRIEVAL_RERANK_ENABLE === "true" || useRerank;
+  const RERANK_WINDOW = Number(process.env.RETRIEVAL_RERANK_WINDOW || 20);
+  const RERANK_TRIGGER_MAX = Number(process.env.RETRIEVAL_RERANK_TRIGGER_MAX || 0.6);
+  let rerankMs = 0;
+  const shouldRerank = RERANK_ENABLE && merged.length > 0 && (useRerank || (merged[0]?.score ?? 1) < RERANK_TRIGGER_MAX);
+  if (shouldRerank) {
+    const t0 = Date.now();
+    const topForRerank = merged.slice(0, Math.min(50, Math.max(effectiveK, RERANK_WINDOW)));
+    const reranked = await rerankCandidates(query, topForRerank, effectiveK);
+    merged = reranked;
+    rerankMs = Date.now() - t0;
+  }
+
+  // Diversity (MMR-lite): cap max 2 chunks per doc when scores are close
+  const DOC_CAP = Number(process.env.RETRIEVAL_DOC_CAP || 2);
+  const selected: RetrievedChunk[] = [];
+  const perDoc = new Map<string, number>();
+  for (const ch of merged) {
+    const count = perDoc.get(ch.doc_id) || 0;
+    if (count >= DOC_CAP) continue;
+    selected.push(ch);
+    perDoc.set(ch.doc_id, count + 1);
+    if (selected.length >= effectiveK) break;
+  }
+  const chunks = selected;
+
+  // Debug logging for gating & selection (dev only)
+  // Debug logging disabled by default; enable temporarily when tuning
+
+  const result: RetrievalResult = {
+    chunks,
+    stats: { vectorMs, keywordMs, rerankMs },
+    fusion: fusionStrategy,
+  };
+
+  if (key && generation !== null) await cache.set(tenantId, generation, key, result, DEFAULT_TTL_MS);
+  return result;
+}
+
+
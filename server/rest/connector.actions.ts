@@ -0,0 +1,246 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/server/supabase/server";
+import { createAdminClient } from "@/server/supabase/admin";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { getTenantSlug } from "@/lib/utils/tenant";
+import { getTenantBySlug } from "@/server/tenants/tenants.data";
+import { encryptJson } from "@/lib/utils/crypto.server";
+import { fetchPublic, readBodyWithLimit } from "@/lib/utils/net.server";
+import { buildRestRequestConfig, buildRestSourceConfig, nextLinkUrl, renderHeadersTemplate, REST_PAGE_MAX_BYTES, restPageRequest, type RestConnectorDraft, type RestSourceConfig } from "@/lib/kb/rest";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { syncRestSourcePage, type RunBatchResult } from "./runBatch";
+import { validateRestSchedule } from "./scheduler";
+import type { RestSourceRow } from "./rest.data";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Tenant-facing REST connectors (Knowledge → Connectors), built with the connector wizard and guarded by
+ * `kb.sources.manage`. Unlike operator sources they are not `backoffice_only`; they sync through the scheduler
+ * (`scheduler.ts`) or "Sync now", and their API key is stored encrypted under provider `rest:<sourceId>`.
+ */
+
+type ActionResult = { ok: boolean; error?: string };
+
+/** `nextLink`: for Link-header pagination, the `rel="next"` URL of the sample (null when the header has none). */
+export type RestPreviewResult = { ok: true; status: number; url: string; sample: Json; nextLink?: string | null } | { ok: false; error: string };
+
+export type CreateRestConnectorInput = RestConnectorDraft & {
+  title: string;
+  apiKey?: string;
+  allowedRoles: string[];
+  /** null = sync with "Sync now" only */
+  intervalMinutes: number | null;
+};
+
+const PREVIEW_TIMEOUT_MS = 8000;
+const SAMPLE_ITEMS = 20;
+const SAMPLE_STRING_CHARS = 1000;
+const SAMPLE_DEPTH = 8;
+
+async function resolveManager(): Promise<{ ok: true; tenantId: string; userId: string } | { ok: false; error: string }> {
+  const supabase = await createClient();
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  const slug = await getTenantSlug();
+  if (!slug) return { ok: false, error: "404" };
+  let tenantId: string;
+  try {
+    tenantId = (await getTenantBySlug(slug)).id;
+  } catch {
+    return { ok: false, error: "404" };
+  }
+  try {
+    await requirePermission(tenantId, "kb.sources.manage");
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e.message : "403" };
+  }
+  return { ok: true, tenantId, userId: user.id };
+}
+
+/** Keeps the sample small enough for the wizard: the first items of each array, long strings cut. */
+function trimSample(value: unknown, depth = 0): Json {
+  if (Array.isArray(value)) return depth >= SAMPLE_DEPTH ? [] : value.slice(0, SAMPLE_ITEMS).map((v) => trimSample(v, depth + 1));
+  if (value && typeof value === "object") {
+    if (depth >= SAMPLE_DEPTH) return {};
+    const out: { [key: string]: Json } = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) out[k] = trimSample(v, depth + 1);
+    return out;
+  }
+  if (typeof value === "string") return value.length > SAMPLE_STRING_CHARS ? `${value.slice(0, SAMPLE_STRING_CHARS)}…` : value;
+  return (value ?? null) as Json;
+}
+
+async function loadConnector(tenantId: string, sourceId: string): Promise<RestSourceRow | null> {
+  const admin = await createAdminClient();
+  const { data } = await admin
+    .from("kb_sources")
+    .select("id, tenant_id, title, type, config, uri, backoffice_only")
+    .eq("id", sourceId)
+    .eq("tenant_id", tenantId)
+    .eq("type", "rest")
+    .eq("backoffice_only", false)
+    .maybeSingle();
+  return (data as RestSourceRow) || null;
+}
+
+/** Fetches the first page with the draft's request settings so the user can pick items and fields from it. */
+export async function previewRestConnectorAction(input: RestConnectorDraft & { apiKey?: string }): Promise<RestPreviewResult> {
+  const ctx = await resolveManager();
+  if (!ctx.ok) return ctx;
+  const valid = buildRestRequestConfig(input);
+  if (!valid.ok) return valid;
+  if (valid.config.requiresAuth && !input.apiKey?.trim()) return { ok: false, error: "Enter the API key used by {{API_KEY}}" };
+
+  const request = restPageRequest(valid.config, null);
+  const url = request.url;
+  const ac = new AbortController();
+  const to = setTimeout(() => ac.abort(), PREVIEW_TIMEOUT_MS);
+  try {
+    const res = await fetchPublic(url, {
+      method: request.method,
+      body: request.body,
+      headers: {
+        Accept: "application/json",
+        ...(request.body ? { "Content-Type": "application/json" } : {}),
+        ...renderHeadersTemplate(valid.config.headersTemplate || {}, input.apiKey?.trim()),
+      },
+      redirect: "error",
+      signal: ac.signal,
+      cache: "no-store",
+    });
+    const buffer = await readBodyWithLimit(res, REST_PAGE_MAX_BYTES);
+    if (!res.ok) return { ok: false, error: `HTTP ${res.status}${buffer ? `: ${buffer.toString("utf8").slice(0, 300)}` : ""}` };
+    if (!buffer) return { ok: false, error: "Response is larger than 2 MB; lower the page size" };
+    let json: unknown;
+    try {
+      json = JSON.parse(buffer.toString("utf8"));
+    } catch {
+      return { ok: false, error: "Response is not JSON" };
+    }
+    const nextLink = valid.config.cursorStyle === "link" ? nextLinkUrl(res.headers.get("link"), url) : undefined;
+    return { ok: true, status: res.status, url, sample: trimSample(json), nextLink };
+  } catch (e: unknown) {
+    if (ac.signal.aborted) return { ok: false, error: "Request timed out" };
+    return { ok: false, error: e instanceof Error ? e.message : "Request failed" };
+  } finally {
+    clearTimeout(to);
+  }
+}
+
+export async function createRestConnectorAction(input: CreateRestConnectorInput): Promise<ActionResult & { sourceId?: string }> {
+  const ctx = await resolveManager();
+  if (!ctx.ok) return ctx;
+  const title = input.title.trim();
+  if (!title) return { ok: false, error: "Name is required" };
+  const valid = buildRestSourceConfig(input);
+  if (!valid.ok) return valid;
+  const apiKey = input.apiKey?.trim();
+  if (valid.config.requiresAuth && !apiKey) return { ok: false, error: "Enter the API key used by {{API_KEY}}" };
+  const schedule = validateRestSchedule({ intervalMinutes: input.intervalMinutes });
+  if (!schedule.ok) return { ok: false, error: schedule.error };
+
+  const admin = await createAdminClient();
+  const allowedRoles = Array.from(new Set(input.allowedRoles.map((r) => r.trim()).filter(Boolean)));
+  if (allowedRoles.length === 0) return { ok: false, error: "At least one role must be selected" };
+  const { data: known } = await admin.from("roles").select("key").eq("tenant_id", ctx.tenantId).in("key", allowedRoles);
+  const unknown = allowedRoles.filter((r) => !(known || []).some((k) => k.key === r));
+  if (unknown.length) return { ok: false, error: `Unknown role${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}` };
+
+  const sourceId = randomUUID();
+  const config: RestSourceConfig = {
+    ...valid.config,
+    allowedRolesOverride: allowedRoles,
+    ...(valid.config.requiresAuth ? { provider: `rest:${sourceId}` } : {}),
+    ...(schedule.schedule ? { schedule: schedule.schedule } : {}),
+  };
+  const { error } = await admin.from("kb_sources").insert({
+    id: sourceId,
+    tenant_id: ctx.tenantId,
+    type: "rest",
+    title,
+    uri: valid.config.baseUrl,
+    config: config as unknown as Json,
+    default_allowed_roles: allowedRoles,
+    backoffice_only: false,
+    created_by: ctx.userId,
+  } as TablesInsert<"kb_sources">);
+  if (error) return { ok: false, error: error.message };
+
+  if (valid.config.requiresAuth && apiKey) {
+    const { ciphertext, nonce } = await encryptJson({ api_key: apiKey });
+    const { error: secretErr } = await admin.from("integration_secrets").insert({
+      tenant_id: ctx.tenantId,
+      provider: `rest:${sourceId}`,
+      ciphertext,
+      nonce,
+      key_version: 1,
+    } as TablesInsert<"integration_secrets">);
+    if (secretErr) {
+      await admin.from("kb_sources").delete().eq("id", sourceId);
+      return { ok: false, error: "Failed to store the API key" };
+    }
+  }
+
+  try {
+    await admin.from("audit_logs").insert({
+      tenant_id: ctx.tenantId,
+      actor_user_id: ctx.userId,
+      action: "kb.source.create",
+      resource: "kb_source",
+      meta: { source_id: sourceId, type: "rest", base_url: valid.config.baseUrl },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  try { revalidatePath("/knowledge"); } catch {}
+  return { ok: true, sourceId };
+}
+
+/** Fetches and ingests the connector's next page right away, like an operator's "Sync batch". */
+export async function syncRestConnectorAction(sourceId: string): Promise<RunBatchResult> {
+  const ctx = await resolveManager();
+  if (!ctx.ok) return ctx;
+  const source = await loadConnector(ctx.tenantId, sourceId);
+  if (!source) return { ok: false, error: "Connector not found" };
+  return syncRestSourcePage(source);
+}
+
+export async function deleteRestConnectorAction(sourceId: string): Promise<ActionResult> {
+  const ctx = await resolveManager();
+  if (!ctx.ok) return ctx;
+  const source = await loadConnector(ctx.tenantId, sourceId);
+  if (!source) return { ok: false, error: "Connector not found" };
+
+  const admin = await createAdminClient();
+  const { data: docs, error: dErr } = await admin.from("kb_docs").select("id").eq("tenant_id", ctx.tenantId).eq("source_id", sourceId);
+  if (dErr) return { ok: false, error: dErr.message };
+  for (const doc of docs || []) {
+    const { error: cErr } = await admin.from("kb_chunks").delete().eq("doc_id", doc.id).eq("tenant_id", ctx.tenantId);
+    if (cErr) return { ok: false, error: cErr.message };
+  }
+  const { error: delDocsErr } = await admin.from("kb_docs").delete().eq("tenant_id", ctx.tenantId).eq("source_id", sourceId);
+  if (delDocsErr) return { ok: false, error: delDocsErr.message };
+  if ((docs || []).length > 0) await bumpKnowledgeGeneration(ctx.tenantId);
+
+  await admin.from("kb_rest_cursors").delete().eq("source_id", sourceId);
+  await admin.from("integration_secrets").delete().eq("tenant_id", ctx.tenantId).eq("provider", `rest:${sourceId}`);
+  const { error: sErr } = await admin.from("kb_sources").delete().eq("id", sourceId).eq("tenant_id", ctx.tenantId);
+  if (sErr) return { ok: false, error: sErr.message };
+
+  try {
+    await admin.from("audit_logs").insert({
+      tenant_id: ctx.tenantId,
+      actor_user_id: ctx.userId,
+      action: "kb.source.delete",
+      resource: "kb_source",
+      meta: { source_id: sourceId, type: "rest", docs: (docs || []).length },
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  try { revalidatePath("/knowledge"); } catch {}
+  return { ok: true };
+}
@@ -0,0 +1,185 @@
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { chunkContent, resolveChunkOptions } from "@/lib/kb/chunk";
+import { embedChunks } from "@/lib/kb/embed";
+import { hashContent } from "@/lib/kb/extract";
+import { applyChunkReuse, planChunkReuse, type ReusePlan } from "@/server/kb/chunkReuse";
+import type { RestItemRecord } from "@/lib/kb/rest";
+import type { RestSourceRow } from "./rest.data";
+import type { TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Item mode of the REST sync (`config.idPath` set): every upstream item is its own `kb_doc` keyed by
+ * `(source_id, external_id)`. A changed item is re-indexed in place, keeping the rows of unchanged chunks; an
+ * unchanged one only gets `last_seen_at` bumped. Docs a complete pass didn't see are tombstoned: their chunks are
+ * removed and the doc stays as `status = 'deleted'` until the item shows up again.
+ */
+
+export type RestItemSyncStats = { upserted: number; unchanged: number };
+
+type ItemDocRow = { id: string; external_id: string; content_hash: string | null; status: string };
+
+type PendingItem = {
+  record: RestItemRecord;
+  docId: string;
+  contentHash: string;
+  chunks: Array<{ title: string | null; content: string; metadata: Record<string, unknown> }>;
+  plan: ReusePlan;
+};
+
+const INSERT_BATCH = 100;
+const ID_BATCH = 200;
+
+/** Creates or refreshes the docs of one page of items, all seen at `seenAt`. */
+export async function upsertRestItems(source: RestSourceRow, pageRecords: RestItemRecord[], allowedRoles: string[], seenAt: string): Promise<RestItemSyncStats> {
+  // An id repeated within the page would insert its doc twice; the last occurrence wins, as in `keyRestItems`
+  const records = Array.from(new Map(pageRecords.map((r) => [r.externalId, r])).values());
+  if (records.length === 0) return { upserted: 0, unchanged: 0 };
+  const admin = await createAdminClient();
+
+  const { data: existingRows, error: existingErr } = await admin
+    .from("kb_docs")
+    .select("id, external_id, content_hash, status")
+    .eq("tenant_id", source.tenant_id)
+    .eq("source_id", source.id)
+    .in("external_id", records.map((r) => r.externalId));
+  if (existingErr) throw new Error(existingErr.message);
+  const byExternalId = new Map(((existingRows || []) as ItemDocRow[]).map((r) => [r.external_id, r]));
+
+  const { data: ragRow } = await admin
+    .from("tenant_rag_settings")
+    .select("embedding_model, chunk_target_tokens, chunk_overlap_tokens")
+    .eq("tenant_id", source.tenant_id)
+    .maybeSingle<{ embedding_model: string | null; chunk_target_tokens: number | null; chunk_overlap_tokens: number | null }>();
+  const embeddingModel = ragRow?.embedding_model ?? null;
+  const chunkOptions = resolveChunkOptions(ragRow);
+
+  const unchangedIds: string[] = [];
+  const pending: PendingItem[] = [];
+  for (const record of records) {
+    const contentHash = await hashContent(record.text);
+    const existing = byExternalId.get(record.externalId);
+    if (existing && existing.content_hash === contentHash && existing.status === "ready") {
+      unchangedIds.push(existing.id);
+      continue;
+    }
+    let docId = existing?.id ?? null;
+    if (!docId) {
+      const { data: ins, error: insErr } = await admin
+        .from("kb_docs")
+        .insert({
+          tenant_id: source.tenant_id,
+          source_id: source.id,
+          external_id: record.externalId,
+          title: record.title || `${source.title} — ${record.externalId}`,
+          status: "processing",
+          error: null,
+        } as unknown as TablesInsert<"kb_docs">)
+        .select("id")
+        .single<{ id: string }>();
+      if (insErr) throw new Error(insErr.message);
+      docId = ins.id;
+    }
+    const chunks = await Promise.all(
+      chunkContent([{ title: record.title, content: record.text, sectionIndex: 0 }], chunkOptions).map(async (c) => ({
+        title: c.title ?? null,
+        content: c.content,
+        metadata: {
+          sectionIndex: c.sectionIndex,
+          token_count: c.tokens,
+          embedding_model: embeddingModel,
+          sourceId: source.id,
+          externalId: record.externalId,
+          contentHash: await hashContent(c.content),
+        } as Record<string, unknown>,
+      })),
+    );
+    const plan = existing ? await planChunkReuse({ tenantId: source.tenant_id, docId, chunks, embeddingModel }) : { reuse: chunks.map(() => null) };
+    pending.push({ record, docId, contentHash, chunks, plan });
+  }
+
+  // One embedding call for the page instead of one per item
+  const toEmbed = pending.flatMap((p) => p.chunks.filter((_, idx) => !p.plan.reuse[idx]).map((c) => c.content));
+  const embeddings = toEmbed.length > 0 ? await embedChunks(toEmbed, embeddingModel) : [];
+  let next = 0;
+  for (const p of pending) {
+    const applied = await applyChunkReuse({
+      tenantId: source.tenant_id,
+      docId: p.docId,
+      plan: p.plan,
+      kept: (idx) => ({ title: p.chunks[idx]!.title, allowed_roles: allowedRoles, metadata: p.chunks[idx]!.metadata }),
+    });
+    if (!applied) throw new Error(`Chunks of item ${p.record.externalId} changed while indexing; the next batch retries it`);
+    const rows = p.chunks
+      .map((c, idx) => ({ c, idx }))
+      .filter(({ idx }) => !p.plan.reuse[idx])
+      .map(({ c, idx }) => ({
+        tenant_id: source.tenant_id,
+        doc_id: p.docId,
+        chunk_idx: idx,
+        title: c.title,
+        content: c.content,
+        embedding: JSON.stringify(embeddings[next++]),
+        allowed_roles: allowedRoles,
+        metadata: c.metadata as unknown,
+      })) as unknown as TablesInsert<"kb_chunks">[];
+    for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+      const { error: chunkErr } = await admin.from("kb_chunks").insert(rows.slice(i, i + INSERT_BATCH));
+      if (chunkErr) throw new Error(chunkErr.message);
+    }
+    const { error: docErr } = await admin
+      .from("kb_docs")
+      .update({
+        title: p.record.title || `${source.title} — ${p.record.externalId}`,
+        status: "ready",
+        content_hash: p.contentHash,
+        error: null,
+        last_seen_at: seenAt,
+        deleted_at: null,
+      })
+      .eq("tenant_id", source.tenant_id)
+      .eq("id", p.docId);
+    if (docErr) throw new Error(docErr.message);
+  }
+
+  for (let i = 0; i < unchangedIds.length; i += ID_BATCH) {
+    const { error: seenErr } = await admin
+      .from("kb_docs")
+      .update({ last_seen_at: seenAt })
+      .eq("tenant_id", source.tenant_id)
+      .in("id", unchangedIds.slice(i, i + ID_BATCH));
+    if (seenErr) throw new Error(seenErr.message);
+  }
+  return { upserted: pending.length, unchanged: unchangedIds.length };
+}
+
+/** Tombstones the item docs of the source not seen since `passStartedAt`; returns how many. */
+export async function tombstoneUnseenRestItems(source: RestSourceRow, passStartedAt: string): Promise<number> {
+  const admin = await createAdminClient();
+  let removed = 0;
+  // Tombstoned docs drop out of the query, so each round reads the next batch
+  for (;;) {
+    const { data, error } = await admin
+      .from("kb_docs")
+      .select("id")
+      .eq("tenant_id", source.tenant_id)
+      .eq("source_id", source.id)
+      .not("external_id", "is", null)
+      .neq("status", "deleted")
+      .or(`last_seen_at.is.null,last_seen_at.lt.${passStartedAt}`)
+      .limit(ID_BATCH);
+    if (error) throw new Error(error.message);
+    const ids = (data || []).map((d) => d.id);
+    if (ids.length === 0) return removed;
+    const { error: chunkErr } = await admin.from("kb_chunks").delete().eq("tenant_id", source.tenant_id).in("doc_id", ids);
+    if (chunkErr) throw new Error(chunkErr.message);
+    const { error: docErr } = await admin
+      .from("kb_docs")
+      .update({ status: "deleted", deleted_at: new Date().toISOString(), content_hash: null })
+      .eq("tenant_id", source.tenant_id)
+      .in("id", ids);
+    if (docErr) throw new Error(docErr.message);
+    removed += ids.length;
+  }
+}
@@ -3,6 +3,10 @@
 import { revalidatePath } from "next/cache";
 import { createAdminClient } from "@/server/supabase/admin";
 import { isPlatformAdmin } from "@/server/platform/platform-admin.data";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { nextScheduledRun, validateRestSchedule } from "./scheduler";
+import type { RestSyncSchedule } from "@/lib/kb/rest";
+import type { Json } from "@/lib/types/database.types";
 
 type ActionResult = { ok: boolean; error?: string };
 
@@ -30,6 +34,7 @@ export async function deleteRestSourceAction(formData: FormData): Promise<Action
 
   const { error: delDocsErr } = await admin.from("kb_docs").delete().eq("source_id", sourceId);
   if (delDocsErr) return { ok: false, error: delDocsErr.message };
+  for (const tenantId of new Set((docs || []).map((d) => d.tenant_id as string))) await bumpKnowledgeGeneration(tenantId);
 
   await admin.from("kb_rest_cursors").delete().eq("source_id", sourceId);
 
@@ -40,6 +45,43 @@ export async function deleteRestSourceAction(formData: FormData): Promise<Action
   return { ok: true };
 }
 
-// File intentionally minimal after refactor
+/**
+ * Sets or clears `config.schedule` of a REST source. An interval schedule is due right away, a cron schedule at
+ * its next time; a previous error backoff is dropped.
+ */
+export async function updateRestScheduleAction(input: { sourceId: string } & RestSyncSchedule): Promise<ActionResult> {
+  const ok = await isPlatformAdmin();
+  if (!ok) return { ok: false, error: "forbidden" };
+  if (!input.sourceId) return { ok: false, error: "missing sourceId" };
+  const valid = validateRestSchedule(input);
+  if (!valid.ok) return { ok: false, error: valid.error };
+
+  const admin = await createAdminClient();
+  const { data: source, error: sErr } = await admin
+    .from("kb_sources")
+    .select("id, config")
+    .eq("id", input.sourceId)
+    .eq("type", "rest")
+    .maybeSingle();
+  if (sErr) return { ok: false, error: sErr.message };
+  if (!source) return { ok: false, error: "source not found" };
+
+  const config = { ...((source.config || {}) as Record<string, unknown>) };
+  if (valid.schedule) config.schedule = valid.schedule;
+  else delete config.schedule;
+  const { error: uErr } = await admin.from("kb_sources").update({ config: config as Json }).eq("id", input.sourceId);
+  if (uErr) return { ok: false, error: uErr.message };
+
+  await admin
+    .from("kb_rest_cursors")
+    .update({
+      next_run_at: valid.schedule?.cron ? nextScheduledRun(valid.schedule, new Date())!.toISOString() : null,
+      error_count: 0,
+    })
+    .eq("source_id", input.sourceId);
+
+  revalidatePath("/backoffice/rest-sources");
+  return { ok: true };
+}
 
 
@@ -20,6 +20,13 @@ export type RestCursorRow = {
   last_http_status: number | null;
   last_synced_at: string | null;
   last_error: string | null;
+  /** Scheduler state, see server/rest/scheduler.ts */
+  next_run_at?: string | null;
+  error_count?: number;
+  run_started_at?: string | null;
+  run_completed_at?: string | null;
+  /** Start of the current pass, for tombstoning items it doesn't see (`itemSync.ts`); null after a 304 */
+  pass_started_at?: string | null;
 };
 
 export type RestSourceWithState = {
@@ -51,7 +58,7 @@ export async function listBackofficeRestSourcesWithCursor(): Promise<RestSourceW
   const [cursorsRes, tenantsRes] = await Promise.all([
     supabase
       .from("kb_rest_cursors")
-      .select("source_id, next_cursor, page_count, item_count, last_status, last_http_status, last_synced_at, last_error")
+      .select("source_id, next_cursor, page_count, item_count, last_status, last_http_status, last_synced_at, last_error, next_run_at, error_count, run_started_at, run_completed_at")
       .in("source_id", ids)
       .order("last_synced_at", { ascending: false }),
     supabase
@@ -88,18 +95,3 @@ export async function getRestSource(sourceId: string): Promise<RestSourceRow | n
   if (error) throw new Error(error.message);
   return (data as RestSourceRow) || null;
 }
-
-export async function getRestCursor(sourceId: string): Promise<RestCursorRow | null> {
-  const ok = await isPlatformAdmin();
-  if (!ok) throw new Error("403");
-  const supabase = await createAdminClient();
-  const { data, error } = await supabase
-    .from("kb_rest_cursors")
-    .select("source_id, next_cursor, page_count, item_count, last_status, last_http_status, last_synced_at, last_error")
-    .eq("source_id", sourceId)
-    .maybeSingle();
-  if (error) throw new Error(error.message);
-  return (data as RestCursorRow) || null;
-}
-
-
@@ -1,106 +1,95 @@
-"use server";
-
 import "server-only";
 
-import { createClient } from "@/server/supabase/server";
 import { createAdminClient } from "@/server/supabase/admin";
-import { getRestSource, getRestCursor } from "./rest.data";
+import { getRestSource, type RestCursorRow, type RestSourceRow } from "./rest.data";
 import { decryptJson } from "@/lib/utils/crypto.server";
-import { chunkContent } from "@/lib/kb/chunk";
+import { chunkContent, resolveChunkOptions } from "@/lib/kb/chunk";
 import { embedChunks } from "@/lib/kb/embed";
 import { hashContent } from "@/lib/kb/extract";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import {
+  DEFAULT_TEXT_FIELDS,
+  getFromPath,
+  keyRestItems,
+  nextCursorFromBody,
+  nextLinkUrl,
+  nextPageNumber,
+  normalizeItemsToText,
+  REST_PAGE_MAX_BYTES,
+  renderHeadersTemplate,
+  restPageRequest,
+  restPageSize,
+  selectItems,
+  type RestItemRecord,
+  type RestSourceConfig,
+} from "@/lib/kb/rest";
+import { tombstoneUnseenRestItems, upsertRestItems, type RestItemSyncStats } from "./itemSync";
+import { fetchPublic, readBodyWithLimit } from "@/lib/utils/net.server";
 import type { TablesInsert } from "@/lib/types/database.types";
 
-type HeadersTemplate = Record<string, string>;
-
-type RestSourceConfig = {
-  baseUrl: string;
-  cursorParam?: string;
-  pageSizeParam?: string;
-  defaultPageSize?: number;
-  itemsPath?: string | null;
-  nextCursorPath?: string | null;
-  currentOffsetPath?: string | null;
-  totalPath?: string | null;
-  headersTemplate?: Record<string, string>;
-  textFields?: string[];
-  allowedRolesOverride?: string[];
-  requiresAuth?: boolean;
-  ifNoneMatchHeader?: string;
-  ifModifiedSinceHeader?: string;
-  cursorStyle?: string;
-  provider?: string;
-  etag?: string;
-  modifiedSince?: string;
+/** `upserted` / `unchanged` / `removed`: item mode only (`config.idPath`); `removed` counts tombstones at the end of a pass */
+export type RunBatchOk = {
+  ok: true;
+  done: boolean;
+  items: number;
+  next: string | null;
+  url: string;
+  status: number;
+  upserted?: number;
+  unchanged?: number;
+  removed?: number;
 };
-
-export type RunBatchOk = { ok: true; done: boolean; items: number; next: string | null; url: string; status: number };
 export type RunBatchErr = { ok: false; error: string };
 export type RunBatchResult = RunBatchOk | RunBatchErr;
 
-function renderHeadersTemplate(tpl: HeadersTemplate, apiKey?: string): Record<string, string> {
-  const headers: Record<string, string> = {};
-  for (const [k, v] of Object.entries(tpl || {})) headers[k] = v.replaceAll("{{API_KEY}}", apiKey || "");
-  return headers;
-}
-
-function getFromPath<T = unknown>(obj: unknown, path: string | null | undefined): T | undefined {
-  if (!path || path === "$") return obj as T;
-  const parts = path.split(".");
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let cur: any = obj as Record<string, unknown>;
-  for (const p of parts) {
-    if (cur == null) return undefined;
-    cur = (cur as Record<string, unknown>)[p];
-  }
-  return cur as T | undefined;
+/** One page for an operator (manual "Sync batch"); requires a platform admin session. */
+export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult> {
+  const source = await getRestSource(sourceId);
+  if (!source || source.type !== "rest") return { ok: false, error: "not found" };
+  return syncRestSourcePage(source);
 }
 
-function normalizeItemsToText(items: Array<Record<string, unknown>>, textFields: string[]): string[] {
-  const blocks: string[] = [];
-  for (const it of items) {
-    const parts: string[] = [];
-    for (const f of textFields) {
-      const val = getFromPath<unknown>(it, f as string);
-      if (val == null) continue;
-      parts.push(typeof val === "string" ? val : JSON.stringify(val));
-    }
-    const text = parts.join("\n\n").trim();
-    if (text) blocks.push(text);
-  }
-  return blocks;
+async function loadCursor(sourceId: string): Promise<RestCursorRow | null> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin
+    .from("kb_rest_cursors")
+    .select("source_id, next_cursor, page_count, item_count, last_status, last_http_status, last_synced_at, last_error, pass_started_at")
+    .eq("source_id", sourceId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as RestCursorRow) || null;
 }
 
-export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult> {
-  const supabase = await createClient();
+/**
+ * Fetches and ingests the page at the source's cursor, then advances it. No permission check: callers are the
+ * operator route above, the tenant connector actions (`connector.actions.ts`) and the scheduler (`scheduler.ts`).
+ */
+export async function syncRestSourcePage(source: RestSourceRow): Promise<RunBatchResult> {
   const admin = await createAdminClient();
-
-  const source = await getRestSource(sourceId);
-  if (!source || source.type !== "rest") return { ok: false, error: "not found" };
+  const sourceId = source.id;
 
   const raw = source.config as unknown;
   const config: RestSourceConfig = raw && typeof raw === "object" ? (raw as RestSourceConfig) : ({} as RestSourceConfig);
   const baseUrl: string = String(config.baseUrl || "");
   if (!baseUrl) return { ok: false, error: "missing baseUrl in source config" };
-  const cursorParam: string = (config.cursorParam as string) || "page";
-  const pageSizeParam: string | undefined = (config.pageSizeParam as string | undefined);
-  const defaultPageSize: number = Math.min(Number(config.defaultPageSize ?? 100), 100);
+  const defaultPageSize: number = restPageSize(config);
   const itemsPath: string | null = (config.itemsPath as string | null | undefined) ?? "$";
   const nextCursorPath: string | null = (config.nextCursorPath as string | null | undefined) ?? null;
   const currentOffsetPath: string | null = (config.currentOffsetPath as string | null | undefined) ?? null;
   const totalPath: string | null = (config.totalPath as string | null | undefined) ?? null;
-  const headersTemplate: HeadersTemplate = (config.headersTemplate as HeadersTemplate) || {};
-  const textFields: string[] = Array.isArray(config.textFields) ? (config.textFields as string[]) : ["title", "body", "name", "description"];
+  const headersTemplate: Record<string, string> = config.headersTemplate || {};
+  const textFields: string[] = Array.isArray(config.textFields) ? (config.textFields as string[]) : DEFAULT_TEXT_FIELDS;
   const allowedRoles: string[] = Array.isArray(config.allowedRolesOverride) ? (config.allowedRolesOverride as string[]) : ["support", "operations", "admin"];
   const requiresAuth: boolean = Boolean(config.requiresAuth);
   const ifNoneMatchHeader: string | undefined = config.ifNoneMatchHeader as string | undefined;
   const ifModifiedSinceHeader: string | undefined = config.ifModifiedSinceHeader as string | undefined;
   const cursorStyle: string | undefined = config.cursorStyle as string | undefined;
+  const itemMode = Boolean(config.idPath);
 
   // Secret
   let apiKey: string | undefined;
   if (requiresAuth) {
-    const { data: secret, error: sErr } = await supabase
+    const { data: secret, error: sErr } = await admin
       .from("integration_secrets")
       .select("ciphertext, nonce")
       .eq("tenant_id", source.tenant_id)
@@ -118,44 +107,61 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
   }
 
   // Cursor
-  const cursorRow = await getRestCursor(sourceId);
+  const cursorRow = await loadCursor(sourceId);
   const nextCursor: string | null = cursorRow?.next_cursor ?? null;
 
-  // Build URL
-  const url = new URL(nextCursor && nextCursor.startsWith("http") ? nextCursor : baseUrl);
-  if (!nextCursor || !nextCursor.startsWith("http")) {
-    const initialCursor = cursorStyle === "offset" ? (nextCursor ?? "0") : nextCursor;
-    if (initialCursor !== undefined && initialCursor !== null) url.searchParams.set(cursorParam, String(initialCursor));
-    if (pageSizeParam) url.searchParams.set(pageSizeParam, String(defaultPageSize));
-  }
+  // Build request (GET of the page URL, or a GraphQL POST)
+  const request = restPageRequest(config, nextCursor);
+  // Tenant connectors are configured by tenant admins: keep them off our network and don't follow redirects there
+  const tenantConfigured = !source.backoffice_only;
 
   // Fetch one page (4s timeout)
   const ac = new AbortController();
   const to = setTimeout(() => ac.abort(), 4000);
   let httpStatus = 0;
   let items: Array<Record<string, unknown>> = [];
+  let blocks: string[] = [];
+  let records: RestItemRecord[] = [];
+  // Items upserted by this page count as seen from here; a pass starts with the first page
+  const fetchedAt = new Date().toISOString();
   let nextFromBody: string | null | undefined = null;
-  const requestUrlForDebug = url.toString();
+  const requestUrlForDebug = request.url;
   try {
     const h: Record<string, string> = renderHeadersTemplate(headersTemplate, apiKey);
     if (config.etag && ifNoneMatchHeader) h[ifNoneMatchHeader] = String(config.etag);
     if (config.modifiedSince && ifModifiedSinceHeader) h[ifModifiedSinceHeader] = String(config.modifiedSince);
-    const res = await fetch(requestUrlForDebug, { method: "GET", headers: h, signal: ac.signal, cache: "no-store" });
+    if (request.body) h["Content-Type"] = "application/json";
+    const init: RequestInit = { method: request.method, body: request.body, headers: h, signal: ac.signal, cache: "no-store", redirect: tenantConfigured ? "error" : "follow" };
+    const res = tenantConfigured ? await fetchPublic(requestUrlForDebug, init) : await fetch(requestUrlForDebug, init);
     httpStatus = res.status;
+    // Tenant endpoints get the preview's size cap; an oversized page is recorded like a failed fetch
+    const readBody = async (): Promise<string> => {
+      if (!tenantConfigured) return res.text();
+      const buffer = await readBodyWithLimit(res, REST_PAGE_MAX_BYTES);
+      if (!buffer) throw new Error(`Response is larger than ${REST_PAGE_MAX_BYTES / (1024 * 1024)} MB; lower the page size`);
+      return buffer.toString("utf8");
+    };
     if (res.status === 304) {
       items = [];
       nextFromBody = undefined;
     } else if (!res.ok) {
-      const text = await res.text();
+      const text = await readBody();
       throw new Error(text.slice(0, 500));
     } else {
-      const json = await res.json();
-      const arr = getFromPath(json, itemsPath);
-      if (Array.isArray(arr)) items = arr;
-      if (nextCursorPath) {
-        const n = getFromPath(json, nextCursorPath);
-        nextFromBody = typeof n === "string" || n == null ? n : null;
-      } else if (Array.isArray(arr) && arr.length < defaultPageSize) {
+      const json = JSON.parse(await readBody());
+      // Inside the try so a bad path in the config is recorded on the cursor like a failed fetch
+      items = selectItems(json, itemsPath);
+      if (itemMode) records = keyRestItems(items, config, textFields);
+      else blocks = normalizeItemsToText(items, textFields, config.itemTemplate);
+      if (cursorStyle === "none") {
+        nextFromBody = null; // single page
+      } else if (cursorStyle === "link") {
+        nextFromBody = items.length > 0 ? nextLinkUrl(res.headers.get("link"), requestUrlForDebug) : null;
+      } else if (cursorStyle === "page") {
+        nextFromBody = nextPageNumber(config, nextCursor, json, items.length);
+      } else if (nextCursorPath) {
+        nextFromBody = nextCursorFromBody(config, json); // also `graphql`
+      } else if (items.length < defaultPageSize) {
         nextFromBody = null; // done
       } else {
         nextFromBody = undefined; // defer to cursorStyle
@@ -217,8 +223,16 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
     clearTimeout(to);
   }
 
-  // Ingest
-  const blocks = normalizeItemsToText(items, textFields);
+  // Ingest: one doc per item in item mode, else a daily doc per source
+  let itemStats: RestItemSyncStats | null = null;
+  if (itemMode) {
+    try {
+      itemStats = await upsertRestItems(source, records, allowedRoles, fetchedAt);
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    if (itemStats.upserted > 0) await bumpKnowledgeGeneration(source.tenant_id);
+  }
   if (blocks.length > 0) {
     const today = new Date();
     const ymd = today.toISOString().slice(0, 10);
@@ -242,8 +256,13 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
       docId = ins?.id ?? null;
     }
     if (!docId) return { ok: false, error: "failed to resolve doc id" };
+    const { data: ragRow } = await admin
+      .from("tenant_rag_settings")
+      .select("embedding_model, chunk_target_tokens, chunk_overlap_tokens")
+      .eq("tenant_id", source.tenant_id)
+      .maybeSingle<{ embedding_model: string | null; chunk_target_tokens: number | null; chunk_overlap_tokens: number | null }>();
     const chunks = blocks.map((content, idx) => ({ title: null as string | null, content, sectionIndex: idx }));
-    const expanded = chunkContent(chunks.map((c, i) => ({ title: c.title, content: c.content, sectionIndex: i })), { targetTokens: 1000, overlapTokens: 120 });
+    const expanded = chunkContent(chunks.map((c, i) => ({ title: c.title, content: c.content, sectionIndex: i })), resolveChunkOptions(ragRow));
 
     // Build set of existing content hashes to avoid duplicate inserts across batches
     const { data: existingMetaRows, error: metaErr } = await admin
@@ -271,7 +290,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
       // Nothing new to insert; skip embeddings/insert path
     }
 
-    const embeddings = filtered.length > 0 ? await embedChunks(filtered.map((c) => c.content)) : [];
+    const embeddings = filtered.length > 0 ? await embedChunks(filtered.map((c) => c.content), ragRow?.embedding_model) : [];
 
     // Determine starting chunk index to avoid unique constraint collisions per (tenant_id, doc_id, chunk_idx)
     const { data: lastIdxRows, error: lastIdxErr } = await admin
@@ -294,7 +313,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
       content: c.content,
       embedding: JSON.stringify(embeddings[idx]),
       allowed_roles: allowedRoles,
-      metadata: { sectionIndex: c.sectionIndex, sourceId: source.id, contentHash: c.contentHash } as unknown,
+      metadata: { sectionIndex: c.sectionIndex, sourceId: source.id, contentHash: c.contentHash, embedding_model: ragRow?.embedding_model ?? null } as unknown,
     })) as unknown as TablesInsert<"kb_chunks">[];
     const batchSize = 100;
     for (let i = 0; i < rows.length; i += batchSize) {
@@ -302,6 +321,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
       const { error: chunkErr } = await admin.from("kb_chunks").insert(slice as TablesInsert<"kb_chunks">[]);
       if (chunkErr) return { ok: false, error: chunkErr.message };
     }
+    if (rows.length > 0) await bumpKnowledgeGeneration(source.tenant_id);
 
     // Recompute doc-level content hash based on all chunk content hashes (ordered by chunk_idx)
     const { data: allChunkRows, error: allErr } = await admin
@@ -332,6 +352,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
   let computedNext: string | null = null;
   if (typeof nextFromBody === "string") computedNext = nextFromBody;
   else if (nextFromBody === null) computedNext = null;
+  else if (cursorStyle && cursorStyle !== "offset") computedNext = null; // explicit styles decide from the response; 304 = nothing new
   else if (cursorStyle === "offset") {
     const cur = Number(nextCursor ?? "0");
     if (!Number.isNaN(cur)) {
@@ -344,6 +365,18 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
     computedNext = Number.isNaN(curNum) ? nextCursor : String(curNum + 1);
   }
 
+  // Deletions can only be told from a complete pass in which every page was read (a 304 says nothing about items)
+  const passStartedAt = httpStatus === 304 ? null : nextCursor == null ? fetchedAt : (cursorRow?.pass_started_at ?? null);
+  let removed: number | undefined;
+  if (itemMode && computedNext == null && passStartedAt) {
+    try {
+      removed = await tombstoneUnseenRestItems(source, passStartedAt);
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    if (removed > 0) await bumpKnowledgeGeneration(source.tenant_id);
+  }
+
   // Upsert cursor (admin)
   const { data: existing } = await admin
     .from("kb_rest_cursors")
@@ -356,6 +389,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
       .from("kb_rest_cursors")
       .update({
         next_cursor: computedNext,
+        pass_started_at: computedNext == null ? null : passStartedAt,
         page_count: (existing.page_count ?? 0) + 1,
         item_count: (existing.item_count ?? 0) + (items?.length || 0),
         last_status: "ok",
@@ -373,6 +407,7 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
         source_id: sourceId,
         tenant_id: source.tenant_id,
         next_cursor: computedNext,
+        pass_started_at: computedNext == null ? null : passStartedAt,
         page_count: 1,
         item_count: (items?.length || 0),
         last_status: "ok",
@@ -383,7 +418,15 @@ export async function runRestSyncBatch(sourceId: string): Promise<RunBatchResult
     if (insErr) return { ok: false, error: insErr.message };
   }
 
-  return { ok: true, done: computedNext == null, items: items.length, next: computedNext, url: requestUrlForDebug, status: httpStatus || 200 };
+  return {
+    ok: true,
+    done: computedNext == null,
+    items: items.length,
+    next: computedNext,
+    url: requestUrlForDebug,
+    status: httpStatus || 200,
+    ...(itemStats ? { ...itemStats, removed: removed ?? 0 } : {}),
+  };
 }
 
 
@@ -0,0 +1,204 @@
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { nextCronRun, parseCron } from "@/lib/utils/cron";
+import { syncRestSourcePage, type RunBatchResult } from "./runBatch";
+import type { RestSourceRow } from "./rest.data";
+import type { RestSyncSchedule } from "@/lib/kb/rest";
+import type { TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Scheduled REST sync. Sources opt in with `config.schedule`; `/api/cron/rest-sync` runs every minute and works
+ * through due sources page by page until each run is `done` or the time budget is spent, resuming from
+ * `kb_rest_cursors.next_cursor` on the next call.
+ *
+ * Run state lives on the cursor row: `run_started_at`/`run_completed_at` bracket a run, `next_run_at` is when the
+ * source is due again, `error_count` counts consecutive failed calls for the backoff, and `lease_expires_at` keeps
+ * overlapping scheduler calls (and a second region) off the same source.
+ * - `REST_SYNC_BACKOFF_BASE_MS` (default 60000) doubles per consecutive error, up to `REST_SYNC_BACKOFF_MAX_MS` (default 6h)
+ */
+
+export type ScheduledSyncSummary = {
+  due: number;
+  processed: Array<{ sourceId: string; pages: number; outcome: "done" | "error" | "budget"; error?: string; nextRunAt: string | null }>;
+};
+
+type ScheduleState = {
+  id: string;
+  source_id: string;
+  next_cursor: string | null;
+  next_run_at: string | null;
+  run_started_at: string | null;
+  run_completed_at: string | null;
+  error_count: number;
+  lease_expires_at: string | null;
+};
+
+export const MIN_INTERVAL_MINUTES = 5;
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+
+const STATE_COLUMNS = "id, source_id, next_cursor, next_run_at, run_started_at, run_completed_at, error_count, lease_expires_at";
+/** Time a page may take (4s fetch + chunk/embed/insert); no page starts with less budget left */
+const PAGE_RESERVE_MS = 8000;
+const LEASE_GRACE_MS = 30_000;
+
+function backoffMs(errorCount: number): number {
+  const base = Number(process.env.REST_SYNC_BACKOFF_BASE_MS || 60_000);
+  const max = Number(process.env.REST_SYNC_BACKOFF_MAX_MS || 6 * 60 * 60 * 1000);
+  return Math.min(max, base * 2 ** Math.max(0, errorCount - 1));
+}
+
+export function scheduleOf(config: unknown): RestSyncSchedule | null {
+  const schedule = config && typeof config === "object" ? (config as { schedule?: RestSyncSchedule }).schedule : undefined;
+  if (!schedule || (!schedule.cron && !schedule.intervalMinutes)) return null;
+  return schedule;
+}
+
+/** Normalises a schedule from the backoffice form; an empty interval and cron means manual sync only. */
+export function validateRestSchedule(input: RestSyncSchedule): { ok: true; schedule: RestSyncSchedule | null } | { ok: false; error: string } {
+  const cron = input.cron?.trim() || null;
+  const interval = input.intervalMinutes == null || Number.isNaN(input.intervalMinutes) ? null : Math.floor(input.intervalMinutes);
+  if (cron) {
+    try {
+      nextCronRun(parseCron(cron), new Date());
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : "Invalid cron expression" };
+    }
+    return { ok: true, schedule: { cron, intervalMinutes: null, paused: Boolean(input.paused) } };
+  }
+  if (interval == null) return { ok: true, schedule: null };
+  if (interval < MIN_INTERVAL_MINUTES || interval > MAX_INTERVAL_MINUTES) {
+    return { ok: false, error: `Interval must be between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES} minutes` };
+  }
+  return { ok: true, schedule: { cron: null, intervalMinutes: interval, paused: Boolean(input.paused) } };
+}
+
+/** Next run start after a run that started at `runStartedAt` (intervals count from the start, cron from now). */
+export function nextScheduledRun(schedule: RestSyncSchedule, runStartedAt: Date): Date | null {
+  if (schedule.cron) return nextCronRun(schedule.cron, new Date(Math.max(Date.now(), runStartedAt.getTime())));
+  if (schedule.intervalMinutes) return new Date(runStartedAt.getTime() + schedule.intervalMinutes * 60_000);
+  return null;
+}
+
+/** Takes the source's lease; null when another scheduler call holds it. Creates the cursor row on first use. */
+async function claimSource(source: RestSourceRow, state: ScheduleState | null, leaseUntil: string): Promise<ScheduleState | null> {
+  const admin = await createAdminClient();
+  let id = state?.id;
+  if (!id) {
+    const { data: inserted } = await admin
+      .from("kb_rest_cursors")
+      .insert({ source_id: source.id, tenant_id: source.tenant_id, page_count: 0, item_count: 0 } as unknown as TablesInsert<"kb_rest_cursors">)
+      .select("id")
+      .maybeSingle<{ id: string }>();
+    // Lost a race with the operator's first manual batch: use that row
+    const existing = inserted ?? (await admin.from("kb_rest_cursors").select("id").eq("source_id", source.id).maybeSingle<{ id: string }>()).data;
+    if (!existing) return null;
+    id = existing.id;
+  }
+  const { data, error } = await admin
+    .from("kb_rest_cursors")
+    .update({ lease_expires_at: leaseUntil })
+    .eq("id", id)
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${new Date().toISOString()}`)
+    .select(STATE_COLUMNS)
+    .maybeSingle<ScheduleState>();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+async function runSource(source: RestSourceRow, schedule: RestSyncSchedule, state: ScheduleState, deadline: number): Promise<ScheduledSyncSummary["processed"][number]> {
+  const admin = await createAdminClient();
+  const now = new Date();
+  // A run starts once the previous one completed; until then the cursor is resumed where it stopped
+  const startsRun = !state.run_started_at || (state.run_completed_at != null && state.run_completed_at >= state.run_started_at);
+  const runStartedAt = startsRun ? now : new Date(state.run_started_at!);
+  if (startsRun) {
+    await admin
+      .from("kb_rest_cursors")
+      .update({ run_started_at: now.toISOString(), ...(state.run_started_at ? { next_cursor: null } : {}) })
+      .eq("id", state.id);
+  }
+
+  let pages = 0;
+  let outcome: "done" | "error" | "budget" = "budget";
+  let error: string | undefined;
+  while (Date.now() < deadline - PAGE_RESERVE_MS) {
+    let res: RunBatchResult;
+    try {
+      res = await syncRestSourcePage(source);
+    } catch (e) {
+      res = { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    if (!res.ok) {
+      outcome = "error";
+      error = res.error;
+      break;
+    }
+    pages++;
+    if (res.done) {
+      outcome = "done";
+      break;
+    }
+  }
+
+  const finishedAt = new Date();
+  let patch: Record<string, unknown>;
+  if (outcome === "done") {
+    patch = { run_completed_at: finishedAt.toISOString(), error_count: 0, next_run_at: nextScheduledRun(schedule, runStartedAt)?.toISOString() ?? null };
+  } else if (outcome === "error") {
+    const errorCount = pages > 0 ? 1 : (state.error_count ?? 0) + 1;
+    patch = {
+      error_count: errorCount,
+      next_run_at: new Date(finishedAt.getTime() + backoffMs(errorCount)).toISOString(),
+      last_status: "error",
+      // Fetch failures already stored the upstream message on the cursor
+      ...(error !== "fetch_failed" ? { last_error: error } : {}),
+    };
+  } else {
+    // Out of time mid-run: due again on the next call
+    patch = { error_count: pages > 0 ? 0 : state.error_count, next_run_at: finishedAt.toISOString() };
+  }
+  await admin
+    .from("kb_rest_cursors")
+    .update({ ...patch, lease_expires_at: null })
+    .eq("id", state.id);
+  return { sourceId: source.id, pages, outcome, error, nextRunAt: (patch.next_run_at as string | null) ?? null };
+}
+
+export async function runScheduledRestSync(opts: { budgetMs: number }): Promise<ScheduledSyncSummary> {
+  const deadline = Date.now() + opts.budgetMs;
+  const admin = await createAdminClient();
+  const { data: sourceRows, error } = await admin
+    .from("kb_sources")
+    .select("id, tenant_id, title, type, config, uri, backoffice_only")
+    .eq("type", "rest");
+  if (error) throw new Error(error.message);
+  const scheduled = ((sourceRows || []) as RestSourceRow[])
+    .map((source) => ({ source, schedule: scheduleOf(source.config) }))
+    .filter((s): s is { source: RestSourceRow; schedule: RestSyncSchedule } => Boolean(s.schedule && !s.schedule.paused));
+  if (scheduled.length === 0) return { due: 0, processed: [] };
+
+  const { data: stateRows, error: stateErr } = await admin
+    .from("kb_rest_cursors")
+    .select(STATE_COLUMNS)
+    .in("source_id", scheduled.map((s) => s.source.id));
+  if (stateErr) throw new Error(stateErr.message);
+  const stateBySource = new Map(((stateRows || []) as ScheduleState[]).map((s) => [s.source_id, s]));
+
+  const now = Date.now();
+  const due = scheduled
+    .map((s) => ({ ...s, state: stateBySource.get(s.source.id) ?? null }))
+    .filter((s) => !s.state?.next_run_at || new Date(s.state.next_run_at).getTime() <= now)
+    // Longest-waiting first, so one slow source can't starve the rest
+    .sort((a, b) => (a.state?.next_run_at ? new Date(a.state.next_run_at).getTime() : 0) - (b.state?.next_run_at ? new Date(b.state.next_run_at).getTime() : 0));
+
+  const processed: ScheduledSyncSummary["processed"] = [];
+  const leaseUntil = new Date(deadline + LEASE_GRACE_MS).toISOString();
+  for (const { source, schedule, state } of due) {
+    if (Date.now() >= deadline - PAGE_RESERVE_MS) break;
+    const claimed = await claimSource(source, state, leaseUntil);
+    if (!claimed) continue;
+    processed.push(await runSource(source, schedule, claimed, deadline));
+  }
+  return { due: due.length, processed };
+}
@@ -4,6 +4,11 @@ import "server-only";
 import { createClient } from "@/server/supabase/server";
 import type { TablesInsert } from "@/lib/types/database.types";
 import { requirePermission } from "@/lib/utils/requirePermission";
+import { validateEmbeddingModel } from "@/lib/kb/embed";
+import { validateChunkOptions } from "@/lib/kb/chunk";
+import { isFusionStrategy } from "@/lib/kb/fusion";
+import { cancelReembedJobs, enqueueReembedJob, getActiveReembedJob } from "@/server/kb/reembed";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
 
 type ActionResult = { ok: true } | { ok: false; error: string };
 
@@ -203,6 +208,11 @@ export type UpdateRagSettingsInput = {
   rerank_enabled: boolean;
   default_allowed_roles: string[];
   retrieval_timeout_ms: number;
+  chunk_target_tokens: number;
+  chunk_overlap_tokens: number;
+  fusion_strategy: string;
+  vector_weight: number;
+  keyword_weight: number;
 };
 
 export async function updateRagSettingsAction(input: UpdateRagSettingsInput): Promise<ActionResult> {
@@ -210,16 +220,59 @@ export async function updateRagSettingsAction(input: UpdateRagSettingsInput): Pr
   if (!tenantId) return { ok: false, error: "Missing tenant" };
   await requirePermission(tenantId, "settings.manage");
 
+  // Reject providers/models whose vectors can't live in the tenant's knowledge index
+  const embeddingCheck = validateEmbeddingModel(fields.embedding_model);
+  if (!embeddingCheck.ok) return { ok: false, error: embeddingCheck.error };
+  const chunkCheck = validateChunkOptions({ targetTokens: fields.chunk_target_tokens, overlapTokens: fields.chunk_overlap_tokens });
+  if (!chunkCheck.ok) return { ok: false, error: chunkCheck.error };
+  if (!isFusionStrategy(fields.fusion_strategy)) return { ok: false, error: "Unknown fusion strategy" };
+  const weightsValid = [fields.vector_weight, fields.keyword_weight].every((w) => Number.isFinite(w) && w >= 0 && w <= 1);
+  if (!weightsValid || fields.vector_weight + fields.keyword_weight <= 0) {
+    return { ok: false, error: "Fusion weights must be between 0 and 1 and not both 0" };
+  }
+
   const supabase = await createClient();
   const { data: { user }, error: userErr } = await supabase.auth.getUser();
   if (userErr) return { ok: false, error: "500" };
   if (!user) return { ok: false, error: "401" };
 
+  const { data: currentRow, error: curErr } = await supabase
+    .from("tenant_rag_settings")
+    .select("embedding_model")
+    .eq("tenant_id", tenantId)
+    .maybeSingle<{ embedding_model: string | null }>();
+  if (curErr) return { ok: false, error: curErr.message };
+  const fromModel = currentRow?.embedding_model ?? null;
+  const toModel = fields.embedding_model.trim();
+
+  // A new embedding model only goes live after existing chunks are re-embedded;
+  // until cut-over the tenant keeps querying with the old model against the old vectors.
+  let reembedJobId: string | null = null;
+  if (toModel !== (fromModel ?? "").trim()) {
+    const { count, error: countErr } = await supabase
+      .from("kb_chunks")
+      .select("id", { count: "exact", head: true })
+      .eq("tenant_id", tenantId);
+    if (countErr) return { ok: false, error: countErr.message };
+    if ((count ?? 0) > 0) {
+      const queued = await enqueueReembedJob({ tenantId, fromModel, toModel });
+      if (!queued.ok) return { ok: false, error: queued.error };
+      reembedJobId = queued.jobId;
+    }
+  } else {
+    // Switching back to the live model abandons any pending re-embed; otherwise it would cut over to the dropped model
+    const active = await getActiveReembedJob(tenantId);
+    if (active && active.metadata.to_model !== toModel) await cancelReembedJobs(tenantId);
+  }
+
+  const payload: Record<string, unknown> = { ...fields, embedding_model: reembedJobId ? fromModel : toModel, updated_at: new Date().toISOString() };
   const { error } = await supabase
     .from("tenant_rag_settings")
-    .update({ ...fields, updated_at: new Date().toISOString() } as unknown as Record<string, unknown>)
+    .update(payload)
     .eq("tenant_id", tenantId);
   if (error) return { ok: false, error: error.message };
+  // top K, overfetch, hybrid and rerank all change what retrieve() returns
+  await bumpKnowledgeGeneration(tenantId);
 
   try {
     await supabase.from("audit_logs").insert({
@@ -227,7 +280,7 @@ export async function updateRagSettingsAction(input: UpdateRagSettingsInput): Pr
       actor_user_id: user.id,
       action: "settings.rag.update",
       resource: "settings",
-      meta: { changed: Object.keys(fields) },
+      meta: { changed: Object.keys(fields), reembedJobId, ...(reembedJobId ? { fromModel, toModel } : {}) },
     } as unknown as TablesInsert<"audit_logs">);
   } catch {}
 
@@ -235,3 +288,28 @@ export async function updateRagSettingsAction(input: UpdateRagSettingsInput): Pr
 }
 
 
+
+export async function cancelReembedAction(input: { tenantId: string }): Promise<ActionResult> {
+  const { tenantId } = input;
+  if (!tenantId) return { ok: false, error: "Missing tenant" };
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+
+  // The live index was never touched before cut-over, so cancelling only drops staged vectors
+  await cancelReembedJobs(tenantId);
+
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: user.id,
+      action: "settings.rag.reembed_cancel",
+      resource: "settings",
+      meta: {},
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+
+  return { ok: true } as const;
+}
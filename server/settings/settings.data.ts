@@ -1,6 +1,7 @@
 "use server";
 
 import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient } from "@/server/supabase/server";
 
 export type ActiveAssistantPrompt = {
@@ -33,12 +34,17 @@ export type TenantRagSettings = {
   rerank_enabled: boolean;
   default_allowed_roles: string[];
   retrieval_timeout_ms: number;
+  chunk_target_tokens: number;
+  chunk_overlap_tokens: number;
+  fusion_strategy: string;
+  vector_weight: number;
+  keyword_weight: number;
   created_at: string;
   updated_at: string;
 };
 
-export async function getActiveAssistantPrompt(tenantId: string): Promise<ActiveAssistantPrompt | null> {
-  const supabase = await createClient();
+export async function getActiveAssistantPrompt(tenantId: string, db?: SupabaseClient): Promise<ActiveAssistantPrompt | null> {
+  const supabase = db ?? (await createClient());
   const { data, error } = await supabase
     .from("v_active_assistant_prompt")
     .select("tenant_id, version, prompt, role_overrides, updated_at")
@@ -60,12 +66,12 @@ export async function listAssistantPromptVersions(tenantId: string): Promise<Ass
   return rows;
 }
 
-export async function getTenantRagSettings(tenantId: string): Promise<TenantRagSettings | null> {
-  const supabase = await createClient();
+export async function getTenantRagSettings(tenantId: string, db?: SupabaseClient): Promise<TenantRagSettings | null> {
+  const supabase = db ?? (await createClient());
   const { data, error } = await supabase
     .from("tenant_rag_settings")
     .select(
-      "tenant_id, chat_model, temperature, max_context_tokens, embedding_model, retriever_top_k, overfetch, hybrid_enabled, rerank_enabled, default_allowed_roles, retrieval_timeout_ms, created_at, updated_at",
+      "tenant_id, chat_model, temperature, max_context_tokens, embedding_model, retriever_top_k, overfetch, hybrid_enabled, rerank_enabled, default_allowed_roles, retrieval_timeout_ms, chunk_target_tokens, chunk_overlap_tokens, fusion_strategy, vector_weight, keyword_weight, created_at, updated_at",
     )
     .eq("tenant_id", tenantId)
     .maybeSingle<TenantRagSettings>();
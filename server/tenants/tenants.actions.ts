@@ -5,6 +5,7 @@ import { createAdminClient } from "@/server/supabase/admin";
 import { requirePlatformAdmin } from "@/server/platform/platform-admin.data";
 import type { Tables, TablesInsert } from "@/lib/types/database.types";
 import { revalidatePath } from "next/cache";
+import { emitWebhookEvent } from "@/server/webhooks/webhooks";
 
 export type AcceptInviteResult = { ok: boolean; error?: string; tenant_slug?: string };
 
@@ -34,9 +35,26 @@ export async function acceptInviteAction(token: string, displayName?: string): P
   if (error) return { ok: false, error: error.message };
   const slug = (data as { tenant_slug?: string } | null)?.tenant_slug;
   if (!slug) return { ok: false, error: "Missing tenant slug" };
+  await notifyMemberJoined(slug, user.id, user.email ?? null);
   return { ok: true, tenant_slug: slug };
 }
 
+/** `member.joined` webhook; the role is read back from the membership the invite created. */
+async function notifyMemberJoined(slug: string, userId: string, email: string | null): Promise<void> {
+  try {
+    const admin = await createAdminClient();
+    const { data: tenant } = await admin.from("tenants").select("id").eq("slug", slug).maybeSingle<{ id: string }>();
+    if (!tenant) return;
+    const { data: membership } = await admin
+      .from("memberships")
+      .select("role_key")
+      .eq("tenant_id", tenant.id)
+      .eq("user_id", userId)
+      .maybeSingle<{ role_key: string }>();
+    await emitWebhookEvent(tenant.id, "member.joined", { user_id: userId, email, role_key: membership?.role_key ?? null });
+  } catch {}
+}
+
 export async function createTenantAction(
   name: string, 
   slug: string, 
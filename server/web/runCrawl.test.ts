@@ -0,0 +1,217 @@
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSourceConfig } from "@/lib/kb/crawl";
+
+/**
+ * Crawls the fixture site in docs/fixtures/web-crawl over a local HTTP server. Storage is an in-memory stand-in for
+ * the admin client; embedding and chunk reuse are stubbed since only the crawl itself is under test.
+ */
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Record<string, unknown>[]>, source: null as Record<string, unknown> | null }));
+
+function table(name: string): Row[] {
+  return (db.tables[name] ??= []);
+}
+
+function fakeAdmin() {
+  return {
+    from(name: string) {
+      const rows = table(name);
+      const filters: Array<(r: Row) => boolean> = [];
+      let run: () => Row[] = () => rows.filter((r) => filters.every((f) => f(r)));
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push((r) => r[column] === value);
+          return builder;
+        },
+        insert: (value: Row | Row[]) => {
+          const inserted = (Array.isArray(value) ? value : [value]).map((v) => ({ id: randomUUID(), ...v }));
+          run = () => {
+            rows.push(...inserted);
+            run = () => inserted;
+            return inserted;
+          };
+          return builder;
+        },
+        update: (patch: Row) => {
+          const select = run;
+          run = () => select().map((r) => Object.assign(r, patch));
+          return builder;
+        },
+        delete: () => {
+          const select = run;
+          run = () => select().map((r) => rows.splice(rows.indexOf(r), 1)[0]!);
+          return builder;
+        },
+        upsert: (value: Row, opts: { onConflict: string }) => {
+          const existing = rows.find((r) => r[opts.onConflict] === value[opts.onConflict]);
+          if (existing) Object.assign(existing, value);
+          else rows.push({ ...value });
+          run = () => [];
+          return builder;
+        },
+        maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+        single: async () => ({ data: run()[0] ?? null, error: null }),
+        then: (resolve: (v: { data: Row[]; error: null }) => unknown, reject?: (e: unknown) => unknown) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+      };
+      return builder;
+    },
+  };
+}
+
+vi.mock("@/server/supabase/admin", () => ({ createAdminClient: async () => fakeAdmin() }));
+vi.mock("./web.data", () => ({
+  getWebSource: async () => db.source,
+  getWebCursor: async () => (db.tables.kb_web_cursors ?? [])[0] ?? null,
+}));
+vi.mock("@/lib/kb/embed", () => ({ embedChunks: async (texts: string[]) => texts.map(() => [0]) }));
+vi.mock("@/server/kb/chunkReuse", () => ({
+  planChunkReuse: async ({ chunks }: { chunks: unknown[] }) => ({ reuse: chunks.map(() => null) }),
+  applyChunkReuse: async () => true,
+}));
+vi.mock("@/server/kb/retrievalCache", () => ({ bumpKnowledgeGeneration: vi.fn() }));
+
+import { runWebCrawlBatch } from "./runCrawl";
+
+const FIXTURE_DIR = path.join(process.cwd(), "docs/fixtures/web-crawl");
+const CONTENT_TYPES: Record<string, string> = { ".html": "text/html; charset=utf-8", ".xml": "application/xml", ".txt": "text/plain" };
+
+let server: Server;
+let origin: string;
+let hits: string[] = [];
+/** Paths answered with 503 once, as a site asking us to back off */
+let throttleOnce = new Set<string>();
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const pathname = new URL(req.url || "/", "http://fixture").pathname;
+    hits.push(pathname);
+    if (throttleOnce.delete(pathname)) {
+      res.writeHead(503).end();
+      return;
+    }
+    const file = pathname.endsWith("/") ? `${pathname}index.html` : pathname;
+    try {
+      // The fixtures name the documented `python3 -m http.server 8787` origin
+      const body = (await readFile(path.join(FIXTURE_DIR, file), "utf8")).replaceAll("http://localhost:8787", origin);
+      res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream" }).end(body);
+    } catch {
+      res.writeHead(404).end("Not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  vi.stubEnv("WEB_CRAWL_ALLOW_PRIVATE_HOSTS", "true");
+  vi.stubEnv("WEB_CRAWLER_USER_AGENT", "SwiftmindBot/1.0");
+  db.tables = {};
+  hits = [];
+  throttleOnce = new Set();
+});
+
+function useSource(config: WebSourceConfig) {
+  db.source = { id: "source-1", tenant_id: "tenant-1", title: "Fixture", type: "web", config, uri: null, default_allowed_roles: ["member"] };
+}
+
+async function crawlToEnd(maxBatches = 5) {
+  const results = [];
+  for (let i = 0; i < maxBatches; i++) {
+    const res = await runWebCrawlBatch("source-1");
+    results.push(res);
+    if (!res.ok || res.done) break;
+  }
+  return results;
+}
+
+function ingestedTitles(): string[] {
+  return table("kb_docs").map((d) => String(d.title)).sort();
+}
+
+function cursor(): Row {
+  return table("kb_web_cursors")[0]!;
+}
+
+describe("runWebCrawlBatch (fixture site)", () => {
+  it("follows links within scope and respects robots.txt, noindex and canonical", async () => {
+    useSource({ startUrl: `${origin}/`, maxDepth: 2, delayMs: 0 });
+    const results = await crawlToEnd();
+
+    expect(results.at(-1)).toMatchObject({ ok: true, done: true });
+    expect(ingestedTitles()).toEqual(["Acme Help Center", "Billing", "Getting started"]);
+    expect(table("kb_chunks").every((c) => JSON.stringify(c.allowed_roles) === JSON.stringify(["member"]))).toBe(true);
+    // Disallowed for every agent: never requested
+    expect(hits).not.toContain("/private/secret.html");
+    expect(hits.filter((h) => h === "/robots.txt")).toHaveLength(1);
+    // Off-host links never enter the frontier
+    expect((cursor().seen as string[]).some((u) => u.includes("example.org"))).toBe(false);
+    expect(cursor()).toMatchObject({ frontier: [], last_status: "ok" });
+  }, 20_000);
+
+  it("crawls the sitemap's pages at depth 0 and skips the disallowed one", async () => {
+    useSource({ sitemapUrl: `${origin}/sitemap.xml`, maxDepth: 0, delayMs: 0 });
+    await crawlToEnd();
+
+    expect(ingestedTitles()).toEqual(["Acme Help Center", "Billing", "Getting started"]);
+    expect(hits).not.toContain("/private/secret.html");
+    expect(hits).not.toContain("/legal.html");
+  }, 20_000);
+
+  it("keeps excluded and non-included paths out of the crawl", async () => {
+    useSource({ startUrl: `${origin}/docs/getting-started.html`, include: ["/docs/*"], exclude: ["/docs/billing*"], maxDepth: 2, delayMs: 0 });
+    await crawlToEnd();
+
+    // The printable copy is kept: its canonical page is excluded, so it isn't crawled there instead
+    expect(ingestedTitles()).toEqual(["Billing (printable)", "Getting started"]);
+    expect(hits).not.toContain("/");
+    expect(hits).not.toContain("/docs/billing.html");
+    expect(hits).toContain("/docs/advanced/sso.html");
+  }, 20_000);
+
+  it("crawls nothing for an agent robots.txt disallows", async () => {
+    vi.stubEnv("WEB_CRAWLER_USER_AGENT", "BadBot");
+    useSource({ startUrl: `${origin}/`, maxDepth: 2, delayMs: 0 });
+    const [res] = await crawlToEnd();
+
+    expect(res).toMatchObject({ ok: true, done: true, pages: 0, skipped: 1 });
+    expect(hits).toEqual(["/robots.txt"]);
+    expect(table("kb_docs")).toHaveLength(0);
+  });
+
+  it("keeps a throttled page on the cursor and resumes from it with the cached robots.txt", async () => {
+    useSource({ startUrl: `${origin}/`, maxDepth: 1, delayMs: 0 });
+    throttleOnce.add("/docs/billing.html");
+
+    const first = await runWebCrawlBatch("source-1");
+    expect(first).toMatchObject({ ok: true, done: false, next: `${origin}/docs/billing.html` });
+    expect(cursor()).toMatchObject({ last_status: "throttled", last_http_status: 503 });
+    expect(ingestedTitles()).not.toContain("Billing");
+
+    const second = await runWebCrawlBatch("source-1");
+    expect(second).toMatchObject({ ok: true });
+    expect(hits.filter((h) => h === "/docs/billing.html")).toHaveLength(2);
+    expect(hits.filter((h) => h === "/robots.txt")).toHaveLength(1);
+    expect(ingestedTitles()).toContain("Billing");
+    expect(cursor().page_count).toBe((first.ok ? first.pages : 0) + (second.ok ? second.pages : 0));
+  }, 20_000);
+
+  it("refuses a site on a private address unless local hosts are allowed", async () => {
+    vi.stubEnv("WEB_CRAWL_ALLOW_PRIVATE_HOSTS", "");
+    useSource({ startUrl: `${origin}/`, maxDepth: 2, delayMs: 0 });
+
+    await expect(runWebCrawlBatch("source-1")).resolves.toMatchObject({ ok: false, error: "127.0.0.1 resolves to a private address" });
+    expect(hits).toHaveLength(0);
+  });
+});
@@ -0,0 +1,374 @@
+"use server";
+
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { getWebCursor, getWebSource, type FrontierEntry, type WebSourceRow } from "./web.data";
+import {
+  ALLOW_ALL,
+  DEFAULT_DELAY_MS,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_MAX_PAGES,
+  crawlHosts,
+  isAllowedByRobots,
+  isInCrawlScope,
+  normalizeCrawlUrl,
+  parseRobotsTxt,
+  parseSitemap,
+  type RobotsPolicy,
+  type WebSourceConfig,
+} from "@/lib/kb/crawl";
+import { extractWebPage, hashContent, type WebPage } from "@/lib/kb/extract";
+import { chunkContent, formatBreadcrumb, resolveChunkOptions } from "@/lib/kb/chunk";
+import { embedChunks } from "@/lib/kb/embed";
+import { applyChunkReuse, planChunkReuse } from "@/server/kb/chunkReuse";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { assertPublicHost, fetchPublic, readBodyWithLimit } from "@/lib/utils/net.server";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * One resumable batch of a web source crawl: fetches up to `PAGES_PER_BATCH` pages from the cursor's frontier,
+ * politely (robots.txt, `Crawl-delay`, one request at a time), and ingests each page's main content as its own
+ * `kb_doc` with the page URL as `uri`. Pages whose text is unchanged since the last crawl are skipped; changed
+ * pages only embed their changed chunks.
+ * - `WEB_CRAWLER_USER_AGENT` — sent with every request and matched against robots.txt groups
+ * - `WEB_CRAWL_ALLOW_PRIVATE_HOSTS=true` — allow loopback/private addresses (local fixture servers)
+ */
+
+export type CrawlBatchOk = { ok: true; done: boolean; pages: number; ingested: number; skipped: number; queued: number; next: string | null; status: number };
+export type CrawlBatchErr = { ok: false; error: string };
+export type CrawlBatchResult = CrawlBatchOk | CrawlBatchErr;
+
+type RobotsCache = Record<string, RobotsPolicy & { fetchedAt: string }>;
+
+type FetchedPage = { status: number; url: string; contentType: string; body: string };
+
+/** The page itself can't be crawled (size, redirects, timeout); anything else means the site is unreachable */
+class PageRejectedError extends Error {}
+
+const PAGES_PER_BATCH = 10;
+const BATCH_BUDGET_MS = 25_000;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+const INSERT_BATCH = 100;
+
+function userAgent(): string {
+  return process.env.WEB_CRAWLER_USER_AGENT || "SwiftmindBot/1.0";
+}
+
+/** GET with redirects followed by hand, so every hop is checked for scope and address before it is requested. */
+async function fetchPage(url: string, accept: string, inScope: (url: string) => boolean): Promise<FetchedPage> {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    const ac = new AbortController();
+    const to = setTimeout(() => ac.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const res = await fetchPublic(current, { method: "GET", headers: { "User-Agent": userAgent(), Accept: accept }, redirect: "manual", signal: ac.signal, cache: "no-store" });
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        await res.body?.cancel().catch(() => {});
+        const next = normalizeCrawlUrl(location, current);
+        if (!next || !inScope(next)) throw new PageRejectedError(`Redirect out of scope: ${location}`);
+        if (hop >= MAX_REDIRECTS) throw new PageRejectedError("Too many redirects");
+        current = next;
+        continue;
+      }
+      const contentType = (res.headers.get("content-type") || "").toLowerCase();
+      const buffer = await readBodyWithLimit(res, MAX_PAGE_BYTES);
+      if (!buffer) throw new PageRejectedError("Page too large");
+      return { status: res.status, url: current, contentType, body: buffer.toString("utf8") };
+    } catch (e) {
+      if (ac.signal.aborted) throw new PageRejectedError("Timed out");
+      throw e;
+    } finally {
+      clearTimeout(to);
+    }
+  }
+}
+
+/** robots.txt for an origin, cached on the cursor. Null when it can't be read (5xx/network): crawl nothing there for now. */
+async function robotsFor(origin: string, cache: RobotsCache): Promise<RobotsPolicy | null> {
+  const cached = cache[origin];
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < ROBOTS_TTL_MS) return cached;
+  let policy: RobotsPolicy;
+  try {
+    const res = await fetchPage(`${origin}/robots.txt`, "text/plain", (u) => new URL(u).origin === origin);
+    if (res.status >= 500) return null;
+    // A missing robots.txt (4xx) allows everything
+    policy = res.status >= 200 && res.status < 300 ? parseRobotsTxt(res.body, userAgent()) : ALLOW_ALL;
+  } catch {
+    return null;
+  }
+  cache[origin] = { ...policy, fetchedAt: new Date().toISOString() };
+  return policy;
+}
+
+async function deletePageDoc(source: WebSourceRow, url: string): Promise<boolean> {
+  const admin = await createAdminClient();
+  const { data: doc } = await admin
+    .from("kb_docs")
+    .select("id")
+    .eq("tenant_id", source.tenant_id)
+    .eq("source_id", source.id)
+    .eq("uri", url)
+    .maybeSingle<{ id: string }>();
+  if (!doc) return false;
+  const { error: chunkErr } = await admin.from("kb_chunks").delete().eq("tenant_id", source.tenant_id).eq("doc_id", doc.id);
+  if (chunkErr) throw new Error(chunkErr.message);
+  const { error: docErr } = await admin.from("kb_docs").delete().eq("tenant_id", source.tenant_id).eq("id", doc.id);
+  if (docErr) throw new Error(docErr.message);
+  return true;
+}
+
+/** Creates or refreshes the page's document. Returns false when its text is unchanged. */
+async function ingestPage(source: WebSourceRow, url: string, page: WebPage, allowedRoles: string[]): Promise<boolean> {
+  const admin = await createAdminClient();
+  const contentHash = await hashContent(page.text);
+  const title = page.title || url;
+  const { data: existing } = await admin
+    .from("kb_docs")
+    .select("id, content_hash, status")
+    .eq("tenant_id", source.tenant_id)
+    .eq("source_id", source.id)
+    .eq("uri", url)
+    .maybeSingle<{ id: string; content_hash: string | null; status: string }>();
+  if (existing && existing.content_hash === contentHash && existing.status === "ready") return false;
+
+  let docId = existing?.id ?? null;
+  if (!docId) {
+    const { data: ins, error: insErr } = await admin
+      .from("kb_docs")
+      .insert({ tenant_id: source.tenant_id, source_id: source.id, title, uri: url, status: "processing", error: null } as unknown as TablesInsert<"kb_docs">)
+      .select("id")
+      .single<{ id: string }>();
+    if (insErr) throw new Error(insErr.message);
+    docId = ins.id;
+  }
+
+  const { data: ragRow } = await admin
+    .from("tenant_rag_settings")
+    .select("embedding_model, chunk_target_tokens, chunk_overlap_tokens")
+    .eq("tenant_id", source.tenant_id)
+    .maybeSingle<{ embedding_model: string | null; chunk_target_tokens: number | null; chunk_overlap_tokens: number | null }>();
+  const embeddingModel = ragRow?.embedding_model ?? null;
+  const chunks = await Promise.all(
+    chunkContent(page.sections, resolveChunkOptions(ragRow)).map(async (c) => ({
+      title: c.title ?? null,
+      content: c.content,
+      metadata: {
+        sectionIndex: c.sectionIndex,
+        fileExt: page.fileExt,
+        heading_path: c.headingPath,
+        breadcrumb: formatBreadcrumb(c.headingPath) || null,
+        token_count: c.tokens,
+        embedding_model: embeddingModel,
+        sourceId: source.id,
+        url,
+        contentHash: await hashContent(c.content),
+      } as Record<string, unknown>,
+    })),
+  );
+
+  // A re-crawled page keeps the rows (and embeddings) of its unchanged chunks
+  const plan = existing ? await planChunkReuse({ tenantId: source.tenant_id, docId, chunks, embeddingModel }) : { reuse: chunks.map(() => null) };
+  const pending = chunks.map((c, idx) => ({ c, idx })).filter(({ idx }) => !plan.reuse[idx]);
+  const embeddings = pending.length > 0 ? await embedChunks(pending.map(({ c }) => c.content), embeddingModel) : [];
+  const applied = await applyChunkReuse({
+    tenantId: source.tenant_id,
+    docId,
+    plan,
+    kept: (idx) => ({ title: chunks[idx]!.title, allowed_roles: allowedRoles, metadata: chunks[idx]!.metadata }),
+  });
+  if (!applied) throw new Error("Page chunks changed while indexing; the next batch retries it");
+  const rows = pending.map(({ c, idx }, i) => ({
+    tenant_id: source.tenant_id,
+    doc_id: docId!,
+    chunk_idx: idx,
+    title: c.title,
+    content: c.content,
+    embedding: JSON.stringify(embeddings[i]),
+    allowed_roles: allowedRoles,
+    metadata: c.metadata as unknown,
+  })) as unknown as TablesInsert<"kb_chunks">[];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error: chunkErr } = await admin.from("kb_chunks").insert(rows.slice(i, i + INSERT_BATCH));
+    if (chunkErr) throw new Error(chunkErr.message);
+  }
+  const { error: docErr } = await admin
+    .from("kb_docs")
+    .update({ title, status: "ready", content_hash: contentHash, error: null })
+    .eq("tenant_id", source.tenant_id)
+    .eq("id", docId);
+  if (docErr) throw new Error(docErr.message);
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export async function runWebCrawlBatch(sourceId: string): Promise<CrawlBatchResult> {
+  const admin = await createAdminClient();
+
+  const source = await getWebSource(sourceId);
+  if (!source || source.type !== "web") return { ok: false, error: "not found" };
+  const raw = source.config as unknown;
+  const config: WebSourceConfig = raw && typeof raw === "object" ? (raw as WebSourceConfig) : {};
+  const hosts = crawlHosts(config);
+  if (hosts.size === 0) return { ok: false, error: "missing startUrl or sitemapUrl in source config" };
+  const maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+  const allowedRoles = source.default_allowed_roles?.length ? source.default_allowed_roles : ["admin"];
+  const inScope = (url: string) => isInCrawlScope(url, config, hosts);
+
+  try {
+    for (const host of hosts) await assertPublicHost(`http://${host}/`);
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+
+  const cursorRow = await getWebCursor(sourceId);
+  const robotsCache: RobotsCache = { ...((cursorRow?.robots ?? {}) as RobotsCache) };
+  const seen = new Set(cursorRow?.seen ?? []);
+  let frontier: FrontierEntry[] = cursorRow?.frontier ?? [];
+  const enqueue = (href: string, depth: number, sitemap = false) => {
+    const url = normalizeCrawlUrl(href);
+    if (!url || seen.has(url) || seen.size >= maxPages || !inScope(url)) return;
+    seen.add(url);
+    frontier.push({ url, depth, ...(sitemap ? { sitemap: true } : {}) });
+  };
+  if (!cursorRow?.frontier) {
+    frontier = [];
+    if (config.sitemapUrl) enqueue(config.sitemapUrl, 0, true);
+    if (config.startUrl) enqueue(config.startUrl, 0);
+  }
+
+  const deadline = Date.now() + BATCH_BUDGET_MS;
+  let pages = 0;
+  let ingested = 0;
+  let skipped = 0;
+  let changed = false;
+  let lastFetchAt = 0;
+  let httpStatus = 0;
+  let status: "ok" | "error" | "throttled" = "ok";
+  let lastError: string | null = null;
+
+  while (frontier.length > 0 && pages < PAGES_PER_BATCH && Date.now() < deadline) {
+    const entry = frontier[0]!;
+    const robots = await robotsFor(new URL(entry.url).origin, robotsCache);
+    if (!robots) {
+      status = "error";
+      lastError = `robots.txt of ${new URL(entry.url).origin} is unreachable; retrying next batch`;
+      break;
+    }
+    if (!isAllowedByRobots(robots, entry.url)) {
+      frontier.shift();
+      skipped++;
+      continue;
+    }
+
+    const wait = lastFetchAt + Math.max(config.delayMs ?? DEFAULT_DELAY_MS, robots.crawlDelayMs ?? 0) - Date.now();
+    if (wait > 0) {
+      if (Date.now() + wait > deadline) break;
+      await sleep(wait);
+    }
+    let page: FetchedPage;
+    try {
+      page = await fetchPage(entry.url, entry.sitemap ? "application/xml, text/xml" : "text/html, application/xhtml+xml", inScope);
+    } catch (e) {
+      lastError = `${entry.url}: ${e instanceof Error ? e.message : String(e)}`;
+      if (!(e instanceof PageRejectedError)) {
+        // Site down or network trouble: keep the page and resume from it next batch
+        status = "error";
+        break;
+      }
+      frontier.shift();
+      skipped++;
+      continue;
+    } finally {
+      lastFetchAt = Date.now();
+    }
+    pages++;
+    httpStatus = page.status;
+
+    // The site asks us to slow down: keep the page and stop here
+    if (page.status === 429 || page.status === 503) {
+      status = "throttled";
+      lastError = `${entry.url}: HTTP ${page.status}`;
+      break;
+    }
+    if (page.status < 200 || page.status >= 300) {
+      // Pages that are gone take their document with them
+      if ((page.status === 404 || page.status === 410) && !entry.sitemap && (await deletePageDoc(source, entry.url))) changed = true;
+      frontier.shift();
+      skipped++;
+      continue;
+    }
+    seen.add(page.url);
+
+    if (entry.sitemap) {
+      const { pages: urls, sitemaps } = parseSitemap(page.body);
+      for (const u of sitemaps) enqueue(u, 0, true);
+      for (const u of urls) enqueue(u, 0);
+      frontier.shift();
+      continue;
+    }
+    if (!page.contentType.includes("html")) {
+      frontier.shift();
+      skipped++;
+      continue;
+    }
+
+    const extracted = await extractWebPage(page.body, page.url);
+    if (!extracted.nofollow && entry.depth < maxDepth) for (const link of extracted.links) enqueue(link, entry.depth + 1);
+    // Duplicates that name their canonical page are crawled there instead
+    if (extracted.canonical && inScope(extracted.canonical)) {
+      enqueue(extracted.canonical, entry.depth);
+      frontier.shift();
+      skipped++;
+      continue;
+    }
+    if (extracted.noindex || !extracted.text) {
+      frontier.shift();
+      skipped++;
+      continue;
+    }
+    try {
+      if (await ingestPage(source, page.url, extracted, allowedRoles)) {
+        ingested++;
+        changed = true;
+      }
+    } catch (e) {
+      // Embedding/DB failures keep the page at the head of the frontier for the next batch
+      status = "error";
+      lastError = `${entry.url}: ${e instanceof Error ? e.message : String(e)}`;
+      break;
+    }
+    frontier.shift();
+  }
+
+  if (changed) await bumpKnowledgeGeneration(source.tenant_id);
+
+  const { error: cursorErr } = await admin.from("kb_web_cursors").upsert(
+    {
+      source_id: sourceId,
+      tenant_id: source.tenant_id,
+      frontier: frontier as unknown as Json,
+      seen: Array.from(seen),
+      robots: robotsCache as unknown as Json,
+      page_count: (cursorRow?.page_count ?? 0) + pages,
+      item_count: (cursorRow?.item_count ?? 0) + ingested,
+      last_status: status,
+      last_http_status: httpStatus || null,
+      last_error: lastError,
+      last_synced_at: new Date().toISOString(),
+    } as TablesInsert<"kb_web_cursors">,
+    { onConflict: "source_id" },
+  );
+  if (cursorErr) return { ok: false, error: cursorErr.message };
+  if (status === "error" && pages === 0) return { ok: false, error: lastError || "crawl_failed" };
+
+  return { ok: true, done: frontier.length === 0, pages, ingested, skipped, queued: frontier.length, next: frontier[0]?.url ?? null, status: httpStatus || 200 };
+}
@@ -0,0 +1,99 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createAdminClient } from "@/server/supabase/admin";
+import { isPlatformAdmin } from "@/server/platform/platform-admin.data";
+import { bumpKnowledgeGeneration } from "@/server/kb/retrievalCache";
+import { validateWebSourceConfig, type WebSourceConfig } from "@/lib/kb/crawl";
+import type { TablesInsert } from "@/lib/types/database.types";
+
+type ActionResult = { ok: boolean; error?: string };
+
+export type CreateWebSourceInput = WebSourceConfig & { tenantSlug: string; title: string; allowedRoles: string[] };
+
+export async function createWebSourceAction(input: CreateWebSourceInput): Promise<ActionResult & { sourceId?: string }> {
+  const ok = await isPlatformAdmin();
+  if (!ok) return { ok: false, error: "forbidden" };
+  const title = input.title.trim();
+  if (!title) return { ok: false, error: "Title is required" };
+  const valid = validateWebSourceConfig(input);
+  if (!valid.ok) return { ok: false, error: valid.error };
+
+  const admin = await createAdminClient();
+  const { data: tenant } = await admin.from("tenants").select("id").eq("slug", input.tenantSlug.trim()).maybeSingle<{ id: string }>();
+  if (!tenant) return { ok: false, error: "Tenant not found" };
+
+  const roles = Array.from(new Set(input.allowedRoles.map((r) => r.trim()).filter(Boolean)));
+  const allowedRoles = roles.length ? roles : ["admin"];
+  const { data: known } = await admin.from("roles").select("key").eq("tenant_id", tenant.id).in("key", allowedRoles);
+  const unknown = allowedRoles.filter((r) => !(known || []).some((k) => k.key === r));
+  if (unknown.length) return { ok: false, error: `Unknown role${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}` };
+
+  const { data: row, error } = await admin
+    .from("kb_sources")
+    .insert({
+      tenant_id: tenant.id,
+      type: "web",
+      title,
+      uri: valid.config.startUrl ?? valid.config.sitemapUrl ?? null,
+      config: valid.config as unknown,
+      default_allowed_roles: allowedRoles,
+      backoffice_only: true,
+    } as unknown as TablesInsert<"kb_sources">)
+    .select("id")
+    .single<{ id: string }>();
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/backoffice/web-sources");
+  return { ok: true, sourceId: row.id };
+}
+
+/** Starts the crawl over from the start URL/sitemap; documents stay and unchanged pages are skipped on the way. */
+export async function restartWebCrawlAction(formData: FormData): Promise<ActionResult> {
+  const ok = await isPlatformAdmin();
+  if (!ok) return { ok: false, error: "forbidden" };
+  const sourceId = (formData.get("sourceId") as string) || "";
+  if (!sourceId) return { ok: false, error: "missing sourceId" };
+
+  const admin = await createAdminClient();
+  const { error } = await admin
+    .from("kb_web_cursors")
+    .update({ frontier: null, seen: [], robots: null, last_status: null, last_http_status: null, last_error: null })
+    .eq("source_id", sourceId);
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/backoffice/web-sources");
+  return { ok: true };
+}
+
+export async function deleteWebSourceAction(formData: FormData): Promise<ActionResult> {
+  const ok = await isPlatformAdmin();
+  if (!ok) return { ok: false, error: "forbidden" };
+  const sourceId = (formData.get("sourceId") as string) || "";
+  if (!sourceId) return { ok: false, error: "missing sourceId" };
+
+  const admin = await createAdminClient();
+
+  const { data: docs, error: dErr } = await admin
+    .from("kb_docs")
+    .select("id, tenant_id")
+    .eq("source_id", sourceId);
+  if (dErr) return { ok: false, error: dErr.message };
+
+  for (const doc of docs || []) {
+    const { error: cErr } = await admin.from("kb_chunks").delete().eq("doc_id", doc.id).eq("tenant_id", doc.tenant_id);
+    if (cErr) return { ok: false, error: cErr.message };
+  }
+
+  const { error: delDocsErr } = await admin.from("kb_docs").delete().eq("source_id", sourceId);
+  if (delDocsErr) return { ok: false, error: delDocsErr.message };
+  for (const tenantId of new Set((docs || []).map((d) => d.tenant_id as string))) await bumpKnowledgeGeneration(tenantId);
+
+  await admin.from("kb_web_cursors").delete().eq("source_id", sourceId);
+
+  const { error: sErr } = await admin.from("kb_sources").delete().eq("id", sourceId).eq("type", "web");
+  if (sErr) return { ok: false, error: sErr.message };
+
+  revalidatePath("/backoffice/web-sources");
+  return { ok: true };
+}
@@ -0,0 +1,100 @@
+"use server";
+
+import "server-only";
+
+import { createAdminClient } from "@/server/supabase/admin";
+import { isPlatformAdmin } from "@/server/platform/platform-admin.data";
+import type { Json, Tables } from "@/lib/types/database.types";
+
+export type WebSourceRow = Pick<
+  Tables<"kb_sources">,
+  "id" | "tenant_id" | "title" | "type" | "config" | "uri" | "default_allowed_roles"
+> & { backoffice_only?: boolean | null };
+
+/** Page waiting to be fetched; sitemap entries are expanded into pages instead of being ingested */
+export type FrontierEntry = { url: string; depth: number; sitemap?: boolean };
+
+export type WebCursorRow = {
+  source_id: string;
+  /** Null until the first batch seeds it; an empty list means the crawl is complete */
+  frontier: FrontierEntry[] | null;
+  seen: string[];
+  /** Parsed robots.txt per origin with the time it was fetched */
+  robots: Json | null;
+  page_count: number;
+  item_count: number;
+  last_status: "ok" | "error" | "throttled" | null;
+  last_http_status: number | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+};
+
+export type WebSourceWithState = {
+  source: WebSourceRow;
+  cursor: WebCursorRow | null;
+  tenant: { id: string; name: string; slug: string } | null;
+};
+
+const CURSOR_COLUMNS = "source_id, frontier, seen, robots, page_count, item_count, last_status, last_http_status, last_synced_at, last_error";
+
+export async function listBackofficeWebSourcesWithCursor(): Promise<WebSourceWithState[]> {
+  const ok = await isPlatformAdmin();
+  if (!ok) throw new Error("403");
+
+  const supabase = await createAdminClient();
+
+  const { data: sources, error } = await supabase
+    .from("kb_sources")
+    .select("id, tenant_id, title, type, config, uri, default_allowed_roles, backoffice_only")
+    .eq("type", "web")
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+
+  const list = (sources || []) as WebSourceRow[];
+  if (list.length === 0) return [];
+
+  const ids = list.map((s) => s.id);
+  const tenantIds = Array.from(new Set(list.map((s) => s.tenant_id)));
+
+  const [cursorsRes, tenantsRes] = await Promise.all([
+    supabase.from("kb_web_cursors").select(CURSOR_COLUMNS).in("source_id", ids),
+    supabase.from("tenants").select("id, name, slug").in("id", tenantIds),
+  ]);
+
+  if (cursorsRes.error) throw new Error(cursorsRes.error.message);
+  if (tenantsRes.error) throw new Error(tenantsRes.error.message);
+
+  const cursorBySource = new Map<string, WebCursorRow>();
+  for (const c of (cursorsRes.data || []) as unknown as WebCursorRow[]) cursorBySource.set(c.source_id, c);
+
+  const tenantById = new Map<string, { id: string; name: string; slug: string }>();
+  for (const t of tenantsRes.data || []) tenantById.set(t.id, t as { id: string; name: string; slug: string });
+
+  return list.map((s) => ({
+    source: s,
+    cursor: cursorBySource.get(s.id) || null,
+    tenant: tenantById.get(s.tenant_id) || null,
+  }));
+}
+
+export async function getWebSource(sourceId: string): Promise<WebSourceRow | null> {
+  const ok = await isPlatformAdmin();
+  if (!ok) throw new Error("403");
+  const supabase = await createAdminClient();
+  const { data, error } = await supabase
+    .from("kb_sources")
+    .select("id, tenant_id, title, type, config, uri, default_allowed_roles, backoffice_only")
+    .eq("id", sourceId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as WebSourceRow) || null;
+}
+
+export async function getWebCursor(sourceId: string): Promise<WebCursorRow | null> {
+  const ok = await isPlatformAdmin();
+  if (!ok) throw new Error("403");
+  const supabase = await createAdminClient();
+  const { data, error } = await supabase.from("kb_web_cursors").select(CURSOR_COLUMNS).eq("source_id", sourceId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as unknown as WebCursorRow) || null;
+}
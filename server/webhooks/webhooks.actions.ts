@@ -0,0 +1,179 @@
+"use server";
+
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { createClient } from "@/server/supabase/server";
+import { createAdminClient } from "@/server/supabase/admin";
+import type { TablesInsert } from "@/lib/types/database.types";
+import { requirePermission } from "@/lib/utils/requirePermission";
+import { encryptJson } from "@/lib/utils/crypto.server";
+import { assertPublicHost } from "@/lib/utils/net.server";
+import { isWebhookEventType } from "@/lib/utils/webhooks";
+import { generateWebhookSecret, redeliverWebhook, sendTestWebhook, webhookSecretProvider, type DeliveryOutcome } from "@/server/webhooks/webhooks";
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+export type DeliveryActionResult = { ok: true; outcome: DeliveryOutcome | null } | { ok: false; error: string };
+
+const MAX_NAME_CHARS = 100;
+const MAX_URL_CHARS = 2000;
+
+async function requireManager(tenantId: string): Promise<{ ok: true; userId: string } | { ok: false; error: string }> {
+  await requirePermission(tenantId, "settings.manage");
+  const supabase = await createClient();
+  const { data: { user }, error: userErr } = await supabase.auth.getUser();
+  if (userErr) return { ok: false, error: "500" };
+  if (!user) return { ok: false, error: "401" };
+  return { ok: true, userId: user.id };
+}
+
+async function validateEndpointUrl(raw: string): Promise<{ ok: true; url: string } | { ok: false; error: string }> {
+  const value = (raw || "").trim();
+  if (!value || value.length > MAX_URL_CHARS) return { ok: false, error: "Enter the endpoint URL" };
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { ok: false, error: "Invalid URL" };
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return { ok: false, error: "URL must start with https://" };
+  if (url.username || url.password) return { ok: false, error: "Put credentials in the signature check, not the URL" };
+  try {
+    await assertPublicHost(url.toString());
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Host not allowed" };
+  }
+  return { ok: true, url: url.toString() };
+}
+
+async function audit(tenantId: string, userId: string, action: string, meta: Record<string, unknown>): Promise<void> {
+  const supabase = await createClient();
+  try {
+    await supabase.from("audit_logs").insert({
+      tenant_id: tenantId,
+      actor_user_id: userId,
+      action,
+      resource: "webhook",
+      meta,
+    } as unknown as TablesInsert<"audit_logs">);
+  } catch {}
+}
+
+export type CreateWebhookEndpointInput = { tenantId: string; name: string; url: string; eventTypes: string[] };
+
+/** Returns the signing secret; it is stored encrypted and this is the only time it is shown. */
+export async function createWebhookEndpointAction(input: CreateWebhookEndpointInput): Promise<{ ok: true; id: string; secret: string } | { ok: false; error: string }> {
+  const { tenantId } = input;
+  const name = (input.name || "").trim();
+  if (!tenantId || !name) return { ok: false, error: "Missing input" };
+  if (name.length > MAX_NAME_CHARS) return { ok: false, error: `Name is longer than ${MAX_NAME_CHARS} characters` };
+  const eventTypes = Array.from(new Set(input.eventTypes || []));
+  if (eventTypes.length === 0) return { ok: false, error: "Pick at least one event" };
+  const unknown = eventTypes.find((t) => !isWebhookEventType(t));
+  if (unknown) return { ok: false, error: `Unknown event ${unknown}` };
+  const ctx = await requireManager(tenantId);
+  if (!ctx.ok) return ctx;
+  const valid = await validateEndpointUrl(input.url);
+  if (!valid.ok) return valid;
+
+  const id = randomUUID();
+  const secret = generateWebhookSecret();
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("webhook_endpoints")
+    .insert({ id, tenant_id: tenantId, name, url: valid.url, event_types: eventTypes, enabled: true, created_by: ctx.userId } as TablesInsert<"webhook_endpoints">);
+  if (error) return { ok: false, error: error.message };
+
+  const admin = await createAdminClient();
+  const { ciphertext, nonce } = await encryptJson({ secret });
+  const { error: secretErr } = await admin.from("integration_secrets").insert({
+    tenant_id: tenantId,
+    provider: webhookSecretProvider(id),
+    ciphertext,
+    nonce,
+    key_version: 1,
+  } as TablesInsert<"integration_secrets">);
+  if (secretErr) {
+    await admin.from("webhook_endpoints").delete().eq("id", id);
+    return { ok: false, error: "Failed to store the signing secret" };
+  }
+
+  await audit(tenantId, ctx.userId, "webhook.create", { id, name, url: valid.url, eventTypes });
+  return { ok: true, id, secret };
+}
+
+export type UpdateWebhookEndpointInput = { tenantId: string; id: string; enabled?: boolean; eventTypes?: string[] };
+
+export async function updateWebhookEndpointAction(input: UpdateWebhookEndpointInput): Promise<ActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  const patch: { enabled?: boolean; event_types?: string[]; updated_at: string } = { updated_at: new Date().toISOString() };
+  if (typeof input.enabled === "boolean") patch.enabled = input.enabled;
+  if (input.eventTypes) {
+    const eventTypes = Array.from(new Set(input.eventTypes));
+    if (eventTypes.length === 0) return { ok: false, error: "Pick at least one event" };
+    const unknown = eventTypes.find((t) => !isWebhookEventType(t));
+    if (unknown) return { ok: false, error: `Unknown event ${unknown}` };
+    patch.event_types = eventTypes;
+  }
+  const ctx = await requireManager(tenantId);
+  if (!ctx.ok) return ctx;
+
+  const supabase = await createClient();
+  const { error } = await supabase.from("webhook_endpoints").update(patch).eq("tenant_id", tenantId).eq("id", id);
+  if (error) return { ok: false, error: error.message };
+  await audit(tenantId, ctx.userId, "webhook.update", { id, enabled: patch.enabled, eventTypes: patch.event_types });
+  return { ok: true } as const;
+}
+
+/** Deletes the endpoint, its delivery log and its secret. */
+export async function deleteWebhookEndpointAction(input: { tenantId: string; id: string }): Promise<ActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  const ctx = await requireManager(tenantId);
+  if (!ctx.ok) return ctx;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.from("webhook_endpoints").delete().eq("tenant_id", tenantId).eq("id", id).select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data || data.length === 0) return { ok: false, error: "Endpoint not found" };
+  const admin = await createAdminClient();
+  await admin.from("integration_secrets").delete().eq("tenant_id", tenantId).eq("provider", webhookSecretProvider(id));
+
+  await audit(tenantId, ctx.userId, "webhook.delete", { id });
+  return { ok: true } as const;
+}
+
+export async function sendTestWebhookAction(input: { tenantId: string; id: string }): Promise<DeliveryActionResult> {
+  const { tenantId, id } = input;
+  if (!tenantId || !id) return { ok: false, error: "Missing input" };
+  const ctx = await requireManager(tenantId);
+  if (!ctx.ok) return ctx;
+
+  const supabase = await createClient();
+  const { data: endpoint } = await supabase.from("webhook_endpoints").select("id").eq("tenant_id", tenantId).eq("id", id).maybeSingle();
+  if (!endpoint) return { ok: false, error: "Endpoint not found" };
+  try {
+    const { deliveryId, outcome } = await sendTestWebhook(tenantId, id);
+    await audit(tenantId, ctx.userId, "webhook.test", { id, deliveryId, status: outcome?.status ?? null });
+    return { ok: true, outcome };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Failed to send test event" };
+  }
+}
+
+/** Re-sends a delivered or dead-lettered delivery with a fresh set of attempts. */
+export async function redeliverWebhookAction(input: { tenantId: string; deliveryId: string }): Promise<DeliveryActionResult> {
+  const { tenantId, deliveryId } = input;
+  if (!tenantId || !deliveryId) return { ok: false, error: "Missing input" };
+  const ctx = await requireManager(tenantId);
+  if (!ctx.ok) return ctx;
+  try {
+    const outcome = await redeliverWebhook(tenantId, deliveryId);
+    if (!outcome) return { ok: false, error: "Delivery not found or already queued" };
+    await audit(tenantId, ctx.userId, "webhook.redeliver", { deliveryId, status: outcome.status });
+    return { ok: true, outcome };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Failed to redeliver" };
+  }
+}
@@ -0,0 +1,277 @@
+import "server-only";
+
+import crypto, { randomUUID } from "node:crypto";
+import { createAdminClient } from "@/server/supabase/admin";
+import { decryptJson } from "@/lib/utils/crypto.server";
+import { fetchPublic } from "@/lib/utils/net.server";
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TEST_EVENT, type WebhookDeliveryStatus, type WebhookEventType } from "@/lib/utils/webhooks";
+import type { Json, TablesInsert } from "@/lib/types/database.types";
+
+/**
+ * Outbound webhooks. `emitWebhookEvent` queues one `webhook_deliveries` row per subscribed endpoint; the deliveries
+ * are sent by `/api/cron/webhooks` (and right away for test events and redeliveries). Each attempt is signed with the
+ * endpoint's secret (stored encrypted under provider `webhook:<endpointId>`).
+ *
+ * A non-2xx response, timeout or network error is retried with exponential backoff; after `max_attempts` the
+ * delivery is dead-lettered (`status = 'dead'`) and stays in the log until redelivered by hand.
+ * - `WEBHOOK_BACKOFF_BASE_MS` (default 60000) doubles per attempt, up to `WEBHOOK_BACKOFF_MAX_MS` (default 6h)
+ * - `WEBHOOK_MAX_ATTEMPTS` (default 8) for new deliveries; test events get a single attempt
+ */
+
+export type WebhookDeliveryRow = {
+  id: string;
+  tenant_id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Json;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+};
+
+type EndpointRow = { id: string; tenant_id: string; url: string; enabled: boolean };
+
+export type DeliveryOutcome = { status: WebhookDeliveryStatus; responseStatus: number | null; error: string | null };
+
+export type WebhookRunSummary = { claimed: number; delivered: number; retried: number; dead: number };
+
+const DELIVERY_COLUMNS = "id, tenant_id, endpoint_id, event_id, event_type, payload, status, attempts, max_attempts";
+const TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_CHARS = 1000;
+const CLAIM_BATCH = 25;
+const LEASE_MS = 60_000;
+/** No attempt starts with less budget left than one request may take */
+const ATTEMPT_RESERVE_MS = TIMEOUT_MS + 2000;
+
+export function webhookSecretProvider(endpointId: string): string {
+  return `webhook:${endpointId}`;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/** Value of the signature header for `body` sent at `timestamp` (unix seconds). */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+function defaultMaxAttempts(): number {
+  return Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8));
+}
+
+function backoffMs(attempts: number): number {
+  const base = Number(process.env.WEBHOOK_BACKOFF_BASE_MS || 60_000);
+  const max = Number(process.env.WEBHOOK_BACKOFF_MAX_MS || 6 * 60 * 60 * 1000);
+  return Math.min(max, base * 2 ** Math.max(0, attempts - 1));
+}
+
+function buildPayload(eventId: string, type: string, tenantId: string, data: Record<string, Json>): Json {
+  return { id: eventId, type, created_at: new Date().toISOString(), tenant_id: tenantId, data };
+}
+
+/**
+ * Queues `type` for every enabled endpoint of the tenant subscribed to it. Never throws: a webhook problem must not
+ * fail the ingest, answer or invite that raised the event.
+ */
+export async function emitWebhookEvent(tenantId: string, type: WebhookEventType, data: Record<string, Json>): Promise<void> {
+  try {
+    const admin = await createAdminClient();
+    const { data: endpoints, error } = await admin
+      .from("webhook_endpoints")
+      .select("id")
+      .eq("tenant_id", tenantId)
+      .eq("enabled", true)
+      .contains("event_types", [type]);
+    if (error || !endpoints || endpoints.length === 0) return;
+    const eventId = randomUUID();
+    const payload = buildPayload(eventId, type, tenantId, data);
+    const maxAttempts = defaultMaxAttempts();
+    await admin.from("webhook_deliveries").insert(
+      (endpoints as Array<{ id: string }>).map((e) => ({
+        tenant_id: tenantId,
+        endpoint_id: e.id,
+        event_id: eventId,
+        event_type: type,
+        payload,
+        status: "pending",
+        max_attempts: maxAttempts,
+      })) as TablesInsert<"webhook_deliveries">[],
+    );
+  } catch {}
+}
+
+/** Queues a `webhook.test` delivery for one endpoint (subscribed or not) and sends it right away. */
+export async function sendTestWebhook(tenantId: string, endpointId: string): Promise<{ deliveryId: string; outcome: DeliveryOutcome | null }> {
+  const admin = await createAdminClient();
+  const eventId = randomUUID();
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .insert({
+      tenant_id: tenantId,
+      endpoint_id: endpointId,
+      event_id: eventId,
+      event_type: WEBHOOK_TEST_EVENT,
+      payload: buildPayload(eventId, WEBHOOK_TEST_EVENT, tenantId, { message: "Test event from SwiftMind" }),
+      status: "pending",
+      max_attempts: 1,
+    } as TablesInsert<"webhook_deliveries">)
+    .select("id")
+    .single<{ id: string }>();
+  if (error) throw new Error(error.message);
+  return { deliveryId: data.id, outcome: await deliverWebhookNow(data.id) };
+}
+
+/** Puts a delivery back in the queue with a fresh set of attempts and sends it right away. */
+export async function redeliverWebhook(tenantId: string, deliveryId: string): Promise<DeliveryOutcome | null> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString(), error: null, lease_expires_at: null })
+    .eq("tenant_id", tenantId)
+    .eq("id", deliveryId)
+    .neq("status", "pending")
+    .select("id");
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) return null;
+  return deliverWebhookNow(deliveryId);
+}
+
+/** Takes the delivery's lease; null when it is not pending or another sender holds it. */
+async function claimDelivery(deliveryId: string, leaseUntil: string): Promise<WebhookDeliveryRow | null> {
+  const admin = await createAdminClient();
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .update({ lease_expires_at: leaseUntil })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${new Date().toISOString()}`)
+    .select(DELIVERY_COLUMNS)
+    .maybeSingle<WebhookDeliveryRow>();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+async function deliverWebhookNow(deliveryId: string): Promise<DeliveryOutcome | null> {
+  const delivery = await claimDelivery(deliveryId, new Date(Date.now() + LEASE_MS).toISOString());
+  return delivery ? attemptDelivery(delivery) : null;
+}
+
+/** One signed POST of a claimed delivery; records the result and schedules the retry or dead-letters it. */
+async function attemptDelivery(delivery: WebhookDeliveryRow): Promise<DeliveryOutcome> {
+  const admin = await createAdminClient();
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  let permanent = false;
+
+  const { data: endpoint } = await admin
+    .from("webhook_endpoints")
+    .select("id, tenant_id, url, enabled")
+    .eq("id", delivery.endpoint_id)
+    .eq("tenant_id", delivery.tenant_id)
+    .maybeSingle<EndpointRow>();
+
+  if (!endpoint) {
+    error = "Endpoint deleted";
+    permanent = true;
+  } else if (!endpoint.enabled && delivery.event_type !== WEBHOOK_TEST_EVENT) {
+    error = "Endpoint disabled";
+    permanent = true;
+  } else {
+    const ac = new AbortController();
+    const to = setTimeout(() => ac.abort(), TIMEOUT_MS);
+    try {
+      const { data: secretRow } = await admin
+        .from("integration_secrets")
+        .select("ciphertext, nonce")
+        .eq("tenant_id", delivery.tenant_id)
+        .eq("provider", webhookSecretProvider(endpoint.id))
+        .maybeSingle<{ ciphertext: string; nonce: string }>();
+      if (!secretRow) throw new Error("missing signing secret");
+      const { secret } = await decryptJson<{ secret: string }>(secretRow.ciphertext, secretRow.nonce);
+
+      // Checked again on every attempt, against the address the connection actually uses
+      const body = JSON.stringify(delivery.payload);
+      const res = await fetchPublic(endpoint.url, {
+        method: "POST",
+        body,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "SwiftMind-Webhooks/1.0",
+          "X-SwiftMind-Event": delivery.event_type,
+          "X-SwiftMind-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, Math.floor(Date.now() / 1000), body),
+        },
+        redirect: "error",
+        signal: ac.signal,
+      });
+      responseStatus = res.status;
+      try {
+        responseBody = (await res.text()).slice(0, RESPONSE_BODY_CHARS);
+      } catch {}
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (e) {
+      error = ac.signal.aborted ? `Timed out after ${TIMEOUT_MS / 1000}s` : e instanceof Error ? e.message : String(e);
+    } finally {
+      clearTimeout(to);
+    }
+  }
+
+  const now = new Date();
+  const status: WebhookDeliveryStatus = !error ? "delivered" : permanent || attempts >= delivery.max_attempts ? "dead" : "pending";
+  await admin
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempts,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: status === "pending" ? new Date(now.getTime() + backoffMs(attempts)).toISOString() : null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+      delivered_at: status === "delivered" ? now.toISOString() : null,
+      lease_expires_at: null,
+    })
+    .eq("id", delivery.id);
+  return { status, responseStatus, error };
+}
+
+/** Sends due deliveries, oldest first, until the queue is empty or `budgetMs` is spent. */
+export async function runWebhookDeliveries(opts: { budgetMs: number }): Promise<WebhookRunSummary> {
+  const deadline = Date.now() + opts.budgetMs;
+  const admin = await createAdminClient();
+  const summary: WebhookRunSummary = { claimed: 0, delivered: 0, retried: 0, dead: 0 };
+  const leaseUntil = new Date(deadline + LEASE_MS).toISOString();
+  const seen = new Set<string>();
+
+  while (Date.now() < deadline - ATTEMPT_RESERVE_MS) {
+    const { data, error } = await admin
+      .from("webhook_deliveries")
+      .select("id")
+      .eq("status", "pending")
+      .lte("next_attempt_at", new Date().toISOString())
+      .or(`lease_expires_at.is.null,lease_expires_at.lt.${new Date().toISOString()}`)
+      .order("next_attempt_at", { ascending: true })
+      .limit(CLAIM_BATCH);
+    if (error) throw new Error(error.message);
+    const due = ((data || []) as Array<{ id: string }>).filter((d) => !seen.has(d.id));
+    if (due.length === 0) break;
+
+    for (const { id } of due) {
+      if (Date.now() >= deadline - ATTEMPT_RESERVE_MS) break;
+      seen.add(id);
+      const delivery = await claimDelivery(id, leaseUntil);
+      if (!delivery) continue;
+      summary.claimed++;
+      const outcome = await attemptDelivery(delivery);
+      if (outcome.status === "delivered") summary.delivered++;
+      else if (outcome.status === "dead") summary.dead++;
+      else summary.retried++;
+    }
+  }
+  return summary;
+}